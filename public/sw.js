@@ -1,133 +0,0 @@
-const CACHE_NAME = 'stablecoin-banking-v1';
-const urlsToCache = [
-  '/',
-  '/static/js/bundle.js',
-  '/static/css/main.css',
-  '/manifest.json',
-  '/icon-192x192.png',
-  '/icon-512x512.png'
-];
-
-self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => {
-        return cache.addAll(urlsToCache);
-      })
-  );
-});
-
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Return cached version or fetch from network
-        return response || fetch(event.request);
-      }
-    )
-  );
-});
-
-// Handle background sync for offline transactions
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'background-sync') {
-    event.waitUntil(doBackgroundSync());
-  }
-});
-
-function doBackgroundSync() {
-  // Handle offline transaction synchronization
-  return new Promise((resolve) => {
-    // Implementation for syncing offline transactions
-    resolve();
-  });
-}
-
-// Handle push notifications
-self.addEventListener('push', (event) => {
-  let data = {
-    title: 'StableCoin Banking',
-    body: 'New notification',
-    icon: '/icon-512x512.png',
-    badge: '/icon-512x512.png',
-    tag: 'default',
-    data: {}
-  };
-
-  if (event.data) {
-    try {
-      const payload = event.data.json();
-      data = { ...data, ...payload };
-    } catch (e) {
-      data.body = event.data.text();
-    }
-  }
-
-  const options = {
-    body: data.body,
-    icon: data.icon || '/icon-512x512.png',
-    badge: data.badge || '/icon-512x512.png',
-    tag: data.tag || 'default',
-    vibrate: [100, 50, 100],
-    data: data.data || {},
-    actions: [
-      {
-        action: 'view',
-        title: 'View',
-        icon: '/icon-512x512.png'
-      },
-      {
-        action: 'close',
-        title: 'Dismiss',
-        icon: '/icon-512x512.png'
-      }
-    ]
-  };
-
-  event.waitUntil(
-    self.registration.showNotification(data.title, options)
-  );
-});
-
-self.addEventListener('notificationclick', (event) => {
-  event.notification.close();
-
-  const data = event.notification.data || {};
-  
-  if (event.action === 'close') {
-    return;
-  }
-
-  // Handle different notification types
-  let url = '/';
-  if (data.type === 'chat_message') {
-    url = '/?openChat=true&conversationId=' + (data.conversationId || '');
-  } else if (data.type === 'transaction') {
-    url = '/?openHistory=true';
-  }
-
-  event.waitUntil(
-    clients.matchAll({ type: 'window', includeUncontrolled: true })
-      .then((clientList) => {
-        // Focus existing window if available
-        for (const client of clientList) {
-          if (client.url.includes(self.location.origin) && 'focus' in client) {
-            client.navigate(url);
-            return client.focus();
-          }
-        }
-        // Open new window if no existing window
-        if (clients.openWindow) {
-          return clients.openWindow(url);
-        }
-      })
-  );
-});
-
-// Handle messages from the main thread
-self.addEventListener('message', (event) => {
-  if (event.data && event.data.type === 'SHOW_NOTIFICATION') {
-    const { title, options } = event.data;
-    self.registration.showNotification(title, options);
-  }
-});
\ No newline at end of file
@@ -10,6 +10,7 @@ import AccountSettings from "./pages/AccountSettings";
 import ManageProfile from "./pages/ManageProfile";
 import MobileLanding from "./pages/MobileLanding";
 import ResetPassword from "./pages/ResetPassword";
+import PWAUpdatePrompt from "./components/PWAUpdatePrompt";
 
 const queryClient = new QueryClient();
 
@@ -18,6 +19,7 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <PWAUpdatePrompt />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
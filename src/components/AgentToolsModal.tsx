@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -15,6 +16,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import DisputeCasesPanel from "./DisputeCasesPanel";
 import {
   Wrench,
   Search,
@@ -26,6 +28,7 @@ import {
   Unlock,
   AlertTriangle,
   CheckCircle,
+  Ban,
 } from "lucide-react";
 
 interface AgentToolsModalProps {
@@ -42,6 +45,16 @@ interface UserProfile {
   balance: number;
   pin_enabled: boolean;
   role: string;
+  account_status: string;
+  account_status_reason: string | null;
+  created_at: string;
+}
+
+interface AccountStatusChange {
+  id: string;
+  previous_status: string;
+  new_status: string;
+  reason: string | null;
   created_at: string;
 }
 
@@ -62,6 +75,9 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
   const [userTransactions, setUserTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [statusReason, setStatusReason] = useState("");
+  const [statusHistory, setStatusHistory] = useState<AccountStatusChange[]>([]);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
 
   const handleSearch = async () => {
     if (!searchTerm.trim()) return;
@@ -70,7 +86,7 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select(PROFILE_COLUMNS)
         .or(`email.ilike.%${searchTerm}%,full_name.ilike.%${searchTerm}%,mobile_number.ilike.%${searchTerm}%`)
         .limit(10);
 
@@ -104,22 +120,44 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
     }
   };
 
+  const loadStatusHistory = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('account_status_history')
+        .select('id, previous_status, new_status, reason, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setStatusHistory(data || []);
+    } catch (error) {
+      console.error('Error loading account status history:', error);
+    }
+  };
+
   const handleSelectUser = async (user: UserProfile) => {
     setSelectedUser(user);
-    await loadUserTransactions(user.user_id);
+    setStatusReason("");
+    await Promise.all([
+      loadUserTransactions(user.user_id),
+      loadStatusHistory(user.user_id),
+    ]);
   };
 
   const handleResetPin = async () => {
     if (!selectedUser) return;
     
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ pin_hash: null, pin_enabled: false })
-        .eq('user_id', selectedUser.user_id);
+      const { data, error } = await supabase.rpc('reset_transaction_pin', {
+        p_user_id: selectedUser.user_id,
+      });
 
       if (error) throw error;
 
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) throw new Error(result?.error || 'Failed to reset PIN');
+
       toast({
         title: "PIN Reset",
         description: `PIN has been reset for ${selectedUser.full_name}`,
@@ -130,29 +168,76 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
       console.error('Error resetting PIN:', error);
       toast({
         title: "Error",
-        description: "Failed to reset PIN",
+        description: (error as Error).message || "Failed to reset PIN",
         variant: "destructive",
       });
     }
   };
 
-  const handleVerifyAccount = async () => {
+  const updateAccountStatus = async (status: 'active' | 'under_review' | 'frozen') => {
     if (!selectedUser) return;
-    
-    toast({
-      title: "Account Verified",
-      description: `Account for ${selectedUser.full_name} has been verified`,
-    });
+
+    if (status !== 'active' && !statusReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Please enter a reason for restricting this account",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUpdatingStatus(true);
+    try {
+      const { data, error } = await supabase.rpc('set_account_status', {
+        p_user_id: selectedUser.user_id,
+        p_status: status,
+        p_reason: statusReason.trim() || null,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to update account status');
+      }
+
+      const reason = status === 'active' ? null : statusReason.trim();
+      setSelectedUser({ ...selectedUser, account_status: status, account_status_reason: reason });
+      setSearchResults(prev => prev.map(u =>
+        u.user_id === selectedUser.user_id ? { ...u, account_status: status, account_status_reason: reason } : u
+      ));
+      setStatusReason("");
+      loadStatusHistory(selectedUser.user_id);
+
+      toast({
+        title: status === 'active' ? "Account Verified" : status === 'frozen' ? "Account Frozen" : "Account Flagged",
+        description: status === 'active'
+          ? `Account for ${selectedUser.full_name} is active`
+          : status === 'frozen'
+            ? `Account for ${selectedUser.full_name} has been frozen`
+            : `Account for ${selectedUser.full_name} has been flagged for review`,
+        variant: status === 'active' ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to update account status",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingStatus(false);
+    }
   };
 
-  const handleFlagAccount = async () => {
-    if (!selectedUser) return;
-    
-    toast({
-      title: "Account Flagged",
-      description: `Account for ${selectedUser.full_name} has been flagged for review`,
-      variant: "destructive",
-    });
+  const getAccountStatusVariant = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'default';
+      case 'under_review':
+        return 'secondary';
+      default:
+        return 'destructive';
+    }
   };
 
   return (
@@ -169,8 +254,9 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
         </DialogHeader>
 
         <Tabs defaultValue="lookup" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="lookup">Account Lookup</TabsTrigger>
+            <TabsTrigger value="disputes">Disputes</TabsTrigger>
             <TabsTrigger value="actions">Quick Actions</TabsTrigger>
             <TabsTrigger value="reports">Reports</TabsTrigger>
           </TabsList>
@@ -265,22 +351,72 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
                           <p className="text-muted-foreground">Role</p>
                           <Badge>{selectedUser.role}</Badge>
                         </div>
+                        <div className="col-span-2">
+                          <p className="text-muted-foreground">Account Status</p>
+                          <Badge variant={getAccountStatusVariant(selectedUser.account_status)} className="capitalize">
+                            {selectedUser.account_status?.replace('_', ' ')}
+                          </Badge>
+                          {selectedUser.account_status_reason && (
+                            <p className="text-xs text-muted-foreground mt-1">{selectedUser.account_status_reason}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        <Label htmlFor="status-reason" className="text-xs">Reason</Label>
+                        <Input
+                          id="status-reason"
+                          placeholder="Required to flag or freeze"
+                          value={statusReason}
+                          onChange={(e) => setStatusReason(e.target.value)}
+                        />
                       </div>
 
-                      <div className="flex gap-2 pt-2">
+                      <div className="flex flex-wrap gap-2 pt-2">
                         <Button size="sm" variant="outline" onClick={handleResetPin}>
                           <Lock className="h-3 w-3 mr-1" />
                           Reset PIN
                         </Button>
-                        <Button size="sm" variant="outline" onClick={handleVerifyAccount}>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => updateAccountStatus('active')}
+                          disabled={updatingStatus || selectedUser.account_status === 'active'}
+                        >
                           <CheckCircle className="h-3 w-3 mr-1" />
-                          Verify
+                          {selectedUser.account_status === 'frozen' ? 'Unfreeze' : 'Verify'}
                         </Button>
-                        <Button size="sm" variant="destructive" onClick={handleFlagAccount}>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => updateAccountStatus('under_review')}
+                          disabled={updatingStatus || selectedUser.account_status === 'under_review'}
+                        >
                           <AlertTriangle className="h-3 w-3 mr-1" />
                           Flag
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => updateAccountStatus('frozen')}
+                          disabled={updatingStatus || selectedUser.account_status === 'frozen'}
+                        >
+                          <Ban className="h-3 w-3 mr-1" />
+                          Freeze
+                        </Button>
                       </div>
+
+                      {statusHistory.length > 0 && (
+                        <div className="space-y-1 pt-2">
+                          <p className="text-xs font-medium text-muted-foreground">Status History</p>
+                          {statusHistory.map((change) => (
+                            <p key={change.id} className="text-xs text-muted-foreground">
+                              {new Date(change.created_at).toLocaleDateString()}: {change.previous_status} → {change.new_status}
+                              {change.reason && ` (${change.reason})`}
+                            </p>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <p className="text-sm text-muted-foreground text-center py-8">
@@ -324,6 +460,10 @@ const AgentToolsModal: React.FC<AgentToolsModalProps> = ({ open, onOpenChange })
             )}
           </TabsContent>
 
+          <TabsContent value="disputes" className="space-y-4">
+            <DisputeCasesPanel />
+          </TabsContent>
+
           <TabsContent value="actions" className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <Card className="cursor-pointer hover:bg-accent/50 transition-colors">
@@ -13,6 +13,7 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { generateWalletKeyPair, encryptPrivateKey } from "@/lib/wallet";
 import PasswordRecoveryModal from "./PasswordRecoveryModal";
+import { clearSessionActivity } from "@/hooks/useSessionTimeout";
 
 const AuthForm = () => {
   const [showPasswordRecovery, setShowPasswordRecovery] = useState(false);
@@ -75,7 +76,16 @@ const AuthForm = () => {
         if (!data.user) {
           throw new Error("Login failed. Please try again.");
         }
-        toast.success("Signed in successfully!");
+        // Idle time from an earlier session must not lock this one
+        clearSessionActivity();
+
+        // Accounts with an authenticator finish signing in on the two-factor screen
+        const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+        if (aal?.nextLevel === "aal2" && aal.currentLevel !== "aal2") {
+          toast.info("Enter the code from your authenticator app to continue");
+        } else {
+          toast.success("Signed in successfully!");
+        }
       } else {
         // Generate GYD wallet for new user
         toast.info("Generating your GYD wallet...");
@@ -0,0 +1,444 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { Clock, Download, File, Lock, RefreshCw, Undo2, Unlock, XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  claimDispute,
+  disputeDeadline,
+  disputeReasonLabel,
+  disputeStatusLabel,
+  downloadDisputeEvidence,
+  isDisputeOpen,
+  loadDisputeDetail,
+  loadDisputeQueue,
+  placeDisputeHold,
+  releaseDisputeHold,
+  resolveDispute,
+  type DisputeCase,
+  type DisputeEvent,
+  type DisputeEvidence,
+} from "@/lib/disputes";
+
+const EVENT_LABELS: Record<string, string> = {
+  opened: 'Dispute opened',
+  evidence_added: 'Evidence added',
+  claimed: 'Claimed by an agent',
+  note: 'Agent note',
+  hold_placed: 'Funds held',
+  hold_released: 'Hold released',
+  refunded: 'Resolved with a refund',
+  rejected: 'Closed without a refund',
+  withdrawn: 'Withdrawn by the customer',
+};
+
+const SlaBadge: React.FC<{ dispute: DisputeCase; now: number }> = ({ dispute, now }) => {
+  const deadline = disputeDeadline(dispute);
+  if (!deadline) return null;
+
+  const due = new Date(deadline.dueAt);
+  const overdue = due.getTime() <= now;
+  const soon = !overdue && due.getTime() - now < 4 * 60 * 60 * 1000;
+
+  return (
+    <Badge variant={overdue ? "destructive" : soon ? "secondary" : "outline"} className="text-xs">
+      <Clock className="h-3 w-3 mr-1" />
+      {overdue
+        ? `${deadline.label} overdue ${formatDistanceToNow(due)}`
+        : `${deadline.label} in ${formatDistanceToNow(due)}`}
+    </Badge>
+  );
+};
+
+const DisputeCasesPanel: React.FC = () => {
+  const { toast } = useToast();
+  const [view, setView] = useState<'open' | 'closed'>('open');
+  const [cases, setCases] = useState<DisputeCase[]>([]);
+  const [selected, setSelected] = useState<DisputeCase | null>(null);
+  const [evidence, setEvidence] = useState<DisputeEvidence[]>([]);
+  const [events, setEvents] = useState<DisputeEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [note, setNote] = useState("");
+  const [holdAmount, setHoldAmount] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const loadCases = useCallback(async () => {
+    setLoading(true);
+    try {
+      const queue = await loadDisputeQueue(view);
+      setCases(queue);
+      setSelected((current) => (current && queue.find((c) => c.id === current.id)) || null);
+      return queue;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load disputes",
+        variant: "destructive",
+      });
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [view, toast]);
+
+  useEffect(() => {
+    loadCases();
+  }, [loadCases]);
+
+  // Keeps the SLA countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const selectedId = selected?.id;
+
+  useEffect(() => {
+    if (!selectedId) {
+      setEvidence([]);
+      setEvents([]);
+      return;
+    }
+    loadDisputeDetail(selectedId)
+      .then((detail) => {
+        setEvidence(detail.evidence);
+        setEvents(detail.events);
+      })
+      .catch((error) => console.error('Error loading dispute detail:', error));
+  }, [selectedId]);
+
+  const selectCase = (dispute: DisputeCase) => {
+    setSelected(dispute);
+    setNote("");
+    setHoldAmount(dispute.amount.toFixed(2));
+    setRefundAmount(dispute.amount.toFixed(2));
+  };
+
+  const runAction = async (action: () => Promise<string>) => {
+    if (!selected) return;
+
+    setWorking(true);
+    try {
+      const message = await action();
+      toast({ title: "Case Updated", description: message });
+      setNote("");
+      // A closed case drops out of the open queue, and with it the selection
+      const queue = await loadCases();
+      if (queue.some((c) => c.id === selected.id)) {
+        const detail = await loadDisputeDetail(selected.id);
+        setEvidence(detail.evidence);
+        setEvents(detail.events);
+      }
+    } catch (error) {
+      toast({
+        title: "Action Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleClaim = () =>
+    runAction(async () => {
+      await claimDispute(selected!.id, note.trim() || null);
+      return note.trim() ? "Note added to the case" : "You are now handling this case";
+    });
+
+  const handleHold = () =>
+    runAction(async () => {
+      const held = await placeDisputeHold(selected!.id, parseFloat(holdAmount) || null);
+      return `Holding $${held.toFixed(2)} of the recipient's funds`;
+    });
+
+  const handleRelease = () =>
+    runAction(async () => {
+      const released = await releaseDisputeHold(selected!.id, note.trim() || null);
+      return `Released $${released.toFixed(2)} to the recipient`;
+    });
+
+  const handleResolve = (outcome: 'refund' | 'reject') => {
+    if (!note.trim()) {
+      toast({
+        title: "Note Required",
+        description: "Explain the outcome before closing the case",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    runAction(async () => {
+      const amount = parseFloat(refundAmount);
+      await resolveDispute({
+        disputeId: selected!.id,
+        outcome,
+        note: note.trim(),
+        amount: outcome === 'refund' && !isNaN(amount) ? amount : null,
+      });
+      return outcome === 'refund' ? "The transfer was reversed to the customer" : "The case was closed";
+    });
+  };
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  };
+
+  const overdueCount = cases.filter((c) => {
+    const deadline = disputeDeadline(c);
+    return deadline && new Date(deadline.dueAt).getTime() <= now;
+  }).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant={view === 'open' ? "default" : "outline"} size="sm" onClick={() => setView('open')}>
+          Open Cases
+        </Button>
+        <Button variant={view === 'closed' ? "default" : "outline"} size="sm" onClick={() => setView('closed')}>
+          Recently Closed
+        </Button>
+        {view === 'open' && overdueCount > 0 && (
+          <Badge variant="destructive">{overdueCount} overdue</Badge>
+        )}
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={() => loadCases()} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Queue */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">{view === 'open' ? 'Queue' : 'Closed Cases'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[400px]">
+              {cases.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {loading ? 'Loading...' : view === 'open' ? 'No open disputes' : 'No closed disputes'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {cases.map((dispute) => (
+                    <div
+                      key={dispute.id}
+                      className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                        selected?.id === dispute.id ? 'border-primary bg-accent' : 'hover:bg-accent/50'
+                      }`}
+                      onClick={() => selectCase(dispute)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-sm">{disputeReasonLabel(dispute.reason_code)}</p>
+                        <span className="text-sm font-medium">${dispute.amount.toFixed(2)}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {dispute.openerName || 'Unknown'} → {dispute.respondentName || 'Unknown'}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Badge variant="secondary" className="text-xs">{disputeStatusLabel(dispute.status)}</Badge>
+                        <SlaBadge dispute={dispute} now={now} />
+                        {dispute.hold_amount > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Held
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        {/* Case */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Case Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!selected ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Select a case to work on it
+              </p>
+            ) : (
+              <ScrollArea className="h-[400px] pr-2">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="secondary">{disputeStatusLabel(selected.status)}</Badge>
+                    <SlaBadge dispute={selected} now={now} />
+                  </div>
+
+                  <div className="text-sm space-y-1">
+                    <p>
+                      <span className="text-muted-foreground">Transfer:</span> ${selected.transactionAmount.toFixed(2)} on{" "}
+                      {new Date(selected.transactionDate).toLocaleString()}
+                    </p>
+                    <p className="text-xs font-mono text-muted-foreground">{selected.transaction_id}</p>
+                    <p>
+                      <span className="text-muted-foreground">Disputed:</span> ${selected.amount.toFixed(2)}
+                      {selected.hold_requested && <span className="text-muted-foreground"> · hold requested</span>}
+                    </p>
+                    {selected.hold_amount > 0 && selected.hold_expires_at && (
+                      <p>
+                        <span className="text-muted-foreground">Held:</span> ${selected.hold_amount.toFixed(2)} until{" "}
+                        {new Date(selected.hold_expires_at).toLocaleString()}
+                      </p>
+                    )}
+                    <p className="whitespace-pre-wrap bg-muted rounded p-2 text-xs">{selected.description}</p>
+                    {selected.resolution_note && (
+                      <p>
+                        <span className="text-muted-foreground">Outcome:</span> {selected.resolution_note}
+                      </p>
+                    )}
+                  </div>
+
+                  {evidence.length > 0 && (
+                    <>
+                      <Separator />
+                      <div className="space-y-1">
+                        <p className="text-xs font-semibold">Evidence</p>
+                        {evidence.map((item) => (
+                          <div key={item.id} className="flex items-center justify-between text-xs">
+                            <span className="flex items-center truncate">
+                              <File className="h-3 w-3 mr-1 shrink-0" />
+                              <span className="truncate">{item.file_name}</span>
+                              <span className="text-muted-foreground ml-2">{formatFileSize(item.file_size)}</span>
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              onClick={() =>
+                                downloadDisputeEvidence(item).catch((error) =>
+                                  toast({
+                                    title: "Download failed",
+                                    description: (error as Error).message,
+                                    variant: "destructive",
+                                  })
+                                )
+                              }
+                            >
+                              <Download className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+
+                  <Separator />
+                  <div className="space-y-1">
+                    <p className="text-xs font-semibold">History</p>
+                    {events.map((event) => (
+                      <div key={event.id} className="text-xs">
+                        <span className="text-muted-foreground">{new Date(event.created_at).toLocaleString()}</span>{" "}
+                        {EVENT_LABELS[event.event_type] || event.event_type}
+                        {typeof event.data.amount === 'number' && ` ($${event.data.amount.toFixed(2)})`}
+                        {event.note && event.event_type !== 'opened' && (
+                          <span className="text-muted-foreground"> · {event.note}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {isDisputeOpen(selected) && (
+                    <>
+                      <Separator />
+                      <div className="space-y-2">
+                        <Label htmlFor="dispute-note" className="text-xs">Note / Resolution</Label>
+                        <Textarea
+                          id="dispute-note"
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          rows={2}
+                          maxLength={2000}
+                          placeholder="Add a note, or explain the outcome"
+                        />
+                        <Button variant="outline" size="sm" className="w-full" onClick={handleClaim} disabled={working}>
+                          {note.trim() ? 'Add Note' : 'Claim Case'}
+                        </Button>
+                      </div>
+
+                      <div className="flex gap-2 items-end">
+                        {selected.hold_amount > 0 ? (
+                          <Button variant="outline" size="sm" className="flex-1" onClick={handleRelease} disabled={working}>
+                            <Unlock className="h-4 w-4 mr-1" />
+                            Release Hold
+                          </Button>
+                        ) : (
+                          <>
+                            <div className="flex-1">
+                              <Label htmlFor="hold-amount" className="text-xs">Hold Amount</Label>
+                              <Input
+                                id="hold-amount"
+                                type="number"
+                                step="0.01"
+                                min="0.01"
+                                max={selected.amount}
+                                value={holdAmount}
+                                onChange={(e) => setHoldAmount(e.target.value)}
+                              />
+                            </div>
+                            <Button variant="outline" size="sm" onClick={handleHold} disabled={working}>
+                              <Lock className="h-4 w-4 mr-1" />
+                              Hold Funds
+                            </Button>
+                          </>
+                        )}
+                      </div>
+
+                      <div>
+                        <Label htmlFor="refund-amount" className="text-xs">Refund Amount</Label>
+                        <Input
+                          id="refund-amount"
+                          type="number"
+                          step="0.01"
+                          min="0.01"
+                          max={selected.amount}
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => handleResolve('reject')}
+                          disabled={working}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button size="sm" className="flex-1" onClick={() => handleResolve('refund')} disabled={working}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Refund
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeCasesPanel;
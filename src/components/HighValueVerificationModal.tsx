@@ -5,15 +5,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { AlertTriangle, Shield, DollarSign, Lock, CheckCircle } from "lucide-react";
+import { getVerifiedTotpFactor, verifyTotpCode } from "@/lib/twoFactor";
+import { AlertTriangle, Shield, DollarSign, Lock, CheckCircle, Smartphone } from "lucide-react";
 
 interface HighValueVerificationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   amount: number;
   recipientName: string;
+  pinLength?: number;
   onVerified: () => void;
   onCancel: () => void;
 }
@@ -23,10 +26,14 @@ export function HighValueVerificationModal({
   onOpenChange,
   amount,
   recipientName,
+  pinLength = 4,
   onVerified,
   onCancel
 }: HighValueVerificationModalProps) {
   const [pin, setPin] = useState("");
+  const [totpCode, setTotpCode] = useState("");
+  const [method, setMethod] = useState<"pin" | "totp">("pin");
+  const [hasAuthenticator, setHasAuthenticator] = useState(false);
   const [confirmed, setConfirmed] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
@@ -34,10 +41,22 @@ export function HighValueVerificationModal({
   useEffect(() => {
     if (!open) {
       setPin("");
+      setTotpCode("");
+      setMethod("pin");
       setConfirmed(false);
+      return;
     }
+
+    getVerifiedTotpFactor()
+      .then((factor) => setHasAuthenticator(!!factor))
+      .catch((error) => {
+        console.error('Error checking authenticator:', error);
+        setHasAuthenticator(false);
+      });
   }, [open]);
 
+  const codeComplete = method === "totp" ? totpCode.length === 6 : pin.length === pinLength;
+
   const handleVerify = async () => {
     if (!confirmed) {
       toast({
@@ -48,10 +67,12 @@ export function HighValueVerificationModal({
       return;
     }
 
-    if (pin.length !== 4) {
+    if (!codeComplete) {
       toast({
-        title: "Invalid PIN",
-        description: "Please enter your 4-digit PIN",
+        title: method === "totp" ? "Invalid Code" : "Invalid PIN",
+        description: method === "totp"
+          ? "Please enter the 6-digit code from your authenticator app"
+          : `Please enter your ${pinLength}-digit PIN`,
         variant: "destructive",
       });
       return;
@@ -59,22 +80,36 @@ export function HighValueVerificationModal({
 
     setLoading(true);
     try {
-      // Verify PIN
-      const { data, error } = await supabase.rpc('verify_transaction_pin', {
-        p_pin: pin
-      });
+      if (method === "totp") {
+        try {
+          await verifyTotpCode(totpCode);
+        } catch (error) {
+          toast({
+            title: "Code Verification Failed",
+            description: (error as Error).message || "Invalid authenticator code",
+            variant: "destructive",
+          });
+          setTotpCode("");
+          return;
+        }
+      } else {
+        // Verify PIN
+        const { data, error } = await supabase.rpc('verify_transaction_pin', {
+          p_pin: pin
+        });
 
-      if (error) throw error;
+        if (error) throw error;
 
-      const result = data as { success: boolean; error?: string; attempts_remaining?: number };
+        const result = data as { success: boolean; error?: string; attempts_remaining?: number };
 
-      if (!result.success) {
-        toast({
-          title: "PIN Verification Failed",
-          description: result.error || "Invalid PIN",
-          variant: "destructive",
-        });
-        return;
+        if (!result.success) {
+          toast({
+            title: "PIN Verification Failed",
+            description: result.error || "Invalid PIN",
+            variant: "destructive",
+          });
+          return;
+        }
       }
 
       // Log high-value verification
@@ -82,7 +117,7 @@ export function HighValueVerificationModal({
       await supabase.from('activity_logs').insert({
         user_id: currentUser.user?.id,
         action_type: 'HIGH_VALUE_VERIFIED',
-        description: `High-value transaction verified: $${amount.toFixed(2)} to ${recipientName}`
+        description: `High-value transaction verified with ${method === "totp" ? "authenticator" : "PIN"}: $${amount.toFixed(2)} to ${recipientName}`
       });
 
       toast({
@@ -168,22 +203,50 @@ export function HighValueVerificationModal({
             </div>
           </div>
 
-          {/* PIN Verification */}
-          <div className="space-y-2">
-            <Label htmlFor="pin" className="flex items-center">
-              <Lock className="w-4 h-4 mr-2" />
-              Enter Your Transaction PIN
-            </Label>
-            <Input
-              id="pin"
-              type="password"
-              maxLength={4}
-              value={pin}
-              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
-              placeholder="• • • •"
-              className="text-center text-2xl tracking-widest"
-            />
-          </div>
+          {/* Users with an authenticator may use it instead of the PIN */}
+          {hasAuthenticator && (
+            <Tabs value={method} onValueChange={(value) => setMethod(value as "pin" | "totp")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="pin">PIN</TabsTrigger>
+                <TabsTrigger value="totp">Authenticator</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {method === "totp" ? (
+            <div className="space-y-2">
+              <Label htmlFor="totp-code" className="flex items-center">
+                <Smartphone className="w-4 h-4 mr-2" />
+                Enter Your Authenticator Code
+              </Label>
+              <Input
+                id="totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={totpCode}
+                onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="• • • • • •"
+                className="text-center text-2xl tracking-widest"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="pin" className="flex items-center">
+                <Lock className="w-4 h-4 mr-2" />
+                Enter Your Transaction PIN
+              </Label>
+              <Input
+                id="pin"
+                type="password"
+                maxLength={pinLength}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                placeholder={Array(pinLength).fill("•").join(" ")}
+                className="text-center text-2xl tracking-widest"
+              />
+            </div>
+          )}
 
           {/* Security Notice */}
           <div className="flex items-center text-xs text-muted-foreground">
@@ -203,7 +266,7 @@ export function HighValueVerificationModal({
             </Button>
             <Button
               onClick={handleVerify}
-              disabled={loading || !confirmed || pin.length !== 4}
+              disabled={loading || !confirmed || !codeComplete}
               className="flex-1"
             >
               {loading ? (
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -11,6 +12,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
@@ -28,6 +31,7 @@ import {
   CreditCard,
   Phone,
   Mail,
+  ExternalLink,
 } from "lucide-react";
 
 interface KYCReviewModalProps {
@@ -53,16 +57,34 @@ interface UserProfile {
   tin_number: string | null;
   occupation: string | null;
   created_at: string;
-  kyc_status?: 'pending' | 'approved' | 'rejected';
 }
 
+interface KYCDocument {
+  id: string;
+  user_id: string;
+  document_type: string;
+  document_url: string;
+  file_name: string | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | null;
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  signed_url?: string;
+}
+
+type KYCStatus = 'approved' | 'pending' | 'rejected' | 'not_submitted';
+
 const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) => {
   const { toast } = useToast();
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [documents, setDocuments] = useState<KYCDocument[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'complete' | 'incomplete'>('all');
+  const [selectedDocuments, setSelectedDocuments] = useState<KYCDocument[]>([]);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [filter, setFilter] = useState<'all' | KYCStatus>('pending');
 
   useEffect(() => {
     if (open) {
@@ -70,16 +92,47 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
     }
   }, [open]);
 
+  useEffect(() => {
+    setRejectionReason("");
+    const userDocs = selectedUser ? documents.filter(d => d.user_id === selectedUser.user_id) : [];
+    if (userDocs.length === 0) {
+      setSelectedDocuments([]);
+      return;
+    }
+
+    // Documents live in a private bucket, so reviewers get short-lived signed URLs
+    supabase.storage
+      .from('kyc-documents')
+      .createSignedUrls(userDocs.map(d => d.document_url), 60 * 10)
+      .then(({ data: signed, error }) => {
+        if (error) {
+          console.error('Error signing KYC document URLs:', error);
+        }
+        setSelectedDocuments(userDocs.map((doc, i) => ({
+          ...doc,
+          signed_url: signed?.[i]?.signedUrl || undefined,
+        })));
+      });
+  }, [selectedUser, documents]);
+
   const loadUsers = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [{ data, error }, { data: docs, error: docsError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select(PROFILE_COLUMNS)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('kyc_documents')
+          .select('*')
+          .order('created_at', { ascending: false }),
+      ]);
 
       if (error) throw error;
+      if (docsError) throw docsError;
       setUsers(data || []);
+      setDocuments(docs || []);
     } catch (error) {
       console.error('Error loading users:', error);
       toast({
@@ -108,13 +161,34 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
     return Math.round((filledFields / requiredFields.length) * 100);
   };
 
-  const getKYCStatus = (user: UserProfile) => {
-    const completeness = getKYCCompleteness(user);
-    if (completeness === 100) return 'complete';
-    if (completeness >= 50) return 'partial';
-    return 'incomplete';
+  // Mirrors get_kyc_status() in the database
+  const getKYCStatus = (userId: string): KYCStatus => {
+    const userDocs = documents.filter(d => d.user_id === userId);
+    if (userDocs.some(d => d.status === 'APPROVED')) return 'approved';
+    if (userDocs.some(d => d.status === 'PENDING')) return 'pending';
+    if (userDocs.some(d => d.status === 'REJECTED')) return 'rejected';
+    return 'not_submitted';
+  };
+
+  const getStatusBadgeVariant = (status: string) => {
+    switch (status) {
+      case 'approved':
+      case 'APPROVED':
+        return 'default';
+      case 'pending':
+      case 'PENDING':
+        return 'secondary';
+      case 'rejected':
+      case 'REJECTED':
+        return 'destructive';
+      default:
+        return 'outline';
+    }
   };
 
+  const isImage = (doc: KYCDocument) =>
+    /\.(jpe?g|png|webp)$/i.test(doc.document_url);
+
   const filteredUsers = users.filter(user => {
     const matchesSearch = 
       user.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -124,30 +198,56 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
     if (!matchesSearch) return false;
     
     if (filter === 'all') return true;
-    if (filter === 'complete') return getKYCCompleteness(user) === 100;
-    if (filter === 'incomplete') return getKYCCompleteness(user) < 100;
-    if (filter === 'pending') return getKYCCompleteness(user) >= 50 && getKYCCompleteness(user) < 100;
-    
-    return true;
+    return getKYCStatus(user.user_id) === filter;
   });
 
-  const handleApproveKYC = async (userId: string) => {
-    toast({
-      title: "KYC Approved",
-      description: "User KYC has been approved successfully",
-    });
-    setSelectedUser(null);
-  };
+  const reviewKYC = async (userId: string, decision: 'APPROVED' | 'REJECTED') => {
+    if (decision === 'REJECTED' && !rejectionReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Please enter a reason for rejecting this KYC",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewing(true);
+    try {
+      const { data, error } = await supabase.rpc('review_kyc', {
+        p_user_id: userId,
+        p_decision: decision,
+        p_reason: decision === 'REJECTED' ? rejectionReason.trim() : null,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to review KYC');
+      }
 
-  const handleRejectKYC = async (userId: string) => {
-    toast({
-      title: "KYC Rejected",
-      description: "User KYC has been rejected",
-      variant: "destructive",
-    });
-    setSelectedUser(null);
+      toast({
+        title: decision === 'APPROVED' ? "KYC Approved" : "KYC Rejected",
+        description: decision === 'APPROVED'
+          ? "User KYC has been approved successfully"
+          : "User KYC has been rejected",
+        variant: decision === 'APPROVED' ? "default" : "destructive",
+      });
+      setSelectedUser(null);
+      loadUsers();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to review KYC",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewing(false);
+    }
   };
 
+  const hasPendingDocuments = selectedDocuments.some(d => d.status === 'PENDING');
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh]">
@@ -175,7 +275,7 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
                 />
               </div>
               <div className="flex gap-2">
-                {(['all', 'complete', 'pending', 'incomplete'] as const).map((f) => (
+                {(['pending', 'approved', 'rejected', 'not_submitted', 'all'] as const).map((f) => (
                   <Button
                     key={f}
                     variant={filter === f ? "default" : "outline"}
@@ -183,7 +283,7 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
                     onClick={() => setFilter(f)}
                     className="capitalize"
                   >
-                    {f}
+                    {f.replace('_', ' ')}
                   </Button>
                 ))}
               </div>
@@ -203,7 +303,7 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
                 <div className="space-y-2">
                   {filteredUsers.map((user) => {
                     const completeness = getKYCCompleteness(user);
-                    const status = getKYCStatus(user);
+                    const status = getKYCStatus(user.user_id);
                     return (
                       <Card
                         key={user.id}
@@ -222,14 +322,12 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
                               </div>
                             </div>
                             <div className="flex items-center gap-3">
-                              <div className="text-right">
-                                <Badge
-                                  variant={
-                                    status === 'complete' ? 'default' :
-                                    status === 'partial' ? 'secondary' : 'destructive'
-                                  }
-                                >
-                                  {completeness}% Complete
+                              <div className="text-right space-x-2">
+                                <Badge variant="outline">
+                                  {completeness}% Profile
+                                </Badge>
+                                <Badge variant={getStatusBadgeVariant(status)} className="capitalize">
+                                  {status.replace('_', ' ')}
                                 </Badge>
                               </div>
                               <Eye className="h-4 w-4 text-muted-foreground" />
@@ -350,6 +448,61 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
                 </CardContent>
               </Card>
 
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileCheck className="h-5 w-5" />
+                    Submitted Documents
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selectedDocuments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No documents submitted</p>
+                  ) : (
+                    selectedDocuments.map((doc) => (
+                      <div key={doc.id} className="rounded-lg border p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium capitalize">{doc.document_type.replace(/_/g, ' ')}</p>
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {new Date(doc.created_at).toLocaleString()}
+                            </p>
+                          </div>
+                          <Badge variant={getStatusBadgeVariant(doc.status)}>
+                            {doc.status}
+                          </Badge>
+                        </div>
+                        {doc.signed_url && (
+                          isImage(doc) ? (
+                            <a href={doc.signed_url} target="_blank" rel="noopener noreferrer">
+                              <img
+                                src={doc.signed_url}
+                                alt={doc.file_name || doc.document_type}
+                                className="max-h-64 w-full rounded-md object-contain bg-muted"
+                              />
+                            </a>
+                          ) : (
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={doc.signed_url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-4 w-4 mr-2" />
+                                Open {doc.file_name || 'document'}
+                              </a>
+                            </Button>
+                          )
+                        )}
+                        {doc.status === 'REJECTED' && doc.rejection_reason && (
+                          <p className="text-sm text-destructive flex items-center gap-1">
+                            <FileX className="h-4 w-4" />
+                            {doc.rejection_reason}
+                          </p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
               <Separator />
 
               {/* KYC Completeness */}
@@ -367,24 +520,39 @@ const KYCReviewModal: React.FC<KYCReviewModalProps> = ({ open, onOpenChange }) =
               </div>
 
               {/* Action Buttons */}
-              <div className="flex gap-3 pt-4">
-                <Button
-                  className="flex-1"
-                  onClick={() => handleApproveKYC(selectedUser.user_id)}
-                  disabled={getKYCCompleteness(selectedUser) < 100}
-                >
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Approve KYC
-                </Button>
-                <Button
-                  variant="destructive"
-                  className="flex-1"
-                  onClick={() => handleRejectKYC(selectedUser.user_id)}
-                >
-                  <XCircle className="h-4 w-4 mr-2" />
-                  Reject KYC
-                </Button>
-              </div>
+              {hasPendingDocuments && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="kyc-rejection-reason">Rejection Reason</Label>
+                    <Textarea
+                      id="kyc-rejection-reason"
+                      placeholder="Required when rejecting, e.g. document is blurry or expired"
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="flex gap-3 pt-4">
+                    <Button
+                      className="flex-1"
+                      onClick={() => reviewKYC(selectedUser.user_id, 'APPROVED')}
+                      disabled={reviewing}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve KYC
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => reviewKYC(selectedUser.user_id, 'REJECTED')}
+                      disabled={reviewing || !rejectionReason.trim()}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject KYC
+                    </Button>
+                  </div>
+                </>
+              )}
             </div>
           </ScrollArea>
         )}
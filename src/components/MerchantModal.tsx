@@ -0,0 +1,607 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QRCodeSVG } from "qrcode.react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  createMerchantInvoice,
+  getDailySales,
+  getSettlementInvites,
+  loadMerchantProfile,
+  respondToSettlementInvite,
+  rotateMerchantApiKey,
+  saveMerchantProfile,
+  type DailySales,
+  type MerchantInvoice,
+  type MerchantProfile,
+  type SettlementInvites,
+} from "@/lib/merchant";
+import { cancelPaymentRequest } from "@/lib/paymentRequests";
+import { CheckCircle2, Copy, Key, Plus, Store, X } from "lucide-react";
+import { format } from "date-fns";
+
+interface MerchantModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+const newOrderReference = () => `ORD-${Date.now().toString(36).toUpperCase()}`;
+
+const invoiceStatusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'paid':
+      return 'default';
+    case 'pending':
+      return 'secondary';
+    case 'cancelled':
+    case 'expired':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const MerchantModal: React.FC<MerchantModalProps> = ({
+  open,
+  onOpenChange,
+  userId,
+}) => {
+  const { toast } = useToast();
+  const [merchant, setMerchant] = useState<MerchantProfile | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [businessName, setBusinessName] = useState("");
+  const [settlementAccount, setSettlementAccount] = useState("");
+  const [settlement, setSettlement] = useState<SettlementInvites | null>(null);
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
+
+  // Checkout
+  const [amount, setAmount] = useState("");
+  const [orderReference, setOrderReference] = useState(newOrderReference);
+  const [memo, setMemo] = useState("");
+  const [expiresIn, setExpiresIn] = useState("15");
+  const [invoice, setInvoice] = useState<MerchantInvoice | null>(null);
+  const [invoiceStatus, setInvoiceStatus] = useState("pending");
+
+  // Sales report
+  const [salesDate, setSalesDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [sales, setSales] = useState<DailySales | null>(null);
+
+  const loadMerchant = useCallback(async () => {
+    try {
+      const [profile, invites] = await Promise.all([loadMerchantProfile(userId), getSettlementInvites()]);
+      setMerchant(profile);
+      setSettlement(invites);
+      if (profile) {
+        setBusinessName(profile.business_name);
+        setSettlementAccount(invites.pendingInvite?.email || invites.settlementAccount?.email || "");
+      }
+    } catch (error) {
+      console.error('Error loading merchant profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your merchant profile",
+        variant: "destructive",
+      });
+    } finally {
+      setLoaded(true);
+    }
+  }, [userId, toast]);
+
+  const loadSales = useCallback(async () => {
+    try {
+      setSales(await getDailySales(salesDate));
+    } catch (error) {
+      console.error('Error loading sales report:', error);
+    }
+  }, [salesDate]);
+
+  useEffect(() => {
+    if (open && userId) {
+      loadMerchant();
+    }
+  }, [open, userId, loadMerchant]);
+
+  useEffect(() => {
+    if (open && merchant) {
+      loadSales();
+    }
+  }, [open, merchant, loadSales]);
+
+  // The counter screen follows the invoice live, so the cashier sees it turn paid
+  useEffect(() => {
+    if (!invoice) return;
+
+    const channel = supabase
+      .channel(`merchant-invoice-${invoice.invoiceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payment_requests',
+          filter: `id=eq.${invoice.invoiceId}`,
+        },
+        (payload) => {
+          const status = (payload.new as { status: string }).status;
+          setInvoiceStatus(status);
+          if (status === 'paid') {
+            toast({
+              title: "Payment Received",
+              description: `Order ${invoice.orderReference} was paid`,
+            });
+            loadSales();
+          }
+        }
+      )
+      .subscribe();
+
+    // Nothing is written when an invoice runs out, so expire it on screen too
+    const msUntilExpiry = new Date(invoice.expiresAt).getTime() - Date.now();
+    const expiryTimer = setTimeout(() => {
+      setInvoiceStatus((current) => (current === 'pending' ? 'expired' : current));
+    }, Math.max(0, msUntilExpiry));
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearTimeout(expiryTimer);
+    };
+  }, [invoice, loadSales, toast]);
+
+  const handleSaveProfile = async () => {
+    setIsSaving(true);
+    try {
+      const invited = await saveMerchantProfile(businessName.trim(), settlementAccount.trim() || null);
+      toast({
+        title: merchant ? "Saved" : "Merchant Account Ready",
+        description: invited
+          ? "Sales will settle into the other account once its owner accepts"
+          : merchant ? "Your merchant details were updated" : "You can now take payments at your counter",
+      });
+      await loadMerchant();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSettlementInvite = async (inviteId: string, accept: boolean) => {
+    setIsSaving(true);
+    try {
+      const status = await respondToSettlementInvite(inviteId, accept);
+      toast({
+        title: status === 'accepted' ? "Invite Accepted" : status === 'declined' ? "Invite Declined" : "Stopped Receiving Sales",
+        description: status === 'accepted'
+          ? "This merchant's sales will be paid into your account"
+          : "This merchant's sales won't be paid into your account",
+      });
+      await loadMerchant();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRotateKey = async () => {
+    setIsSaving(true);
+    try {
+      setNewApiKey(await rotateMerchantApiKey());
+      await loadMerchant();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateInvoice = async () => {
+    const saleAmount = parseFloat(amount);
+    if (!saleAmount || saleAmount <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter the amount to charge",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await createMerchantInvoice({
+        amount: saleAmount,
+        orderReference: orderReference.trim(),
+        memo: memo.trim() || null,
+        expiresInMinutes: parseInt(expiresIn),
+      });
+      setInvoice(created);
+      setInvoiceStatus(created.status);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelInvoice = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      await cancelPaymentRequest(invoice.invoiceId);
+      setInvoiceStatus('cancelled');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startNewSale = () => {
+    setInvoice(null);
+    setInvoiceStatus('pending');
+    setAmount("");
+    setMemo("");
+    setOrderReference(newOrderReference());
+  };
+
+  const copyToClipboard = (value: string, what: string) => {
+    navigator.clipboard.writeText(value);
+    toast({
+      title: "Copied!",
+      description: `${what} copied to clipboard`,
+    });
+  };
+
+  const handleClose = () => {
+    setNewApiKey(null);
+    onOpenChange(false);
+  };
+
+  const profileForm = (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="business-name">Business Name</Label>
+        <Input
+          id="business-name"
+          value={businessName}
+          onChange={(e) => setBusinessName(e.target.value)}
+          maxLength={80}
+          placeholder="e.g. Corner Shop"
+        />
+      </div>
+      <div>
+        <Label htmlFor="settlement-account">Settlement Account (optional)</Label>
+        <Input
+          id="settlement-account"
+          value={settlementAccount}
+          onChange={(e) => setSettlementAccount(e.target.value)}
+          placeholder="Email or user ID. Leave empty to use your own account"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {settlement?.pendingInvite
+            ? `Waiting for ${settlement.pendingInvite.name || settlement.pendingInvite.email} to accept. Until then sales are paid into ${settlement.settlementAccount ? 'the current settlement account' : 'your own account'}`
+            : settlement?.settlementAccount
+              ? `Sales are paid into the account of ${settlement.settlementAccount.name || settlement.settlementAccount.email}`
+              : "Sales are paid into your own account. Another account's owner has to accept first"}
+        </p>
+      </div>
+      <Button className="w-full" onClick={handleSaveProfile} disabled={isSaving || businessName.trim().length < 2}>
+        {merchant ? "Save Details" : "Create Merchant Account"}
+      </Button>
+    </div>
+  );
+
+  const receivedInvites = settlement && settlement.received.length > 0 && (
+    <div className="space-y-2 mb-4">
+      {settlement.received.map((invite) => (
+        <Alert key={invite.invite_id}>
+          <AlertDescription className="space-y-2">
+            <p className="text-sm">
+              {invite.status === 'pending'
+                ? `${invite.business_name}${invite.owner_name ? ` (${invite.owner_name})` : ''} wants its sales paid into your account.`
+                : `Sales of ${invite.business_name} are paid into your account.`}
+            </p>
+            <div className="flex gap-2">
+              {invite.status === 'pending' ? (
+                <>
+                  <Button size="sm" onClick={() => handleSettlementInvite(invite.invite_id, true)} disabled={isSaving}>
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleSettlementInvite(invite.invite_id, false)} disabled={isSaving}>
+                    Decline
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => handleSettlementInvite(invite.invite_id, false)} disabled={isSaving}>
+                  Stop Receiving
+                </Button>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+
+  const renderCheckout = () => {
+    if (invoice) {
+      const paid = invoiceStatus === 'paid';
+      return (
+        <div className="flex flex-col items-center space-y-4">
+          {paid ? (
+            <div className="w-[220px] h-[220px] flex flex-col items-center justify-center text-success">
+              <CheckCircle2 className="w-24 h-24" />
+              <p className="text-lg font-semibold mt-2">Paid</p>
+            </div>
+          ) : (
+            <div className={`bg-white p-4 rounded-xl shadow-lg ${invoiceStatus !== 'pending' ? 'opacity-30' : ''}`}>
+              <QRCodeSVG value={invoice.qrValue} size={220} level="M" includeMargin={true} />
+            </div>
+          )}
+
+          <div className="text-center space-y-1">
+            <p className="text-2xl font-bold">${invoice.amount.toFixed(2)} GYD</p>
+            <p className="text-sm text-muted-foreground">
+              {invoice.businessName} · Order {invoice.orderReference}
+            </p>
+            <Badge variant={invoiceStatusVariant(invoiceStatus)}>
+              {invoiceStatus === 'pending' ? 'Waiting for payment' : invoiceStatus}
+            </Badge>
+            {invoiceStatus === 'pending' && (
+              <p className="text-xs text-muted-foreground">
+                Expires at {format(new Date(invoice.expiresAt), 'p')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex w-full gap-2">
+            {invoiceStatus === 'pending' && (
+              <Button variant="outline" className="flex-1" onClick={handleCancelInvoice} disabled={isSaving}>
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
+            )}
+            <Button className="flex-1" onClick={startNewSale}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Sale
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="sale-amount">Amount (GYD)</Label>
+          <Input
+            id="sale-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            className="text-lg"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="order-reference">Order Reference</Label>
+            <Input
+              id="order-reference"
+              value={orderReference}
+              onChange={(e) => setOrderReference(e.target.value)}
+              maxLength={64}
+            />
+          </div>
+          <div>
+            <Label>Expires In</Label>
+            <Select value={expiresIn} onValueChange={setExpiresIn}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="5">5 minutes</SelectItem>
+                <SelectItem value="15">15 minutes</SelectItem>
+                <SelectItem value="60">1 hour</SelectItem>
+                <SelectItem value="1440">24 hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="sale-memo">Memo (optional)</Label>
+          <Input
+            id="sale-memo"
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            maxLength={140}
+            placeholder="Shown to the customer"
+          />
+        </div>
+        <Button
+          className="w-full"
+          onClick={handleCreateInvoice}
+          disabled={isSaving || !amount || !orderReference.trim() || merchant?.status !== 'active'}
+        >
+          Charge ${parseFloat(amount || '0').toFixed(2)}
+        </Button>
+      </div>
+    );
+  };
+
+  const renderSales = () => (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="sales-date">Day</Label>
+        <Input
+          id="sales-date"
+          type="date"
+          max={format(new Date(), 'yyyy-MM-dd')}
+          value={salesDate}
+          onChange={(e) => setSalesDate(e.target.value)}
+        />
+      </div>
+
+      {sales ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Sales</p>
+              <p className="text-xl font-bold">${Number(sales.totals.paid_total).toFixed(2)}</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Paid Orders</p>
+              <p className="text-xl font-bold">{sales.totals.paid_count}</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {sales.totals.created_count} invoices created · {sales.totals.open_count} open · {sales.totals.expired_count} expired · {sales.totals.cancelled_count} cancelled
+          </p>
+
+          {sales.byHour.length > 0 ? (
+            <div className="space-y-1">
+              {sales.byHour.map((h) => (
+                <div key={h.hour} className="flex justify-between text-sm border-b py-1">
+                  <span>{String(h.hour).padStart(2, '0')}:00</span>
+                  <span className="text-muted-foreground">{h.count} {h.count === 1 ? 'sale' : 'sales'}</span>
+                  <span className="font-medium">${Number(h.total).toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No sales on this day</p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>
+      )}
+    </div>
+  );
+
+  const renderSettings = () => (
+    <div className="space-y-6">
+      {profileForm}
+
+      <div className="space-y-3 border-t pt-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Key className="w-4 h-4" />
+          Point-of-Sale API
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          POST to <span className="font-mono break-all">{import.meta.env.VITE_SUPABASE_URL}/functions/v1/merchant-invoices</span> with
+          your key in the <span className="font-mono">x-merchant-key</span> header to create invoices from your till.
+        </p>
+        {merchant?.api_key_prefix && !newApiKey && (
+          <p className="text-sm">
+            Current key: <span className="font-mono">{merchant.api_key_prefix}…</span>
+          </p>
+        )}
+        {newApiKey && (
+          <Alert>
+            <AlertDescription className="space-y-2">
+              <p className="text-sm">Copy this key now. It won't be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="text-xs break-all flex-1">{newApiKey}</code>
+                <Button size="icon" variant="outline" onClick={() => copyToClipboard(newApiKey, 'API key')}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+        <Button variant="outline" className="w-full" onClick={handleRotateKey} disabled={isSaving}>
+          {merchant?.api_key_prefix ? "Replace API Key" : "Create API Key"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Store className="w-5 h-5 mr-2" />
+            {merchant ? merchant.business_name : "Merchant Account"}
+          </DialogTitle>
+          <DialogDescription>
+            {merchant
+              ? "Take payments at your counter with a QR code for each sale."
+              : "Set up a merchant account to take payments at your counter."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {receivedInvites}
+
+        {!loaded ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+        ) : !merchant ? (
+          profileForm
+        ) : (
+          <Tabs defaultValue="checkout">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="checkout">Checkout</TabsTrigger>
+              <TabsTrigger value="sales">Sales</TabsTrigger>
+              <TabsTrigger value="settings">Settings</TabsTrigger>
+            </TabsList>
+
+            {merchant.status !== 'active' && (
+              <Alert variant="destructive" className="mt-3">
+                <AlertDescription>This merchant account is suspended. Contact support.</AlertDescription>
+              </Alert>
+            )}
+
+            <TabsContent value="checkout">{renderCheckout()}</TabsContent>
+            <TabsContent value="sales">{renderSales()}</TabsContent>
+            <TabsContent value="settings">{renderSettings()}</TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MerchantModal;
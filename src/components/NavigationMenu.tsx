@@ -30,7 +30,9 @@ import {
   Key,
   Wallet,
   Palette,
-  Server
+  Server,
+  CalendarClock,
+  Store
 } from "lucide-react";
 
 interface NavigationMenuProps {
@@ -46,6 +48,8 @@ const NavigationMenu: React.FC<NavigationMenuProps> = ({ userRole, onMenuItemCli
     { id: 'card', label: 'Card Details', icon: CreditCard, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
     { id: 'history', label: 'Transaction History', icon: History, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
     { id: 'requests', label: 'Payment Requests', icon: DollarSign, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
+    { id: 'scheduled', label: 'Scheduled Transfers', icon: CalendarClock, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
+    { id: 'merchant', label: 'Merchant Checkout', icon: Store, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
     { id: 'wallet', label: 'GYD Wallet', icon: Wallet, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
     { id: 'wallet-security', label: 'Wallet Security', icon: Shield, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
     { id: 'faq', label: 'Knowledge Base', icon: BookOpen, roles: ['CLIENT', 'AGENT', 'ADMIN'] },
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+
+// Installed PWAs can stay open for days, so look for a new deploy periodically
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const PWAUpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    immediate: true,
+    onRegisteredSW(_swUrl, registration) {
+      if (registration) {
+        setInterval(() => {
+          registration.update().catch((error) => console.error('Service worker update check failed:', error));
+        }, UPDATE_CHECK_INTERVAL_MS);
+      }
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+
+  if (!needRefresh) {
+    return null;
+  }
+
+  return (
+    <Card className="fixed bottom-4 left-4 right-4 sm:left-auto sm:right-4 sm:w-96 z-50 shadow-lg">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="flex-1">
+            <h3 className="font-semibold text-sm mb-1">New Version Available</h3>
+            <p className="text-xs text-muted-foreground mb-3">
+              An update has been downloaded. Reload to start using it.
+            </p>
+            <div className="flex gap-2">
+              <Button onClick={() => updateServiceWorker(true)} size="sm" className="flex-1">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reload
+              </Button>
+              <Button onClick={() => setNeedRefresh(false)} variant="outline" size="sm">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PWAUpdatePrompt;
@@ -13,7 +13,15 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { DollarSign, Check, X, Clock, Edit2, Plus, Minus } from "lucide-react";
+import {
+  cancelPaymentRequest,
+  declinePaymentRequest,
+  displayStatus,
+  isRequestOpen,
+  settlePaymentRequest,
+} from "@/lib/paymentRequests";
+import PinVerificationModal from "./PinVerificationModal";
+import { DollarSign, Check, X, Clock, Edit2, Plus, Minus, Ban } from "lucide-react";
 import { format } from "date-fns";
 
 interface PaymentRequest {
@@ -21,8 +29,11 @@ interface PaymentRequest {
   sender_id: string;
   recipient_id: string;
   amount: number;
+  amount_paid: number;
   description: string | null;
   status: string;
+  expires_at: string | null;
+  settled_at: string | null;
   created_at: string;
   sender?: {
     full_name: string;
@@ -34,6 +45,23 @@ interface PaymentRequest {
   };
 }
 
+const statusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'paid':
+      return 'default';
+    case 'rejected':
+      return 'destructive';
+    case 'pending':
+    case 'partially_paid':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const remainingOf = (request: PaymentRequest) =>
+  Math.max(0, Number(request.amount) - Number(request.amount_paid || 0));
+
 interface PaymentRequestsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -53,10 +81,14 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
   const [outgoingRequests, setOutgoingRequests] = useState<PaymentRequest[]>([]);
   const [editingAmount, setEditingAmount] = useState<string | null>(null);
   const [newAmount, setNewAmount] = useState("");
+  const [pinRequired, setPinRequired] = useState(false);
+  const [pinLength, setPinLength] = useState(4);
+  const [pendingPayment, setPendingPayment] = useState<{ request: PaymentRequest; amount?: number } | null>(null);
 
   useEffect(() => {
     if (open) {
       loadRequests();
+      loadPinSettings();
       setupRealtimeSubscription();
     }
     
@@ -99,6 +131,17 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
     };
   };
 
+  const loadPinSettings = async () => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('has_pin, pin_enabled, pin_length')
+      .eq('user_id', userId)
+      .single();
+
+    setPinRequired(!!data?.pin_enabled && !!data?.has_pin);
+    setPinLength(data?.pin_length || 4);
+  };
+
   const loadRequests = async () => {
     try {
       // Load incoming requests (where I'm the recipient)
@@ -115,6 +158,7 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
         .from('payment_requests')
         .select('*')
         .eq('sender_id', userId)
+        .is('merchant_id', null)
         .order('created_at', { ascending: false });
 
       if (outError) throw outError;
@@ -164,56 +208,47 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
     }
   };
 
-  const handleAccept = async (request: PaymentRequest, customAmount?: number) => {
+  const handleAccept = (request: PaymentRequest, customAmount?: number) => {
+    if (pinRequired) {
+      setPendingPayment({ request, amount: customAmount });
+      return;
+    }
+    payRequest(request, customAmount);
+  };
+
+  const payRequest = async (request: PaymentRequest, customAmount?: number, pin?: string) => {
     setLoading(true);
     try {
-      const amountToSend = customAmount || request.amount;
-      
-      // Process the transfer
-      const { data, error } = await supabase.rpc('process_transfer', {
-        p_recipient_id: request.sender_id,
-        p_amount: amountToSend,
-        p_description: request.description || 'Payment request fulfilled',
-      });
-
-      if (error) throw error;
-
-      const result = data as any;
-      if (!result?.success) {
-        throw new Error(result?.error || 'Transfer failed');
-      }
-
-      // Update request status
-      const { error: updateError } = await supabase
-        .from('payment_requests')
-        .update({ status: 'accepted' })
-        .eq('id', request.id);
-
-      if (updateError) throw updateError;
-
-      // Notify requester
-      await supabase.from('activity_logs').insert({
-        user_id: request.sender_id,
-        action_type: 'PAYMENT_REQUEST_ACCEPTED',
-        description: `Your payment request for $${amountToSend.toFixed(2)} was accepted`,
+      const amountToSend = customAmount ?? remainingOf(request);
+
+      // A fresh key per attempt; the RPC locks the request, so a double tap cannot overpay it
+      const result = await settlePaymentRequest({
+        requestId: request.id,
+        amount: customAmount ?? null,
+        pin,
+        idempotencyKey: crypto.randomUUID(),
       });
 
       toast({
         title: "Payment Sent",
-        description: `Sent $${amountToSend.toFixed(2)} to ${request.sender?.full_name}`,
+        description: result.remaining > 0
+          ? `Sent $${amountToSend.toFixed(2)} to ${request.sender?.full_name}. $${result.remaining.toFixed(2)} still outstanding`
+          : `Sent $${amountToSend.toFixed(2)} to ${request.sender?.full_name}`,
       });
 
+      setPendingPayment(null);
       setEditingAmount(null);
       setNewAmount("");
       loadRequests();
       onRequestProcessed?.();
-    } catch (error: any) {
-      console.error('Error accepting request:', error);
+    } catch (error) {
+      console.error('Error paying request:', error);
       toast({
         title: "Payment Failed",
-        description: error?.message || "Unable to process payment",
+        description: (error as Error).message || "Unable to process payment",
         variant: "destructive",
       });
+      loadRequests();
     } finally {
       setLoading(false);
     }
@@ -222,31 +257,42 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
   const handleReject = async (request: PaymentRequest) => {
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('payment_requests')
-        .update({ status: 'rejected' })
-        .eq('id', request.id);
+      await declinePaymentRequest(request.id);
 
-      if (error) throw error;
+      toast({
+        title: "Request Declined",
+        description: "Payment request has been declined",
+      });
 
-      // Notify requester
-      await supabase.from('activity_logs').insert({
-        user_id: request.sender_id,
-        action_type: 'PAYMENT_REQUEST_REJECTED',
-        description: `Your payment request for $${request.amount.toFixed(2)} was rejected`,
+      loadRequests();
+    } catch (error) {
+      console.error('Error declining request:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to decline request",
+        variant: "destructive",
       });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async (request: PaymentRequest) => {
+    setLoading(true);
+    try {
+      await cancelPaymentRequest(request.id);
 
       toast({
-        title: "Request Rejected",
-        description: "Payment request has been rejected",
+        title: "Request Cancelled",
+        description: "Your payment request has been withdrawn",
       });
 
       loadRequests();
     } catch (error) {
-      console.error('Error rejecting request:', error);
+      console.error('Error cancelling request:', error);
       toast({
         title: "Error",
-        description: "Failed to reject request",
+        description: (error as Error).message || "Failed to cancel request",
         variant: "destructive",
       });
     } finally {
@@ -254,14 +300,18 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
     }
   };
 
-  const adjustAmount = (requestId: string, currentAmount: number, adjustment: number) => {
-    setEditingAmount(requestId);
-    const adjusted = Math.max(0, currentAmount + adjustment);
+  const adjustAmount = (request: PaymentRequest, currentAmount: number, adjustment: number) => {
+    setEditingAmount(request.id);
+    const adjusted = Math.min(remainingOf(request), Math.max(0, currentAmount + adjustment));
     setNewAmount(adjusted.toFixed(2));
   };
 
   const renderRequestCard = (request: PaymentRequest, isIncoming: boolean) => {
     const isEditing = editingAmount === request.id;
+    const isOpen = isRequestOpen(request);
+    const status = displayStatus(request);
+    const remaining = remainingOf(request);
+    const paid = Number(request.amount_paid || 0);
     
     return (
       <Card key={request.id} className="mb-3">
@@ -271,13 +321,13 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
               <div className="flex-1">
                 <div className="flex items-center gap-2 mb-2">
                   <DollarSign className="w-4 h-4 text-primary" />
-                  {isEditing && isIncoming && request.status === 'pending' ? (
+                  {isEditing && isIncoming && isOpen ? (
                     <div className="flex items-center gap-2">
                       <Button
                         size="icon"
                         variant="outline"
                         className="h-8 w-8"
-                        onClick={() => adjustAmount(request.id, parseFloat(newAmount || request.amount.toString()), -10)}
+                        onClick={() => adjustAmount(request, parseFloat(newAmount || remaining.toString()), -10)}
                       >
                         <Minus className="h-3 w-3" />
                       </Button>
@@ -287,34 +337,33 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                         onChange={(e) => setNewAmount(e.target.value)}
                         className="w-24 h-8 text-center"
                         min="0"
+                        max={remaining.toFixed(2)}
                         step="0.01"
                       />
                       <Button
                         size="icon"
                         variant="outline"
                         className="h-8 w-8"
-                        onClick={() => adjustAmount(request.id, parseFloat(newAmount || request.amount.toString()), 10)}
+                        onClick={() => adjustAmount(request, parseFloat(newAmount || remaining.toString()), 10)}
                       >
                         <Plus className="h-3 w-3" />
                       </Button>
                     </div>
                   ) : (
                     <span className="font-semibold text-lg">
-                      ${request.amount.toFixed(2)}
+                      ${Number(request.amount).toFixed(2)}
                     </span>
                   )}
-                  <Badge
-                    variant={
-                      request.status === 'accepted'
-                        ? 'default'
-                        : request.status === 'rejected'
-                        ? 'destructive'
-                        : 'secondary'
-                    }
-                  >
-                    {request.status}
+                  <Badge variant={statusVariant(status)}>
+                    {status.replace('_', ' ')}
                   </Badge>
                 </div>
+                {paid > 0 && (
+                  <p className="text-sm text-muted-foreground mb-1">
+                    Paid ${paid.toFixed(2)} of ${Number(request.amount).toFixed(2)}
+                    {remaining > 0 && ` · $${remaining.toFixed(2)} remaining`}
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground mb-1">
                   {isIncoming ? 'From' : 'To'}:{' '}
                   {isIncoming
@@ -326,11 +375,12 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                 )}
                 <p className="text-xs text-muted-foreground">
                   {format(new Date(request.created_at), 'MMM dd, yyyy h:mm a')}
+                  {isOpen && request.expires_at && ` · Expires ${format(new Date(request.expires_at), 'MMM dd, yyyy')}`}
                 </p>
               </div>
             </div>
             
-            {isIncoming && request.status === 'pending' && (
+            {isIncoming && isOpen && (
               <div className="flex items-center gap-2 pt-2 border-t">
                 {!isEditing ? (
                   <>
@@ -341,14 +391,14 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                       className="flex-1"
                     >
                       <Check className="w-4 h-4 mr-1" />
-                      Accept
+                      {paid > 0 ? `Pay $${remaining.toFixed(2)}` : 'Accept'}
                     </Button>
                     <Button
                       size="sm"
                       variant="outline"
                       onClick={() => {
                         setEditingAmount(request.id);
-                        setNewAmount(request.amount.toString());
+                        setNewAmount(remaining.toFixed(2));
                       }}
                       disabled={loading}
                     >
@@ -362,7 +412,7 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                       disabled={loading}
                     >
                       <X className="w-4 h-4 mr-1" />
-                      Reject
+                      Decline
                     </Button>
                   </>
                 ) : (
@@ -370,7 +420,7 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                     <Button
                       size="sm"
                       onClick={() => handleAccept(request, parseFloat(newAmount))}
-                      disabled={loading || !newAmount || parseFloat(newAmount) <= 0}
+                      disabled={loading || !newAmount || parseFloat(newAmount) <= 0 || parseFloat(newAmount) > remaining}
                       className="flex-1"
                     >
                       <Check className="w-4 h-4 mr-1" />
@@ -391,6 +441,20 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
                 )}
               </div>
             )}
+
+            {!isIncoming && isOpen && (
+              <div className="flex items-center gap-2 pt-2 border-t">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCancel(request)}
+                  disabled={loading}
+                >
+                  <Ban className="w-4 h-4 mr-1" />
+                  Cancel Request
+                </Button>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -398,54 +462,66 @@ const PaymentRequestsModal: React.FC<PaymentRequestsModalProps> = ({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[80vh]">
-        <DialogHeader>
-          <DialogTitle className="flex items-center">
-            <Clock className="w-5 h-5 mr-2" />
-            Payment Requests
-          </DialogTitle>
-          <DialogDescription>
-            Manage incoming and outgoing payment requests. Accept, adjust amounts, or reject.
-          </DialogDescription>
-        </DialogHeader>
-
-        <Tabs defaultValue="incoming" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="incoming">
-              Incoming ({incomingRequests.filter(r => r.status === 'pending').length})
-            </TabsTrigger>
-            <TabsTrigger value="outgoing">
-              Outgoing ({outgoingRequests.filter(r => r.status === 'pending').length})
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="incoming" className="max-h-96 overflow-y-auto">
-            {incomingRequests.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No incoming payment requests
-              </div>
-            ) : (
-              <div className="space-y-2">
-                {incomingRequests.map((request) => renderRequestCard(request, true))}
-              </div>
-            )}
-          </TabsContent>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[80vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Clock className="w-5 h-5 mr-2" />
+              Payment Requests
+            </DialogTitle>
+            <DialogDescription>
+              Manage incoming and outgoing payment requests. Pay in full or in part, decline, or cancel your own.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="incoming" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="incoming">
+                Incoming ({incomingRequests.filter(isRequestOpen).length})
+              </TabsTrigger>
+              <TabsTrigger value="outgoing">
+                Outgoing ({outgoingRequests.filter(isRequestOpen).length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="incoming" className="max-h-96 overflow-y-auto">
+              {incomingRequests.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No incoming payment requests
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {incomingRequests.map((request) => renderRequestCard(request, true))}
+                </div>
+              )}
+            </TabsContent>
 
-          <TabsContent value="outgoing" className="max-h-96 overflow-y-auto">
-            {outgoingRequests.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No outgoing payment requests
-              </div>
-            ) : (
-              <div className="space-y-2">
-                {outgoingRequests.map((request) => renderRequestCard(request, false))}
-              </div>
-            )}
-          </TabsContent>
-        </Tabs>
-      </DialogContent>
-    </Dialog>
+            <TabsContent value="outgoing" className="max-h-96 overflow-y-auto">
+              {outgoingRequests.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No outgoing payment requests
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {outgoingRequests.map((request) => renderRequestCard(request, false))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      {/* PIN Verification Modal */}
+      <PinVerificationModal
+        open={!!pendingPayment}
+        onOpenChange={(isOpen) => !isOpen && setPendingPayment(null)}
+        onVerify={(pin) => pendingPayment && payRequest(pendingPayment.request, pendingPayment.amount, pin)}
+        pinLength={pinLength}
+        isLoading={loading}
+        enableBiometric={false}
+      />
+    </>
   );
 };
 
@@ -14,20 +14,20 @@ import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_PIN_POLICY, getPinPolicy, setPinEnabled as savePinEnabled, setTransactionPin, type PinPolicy } from "@/lib/pinPolicy";
+import PinVerificationModal from "./PinVerificationModal";
 import { Lock, Settings, AlertTriangle, CheckCircle } from "lucide-react";
 
 interface PinSettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userId: string;
+  /** The PIN has expired under the rotation policy; the dialog can't be dismissed until it's changed */
+  required?: boolean;
+  onPinChanged?: () => void;
 }
 
-interface PinSettings {
-  pin_enabled: boolean;
-  pin_hash?: string;
-}
-
-const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange, userId }) => {
+const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange, userId, required = false, onPinChanged }) => {
   const { toast } = useToast();
   const [currentPin, setCurrentPin] = useState("");
   const [newPin, setNewPin] = useState("");
@@ -37,6 +37,8 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [step, setStep] = useState<'current' | 'new' | 'confirm'>('current');
+  const [policy, setPolicy] = useState<PinPolicy>(DEFAULT_PIN_POLICY);
+  const [confirmDisable, setConfirmDisable] = useState(false);
 
   useEffect(() => {
     if (open) {
@@ -46,18 +48,22 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
 
   const loadPinSettings = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('pin_enabled, pin_hash')
-        .eq('user_id', userId)
-        .single();
+      const [{ data, error }, pinPolicy] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('pin_enabled, has_pin')
+          .eq('user_id', userId)
+          .single(),
+        getPinPolicy(),
+      ]);
 
       if (error) throw error;
 
+      setPolicy(pinPolicy);
       if (data) {
         setPinEnabled(data.pin_enabled || false);
-        setHasExistingPin(!!data.pin_hash);
-        setStep(data.pin_hash ? 'current' : 'new');
+        setHasExistingPin(!!data.has_pin);
+        setStep(data.has_pin ? 'current' : 'new');
       }
     } catch (error) {
       console.error('Error loading PIN settings:', error);
@@ -69,37 +75,35 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
     }
   };
 
-  const hashPin = async (pin: string): Promise<string> => {
-    // Simple hash function - in production, use proper hashing
-    const encoder = new TextEncoder();
-    const data = encoder.encode(pin + userId);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  };
+  // The current PIN may be shorter than the policy requires for new PINs
+  const currentPinLength = policy.currentPinLength || DEFAULT_PIN_POLICY.pinLength;
 
   const verifyCurrentPin = async () => {
-    if (currentPin.length !== 4) {
-      setError("PIN must be 4 digits");
+    if (currentPin.length !== currentPinLength) {
+      setError(`PIN must be ${currentPinLength} digits`);
       return;
     }
 
     setIsLoading(true);
     try {
-      const hashedPin = await hashPin(currentPin);
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('pin_hash')
-        .eq('user_id', userId)
-        .single();
+      const { data, error } = await supabase.rpc('verify_transaction_pin', {
+        p_pin: currentPin
+      });
 
       if (error) throw error;
 
-      if (data.pin_hash === hashedPin) {
+      // An expired PIN is still the right one, and changing it is how it gets renewed
+      const result = data as { success: boolean; error?: string; attempts_remaining?: number; change_required?: boolean };
+      if (result.success || result.change_required) {
         setStep('new');
         setError("");
       } else {
-        setError("Incorrect PIN");
+        setCurrentPin("");
+        setError(
+          result.attempts_remaining !== undefined
+            ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+            : result.error || "Incorrect PIN"
+        );
       }
     } catch (error) {
       setError("Failed to verify PIN");
@@ -109,8 +113,8 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
   };
 
   const setNewPinStep = () => {
-    if (newPin.length !== 4) {
-      setError("PIN must be 4 digits");
+    if (newPin.length !== policy.pinLength) {
+      setError(`PIN must be ${policy.pinLength} digits`);
       return;
     }
     setStep('confirm');
@@ -125,26 +129,8 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
 
     setIsLoading(true);
     try {
-      const hashedPin = await hashPin(newPin);
-      
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          pin_hash: hashedPin,
-          pin_enabled: true
-        })
-        .eq('user_id', userId);
-
-      if (error) throw error;
-
-      // Log the activity
-      await supabase
-        .from('activity_logs')
-        .insert({
-          action_type: 'PIN_UPDATED',
-          description: 'Transaction PIN updated',
-          user_id: userId,
-        });
+      // The server re-checks the current PIN and rejects weak new ones
+      await setTransactionPin(newPin, hasExistingPin ? currentPin : undefined);
 
       toast({
         title: "PIN Updated",
@@ -153,34 +139,36 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
 
       setPinEnabled(true);
       setHasExistingPin(true);
-      handleClose();
+      onPinChanged?.();
+      reset();
+      onOpenChange(false);
     } catch (error) {
-      setError("Failed to update PIN");
+      setNewPin("");
+      setConfirmPin("");
+      setStep('new');
+      setError((error as Error).message || "Failed to update PIN");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const togglePinEnabled = async (enabled: boolean) => {
+  // Turning the PIN off needs the current PIN, so it waits for the PIN prompt
+  const togglePinEnabled = (enabled: boolean) => {
+    if (enabled) {
+      updatePinEnabled(true);
+    } else {
+      setConfirmDisable(true);
+    }
+  };
+
+  const updatePinEnabled = async (enabled: boolean, pin?: string) => {
     setIsLoading(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ pin_enabled: enabled })
-        .eq('user_id', userId);
-
-      if (error) throw error;
-
-      // Log the activity
-      await supabase
-        .from('activity_logs')
-        .insert({
-          action_type: enabled ? 'PIN_ENABLED' : 'PIN_DISABLED',
-          description: `Transaction PIN ${enabled ? 'enabled' : 'disabled'}`,
-          user_id: userId,
-        });
+      // The server logs the change
+      await savePinEnabled(enabled, pin);
 
       setPinEnabled(enabled);
+      setConfirmDisable(false);
       toast({
         title: enabled ? "PIN Enabled" : "PIN Disabled",
         description: `Transaction PIN has been ${enabled ? 'enabled' : 'disabled'}`,
@@ -188,7 +176,7 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update PIN setting",
+        description: (error as Error).message || "Failed to update PIN setting",
         variant: "destructive",
       });
     } finally {
@@ -196,16 +184,22 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
     }
   };
 
-  const handleClose = () => {
+  const reset = () => {
     setCurrentPin("");
     setNewPin("");
     setConfirmPin("");
     setError("");
     setStep(hasExistingPin ? 'current' : 'new');
+  };
+
+  const handleClose = () => {
+    if (required) return;
+    reset();
     onOpenChange(false);
   };
 
   return (
+    <>
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-md">
         <DialogHeader>
@@ -219,8 +213,17 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
         </DialogHeader>
 
         <div className="space-y-4">
+          {required && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Your transaction PIN has expired or no longer meets the security policy. Choose a new {policy.pinLength}-digit PIN to continue.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* PIN Enable/Disable Toggle */}
-          {hasExistingPin && (
+          {hasExistingPin && !required && (
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
@@ -250,7 +253,7 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
               </CardTitle>
               <CardDescription>
                 {step === 'current' && 'Enter your current PIN'}
-                {step === 'new' && 'Enter your new 4-digit PIN'}
+                {step === 'new' && `Enter your new ${policy.pinLength}-digit PIN`}
                 {step === 'confirm' && 'Confirm your new PIN'}
               </CardDescription>
             </CardHeader>
@@ -258,7 +261,7 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
               <div className="flex justify-center">
                 {step === 'current' && (
                   <InputOTP
-                    maxLength={4}
+                    maxLength={currentPinLength}
                     value={currentPin}
                     onChange={(value) => {
                       setCurrentPin(value);
@@ -266,17 +269,16 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
                     }}
                   >
                     <InputOTPGroup>
-                      <InputOTPSlot index={0} />
-                      <InputOTPSlot index={1} />
-                      <InputOTPSlot index={2} />
-                      <InputOTPSlot index={3} />
+                      {Array.from({ length: currentPinLength }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
                     </InputOTPGroup>
                   </InputOTP>
                 )}
 
                 {step === 'new' && (
                   <InputOTP
-                    maxLength={4}
+                    maxLength={policy.pinLength}
                     value={newPin}
                     onChange={(value) => {
                       setNewPin(value);
@@ -284,17 +286,16 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
                     }}
                   >
                     <InputOTPGroup>
-                      <InputOTPSlot index={0} />
-                      <InputOTPSlot index={1} />
-                      <InputOTPSlot index={2} />
-                      <InputOTPSlot index={3} />
+                      {Array.from({ length: policy.pinLength }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
                     </InputOTPGroup>
                   </InputOTP>
                 )}
 
                 {step === 'confirm' && (
                   <InputOTP
-                    maxLength={4}
+                    maxLength={policy.pinLength}
                     value={confirmPin}
                     onChange={(value) => {
                       setConfirmPin(value);
@@ -302,10 +303,9 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
                     }}
                   >
                     <InputOTPGroup>
-                      <InputOTPSlot index={0} />
-                      <InputOTPSlot index={1} />
-                      <InputOTPSlot index={2} />
-                      <InputOTPSlot index={3} />
+                      {Array.from({ length: policy.pinLength }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
                     </InputOTPGroup>
                   </InputOTP>
                 )}
@@ -319,14 +319,16 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
               )}
 
               <div className="flex gap-3">
-                <Button
-                  variant="outline"
-                  onClick={handleClose}
-                  disabled={isLoading}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
+                {!required && (
+                  <Button
+                    variant="outline"
+                    onClick={handleClose}
+                    disabled={isLoading}
+                    className="flex-1"
+                  >
+                    Cancel
+                  </Button>
+                )}
                 <Button
                   onClick={() => {
                     if (step === 'current') verifyCurrentPin();
@@ -335,9 +337,9 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
                   }}
                   disabled={
                     isLoading ||
-                    (step === 'current' && currentPin.length !== 4) ||
-                    (step === 'new' && newPin.length !== 4) ||
-                    (step === 'confirm' && confirmPin.length !== 4)
+                    (step === 'current' && currentPin.length !== currentPinLength) ||
+                    (step === 'new' && newPin.length !== policy.pinLength) ||
+                    (step === 'confirm' && confirmPin.length !== policy.pinLength)
                   }
                   className="flex-1"
                 >
@@ -359,6 +361,18 @@ const PinSettingsModal: React.FC<PinSettingsModalProps> = ({ open, onOpenChange,
         </div>
       </DialogContent>
     </Dialog>
+
+    <PinVerificationModal
+      open={confirmDisable}
+      onOpenChange={setConfirmDisable}
+      onVerify={(pin) => updatePinEnabled(false, pin)}
+      pinLength={currentPinLength}
+      isLoading={isLoading}
+      title="Turn Off PIN"
+      description="Enter your current PIN to stop requiring it for transactions"
+      enableBiometric={false}
+    />
+    </>
   );
 };
 
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   Dialog,
   DialogContent,
@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_PIN_POLICY, getPinPolicy, setTransactionPin } from "@/lib/pinPolicy";
 import { Lock, Shield, AlertTriangle } from "lucide-react";
 
 interface PinSetupModalProps {
@@ -28,7 +28,7 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
   userId,
   onPinSet,
   title = "Set Transaction PIN",
-  description = "Create a 4-digit PIN to secure your transactions",
+  description,
 }) => {
   const { toast } = useToast();
   const [step, setStep] = useState<'create' | 'confirm'>('create');
@@ -36,28 +36,22 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
   const [confirmPin, setConfirmPin] = useState("");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [pinLength, setPinLength] = useState(DEFAULT_PIN_POLICY.pinLength);
 
-  const hashPin = async (pin: string): Promise<string> => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(pin + userId);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  };
+  useEffect(() => {
+    if (!open) return;
+
+    getPinPolicy()
+      .then((policy) => setPinLength(policy.pinLength))
+      .catch((error) => console.error('Error loading PIN policy:', error));
+  }, [open, userId]);
 
   const handleCreateStep = () => {
-    if (newPin.length !== 4) {
-      setError("PIN must be 4 digits");
-      return;
-    }
-    
-    // Check for weak PINs
-    const weakPins = ['0000', '1111', '2222', '3333', '4444', '5555', '6666', '7777', '8888', '9999', '1234', '4321', '0123', '3210'];
-    if (weakPins.includes(newPin)) {
-      setError("This PIN is too weak. Please choose a different PIN.");
+    if (newPin.length !== pinLength) {
+      setError(`PIN must be ${pinLength} digits`);
       return;
     }
-    
+
     setStep('confirm');
     setError("");
   };
@@ -71,26 +65,8 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
 
     setIsLoading(true);
     try {
-      const hashedPin = await hashPin(newPin);
-      
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          pin_hash: hashedPin,
-          pin_enabled: true
-        })
-        .eq('user_id', userId);
-
-      if (updateError) throw updateError;
-
-      // Log the activity
-      await supabase
-        .from('activity_logs')
-        .insert({
-          action_type: 'PIN_CREATED',
-          description: 'Transaction PIN created for secure transactions',
-          user_id: userId,
-        });
+      // Strength (sequences, repeats, date of birth) is checked server-side
+      await setTransactionPin(newPin);
 
       toast({
         title: "PIN Created",
@@ -99,9 +75,12 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
 
       onPinSet();
       handleClose();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error setting PIN:', error);
-      setError("Failed to set PIN. Please try again.");
+      setNewPin("");
+      setConfirmPin("");
+      setStep('create');
+      setError((error as Error).message || "Failed to set PIN. Please try again.");
     } finally {
       setIsLoading(false);
     }
@@ -129,7 +108,9 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
             <Shield className="w-5 h-5 mr-2 text-primary" />
             {title}
           </DialogTitle>
-          <DialogDescription>{description}</DialogDescription>
+          <DialogDescription>
+            {description || `Create a ${pinLength}-digit PIN to secure your transactions`}
+          </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6 py-4">
@@ -146,12 +127,12 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
           {/* PIN Input */}
           <div className="flex flex-col items-center space-y-4">
             <p className="text-sm text-muted-foreground">
-              {step === 'create' ? 'Create your 4-digit PIN' : 'Confirm your PIN'}
+              {step === 'create' ? `Create your ${pinLength}-digit PIN` : 'Confirm your PIN'}
             </p>
             
             {step === 'create' ? (
               <InputOTP
-                maxLength={4}
+                maxLength={pinLength}
                 value={newPin}
                 onChange={(value) => {
                   setNewPin(value);
@@ -159,15 +140,14 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
                 }}
               >
                 <InputOTPGroup>
-                  <InputOTPSlot index={0} />
-                  <InputOTPSlot index={1} />
-                  <InputOTPSlot index={2} />
-                  <InputOTPSlot index={3} />
+                  {Array.from({ length: pinLength }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
                 </InputOTPGroup>
               </InputOTP>
             ) : (
               <InputOTP
-                maxLength={4}
+                maxLength={pinLength}
                 value={confirmPin}
                 onChange={(value) => {
                   setConfirmPin(value);
@@ -175,10 +155,9 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
                 }}
               >
                 <InputOTPGroup>
-                  <InputOTPSlot index={0} />
-                  <InputOTPSlot index={1} />
-                  <InputOTPSlot index={2} />
-                  <InputOTPSlot index={3} />
+                  {Array.from({ length: pinLength }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
                 </InputOTPGroup>
               </InputOTP>
             )}
@@ -206,7 +185,7 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
                 </Button>
                 <Button
                   onClick={handleCreateStep}
-                  disabled={newPin.length !== 4 || isLoading}
+                  disabled={newPin.length !== pinLength || isLoading}
                   className="flex-1"
                 >
                   Continue
@@ -224,7 +203,7 @@ const PinSetupModal: React.FC<PinSetupModalProps> = ({
                 </Button>
                 <Button
                   onClick={handleConfirmPin}
-                  disabled={confirmPin.length !== 4 || isLoading}
+                  disabled={confirmPin.length !== pinLength || isLoading}
                   className="flex-1"
                 >
                   {isLoading ? "Setting PIN..." : "Set PIN"}
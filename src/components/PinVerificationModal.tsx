@@ -16,6 +16,8 @@ interface PinVerificationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onVerify: (pin: string) => void;
+  /** Digits in the user's PIN */
+  pinLength?: number;
   title?: string;
   description?: string;
   isLoading?: boolean;
@@ -27,8 +29,9 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
   open,
   onOpenChange,
   onVerify,
+  pinLength = 4,
   title = "Enter Transaction PIN",
-  description = "Please enter your 4-digit PIN to confirm this transaction",
+  description = `Please enter your ${pinLength}-digit PIN to confirm this transaction`,
   isLoading = false,
   enableBiometric = true,
   onBiometricVerify,
@@ -77,8 +80,8 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
   };
 
   const handleSubmit = () => {
-    if (pin.length !== 4) {
-      setError("PIN must be 4 digits");
+    if (pin.length !== pinLength) {
+      setError(`PIN must be ${pinLength} digits`);
       return;
     }
     
@@ -213,7 +216,7 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
             <>
               <div className="flex justify-center py-4">
                 <InputOTP
-                  maxLength={4}
+                  maxLength={pinLength}
                   value={pin}
                   onChange={(value) => {
                     setPin(value);
@@ -221,10 +224,9 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
                   }}
                 >
                   <InputOTPGroup>
-                    <InputOTPSlot index={0} />
-                    <InputOTPSlot index={1} />
-                    <InputOTPSlot index={2} />
-                    <InputOTPSlot index={3} />
+                    {Array.from({ length: pinLength }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
                   </InputOTPGroup>
                 </InputOTP>
               </div>
@@ -247,7 +249,7 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
                 </Button>
                 <Button
                   onClick={handleSubmit}
-                  disabled={pin.length !== 4 || isLoading}
+                  disabled={pin.length !== pinLength || isLoading}
                   className="flex-1"
                 >
                   {isLoading ? "Verifying..." : "Verify PIN"}
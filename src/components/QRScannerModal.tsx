@@ -12,12 +12,22 @@ import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { QrCode, Camera, Send, DollarSign, User, Lock } from "lucide-react";
+import { QrCode, Camera, Send, DollarSign, User, Lock, ShieldCheck, AlertTriangle } from "lucide-react";
 import PinVerificationModal from "./PinVerificationModal";
 import PinSetupModal from "./PinSetupModal";
 import TransactionReceiptModal from "./TransactionReceiptModal";
 import jsQR from 'jsqr';
 import { supabase } from "@/integrations/supabase/client";
+import { parsePaymentQr, resolvePaymentQr, type ResolvedPaymentQr } from "@/lib/paymentQr";
+import { settlePaymentRequest } from "@/lib/paymentRequests";
+import { submitTransfer } from "@/lib/transferGateway";
+
+interface PendingTransaction {
+  amount: number;
+  recipient: ResolvedPaymentQr;
+  description: string;
+  idempotencyKey: string;
+}
 
 interface QRScannerModalProps {
   open: boolean;
@@ -25,7 +35,7 @@ interface QRScannerModalProps {
   userProfile: {
     balance: number;
     pin_enabled?: boolean;
-    pin_hash?: string;
+    has_pin?: boolean;
     full_name: string;
   } | null;
   userId: string;
@@ -45,16 +55,21 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
   const [mode, setMode] = useState<'scan' | 'manual' | 'confirm'>(initialMode);
   const [amount, setAmount] = useState("");
   const [recipientCode, setRecipientCode] = useState("");
-  const [recipientInfo, setRecipientInfo] = useState<any>(null);
+  const [recipientInfo, setRecipientInfo] = useState<ResolvedPaymentQr | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPinVerification, setShowPinVerification] = useState(false);
   const [showPinSetup, setShowPinSetup] = useState(false);
-  const [pendingTransaction, setPendingTransaction] = useState<any>(null);
+  const [pendingTransaction, setPendingTransaction] = useState<PendingTransaction | null>(null);
   const [feeInfo, setFeeInfo] = useState({ percentage: 0, fixed: 0, total: 0 });
   const [isScanning, setIsScanning] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [completedTransaction, setCompletedTransaction] = useState<any>(null);
   const [hasPinSet, setHasPinSet] = useState(false);
+  const [pinLength, setPinLength] = useState(4);
+  // With a PIN enabled the server requires it, so biometrics can't confirm a payment
+  const [pinEnabled, setPinEnabled] = useState(false);
+  // Reused across retries of the same transfer so the server can de-duplicate them
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const scanIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -76,52 +91,62 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     }
   }, []);
 
-  const processScannedCode = useCallback((code: string) => {
-    // Stop the camera immediately when QR code is detected
-    stopCamera();
-    
-    // Parse the QR code data
-    if (code.startsWith('STABLECOIN:')) {
-      const parts = code.split(':');
-      if (parts.length >= 3) {
-        const recipientId = parts[1];
-        const recipientName = parts[2];
-        
-        // Check if user is trying to send to themselves
-        if (recipientId === userId) {
-          toast({
-            title: "Invalid Recipient",
-            description: "You cannot send money to yourself",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        setRecipientInfo({
-          id: recipientId,
-          name: recipientName,
-        });
-        setMode('confirm');
-        
-        toast({
-          title: "QR Code Scanned",
-          description: `Found recipient: ${recipientName}`,
-        });
-      } else {
-        toast({
-          title: "Invalid QR Code",
-          description: "The scanned code is not valid",
-          variant: "destructive",
-        });
-      }
-    } else {
+  // Scanned and typed codes are both verified server-side before anything is shown
+  const resolveCode = useCallback(async (code: string) => {
+    const payload = parsePaymentQr(code);
+    if (!payload) {
       toast({
         title: "Invalid QR Code",
         description: "Please scan a valid StableCoin QR code",
         variant: "destructive",
       });
+      return;
     }
-  }, [stopCamera, userId, toast]);
+
+    // Check if user is trying to send to themselves
+    if (payload.recipientId === userId) {
+      toast({
+        title: "Invalid Recipient",
+        description: "You cannot send money to yourself",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const resolved = await resolvePaymentQr(payload);
+      if (resolved.currency !== 'GYD') {
+        throw new Error(`${resolved.currency} codes have to be paid from a ${resolved.currency} wallet`);
+      }
+
+      setRecipientInfo(resolved);
+      if (resolved.amount !== null) {
+        setAmount(resolved.amount.toFixed(2));
+      }
+      setMode('confirm');
+
+      toast({
+        title: "QR Code Scanned",
+        description: `Found recipient: ${resolved.recipientName}`,
+      });
+    } catch (error) {
+      console.error('QR code verification error:', error);
+      toast({
+        title: "Invalid QR Code",
+        description: (error as Error).message || "The scanned code is not valid",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  const processScannedCode = useCallback((code: string) => {
+    // Stop the camera immediately when QR code is detected
+    stopCamera();
+    resolveCode(code);
+  }, [stopCamera, resolveCode]);
 
   const scanQRCode = useCallback(() => {
     if (!videoRef.current || !canvasRef.current) return;
@@ -164,12 +189,14 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('pin_hash, pin_enabled')
+        .select('has_pin, pin_enabled, pin_length')
         .eq('user_id', userId)
         .single();
 
       if (!error && data) {
-        setHasPinSet(!!data.pin_hash);
+        setHasPinSet(!!data.has_pin);
+        setPinEnabled(!!data.pin_enabled && !!data.has_pin);
+        setPinLength(data.pin_length || 4);
       }
     } catch (error) {
       console.error('Error checking PIN status:', error);
@@ -213,6 +240,11 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     }
   }, [amount, feeInfo.percentage, feeInfo.fixed]);
 
+  // A changed transfer is a new request and needs a new idempotency key
+  useEffect(() => {
+    setIdempotencyKey(crypto.randomUUID());
+  }, [amount, recipientInfo]);
+
   const startCamera = async () => {
     try {
       // Request camera with environment facing mode (back camera on mobile)
@@ -264,32 +296,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
       return;
     }
 
-    // Parse the QR code data
-    if (recipientCode.startsWith('STABLECOIN:')) {
-      const parts = recipientCode.split(':');
-      if (parts.length >= 3) {
-        const recipientId = parts[1];
-        const recipientName = parts[2];
-        
-        setRecipientInfo({
-          id: recipientId,
-          name: recipientName,
-        });
-        setMode('confirm');
-      } else {
-        toast({
-          title: "Invalid Code",
-          description: "The entered code is not valid",
-          variant: "destructive",
-        });
-      }
-    } else {
-      toast({
-        title: "Invalid Code",
-        description: "Please enter a valid StableCoin QR code",
-        variant: "destructive",
-      });
-    }
+    resolveCode(recipientCode);
   };
 
   const handleSendMoney = () => {
@@ -325,6 +332,8 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     setPendingTransaction({
       amount: transactionAmount,
       recipient: recipientInfo,
+      description: recipientInfo.memo || `QR Transfer to ${recipientInfo.recipientName}`,
+      idempotencyKey,
     });
 
     // Always require PIN for transactions - prompt to create if not set
@@ -337,6 +346,8 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
 
   const handlePinSetComplete = () => {
     setHasPinSet(true);
+    // The new PIN follows the current length policy
+    checkPinStatus();
     // After setting PIN, show verification modal
     setShowPinVerification(true);
   };
@@ -344,6 +355,12 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
   const handlePinVerification = async (pin: string) => {
     if (!pendingTransaction || !userProfile) return;
 
+    // Paying a request checks the PIN as part of the settlement
+    if (pendingTransaction.recipient.requestId) {
+      await processTransaction(pendingTransaction, pin);
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Verify PIN server-side with rate limiting
@@ -370,7 +387,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
       }
 
       // PIN verified server-side, process transaction
-      await processTransaction(pendingTransaction);
+      await processTransaction(pendingTransaction, pin);
       setShowPinVerification(false);
       setPendingTransaction(null);
     } catch (error: any) {
@@ -394,7 +411,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
     setPendingTransaction(null);
   };
 
-  const processTransaction = async (transaction: any) => {
+  const processTransaction = async (transaction: PendingTransaction, pin?: string) => {
     setIsLoading(true);
     try {
       // Get fee settings
@@ -407,46 +424,61 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
       const feeFixed = parseFloat(feeData?.find((s: any) => s.setting_key === 'transfer_fee_fixed')?.setting_value || '0');
       const totalFee = (transaction.amount * feePercentage / 100) + feeFixed;
       
-      // Call the process_transfer function
-      const { data, error } = await supabase.rpc('process_transfer', {
-        p_recipient_id: transaction.recipient.id,
-        p_amount: transaction.amount,
-        p_description: `QR Transfer to ${transaction.recipient.name}`
-      });
+      let transactionId: string;
+      if (transaction.recipient.requestId) {
+        // Codes for a payment request settle that request, which notifies the requester
+        const settled = await settlePaymentRequest({
+          requestId: transaction.recipient.requestId,
+          amount: transaction.amount,
+          pin,
+          idempotencyKey: transaction.idempotencyKey,
+        });
+        transactionId = settled.transactionId;
+      } else {
+        // The gateway applies the firewall and checks the PIN again
+        const result = await submitTransfer({
+          recipientId: transaction.recipient.recipientId,
+          amount: transaction.amount,
+          description: transaction.description,
+          idempotencyKey: transaction.idempotencyKey,
+          pin,
+        });
 
-      if (error) throw error;
-      
-      const result = data as any;
-      if (!result.success) {
-        throw new Error(result.error || 'Transaction failed');
-      }
+        if (!result.success) {
+          throw new Error(result.error || 'Transaction failed');
+        }
+        transactionId = result.transaction_id!;
 
-      // Create notification for recipient
-      await supabase.from('activity_logs').insert({
-        user_id: transaction.recipient.id,
-        action_type: 'PAYMENT_RECEIVED',
-        description: `You received $${transaction.amount.toFixed(2)} from ${userProfile?.full_name}`,
-      });
+        // Create notification for recipient
+        await supabase.from('activity_logs').insert({
+          user_id: transaction.recipient.recipientId,
+          action_type: 'PAYMENT_RECEIVED',
+          description: `You received $${transaction.amount.toFixed(2)} from ${userProfile?.full_name}`,
+        });
+      }
 
       toast({
         title: "Transaction Successful",
-        description: `Sent $${transaction.amount.toFixed(2)} to ${transaction.recipient.name}`,
+        description: `Sent $${transaction.amount.toFixed(2)} to ${transaction.recipient.recipientName}`,
       });
 
       // Set completed transaction for receipt
       setCompletedTransaction({
-        id: result.transaction_id,
+        id: transactionId,
         amount: transaction.amount,
         fee: totalFee,
         total: transaction.amount + totalFee,
-        recipientName: transaction.recipient.name,
-        recipientId: transaction.recipient.id,
+        recipientName: transaction.recipient.recipientName,
+        recipientId: transaction.recipient.recipientId,
         senderName: userProfile?.full_name || 'You',
         senderId: userId,
         timestamp: new Date(),
-        description: `QR Transfer to ${transaction.recipient.name}`,
+        description: transaction.description,
       });
 
+      setShowPinVerification(false);
+      setPendingTransaction(null);
+
       // Reset form
       setAmount("");
       setRecipientCode("");
@@ -536,7 +568,7 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
                     id="recipient-code"
                     value={recipientCode}
                     onChange={(e) => setRecipientCode(e.target.value)}
-                    placeholder="STABLECOIN:USER_ID:NAME"
+                    placeholder="stablecoin:pay?v=1&..."
                   />
                 </div>
 
@@ -551,9 +583,10 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
                   </Button>
                   <Button
                     onClick={handleManualEntry}
+                    disabled={isLoading}
                     className="flex-1"
                   >
-                    Continue
+                    {isLoading ? "Checking..." : "Continue"}
                   </Button>
                 </div>
               </>
@@ -571,12 +604,27 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
                         <User className="w-5 h-5" />
                       </div>
                       <div>
-                        <p className="font-medium">{recipientInfo.name}</p>
+                        <p className="font-medium flex items-center gap-1">
+                          {recipientInfo.recipientName}
+                          {recipientInfo.verified && <ShieldCheck className="w-4 h-4 text-success" />}
+                        </p>
                         <p className="text-sm text-muted-foreground">
-                          ID: {recipientInfo.id.substring(0, 8)}...
+                          ID: {recipientInfo.recipientId.substring(0, 8)}...
                         </p>
                       </div>
                     </div>
+                    {recipientInfo.memo && (
+                      <p className="text-sm mt-3">{recipientInfo.memo}</p>
+                    )}
+                    {recipientInfo.requestId && (
+                      <p className="text-xs text-muted-foreground mt-1">Pays a payment request</p>
+                    )}
+                    {!recipientInfo.verified && (
+                      <p className="text-xs text-muted-foreground mt-3 flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Older unsigned code. Check the name before you send.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -591,10 +639,14 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
                       min="0"
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
+                      readOnly={recipientInfo.amount !== null}
                       className="pl-10"
                       placeholder="0.00"
                     />
                   </div>
+                  {recipientInfo.amount !== null && (
+                    <p className="text-xs text-muted-foreground mt-1">Amount set by the recipient</p>
+                  )}
                 </div>
 
                 <Alert>
@@ -669,7 +721,6 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
         userId={userId}
         onPinSet={handlePinSetComplete}
         title="Set Up Transaction PIN"
-        description="Create a 4-digit PIN to secure your transactions"
       />
 
       {/* PIN Verification Modal with Biometric Support */}
@@ -677,10 +728,11 @@ const QRScannerModal: React.FC<QRScannerModalProps> = ({
         open={showPinVerification}
         onOpenChange={setShowPinVerification}
         onVerify={handlePinVerification}
+        pinLength={pinLength}
         isLoading={isLoading}
         title="Confirm Transaction"
         description="Verify your identity to confirm this transaction"
-        enableBiometric={true}
+        enableBiometric={!pendingTransaction?.recipient?.requestId && !pinEnabled}
         onBiometricVerify={handleBiometricVerification}
       />
 
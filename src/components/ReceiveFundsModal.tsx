@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Dialog,
   DialogContent,
@@ -6,9 +6,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { X, QrCode, Copy } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, QrCode, Copy, RefreshCw, SlidersHorizontal } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  createPaymentQr,
+  PAYMENT_QR_CURRENCIES,
+  type PaymentQrCurrency,
+} from "@/lib/paymentQr";
 
 interface ReceiveFundsModalProps {
   open: boolean;
@@ -17,6 +31,24 @@ interface ReceiveFundsModalProps {
   userName: string;
 }
 
+type CodeExpiry = 'never' | '1h' | '24h' | '7d';
+
+const EXPIRY_HOURS: Record<Exclude<CodeExpiry, 'never'>, number> = {
+  '1h': 1,
+  '24h': 24,
+  '7d': 24 * 7,
+};
+
+interface CodeOptions {
+  amount: string;
+  currency: PaymentQrCurrency;
+  memo: string;
+  expiry: CodeExpiry;
+}
+
+// The options are reset on close, so a freshly opened modal shows a plain code
+const DEFAULT_OPTIONS: CodeOptions = { amount: '', currency: 'GYD', memo: '', expiry: 'never' };
+
 const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
   open,
   onOpenChange,
@@ -24,10 +56,68 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
   userName,
 }) => {
   const { toast } = useToast();
-  
-  const qrValue = `STABLECOIN:${userId}:${userName}`;
+  const [qrValue, setQrValue] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState<PaymentQrCurrency>('GYD');
+  const [memo, setMemo] = useState("");
+  const [expiry, setExpiry] = useState<CodeExpiry>('never');
+  // What the current code says, for the caption under it
+  const [codeDetails, setCodeDetails] = useState<{ amount: number | null; currency: PaymentQrCurrency; memo: string; expiresAt: Date | null }>({
+    amount: null,
+    currency: 'GYD',
+    memo: '',
+    expiresAt: null,
+  });
+
+  // Codes are signed server-side, so the name and amount a payer sees can't be forged
+  const generateCode = useCallback(async ({ amount, currency, memo, expiry }: CodeOptions) => {
+    const fixedAmount = amount ? parseFloat(amount) : null;
+    if (fixedAmount !== null && (isNaN(fixedAmount) || fixedAmount <= 0)) {
+      toast({
+        title: "Error",
+        description: "Amount must be greater than 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const expiresAt = expiry === 'never'
+      ? null
+      : new Date(Date.now() + EXPIRY_HOURS[expiry] * 60 * 60 * 1000);
+
+    setIsGenerating(true);
+    try {
+      const code = await createPaymentQr({
+        amount: fixedAmount,
+        currency,
+        memo: memo.trim() || null,
+        expiresAt,
+      });
+      setQrValue(code);
+      setCodeDetails({ amount: fixedAmount, currency, memo: memo.trim(), expiresAt });
+      setShowOptions(false);
+    } catch (error) {
+      console.error('Error creating receive code:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to create your receive code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open && userId) {
+      generateCode(DEFAULT_OPTIONS);
+    }
+  }, [open, userId, generateCode]);
 
   const handleCopy = () => {
+    if (!qrValue) return;
     navigator.clipboard.writeText(qrValue);
     toast({
       title: "Copied!",
@@ -36,12 +126,19 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
   };
 
   const handleClose = () => {
+    setAmount(DEFAULT_OPTIONS.amount);
+    setCurrency(DEFAULT_OPTIONS.currency);
+    setMemo(DEFAULT_OPTIONS.memo);
+    setExpiry(DEFAULT_OPTIONS.expiry);
+    setShowOptions(false);
+    setQrValue(null);
+    setCodeDetails({ amount: null, currency: 'GYD', memo: '', expiresAt: null });
     onOpenChange(false);
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-sm">
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleClose())}>
+      <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
         <DialogHeader className="relative">
           <DialogTitle className="flex items-center gap-2 text-center justify-center">
             <QrCode className="h-5 w-5" />
@@ -60,28 +157,120 @@ const ReceiveFundsModal: React.FC<ReceiveFundsModalProps> = ({
         <div className="flex flex-col items-center space-y-6 py-4">
           {/* QR Code Display */}
           <div className="bg-white p-4 rounded-xl shadow-lg">
-            <QRCodeSVG
-              value={qrValue}
-              size={200}
-              level="H"
-              includeMargin={true}
-              className="rounded-lg"
-            />
+            {qrValue ? (
+              <QRCodeSVG
+                value={qrValue}
+                size={200}
+                level="M"
+                includeMargin={true}
+                className="rounded-lg"
+              />
+            ) : (
+              <div className="w-[200px] h-[200px] flex items-center justify-center text-muted-foreground">
+                <RefreshCw className="h-6 w-6 animate-spin" />
+              </div>
+            )}
           </div>
 
           {/* User Info */}
           <div className="text-center space-y-1">
             <p className="font-semibold text-lg">{userName}</p>
+            {codeDetails.amount !== null && (
+              <p className="text-xl font-bold">
+                ${codeDetails.amount.toFixed(2)} {codeDetails.currency}
+              </p>
+            )}
+            {codeDetails.memo && <p className="text-sm">{codeDetails.memo}</p>}
             <p className="text-sm text-muted-foreground">
-              Scan this QR code to send funds
+              {codeDetails.amount !== null
+                ? "Scan this QR code to pay this amount"
+                : `Scan this QR code to send ${codeDetails.currency}`}
             </p>
+            {codeDetails.expiresAt && (
+              <p className="text-xs text-muted-foreground">
+                Valid until {codeDetails.expiresAt.toLocaleString()}
+              </p>
+            )}
           </div>
 
+          {showOptions ? (
+            <div className="w-full space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="col-span-2">
+                  <Label htmlFor="qr-amount">Amount (optional)</Label>
+                  <Input
+                    id="qr-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="Any amount"
+                  />
+                </div>
+                <div>
+                  <Label>Currency</Label>
+                  <Select value={currency} onValueChange={(value: PaymentQrCurrency) => setCurrency(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_QR_CURRENCIES.map((c) => (
+                        <SelectItem key={c} value={c}>{c}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="qr-memo">Memo (optional)</Label>
+                <Input
+                  id="qr-memo"
+                  value={memo}
+                  onChange={(e) => setMemo(e.target.value)}
+                  maxLength={140}
+                  placeholder="What's it for?"
+                />
+              </div>
+
+              <div>
+                <Label>Code expires</Label>
+                <Select value={expiry} onValueChange={(value: CodeExpiry) => setExpiry(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="1h">In 1 hour</SelectItem>
+                    <SelectItem value="24h">In 24 hours</SelectItem>
+                    <SelectItem value="7d">In 7 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button className="w-full" onClick={() => generateCode({ amount, currency, memo, expiry })} disabled={isGenerating}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
+                {isGenerating ? "Creating..." : "Update Code"}
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setShowOptions(true)}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Set Amount or Memo
+            </Button>
+          )}
+
           {/* Copy Button */}
           <Button
             variant="outline"
             className="w-full"
             onClick={handleCopy}
+            disabled={!qrValue}
           >
             <Copy className="h-4 w-4 mr-2" />
             Copy Receive Code
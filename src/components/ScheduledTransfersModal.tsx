@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  FREQUENCY_LABELS,
+  manageScheduledTransfer,
+  type ScheduleAction,
+  type ScheduledTransfer,
+} from "@/lib/scheduledTransfers";
+import { CalendarClock, Pause, Play, SkipForward, X } from "lucide-react";
+import { format } from "date-fns";
+
+interface ScheduledTransfersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+interface ScheduleRun {
+  id: string;
+  schedule_id: string;
+  occurrence_at: string;
+  attempt: number;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
+const statusVariant = (status: string): "default" | "secondary" | "destructive" | "outline" => {
+  switch (status) {
+    case 'active':
+    case 'completed':
+      return 'default';
+    case 'failed':
+      return 'destructive';
+    case 'paused':
+    case 'skipped':
+      return 'secondary';
+    default:
+      return 'outline';
+  }
+};
+
+const ScheduledTransfersModal: React.FC<ScheduledTransfersModalProps> = ({
+  open,
+  onOpenChange,
+  userId,
+}) => {
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<ScheduledTransfer[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [recipientNames, setRecipientNames] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const [{ data: scheduleData, error: scheduleError }, { data: runData, error: runError }] = await Promise.all([
+        supabase
+          .from('scheduled_transfers')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('scheduled_transfer_runs')
+          .select('id, schedule_id, occurrence_at, attempt, status, error, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (scheduleError) throw scheduleError;
+      if (runError) throw runError;
+
+      const loaded = (scheduleData || []) as ScheduledTransfer[];
+      setSchedules(loaded);
+      setRuns(runData || []);
+
+      const recipientIds = [...new Set(loaded.map((s) => s.recipient_id))];
+      if (recipientIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, full_name, email')
+          .in('user_id', recipientIds);
+
+        setRecipientNames(Object.fromEntries(
+          (profiles || []).map((p) => [p.user_id, p.full_name || p.email || p.user_id])
+        ));
+      }
+    } catch (error) {
+      console.error('Error loading scheduled transfers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load scheduled transfers",
+        variant: "destructive",
+      });
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    if (open && userId) {
+      loadSchedules();
+    }
+  }, [open, userId, loadSchedules]);
+
+  const handleAction = async (schedule: ScheduledTransfer, action: ScheduleAction) => {
+    setBusyId(schedule.id);
+    try {
+      await manageScheduledTransfer(schedule.id, action);
+
+      const messages: Record<ScheduleAction, string> = {
+        pause: 'Scheduled transfer paused',
+        resume: 'Scheduled transfer resumed',
+        skip: 'The next transfer will be skipped',
+        cancel: 'Scheduled transfer cancelled',
+      };
+      toast({
+        title: "Updated",
+        description: messages[action],
+      });
+      loadSchedules();
+    } catch (error) {
+      console.error(`Error trying to ${action} scheduled transfer:`, error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeSchedule = (schedule: ScheduledTransfer) => {
+    if (schedule.frequency === 'cron') return `Custom (${schedule.cron_expression}, UTC)`;
+    if (schedule.frequency === 'once') return FREQUENCY_LABELS.once;
+
+    const start = new Date(schedule.start_at);
+    return schedule.frequency === 'weekly'
+      ? `Every ${format(start, 'EEEE')}`
+      : `Monthly on the ${format(start, 'do')}`;
+  };
+
+  const upcoming = schedules.filter((s) => s.status === 'active' || s.status === 'paused');
+  const finished = schedules.filter((s) => s.status !== 'active' && s.status !== 'paused');
+  const scheduleById = new Map(schedules.map((s) => [s.id, s]));
+
+  const renderSchedule = (schedule: ScheduledTransfer) => {
+    const busy = busyId === schedule.id;
+    const canManage = schedule.status === 'active' || schedule.status === 'paused';
+
+    return (
+      <div key={schedule.id} className="p-3 border rounded-lg space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium">
+              ${Number(schedule.amount).toFixed(2)} to {recipientNames[schedule.recipient_id] || 'Unknown recipient'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {describeSchedule(schedule)}
+              {schedule.description && ` · ${schedule.description}`}
+            </p>
+          </div>
+          <Badge variant={statusVariant(schedule.status)}>{schedule.status}</Badge>
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          {schedule.next_run_at && (
+            <p>
+              Next: {format(new Date(schedule.next_run_at), 'PPp')}
+              {schedule.retry_at && ` (retrying ${format(new Date(schedule.retry_at), 'p')})`}
+            </p>
+          )}
+          {schedule.end_at && <p>Ends: {format(new Date(schedule.end_at), 'PP')}</p>}
+          <p>Sent {schedule.run_count} {schedule.run_count === 1 ? 'time' : 'times'}</p>
+          {schedule.last_error && <p className="text-destructive">Last error: {schedule.last_error}</p>}
+        </div>
+
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            {schedule.status === 'active' ? (
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => handleAction(schedule, 'pause')}>
+                <Pause className="w-3 h-3 mr-1" />
+                Pause
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => handleAction(schedule, 'resume')}>
+                <Play className="w-3 h-3 mr-1" />
+                Resume
+              </Button>
+            )}
+            {schedule.frequency !== 'once' && (
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => handleAction(schedule, 'skip')}>
+                <SkipForward className="w-3 h-3 mr-1" />
+                Skip Next
+              </Button>
+            )}
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleAction(schedule, 'cancel')}>
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Scheduled Transfers
+          </DialogTitle>
+          <DialogDescription>
+            Future and recurring transfers. Create new ones from Send Money.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="upcoming">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="upcoming">Upcoming ({upcoming.length})</TabsTrigger>
+            <TabsTrigger value="finished">Finished</TabsTrigger>
+            <TabsTrigger value="runs">Runs</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="upcoming" className="space-y-3">
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No scheduled transfers</p>
+            ) : (
+              upcoming.map(renderSchedule)
+            )}
+          </TabsContent>
+
+          <TabsContent value="finished" className="space-y-3">
+            {finished.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nothing here yet</p>
+            ) : (
+              finished.map(renderSchedule)
+            )}
+          </TabsContent>
+
+          <TabsContent value="runs" className="space-y-2">
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No transfers have run yet</p>
+            ) : (
+              runs.map((run) => {
+                const schedule = scheduleById.get(run.schedule_id);
+                return (
+                  <div key={run.id} className="flex items-start justify-between gap-2 p-2 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm">
+                        {schedule
+                          ? `$${Number(schedule.amount).toFixed(2)} to ${recipientNames[schedule.recipient_id] || 'Unknown recipient'}`
+                          : 'Scheduled transfer'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(run.occurrence_at), 'PPp')}
+                        {run.attempt > 1 && ` · attempt ${run.attempt}`}
+                      </p>
+                      {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+                    </div>
+                    <Badge variant={statusVariant(run.status)}>{run.status}</Badge>
+                  </div>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduledTransfersModal;
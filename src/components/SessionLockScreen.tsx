@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { supabase } from "@/integrations/supabase/client";
+import { useNativeBiometrics } from "@/hooks/useNativeBiometrics";
+import { AlertTriangle, Fingerprint, Lock, LogOut } from "lucide-react";
+
+interface SessionLockScreenProps {
+  open: boolean;
+  hasPin: boolean;
+  pinLength?: number;
+  timeoutMinutes: number;
+  onUnlock: () => void;
+  onSignOut: () => void;
+}
+
+// Covers the app after an idle timeout until the user proves it's still them
+export function SessionLockScreen({ open, hasPin, pinLength = 4, timeoutMinutes, onUnlock, onSignOut }: SessionLockScreenProps) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { isAvailable: biometricAvailable, authenticate, getBiometryLabel } = useNativeBiometrics();
+
+  useEffect(() => {
+    if (!open) {
+      setPin("");
+      setError("");
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleUnlock = async () => {
+    if (pin.length !== pinLength) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const { data, error } = await supabase.rpc('verify_transaction_pin', {
+        p_pin: pin
+      });
+
+      if (error) throw error;
+
+      // An expired PIN still proves who is at the device; transfers ask for a new one
+      const result = data as { success: boolean; error?: string; attempts_remaining?: number; change_required?: boolean };
+      if (!result.success && !result.change_required) {
+        setError(
+          result.attempts_remaining !== undefined
+            ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+            : result.error || 'Invalid PIN'
+        );
+        setPin("");
+        // PIN lockout ends the session rather than leaving it locked indefinitely
+        if (result.attempts_remaining === 0) onSignOut();
+        return;
+      }
+
+      onUnlock();
+    } catch (error) {
+      console.error('Unlock error:', error);
+      setError((error as Error).message || 'Unlock failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBiometricUnlock = async () => {
+    setError("");
+    const result = await authenticate('Unlock your session');
+    if (result.verified) {
+      onUnlock();
+    } else {
+      setError(result.error || 'Authentication failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-2">
+            <Lock className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>Session Locked</CardTitle>
+          <CardDescription>
+            You've been inactive for {timeoutMinutes} minutes.{" "}
+            {hasPin || biometricAvailable
+              ? "Unlock to continue where you left off."
+              : "Sign in again to continue."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {hasPin && (
+            <>
+              <div className="flex justify-center">
+                <InputOTP
+                  maxLength={pinLength}
+                  value={pin}
+                  onChange={(value) => {
+                    setPin(value);
+                    setError("");
+                  }}
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: pinLength }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button className="w-full" onClick={handleUnlock} disabled={loading || pin.length !== pinLength}>
+                {loading ? "Unlocking..." : "Unlock with PIN"}
+              </Button>
+            </>
+          )}
+
+          {biometricAvailable && (
+            <Button variant="outline" className="w-full" onClick={handleBiometricUnlock} disabled={loading}>
+              <Fingerprint className="w-4 h-4 mr-2" />
+              Unlock with {getBiometryLabel()}
+            </Button>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button variant="ghost" className="w-full" onClick={onSignOut} disabled={loading}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // Banking App Component
 import React, { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -31,6 +32,8 @@ import TransactionHistoryModal from "./TransactionHistoryModal";
 import NotificationSystem from "./NotificationSystem";
 import PWAInstallButton from "./PWAInstallButton";
 import PaymentRequestsModal from "./PaymentRequestsModal";
+import ScheduledTransfersModal from "./ScheduledTransfersModal";
+import MerchantModal from "./MerchantModal";
 import NavigationMenu from "./NavigationMenu";
 import AdminAnalyticsDashboard from "./admin/AdminAnalyticsDashboard";
 import { ManageUsersModal } from "./admin/ManageUsersModal";
@@ -60,8 +63,12 @@ import { TransactionLimitsModal } from "./admin/TransactionLimitsModal";
 import { HighValueVerificationModal } from "./HighValueVerificationModal";
 import { DeploymentManagementModal } from "./admin/DeploymentManagementModal";
 import BlockchainStatusIndicator from "./BlockchainStatusIndicator";
+import { unregisterPushDevice } from "@/hooks/usePushNotifications";
+import { clearSessionActivity, useSessionTimeout } from "@/hooks/useSessionTimeout";
+import { SessionLockScreen } from "./SessionLockScreen";
+import { getPinPolicy } from "@/lib/pinPolicy";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Building2, Gauge, UserPlus, SendHorizontal, Server } from "lucide-react";
+import { Building2, Gauge, UserPlus, SendHorizontal, Server, AlertTriangle } from "lucide-react";
 
 interface SimpleBankingAppProps {
   user: any;
@@ -73,11 +80,14 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
   const [loading, setLoading] = useState(true);
   const [showCardView, setShowCardView] = useState(false);
   const [showPinSettings, setShowPinSettings] = useState(false);
+  const [pinChangeRequired, setPinChangeRequired] = useState(false);
   const [showTransaction, setShowTransaction] = useState(false);
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [qrInitialMode, setQrInitialMode] = useState<'scan' | 'manual'>('scan');
   const [showTransactionHistory, setShowTransactionHistory] = useState(false);
   const [showPaymentRequests, setShowPaymentRequests] = useState(false);
+  const [showScheduledTransfers, setShowScheduledTransfers] = useState(false);
+  const [showMerchant, setShowMerchant] = useState(false);
   const [cardLocked, setCardLocked] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
   const [showReceiveFunds, setShowReceiveFunds] = useState(false);
@@ -111,9 +121,12 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
   const [showTransactionLimits, setShowTransactionLimits] = useState(false);
   const [showDeploymentManagement, setShowDeploymentManagement] = useState(false);
 
+  const sessionTimeout = useSessionTimeout(user?.id, () => handleSessionExpired());
+
   useEffect(() => {
     if (user) {
       loadProfile();
+      checkPinPolicy();
       
       // Subscribe to real-time balance updates
       const channel = supabase
@@ -131,6 +144,8 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
             setProfile((prev: any) => ({
               ...prev,
               balance: payload.new.balance,
+              account_status: payload.new.account_status,
+              account_status_reason: payload.new.account_status_reason,
             }));
             toast({
               title: "Balance Updated",
@@ -152,11 +167,33 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
     }
   }, [user]);
 
+  // Notification deep links, e.g. /?openHistory=true from the service worker
+  useEffect(() => {
+    if (!user) return;
+
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('openHistory') === 'true') setShowTransactionHistory(true);
+    if (params.get('openRequests') === 'true') setShowPaymentRequests(true);
+    if (params.get('openScheduled') === 'true') setShowScheduledTransfers(true);
+    if (params.get('openMerchant') === 'true') setShowMerchant(true);
+    if (params.get('openChat') === 'true') setShowLiveChat(true);
+    if (params.get('openSupport') === 'true') setShowClientSupport(true);
+
+    if (['openHistory', 'openRequests', 'openScheduled', 'openMerchant', 'openChat', 'openSupport'].some((key) => params.has(key))) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    // In-app chat notifications ask for the chat to open without a reload
+    const handleOpenChat = () => setShowLiveChat(true);
+    window.addEventListener('openChat', handleOpenChat);
+    return () => window.removeEventListener('openChat', handleOpenChat);
+  }, [user]);
+
   const refreshBalance = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('balance')
+        .select('balance, account_status, account_status_reason')
         .eq('user_id', user.id)
         .single();
 
@@ -164,6 +201,8 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
         setProfile((prev: any) => ({
           ...prev,
           balance: data.balance,
+          account_status: data.account_status,
+          account_status_reason: data.account_status_reason,
         }));
       }
     } catch (error) {
@@ -171,11 +210,21 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
     }
   };
 
+  // An expired PIN (rotation policy) or one shorter than the required length must be changed
+  const checkPinPolicy = async () => {
+    try {
+      const policy = await getPinPolicy();
+      setPinChangeRequired(policy.changeRequired);
+    } catch (error) {
+      console.error('Error checking PIN policy:', error);
+    }
+  };
+
   const loadProfile = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select(PROFILE_COLUMNS)
         .eq('user_id', user.id)
         .single();
 
@@ -190,7 +239,7 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
             role: 'CLIENT',
             balance: 0.00
           })
-          .select()
+          .select(PROFILE_COLUMNS)
           .single();
 
         if (insertError) throw insertError;
@@ -212,7 +261,22 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
     }
   };
 
+  const handleSessionExpired = async () => {
+    await supabase.from('activity_logs').insert({
+      user_id: user.id,
+      action_type: 'SESSION_EXPIRED',
+      description: `Signed out after ${sessionTimeout.timeoutMinutes * 2} minutes of inactivity`,
+    });
+    toast({
+      title: "Session Expired",
+      description: "You were signed out due to inactivity",
+    });
+    await handleSignOut();
+  };
+
   const handleSignOut = async () => {
+    clearSessionActivity();
+    await unregisterPushDevice();
     const { error } = await supabase.auth.signOut();
     if (error) {
       toast({
@@ -237,6 +301,12 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
       case 'requests':
         setShowPaymentRequests(true);
         break;
+      case 'scheduled':
+        setShowScheduledTransfers(true);
+        break;
+      case 'merchant':
+        setShowMerchant(true);
+        break;
       case 'settings':
         window.location.href = '/settings';
         break;
@@ -320,6 +390,14 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
 
   return (
     <div className="min-h-screen w-full overflow-x-hidden bg-background">
+      <SessionLockScreen
+        open={sessionTimeout.isLocked}
+        hasPin={!!profile.has_pin}
+        pinLength={profile.pin_length || 4}
+        timeoutMinutes={sessionTimeout.timeoutMinutes}
+        onUnlock={sessionTimeout.unlock}
+        onSignOut={handleSignOut}
+      />
       <div className="container mx-auto px-4 sm:px-6 py-4 sm:py-8 w-full">
         {/* Header */}
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 sm:mb-8 gap-4">
@@ -363,6 +441,20 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
           </Alert>
         )}
 
+        {/* Account restriction notice */}
+        {profile.account_status && profile.account_status !== 'active' && (
+          <Alert variant={profile.account_status === 'under_review' ? 'default' : 'destructive'} className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {profile.account_status === 'under_review'
+                ? 'Your account is under review.'
+                : `Your account is ${profile.account_status}. Transfers are disabled.`}
+              {profile.account_status_reason && ` Reason: ${profile.account_status_reason}.`}
+              {' '}Please contact support if you believe this is a mistake.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 mb-6 sm:mb-8 w-full">
           <Card>
@@ -666,9 +758,14 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
         onProfileUpdate={loadProfile}
       />
       <PinSettingsModal
-        open={showPinSettings}
+        open={showPinSettings || pinChangeRequired}
         onOpenChange={setShowPinSettings}
         userId={user?.id || ''}
+        required={pinChangeRequired}
+        onPinChanged={() => {
+          setPinChangeRequired(false);
+          loadProfile();
+        }}
       />
       <TransactionModal
         open={showTransaction}
@@ -689,6 +786,7 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
         open={showTransactionHistory}
         onOpenChange={setShowTransactionHistory}
         userId={user?.id || ''}
+        isAdmin={profile?.role === 'ADMIN'}
       />
       <PaymentRequestsModal
         open={showPaymentRequests}
@@ -696,6 +794,16 @@ const SimpleBankingApp: React.FC<SimpleBankingAppProps> = ({ user }) => {
         userId={user?.id || ''}
         onRequestProcessed={loadProfile}
       />
+      <ScheduledTransfersModal
+        open={showScheduledTransfers}
+        onOpenChange={setShowScheduledTransfers}
+        userId={user?.id || ''}
+      />
+      <MerchantModal
+        open={showMerchant}
+        onOpenChange={setShowMerchant}
+        userId={user?.id || ''}
+      />
 
       {/* Analytics Modal */}
       <Dialog open={showAnalytics} onOpenChange={setShowAnalytics}>
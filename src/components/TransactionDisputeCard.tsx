@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, File, Paperclip, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  DISPUTE_REASONS,
+  disputeReasonLabel,
+  disputeStatusLabel,
+  isDisputeOpen,
+  loadDisputeForTransaction,
+  openDispute,
+  uploadDisputeEvidence,
+  withdrawDispute,
+  type Dispute,
+  type DisputeReason,
+} from "@/lib/disputes";
+
+interface TransactionDisputeCardProps {
+  transactionId: string;
+  /** Only the sender can open or withdraw a dispute; the recipient just sees its status */
+  isSender: boolean;
+  /** Whether the transfer can still be disputed at all */
+  disputable: boolean;
+  /** What is left of the transfer after refunds */
+  maxAmount: number;
+  onChanged?: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
+const TransactionDisputeCard: React.FC<TransactionDisputeCardProps> = ({
+  transactionId,
+  isSender,
+  disputable,
+  maxAmount,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dispute, setDispute] = useState<Dispute | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState<DisputeReason>('wrong_recipient');
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [requestHold, setRequestHold] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setShowForm(false);
+    setFiles([]);
+    loadDisputeForTransaction(transactionId)
+      .then(setDispute)
+      .catch((error) => console.error('Error loading dispute:', error));
+  }, [transactionId]);
+
+  const openForm = () => {
+    setReason('wrong_recipient');
+    setDescription("");
+    setAmount(maxAmount.toFixed(2));
+    setRequestHold(false);
+    setFiles([]);
+    setShowForm(true);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setFiles((prev) => [...prev, ...selected]);
+    e.target.value = "";
+  };
+
+  const refresh = async () => {
+    setDispute(await loadDisputeForTransaction(transactionId));
+    onChanged?.();
+  };
+
+  const handleSubmit = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0 || value > maxAmount) {
+      toast({
+        title: "Invalid Amount",
+        description: `Enter an amount up to $${maxAmount.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (description.trim().length < 10) {
+      toast({
+        title: "More Detail Needed",
+        description: "Describe what went wrong in at least 10 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const disputeId = await openDispute({
+        transactionId,
+        reason,
+        description: description.trim(),
+        amount: value < maxAmount ? value : null,
+        requestHold,
+      });
+
+      // The case is open either way; a failed upload can be retried from the case
+      try {
+        if (files.length > 0) await uploadDisputeEvidence(disputeId, files);
+      } catch (error) {
+        toast({
+          title: "Evidence Not Uploaded",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+
+      toast({
+        title: "Dispute Opened",
+        description: "An agent will review your case and keep you updated",
+      });
+      setShowForm(false);
+      setFiles([]);
+      await refresh();
+    } catch (error) {
+      console.error('Error opening dispute:', error);
+      toast({
+        title: "Dispute Failed",
+        description: (error as Error).message || "Unable to open a dispute",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddEvidence = async () => {
+    if (!dispute || files.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await uploadDisputeEvidence(dispute.id, files);
+      setFiles([]);
+      toast({ title: "Evidence Added", description: "Your files were added to the case" });
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!dispute) return;
+
+    setIsSubmitting(true);
+    try {
+      await withdrawDispute(dispute.id);
+      toast({ title: "Dispute Withdrawn", description: "Your case has been closed" });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to withdraw dispute",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fileList = files.length > 0 && (
+    <div className="space-y-1">
+      {files.map((file, index) => (
+        <div key={index} className="flex items-center justify-between text-xs bg-muted rounded px-2 py-1">
+          <span className="flex items-center truncate">
+            <File className="w-3 h-3 mr-1 shrink-0" />
+            <span className="truncate">{file.name}</span>
+            <span className="text-muted-foreground ml-2">{formatFileSize(file.size)}</span>
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0"
+            onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  const fileInput = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept="image/*,.pdf,.doc,.docx,.txt"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isSubmitting}
+      >
+        <Paperclip className="w-3 h-3 mr-1" />
+        Attach Evidence
+      </Button>
+    </>
+  );
+
+  if (dispute && (isDisputeOpen(dispute) || !disputable || !isSender)) {
+    const open = isDisputeOpen(dispute);
+    return (
+      <Card>
+        <CardContent className="pt-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-semibold flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-1 text-amber-500" />
+              Dispute
+            </span>
+            <Badge variant={open ? "secondary" : "outline"}>{disputeStatusLabel(dispute.status)}</Badge>
+          </div>
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>
+              {disputeReasonLabel(dispute.reason_code)} · ${dispute.amount.toFixed(2)} · opened{" "}
+              {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+            </p>
+            {dispute.hold_amount > 0 && (
+              <p>${dispute.hold_amount.toFixed(2)} of the recipient's funds is on hold while the case is reviewed</p>
+            )}
+            {dispute.resolution_note && <p>Outcome: {dispute.resolution_note}</p>}
+          </div>
+
+          {open && isSender && (
+            <>
+              {fileList}
+              <div className="flex gap-2">
+                {fileInput}
+                {files.length > 0 && (
+                  <Button size="sm" onClick={handleAddEvidence} disabled={isSubmitting}>
+                    Upload
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={handleWithdraw}
+                  disabled={isSubmitting}
+                >
+                  Withdraw
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isSender || !disputable) return null;
+
+  if (!showForm) {
+    return (
+      <Button variant="ghost" size="sm" className="w-full text-muted-foreground" onClick={openForm}>
+        <AlertTriangle className="w-4 h-4 mr-2" />
+        Report a Problem
+      </Button>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-3">
+        <div>
+          <Label>What went wrong?</Label>
+          <Select value={reason} onValueChange={(value) => setReason(value as DisputeReason)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DISPUTE_REASONS.map((r) => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="dispute-description">Details</Label>
+          <Textarea
+            id="dispute-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={2000}
+            rows={3}
+            placeholder="Tell us what happened and who you meant to pay"
+          />
+        </div>
+        <div>
+          <Label htmlFor="dispute-amount">Amount Disputed</Label>
+          <Input
+            id="dispute-amount"
+            type="number"
+            step="0.01"
+            min="0.01"
+            max={maxAmount}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="dispute-hold">Ask to hold the funds</Label>
+            <p className="text-xs text-muted-foreground">An agent may hold the recipient's funds while reviewing</p>
+          </div>
+          <Switch id="dispute-hold" checked={requestHold} onCheckedChange={setRequestHold} />
+        </div>
+        {fileList}
+        <div>{fileInput}</div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => setShowForm(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Submitting..." : "Open Dispute"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionDisputeCard;
@@ -25,15 +25,20 @@ import {
   DollarSign,
   Search,
   Download,
-  FileText
+  FileText,
+  Clock,
+  Undo2
 } from "lucide-react";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
+import TransactionReceiptModal from "./TransactionReceiptModal";
+import { refundStatusLabel } from "@/lib/refunds";
 
 interface TransactionHistoryModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userId: string;
+  isAdmin?: boolean;
 }
 
 interface Transaction {
@@ -45,13 +50,43 @@ interface Transaction {
   type?: 'credit' | 'debit';
 }
 
+interface Transfer {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  amount: number;
+  fee: number;
+  total_amount: number;
+  status: string;
+  transaction_type: string;
+  description: string | null;
+  created_at: string;
+  refunded_amount: number;
+  reversal_of: string | null;
+}
+
+interface PendingDeposit {
+  id: string;
+  tx_hash: string;
+  from_address: string;
+  amount: number;
+  confirmations: number;
+  detected_at: string;
+}
+
 const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
   open,
   onOpenChange,
   userId,
+  isAdmin = false,
 }) => {
   const { toast } = useToast();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [selectedTransfer, setSelectedTransfer] = useState<Transfer | null>(null);
+  const [pendingDeposits, setPendingDeposits] = useState<PendingDeposit[]>([]);
+  const [requiredConfirmations, setRequiredConfirmations] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("all");
@@ -75,6 +110,26 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
 
       if (error) throw error;
 
+      // Credited deposits show up in activity_logs; unconfirmed ones are listed separately
+      const [{ data: deposits }, { data: network }] = await Promise.all([
+        supabase
+          .from('onchain_deposits')
+          .select('id, tx_hash, from_address, amount, confirmations, detected_at')
+          .eq('user_id', userId)
+          .eq('status', 'pending')
+          .order('detected_at', { ascending: false }),
+        supabase
+          .from('blockchain_networks')
+          .select('deposit_confirmations')
+          .eq('network', 'GYD')
+          .maybeSingle(),
+      ]);
+
+      setPendingDeposits(deposits || []);
+      setRequiredConfirmations(network?.deposit_confirmations || 0);
+
+      await loadTransfers();
+
       // Parse transactions and extract amounts
       const parsedTransactions = data.map(log => {
         const transaction: Transaction = {
@@ -113,6 +168,42 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
     }
   };
 
+  // Transfers in both directions, so refunds can be traced back to what they refund
+  const loadTransfers = async () => {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, sender_id, recipient_id, amount, fee, total_amount, status, transaction_type, description, created_at, refunded_amount, reversal_of')
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+
+    const userIds = new Set<string>([userId]);
+    (data || []).forEach((t) => {
+      userIds.add(t.sender_id);
+      userIds.add(t.recipient_id);
+    });
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', Array.from(userIds));
+
+    setNames(new Map((profiles || []).map((p) => [p.user_id, p.full_name])));
+    setTransfers(
+      (data || []).map((t) => ({
+        ...t,
+        amount: Number(t.amount),
+        fee: Number(t.fee),
+        total_amount: Number(t.total_amount),
+        refunded_amount: Number(t.refunded_amount),
+      }))
+    );
+  };
+
+  const nameOf = (id: string) => names.get(id) || 'Unknown user';
+
   const filteredTransactions = transactions.filter(transaction => {
     // Search filter
     if (searchTerm && !transaction.description.toLowerCase().includes(searchTerm.toLowerCase())) {
@@ -237,206 +328,327 @@ const TransactionHistoryModal: React.FC<TransactionHistoryModalProps> = ({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl max-h-[80vh]">
-        <DialogHeader>
-          <DialogTitle className="flex items-center">
-            <History className="w-5 h-5 mr-2" />
-            Transaction History
-          </DialogTitle>
-          <DialogDescription>
-            View and manage your account activity
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-4">
-          {/* Filters */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm flex items-center">
-                <Filter className="w-4 h-4 mr-2" />
-                Filters
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                <div>
-                  <Label htmlFor="search">Search</Label>
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                    <Input
-                      id="search"
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      placeholder="Search transactions..."
-                      className="pl-10"
-                    />
-                  </div>
-                </div>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[80vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <History className="w-5 h-5 mr-2" />
+              Transaction History
+            </DialogTitle>
+            <DialogDescription>
+              View and manage your account activity
+            </DialogDescription>
+          </DialogHeader>
 
-                <div>
-                  <Label>Transaction Type</Label>
-                  <Select value={filterType} onValueChange={setFilterType}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Types</SelectItem>
-                      <SelectItem value="credit">Money In</SelectItem>
-                      <SelectItem value="debit">Money Out</SelectItem>
-                      <SelectItem value="transfers">Transfers</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div>
-                  <Label>Date Range</Label>
-                  <Select value={dateRange} onValueChange={setDateRange}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Time</SelectItem>
-                      <SelectItem value="7days">Last 7 Days</SelectItem>
-                      <SelectItem value="30days">Last 30 Days</SelectItem>
-                      <SelectItem value="90days">Last 90 Days</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="flex items-end gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={exportCSV}
-                    className="flex-1"
-                    size="sm"
-                  >
-                    <Download className="w-4 h-4 mr-1" />
-                    CSV
-                  </Button>
-                  <Button
-                    variant="outline"
-                    onClick={exportPDF}
-                    className="flex-1"
-                    size="sm"
-                  >
-                    <FileText className="w-4 h-4 mr-1" />
-                    PDF
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-4">
+            {/* Filters */}
             <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between">
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center">
+                  <Filter className="w-4 h-4 mr-2" />
+                  Filters
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
-                    <p className="text-sm text-muted-foreground">Total Transactions</p>
-                    <p className="text-2xl font-bold">{filteredTransactions.length}</p>
+                    <Label htmlFor="search">Search</Label>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        id="search"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder="Search transactions..."
+                        className="pl-10"
+                      />
+                    </div>
                   </div>
-                  <History className="w-8 h-8 text-muted-foreground" />
-                </div>
-              </CardContent>
-            </Card>
 
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm text-muted-foreground">Money In</p>
-                    <p className="text-2xl font-bold text-success">
-                      ${filteredTransactions
-                        .filter(t => t.type === 'credit')
-                        .reduce((sum, t) => sum + (t.amount || 0), 0)
-                        .toFixed(2)}
-                    </p>
+                    <Label>Transaction Type</Label>
+                    <Select value={filterType} onValueChange={setFilterType}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Types</SelectItem>
+                        <SelectItem value="credit">Money In</SelectItem>
+                        <SelectItem value="debit">Money Out</SelectItem>
+                        <SelectItem value="transfers">Transfers</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <ArrowDownLeft className="w-8 h-8 text-success" />
-                </div>
-              </CardContent>
-            </Card>
 
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm text-muted-foreground">Money Out</p>
-                    <p className="text-2xl font-bold text-destructive">
-                      ${filteredTransactions
-                        .filter(t => t.type === 'debit')
-                        .reduce((sum, t) => sum + (t.amount || 0), 0)
-                        .toFixed(2)}
-                    </p>
+                    <Label>Date Range</Label>
+                    <Select value={dateRange} onValueChange={setDateRange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Time</SelectItem>
+                        <SelectItem value="7days">Last 7 Days</SelectItem>
+                        <SelectItem value="30days">Last 30 Days</SelectItem>
+                        <SelectItem value="90days">Last 90 Days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex items-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={exportCSV}
+                      className="flex-1"
+                      size="sm"
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={exportPDF}
+                      className="flex-1"
+                      size="sm"
+                    >
+                      <FileText className="w-4 h-4 mr-1" />
+                      PDF
+                    </Button>
                   </div>
-                  <ArrowUpRight className="w-8 h-8 text-destructive" />
                 </div>
               </CardContent>
             </Card>
-          </div>
 
-          {/* Transaction List */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm">Recent Transactions</CardTitle>
-            </CardHeader>
-            <CardContent className="p-0">
-              <ScrollArea className="h-96">
-                <div className="p-4 space-y-2">
-                  {isLoading ? (
-                    <div className="text-center py-8">
-                      <p className="text-muted-foreground">Loading transactions...</p>
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Total Transactions</p>
+                      <p className="text-2xl font-bold">{filteredTransactions.length}</p>
                     </div>
-                  ) : filteredTransactions.length === 0 ? (
-                    <div className="text-center py-8">
-                      <p className="text-muted-foreground">No transactions found</p>
+                    <History className="w-8 h-8 text-muted-foreground" />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Money In</p>
+                      <p className="text-2xl font-bold text-success">
+                        ${filteredTransactions
+                          .filter(t => t.type === 'credit')
+                          .reduce((sum, t) => sum + (t.amount || 0), 0)
+                          .toFixed(2)}
+                      </p>
                     </div>
-                  ) : (
-                    filteredTransactions.map((transaction, index) => (
-                      <div key={transaction.id}>
-                        <div className="flex items-center justify-between p-3 hover:bg-muted/50 rounded-lg">
-                          <div className="flex items-center space-x-3">
-                            {getTransactionIcon(transaction)}
-                            <div>
-                              <p className="font-medium text-sm">
-                                {transaction.action_type.replace(/_/g, ' ').toLowerCase()
-                                  .replace(/\b\w/g, l => l.toUpperCase())}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                {transaction.description}
-                              </p>
-                              <p className="text-xs text-muted-foreground">
-                                {new Date(transaction.created_at).toLocaleString()}
-                              </p>
+                    <ArrowDownLeft className="w-8 h-8 text-success" />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Money Out</p>
+                      <p className="text-2xl font-bold text-destructive">
+                        ${filteredTransactions
+                          .filter(t => t.type === 'debit')
+                          .reduce((sum, t) => sum + (t.amount || 0), 0)
+                          .toFixed(2)}
+                      </p>
+                    </div>
+                    <ArrowUpRight className="w-8 h-8 text-destructive" />
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {pendingDeposits.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm flex items-center">
+                    <Clock className="w-4 h-4 mr-2" />
+                    Incoming On-Chain Deposits
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {pendingDeposits.map((deposit) => (
+                    <div key={deposit.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                      <div>
+                        <p className="font-medium text-sm">From {deposit.from_address.slice(0, 8)}...{deposit.from_address.slice(-6)}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{deposit.tx_hash.slice(0, 18)}...</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(deposit.detected_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-success">+${Number(deposit.amount).toFixed(2)}</p>
+                        <Badge variant="outline" className="text-xs">
+                          {deposit.confirmations}/{requiredConfirmations} confirmations
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {transfers.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Transfers</CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <ScrollArea className="h-64">
+                    <div className="p-4 space-y-2">
+                      {transfers.map((transfer) => {
+                        const outgoing = transfer.sender_id === userId;
+                        const isRefund = transfer.transaction_type === 'refund';
+                        const counterpart = nameOf(outgoing ? transfer.recipient_id : transfer.sender_id);
+                        const label = refundStatusLabel(transfer.status);
+
+                        return (
+                          <button
+                            key={transfer.id}
+                            type="button"
+                            className="w-full flex items-center justify-between p-3 hover:bg-muted/50 rounded-lg text-left"
+                            onClick={() => setSelectedTransfer(transfer)}
+                          >
+                            <div className="flex items-center space-x-3">
+                              {isRefund ? (
+                                <Undo2 className="w-4 h-4 text-muted-foreground" />
+                              ) : outgoing ? (
+                                <ArrowUpRight className="w-4 h-4 text-destructive" />
+                              ) : (
+                                <ArrowDownLeft className="w-4 h-4 text-success" />
+                              )}
+                              <div>
+                                <p className="font-medium text-sm">
+                                  {isRefund
+                                    ? `Refund ${outgoing ? 'to' : 'from'} ${counterpart}`
+                                    : `${outgoing ? 'To' : 'From'} ${counterpart}`}
+                                </p>
+                                {transfer.reversal_of && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Refund of {transfer.reversal_of.slice(0, 8)}...
+                                  </p>
+                                )}
+                                {transfer.refunded_amount > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    ${transfer.refunded_amount.toFixed(2)} refunded
+                                  </p>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(transfer.created_at).toLocaleString()}
+                                </p>
+                              </div>
                             </div>
-                          </div>
-                          <div className="text-right">
-                            {transaction.amount && (
-                              <p className={`font-semibold ${getTransactionColor(transaction)}`}>
-                                {transaction.type === 'debit' ? '-' : '+'}${transaction.amount.toFixed(2)}
+                            <div className="text-right">
+                              <p className={`font-semibold ${outgoing ? 'text-destructive' : 'text-success'}`}>
+                                {outgoing ? '-' : '+'}${transfer.amount.toFixed(2)}
                               </p>
-                            )}
-                            <Badge 
-                              variant={transaction.type === 'credit' ? 'default' : 'secondary'}
-                              className="text-xs"
-                            >
-                              {transaction.type || 'activity'}
-                            </Badge>
+                              {label && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {label}
+                                </Badge>
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Transaction List */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Recent Transactions</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-96">
+                  <div className="p-4 space-y-2">
+                    {isLoading ? (
+                      <div className="text-center py-8">
+                        <p className="text-muted-foreground">Loading transactions...</p>
+                      </div>
+                    ) : filteredTransactions.length === 0 ? (
+                      <div className="text-center py-8">
+                        <p className="text-muted-foreground">No transactions found</p>
+                      </div>
+                    ) : (
+                      filteredTransactions.map((transaction, index) => (
+                        <div key={transaction.id}>
+                          <div className="flex items-center justify-between p-3 hover:bg-muted/50 rounded-lg">
+                            <div className="flex items-center space-x-3">
+                              {getTransactionIcon(transaction)}
+                              <div>
+                                <p className="font-medium text-sm">
+                                  {transaction.action_type.replace(/_/g, ' ').toLowerCase()
+                                    .replace(/\b\w/g, l => l.toUpperCase())}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {transaction.description}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(transaction.created_at).toLocaleString()}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="text-right">
+                              {transaction.amount && (
+                                <p className={`font-semibold ${getTransactionColor(transaction)}`}>
+                                  {transaction.type === 'debit' ? '-' : '+'}${transaction.amount.toFixed(2)}
+                                </p>
+                              )}
+                              <Badge 
+                                variant={transaction.type === 'credit' ? 'default' : 'secondary'}
+                                className="text-xs"
+                              >
+                                {transaction.type || 'activity'}
+                              </Badge>
+                            </div>
                           </div>
+                          {index < filteredTransactions.length - 1 && <Separator />}
                         </div>
-                        {index < filteredTransactions.length - 1 && <Separator />}
-                      </div>
-                    ))
-                  )}
-                </div>
-              </ScrollArea>
-            </CardContent>
-          </Card>
-        </div>
-      </DialogContent>
-    </Dialog>
+                      ))
+                    )}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TransactionReceiptModal
+        open={!!selectedTransfer}
+        onOpenChange={(isOpen) => !isOpen && setSelectedTransfer(null)}
+        transaction={selectedTransfer && {
+          id: selectedTransfer.id,
+          amount: selectedTransfer.amount,
+          fee: selectedTransfer.fee,
+          total: selectedTransfer.total_amount,
+          recipientName: nameOf(selectedTransfer.recipient_id),
+          recipientId: selectedTransfer.recipient_id,
+          senderName: nameOf(selectedTransfer.sender_id),
+          senderId: selectedTransfer.sender_id,
+          timestamp: new Date(selectedTransfer.created_at),
+          description: selectedTransfer.description || undefined,
+        }}
+        currentUserId={userId}
+        canReverse={isAdmin}
+        onRefunded={loadTransactions}
+      />
+    </>
   );
 };
 
@@ -12,12 +12,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import type { OfflineTransfer } from "@/lib/offlineQueue";
 import { supabase } from "@/integrations/supabase/client";
+import { submitTransfer } from "@/lib/transferGateway";
+import { getTransferLimits, maxSendableAmount, remainingAllowance, type TransferLimits } from "@/lib/transferLimits";
+import { createScheduledTransfer, FREQUENCY_LABELS, type TransferFrequency } from "@/lib/scheduledTransfers";
+import { format } from "date-fns";
 import PinVerificationModal from "./PinVerificationModal";
 import PinSetupModal from "./PinSetupModal";
 import { HighValueVerificationModal } from "./HighValueVerificationModal";
-import { Send, ArrowDownLeft, AlertTriangle, DollarSign, Lock } from "lucide-react";
+import { Send, ArrowDownLeft, AlertTriangle, CalendarClock, DollarSign, Lock, WifiOff, X } from "lucide-react";
 
 interface TransactionModalProps {
   open: boolean;
@@ -25,7 +32,7 @@ interface TransactionModalProps {
   userProfile: {
     balance: number;
     pin_enabled?: boolean;
-    pin_hash?: string;
+    has_pin?: boolean;
   } | null;
   userId: string;
   onTransactionComplete?: () => void;
@@ -33,6 +40,27 @@ interface TransactionModalProps {
 
 type TransactionType = 'send' | 'receive';
 
+// 'now' sends immediately; anything else creates a scheduled transfer
+type SendTiming = 'now' | TransferFrequency;
+
+interface TransferSchedule {
+  frequency: TransferFrequency;
+  startAt: Date;
+  endAt: Date | null;
+  cronExpression: string | null;
+}
+
+interface QueuedTransaction {
+  type: TransactionType;
+  amount: number;
+  recipient: string;
+  description: string;
+  idempotencyKey: string;
+  schedule?: TransferSchedule;
+  // Set when confirming a transfer that was saved in the offline queue
+  fromOfflineQueue?: boolean;
+}
+
 const TransactionModal: React.FC<TransactionModalProps> = ({
   open,
   onOpenChange,
@@ -51,18 +79,42 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   const [showHighValueVerification, setShowHighValueVerification] = useState(false);
   const [pendingTransaction, setPendingTransaction] = useState<any>(null);
   const [hasPinSet, setHasPinSet] = useState(false);
+  const [pinLength, setPinLength] = useState(4);
+  // With a PIN enabled the server requires it, so biometrics can't confirm a transfer
+  const [pinEnabled, setPinEnabled] = useState(false);
   const [highValueThreshold, setHighValueThreshold] = useState(1000);
   const [verificationRequired, setVerificationRequired] = useState(true);
   const [recipientName, setRecipientName] = useState("");
+  const [transferLimits, setTransferLimits] = useState<TransferLimits | null>(null);
+  const [timing, setTiming] = useState<SendTiming>('now');
+  const [scheduleStart, setScheduleStart] = useState("");
+  const [scheduleEnd, setScheduleEnd] = useState("");
+  const [cronExpression, setCronExpression] = useState("");
+  const [requestExpiry, setRequestExpiry] = useState("");
+  // Reused across retries of the same transfer so the server can de-duplicate them
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const offlineQueue = useOfflineQueue(userId, onTransactionComplete);
+
+  // Queued sends are not debited yet, but the balance they need is already spoken for
+  const queuedSendTotal = offlineQueue.transfers
+    .filter((t) => t.type === 'send' && t.status !== 'failed')
+    .reduce((sum, t) => sum + t.amount, 0);
+  const availableBalance = (userProfile?.balance || 0) - queuedSendTotal;
 
   // Check if user has PIN set and load high-value settings when modal opens
   useEffect(() => {
     if (open && userId) {
       checkPinStatus();
       loadHighValueSettings();
+      loadTransferLimits();
     }
   }, [open, userId]);
 
+  // A changed transfer is a new request and needs a new idempotency key
+  useEffect(() => {
+    setIdempotencyKey(crypto.randomUUID());
+  }, [transactionType, amount, recipient, description]);
+
   const loadHighValueSettings = async () => {
     try {
       const { data, error } = await supabase
@@ -84,16 +136,31 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     }
   };
 
+  const loadTransferLimits = async () => {
+    try {
+      setTransferLimits(await getTransferLimits());
+    } catch (error) {
+      console.error('Error loading transfer limits:', error);
+    }
+  };
+
+  const singleLimit = transferLimits?.singleLimit ?? null;
+  const remainingToday = transferLimits ? remainingAllowance(transferLimits) : null;
+  const sendableAmount = transferLimits ? maxSendableAmount(transferLimits) : null;
+  const isScheduled = transactionType === 'send' && timing !== 'now';
+
   const checkPinStatus = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('pin_hash, pin_enabled')
+        .select('has_pin, pin_enabled, pin_length')
         .eq('user_id', userId)
         .single();
 
       if (!error && data) {
-        setHasPinSet(!!data.pin_hash);
+        setHasPinSet(!!data.has_pin);
+        setPinEnabled(!!data.pin_enabled && !!data.has_pin);
+        setPinLength(data.pin_length || 4);
       }
     } catch (error) {
       console.error('Error checking PIN status:', error);
@@ -120,7 +187,8 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       return;
     }
 
-    if (transactionType === 'send' && transactionAmount > (userProfile?.balance || 0)) {
+    // Balance and remaining limits are checked when a scheduled transfer runs
+    if (transactionType === 'send' && !isScheduled && transactionAmount > availableBalance) {
       toast({
         title: "Insufficient Funds",
         description: "You don't have enough balance for this transaction",
@@ -129,22 +197,96 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       return;
     }
 
-    // Store pending transaction data
-    setPendingTransaction({
+    // The server enforces the limits; this just saves a round of PIN entry
+    if (transactionType === 'send' && !isScheduled && navigator.onLine && sendableAmount !== null && transactionAmount > sendableAmount) {
+      toast({
+        title: "Transfer Limit Reached",
+        description: singleLimit !== null && transactionAmount > singleLimit
+          ? `The most you can send in one transfer is $${singleLimit.toFixed(2)}`
+          : `You can still send $${(remainingToday ?? 0).toFixed(2)} today`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let schedule: TransferSchedule | undefined;
+    if (isScheduled) {
+      if (!navigator.onLine) {
+        toast({
+          title: "You're offline",
+          description: "Connect to the internet to schedule a transfer",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // A custom schedule without a start date starts right away
+      const startAt = scheduleStart ? new Date(scheduleStart) : timing === 'cron' ? new Date() : null;
+      if (!startAt || (timing === 'once' && startAt <= new Date())) {
+        toast({
+          title: "Error",
+          description: "Choose a date and time in the future",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (timing === 'cron' && !cronExpression.trim()) {
+        toast({
+          title: "Error",
+          description: "Enter a cron expression for the custom schedule",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      schedule = {
+        frequency: timing,
+        startAt,
+        endAt: timing !== 'once' && scheduleEnd ? new Date(`${scheduleEnd}T23:59:59`) : null,
+        cronExpression: timing === 'cron' ? cronExpression.trim() : null,
+      };
+    }
+
+    const transaction: QueuedTransaction = {
       type: transactionType,
       amount: transactionAmount,
       recipient,
       description,
-    });
+      idempotencyKey,
+      schedule,
+    };
+
+    if (!navigator.onLine) {
+      if (!offlineQueue.isSupported) {
+        toast({
+          title: "You're offline",
+          description: "This browser cannot queue transactions offline. Try again once you're connected.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Nothing is authorized offline; transfers are confirmed with the PIN once back online
+      await queueOfflineTransaction(transaction);
+      return;
+    }
+
+    await requestVerification(transaction);
+  };
+
+  const requestVerification = async (transaction: QueuedTransaction) => {
+    // Store pending transaction data
+    setPendingTransaction(transaction);
 
     // Always require PIN for transactions - prompt to create if not set
     if (!hasPinSet) {
       setShowPinSetup(true);
     } else {
       // Check if high-value verification is required
-      if (transactionType === 'send' && verificationRequired && transactionAmount >= highValueThreshold) {
+      if (transaction.type === 'send' && verificationRequired && transaction.amount >= highValueThreshold) {
         // Resolve recipient name first for high-value modal
-        await resolveRecipientName(recipient);
+        await resolveRecipientName(transaction.recipient);
         setShowHighValueVerification(true);
       } else {
         setShowPinVerification(true);
@@ -152,6 +294,17 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     }
   };
 
+  // A transfer saved offline goes through the same checks as a new one, under its original key
+  const confirmQueuedTransfer = (queued: OfflineTransfer) =>
+    requestVerification({
+      type: queued.type,
+      amount: queued.amount,
+      recipient: queued.recipient,
+      description: queued.description || '',
+      idempotencyKey: queued.id,
+      fromOfflineQueue: true,
+    });
+
   const resolveRecipientName = async (recipientInput: string) => {
     try {
       const isUuid = (v: string) =>
@@ -192,13 +345,55 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
 
   const handlePinSetComplete = () => {
     setHasPinSet(true);
+    // The new PIN follows the current length policy
+    checkPinStatus();
     // After setting PIN, show verification modal
     setShowPinVerification(true);
   };
 
+  // Store the transaction until connectivity returns. The PIN is never stored with it.
+  const queueOfflineTransaction = async (transaction: QueuedTransaction) => {
+    try {
+      await offlineQueue.enqueue({
+        id: transaction.idempotencyKey,
+        userId,
+        type: transaction.type,
+        amount: transaction.amount,
+        recipient: transaction.recipient,
+        description: transaction.description || null,
+      });
+
+      toast({
+        title: 'Saved for later',
+        description: transaction.type === 'send'
+          ? `Transfer of $${transaction.amount.toFixed(2)} is waiting for you to confirm it with your PIN once you're back online`
+          : `Payment request of $${transaction.amount.toFixed(2)} will be sent when you're back online`,
+      });
+
+      setAmount('');
+      setRecipient('');
+      setDescription('');
+      setShowPinVerification(false);
+      setPendingTransaction(null);
+    } catch (error) {
+      console.error('Error queueing offline transaction:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save the transaction for offline sending',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handlePinVerification = async (pin: string) => {
     if (!pendingTransaction) return;
 
+    // The PIN is verified when the schedule is created
+    if (pendingTransaction.schedule) {
+      await scheduleTransaction(pendingTransaction, pin);
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Verify PIN server-side with rate limiting
@@ -225,7 +420,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       }
 
       // PIN verified server-side, process transaction
-      await processTransaction(pendingTransaction);
+      await completeTransaction(pendingTransaction, pin);
       setShowPinVerification(false);
       setPendingTransaction(null);
     } catch (error: any) {
@@ -242,13 +437,21 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
 
   const handleBiometricVerification = async () => {
     if (!pendingTransaction) return;
-    
+
     // Biometric verified, process transaction
-    await processTransaction(pendingTransaction);
+    await completeTransaction(pendingTransaction);
     setShowPinVerification(false);
     setPendingTransaction(null);
   };
 
+  const completeTransaction = async (transaction: QueuedTransaction, pin: string | null = null) => {
+    const completed = await processTransaction(transaction, pin);
+    // A failed offline transfer stays queued so it can be confirmed again or discarded
+    if (completed && transaction.fromOfflineQueue) {
+      await offlineQueue.discard(transaction.idempotencyKey);
+    }
+  };
+
   const sendHighValueAlert = async (transactionData: {
     sender_id: string;
     sender_name: string;
@@ -291,10 +494,77 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     }
   };
 
-  const processTransaction = async (transaction: any) => {
+  const scheduleTransaction = async (transaction: QueuedTransaction, pin: string) => {
+    const { amount, recipient, description, schedule } = transaction;
+    if (!schedule) return;
+
+    setIsLoading(true);
+    try {
+      const isUuid = (v: string) =>
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+
+      let recipientId = recipient;
+      let recipientLabel = recipient;
+
+      if (!isUuid(recipient)) {
+        if (!recipient.includes('@')) {
+          throw new Error('Enter a valid user ID (UUID) or email address.');
+        }
+
+        const { data: rec, error: recErr } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .eq('email', recipient)
+          .maybeSingle();
+        if (recErr) throw recErr;
+        if (!rec) throw new Error('No user found with that email.');
+
+        recipientId = rec.user_id as string;
+        recipientLabel = rec.full_name || recipient;
+      }
+
+      const { nextRunAt } = await createScheduledTransfer({
+        recipientId,
+        amount,
+        frequency: schedule.frequency,
+        startAt: schedule.startAt,
+        endAt: schedule.endAt,
+        cronExpression: schedule.cronExpression,
+        description: description || null,
+        pin,
+      });
+
+      toast({
+        title: 'Transfer Scheduled',
+        description: `${FREQUENCY_LABELS[schedule.frequency]} transfer of $${amount.toFixed(2)} to ${recipientLabel}, first on ${format(new Date(nextRunAt), 'PPp')}`,
+      });
+
+      setAmount('');
+      setRecipient('');
+      setDescription('');
+      setTiming('now');
+      setScheduleStart('');
+      setScheduleEnd('');
+      setCronExpression('');
+      setShowPinVerification(false);
+      setPendingTransaction(null);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Schedule transfer error:', error);
+      toast({
+        title: 'Scheduling Failed',
+        description: (error as Error).message || 'Unable to schedule the transfer. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const processTransaction = async (transaction: QueuedTransaction, pin: string | null): Promise<boolean> => {
     setIsLoading(true);
     try {
-      const { type, amount, recipient, description } = transaction;
+      const { type, amount, recipient, description, idempotencyKey } = transaction;
 
       // Handle payment request
       if (type === 'receive') {
@@ -318,7 +588,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               description: 'No user found with that email.',
               variant: 'destructive',
             });
-            return;
+            return false;
           }
           recipientId = rec.user_id as string;
         } else {
@@ -327,22 +597,25 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
             description: 'Enter a valid user ID (UUID) or email address.',
             variant: 'destructive',
           });
-          return;
+          return false;
         }
 
         // Create payment request
-        const { error } = await supabase
-          .from('payment_requests')
-          .insert({
-            sender_id: userId,
-            recipient_id: recipientId,
-            amount: amount,
-            description: description || null,
-            status: 'pending',
-          });
-
+        const { data, error } = await supabase.rpc('create_payment_request', {
+          p_recipient_id: recipientId,
+          p_amount: amount,
+          p_description: description || null,
+          p_idempotency_key: idempotencyKey,
+          // Without a date the request expires after the system default
+          p_expires_at: requestExpiry ? new Date(`${requestExpiry}T23:59:59`).toISOString() : null,
+        });
         if (error) throw error;
 
+        const result = data as { success: boolean; error?: string };
+        if (!result?.success) {
+          throw new Error(result?.error || 'Payment request failed');
+        }
+
         toast({
           title: 'Request Sent',
           description: `Payment request for $${amount.toFixed(2)} has been sent`,
@@ -351,9 +624,10 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         setAmount('');
         setRecipient('');
         setDescription('');
+        setRequestExpiry('');
         onTransactionComplete?.();
         onOpenChange(false);
-        return;
+        return true;
       }
 
       // Resolve recipient id (accepts UUID or email)
@@ -389,7 +663,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
             description: 'No user found with that email.',
             variant: 'destructive',
           });
-          return;
+          return false;
         }
         recipientId = rec.user_id as string;
         recipientLabel = rec.full_name || recipient;
@@ -400,19 +674,19 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
           description: 'Enter a valid user ID (UUID) or email address.',
           variant: 'destructive',
         });
-        return;
+        return false;
       }
 
-      // Call secure backend transfer (handles fees and balance checks)
-      const { data, error } = await supabase.rpc('process_transfer', {
-        p_recipient_id: recipientId,
-        p_amount: amount,
-        p_description: description || null,
+      // Call secure backend transfer (handles fees and balance checks, and the PIN again)
+      const result = await submitTransfer({
+        recipientId,
+        amount,
+        description: description || null,
+        idempotencyKey,
+        pin,
       });
-      if (error) throw error;
-
-      const result = data as any;
       if (!result?.success) {
+        if (result?.limit_exceeded) loadTransferLimits();
         throw new Error(result?.error || 'Transfer failed');
       }
 
@@ -453,6 +727,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       // Notify parent and close
       onTransactionComplete?.();
       onOpenChange(false);
+      return true;
     } catch (error: any) {
       console.error('Transaction error:', error);
       toast({
@@ -460,6 +735,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         description: error?.message || 'Unable to process transaction. Please try again.',
         variant: 'destructive',
       });
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -474,6 +750,11 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     setShowPinSetup(false);
     setShowHighValueVerification(false);
     setRecipientName("");
+    setTiming('now');
+    setScheduleStart("");
+    setScheduleEnd("");
+    setCronExpression("");
+    setRequestExpiry("");
     onOpenChange(false);
   };
 
@@ -518,6 +799,80 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               </Select>
             </div>
 
+            {/* Timing */}
+            {transactionType === 'send' && (
+              <div className="space-y-3">
+                <div>
+                  <Label>When</Label>
+                  <Select value={timing} onValueChange={(value: SendTiming) => setTiming(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="now">Send now</SelectItem>
+                      <SelectItem value="once">Later, once</SelectItem>
+                      <SelectItem value="weekly">Every week</SelectItem>
+                      <SelectItem value="monthly">Every month</SelectItem>
+                      <SelectItem value="cron">Custom schedule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {isScheduled && (
+                  <>
+                    <div>
+                      <Label htmlFor="schedule-start">
+                        {timing === 'once' ? 'Send on' : timing === 'cron' ? 'Starting (optional)' : 'First transfer'}
+                      </Label>
+                      <Input
+                        id="schedule-start"
+                        type="datetime-local"
+                        min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                        value={scheduleStart}
+                        onChange={(e) => setScheduleStart(e.target.value)}
+                      />
+                    </div>
+
+                    {timing === 'cron' && (
+                      <div>
+                        <Label htmlFor="cron-expression">Cron Expression</Label>
+                        <Input
+                          id="cron-expression"
+                          value={cronExpression}
+                          onChange={(e) => setCronExpression(e.target.value)}
+                          placeholder="0 9 1,15 * *"
+                          className="font-mono"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Minute, hour, day of month, month, day of week, in UTC
+                        </p>
+                      </div>
+                    )}
+
+                    {timing !== 'once' && (
+                      <div>
+                        <Label htmlFor="schedule-end">Ends (optional)</Label>
+                        <Input
+                          id="schedule-end"
+                          type="date"
+                          value={scheduleEnd}
+                          onChange={(e) => setScheduleEnd(e.target.value)}
+                        />
+                      </div>
+                    )}
+
+                    <Alert>
+                      <CalendarClock className="h-4 w-4" />
+                      <AlertDescription>
+                        Fees, limits and your balance are checked each time the transfer runs.
+                        Failed runs are retried, and you'll be notified of each one.
+                      </AlertDescription>
+                    </Alert>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Amount */}
             <div>
               <Label htmlFor="amount">Amount</Label>
@@ -534,6 +889,12 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
                   placeholder="0.00"
                 />
               </div>
+              {transactionType === 'send' && !isScheduled && remainingToday !== null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  You can still send ${remainingToday.toFixed(2)} today
+                  {singleLimit !== null && ` (up to $${singleLimit.toFixed(2)} per transfer)`}
+                </p>
+              )}
             </div>
 
             {/* Recipient */}
@@ -549,6 +910,19 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               />
             </div>
 
+            {transactionType === 'receive' && (
+              <div>
+                <Label htmlFor="request-expiry">Expires (optional)</Label>
+                <Input
+                  id="request-expiry"
+                  type="date"
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  value={requestExpiry}
+                  onChange={(e) => setRequestExpiry(e.target.value)}
+                />
+              </div>
+            )}
+
             {/* Description */}
             <div>
               <Label htmlFor="description">Description (Optional)</Label>
@@ -576,8 +950,13 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
-                  Available Balance: ${userProfile?.balance?.toFixed(2) || '0.00'}
-                  {parseFloat(amount) > (userProfile?.balance || 0) && (
+                  Available Balance: ${availableBalance.toFixed(2)}
+                  {queuedSendTotal > 0 && (
+                    <span className="text-muted-foreground ml-1">
+                      (${queuedSendTotal.toFixed(2)} queued offline)
+                    </span>
+                  )}
+                  {parseFloat(amount) > availableBalance && (
                     <span className="text-destructive ml-2">
                       Insufficient funds!
                     </span>
@@ -586,6 +965,65 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               </Alert>
             )}
 
+            {/* Offline Notice */}
+            {!offlineQueue.isOnline && (
+              <Alert>
+                <WifiOff className="h-4 w-4" />
+                <AlertDescription>
+                  You're offline. This transaction will be saved on this device. Payment requests
+                  are sent automatically when you reconnect; transfers wait for you to confirm them
+                  with your PIN.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Offline Queue */}
+            {offlineQueue.transfers.length > 0 && (
+              <div className="space-y-2">
+                <Label>Waiting to Send</Label>
+                {offlineQueue.transfers.map((queued) => (
+                  <div key={queued.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {queued.type === 'send' ? 'Send' : 'Request'} ${queued.amount.toFixed(2)}
+                        {queued.type === 'send' ? ' to ' : ' from '}{queued.recipient}
+                      </p>
+                      {queued.error && (
+                        <p className="text-xs text-destructive">{queued.error}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant={queued.status === 'failed' ? 'destructive' : 'secondary'}>
+                        {queued.status === 'failed' ? 'failed' : 'pending'}
+                      </Badge>
+                      {queued.type === 'send' && queued.status === 'queued' && offlineQueue.isOnline && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => confirmQueuedTransfer(queued)}
+                          disabled={isLoading}
+                        >
+                          Confirm
+                        </Button>
+                      )}
+                      {queued.status !== 'submitting' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => offlineQueue.discard(queued.id)}
+                          aria-label="Discard"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* PIN Notice */}
             <Alert>
               <Lock className="h-4 w-4" />
@@ -611,7 +1049,8 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
                 disabled={isLoading || !amount || !recipient}
                 className="flex-1"
               >
-                {isLoading ? "Processing..." : 
+                {isLoading ? "Processing..." :
+                 isScheduled ? 'Schedule Transfer' :
                  transactionType === 'send' ? 'Send Money' : 'Request Money'}
               </Button>
             </div>
@@ -626,7 +1065,6 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         userId={userId}
         onPinSet={handlePinSetComplete}
         title="Set Up Transaction PIN"
-        description="Create a 4-digit PIN to secure your transactions"
       />
 
       {/* PIN Verification Modal */}
@@ -634,9 +1072,10 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         open={showPinVerification}
         onOpenChange={setShowPinVerification}
         onVerify={handlePinVerification}
+        pinLength={pinLength}
         onBiometricVerify={handleBiometricVerification}
         isLoading={isLoading}
-        enableBiometric={true}
+        enableBiometric={!pendingTransaction?.schedule && !pinEnabled}
       />
 
       {/* High Value Verification Modal */}
@@ -645,6 +1084,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
         onOpenChange={setShowHighValueVerification}
         amount={pendingTransaction?.amount || 0}
         recipientName={recipientName}
+        pinLength={pinLength}
         onVerified={handleHighValueVerified}
         onCancel={handleHighValueCancelled}
       />
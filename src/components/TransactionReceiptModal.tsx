@@ -1,4 +1,4 @@
-import React, { useRef } from "react";
+import React, { useRef, useState, useEffect } from "react";
 import {
   Dialog,
   DialogContent,
@@ -10,7 +10,10 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
 import { 
   Download, 
   CheckCircle, 
@@ -18,9 +21,19 @@ import {
   X,
   ArrowRight,
   Calendar,
-  Hash
+  Hash,
+  Undo2
 } from "lucide-react";
 import jsPDF from "jspdf";
+import PinVerificationModal from "./PinVerificationModal";
+import TransactionDisputeCard from "./TransactionDisputeCard";
+import {
+  canBeRefunded,
+  loadRefundLinks,
+  refundStatusLabel,
+  refundTransaction,
+  type RefundLinks,
+} from "@/lib/refunds";
 
 interface TransactionReceiptModalProps {
   open: boolean;
@@ -37,18 +50,126 @@ interface TransactionReceiptModalProps {
     timestamp: Date;
     description?: string;
   } | null;
+  /** Lets the recipient refund the transfer, and the sender dispute it, from this receipt */
+  currentUserId?: string;
+  /** Admins can reverse transfers they didn't receive */
+  canReverse?: boolean;
+  onRefunded?: () => void;
 }
 
 const TransactionReceiptModal: React.FC<TransactionReceiptModalProps> = ({
   open,
   onOpenChange,
   transaction,
+  currentUserId,
+  canReverse = false,
+  onRefunded,
 }) => {
   const { toast } = useToast();
   const receiptRef = useRef<HTMLDivElement>(null);
+  const [links, setLinks] = useState<RefundLinks | null>(null);
+  const [showRefundForm, setShowRefundForm] = useState(false);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [pinRequired, setPinRequired] = useState(false);
+  const [pinLength, setPinLength] = useState(4);
+  const [showPin, setShowPin] = useState(false);
+
+  const transactionId = transaction?.id;
+
+  useEffect(() => {
+    if (!open || !transactionId) return;
+
+    setShowRefundForm(false);
+    setRefundReason("");
+    loadRefundLinks(transactionId)
+      .then(setLinks)
+      .catch((error) => console.error('Error loading refunds:', error));
+  }, [open, transactionId]);
+
+  useEffect(() => {
+    if (!open || !currentUserId) return;
+
+    supabase
+      .from('profiles')
+      .select('has_pin, pin_enabled, pin_length')
+      .eq('user_id', currentUserId)
+      .single()
+      .then(({ data }) => {
+        setPinRequired(!!data?.pin_enabled && !!data?.has_pin);
+        setPinLength(data?.pin_length || 4);
+      });
+  }, [open, currentUserId]);
 
   if (!transaction) return null;
 
+  const isRecipient = !!currentUserId && currentUserId === transaction.recipientId;
+  const isSender = !!currentUserId && currentUserId === transaction.senderId;
+  const refundable = !!links
+    && canBeRefunded({ status: links.status, transaction_type: links.transactionType })
+    && (isRecipient || canReverse);
+  const refundRemaining = links ? links.amount - links.refundedAmount : 0;
+  const statusLabel = (links && refundStatusLabel(links.status)) || (links?.reversalOf ? "Refund" : "Completed");
+
+  const openRefundForm = () => {
+    setRefundAmount(refundRemaining.toFixed(2));
+    setShowRefundForm(true);
+  };
+
+  const handleRefund = () => {
+    const amount = parseFloat(refundAmount);
+    if (isNaN(amount) || amount <= 0 || amount > refundRemaining) {
+      toast({
+        title: "Invalid Amount",
+        description: `Enter an amount up to $${refundRemaining.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The PIN protects the recipient's own balance; admin reversals don't ask for one
+    if (isRecipient && pinRequired) {
+      setShowPin(true);
+      return;
+    }
+    submitRefund(amount);
+  };
+
+  const submitRefund = async (amount: number, pin?: string) => {
+    setIsRefunding(true);
+    try {
+      const result = await refundTransaction({
+        transactionId: transaction.id,
+        amount: amount < refundRemaining ? amount : null,
+        reason: refundReason.trim() || null,
+        pin,
+        idempotencyKey: crypto.randomUUID(),
+      });
+
+      toast({
+        title: "Refund Sent",
+        description: result.feeReturned > 0
+          ? `Refunded $${result.amount.toFixed(2)} to ${transaction.senderName}, with $${result.feeReturned.toFixed(2)} in fees returned`
+          : `Refunded $${result.amount.toFixed(2)} to ${transaction.senderName}`,
+      });
+
+      setShowPin(false);
+      setShowRefundForm(false);
+      setLinks(await loadRefundLinks(transaction.id));
+      onRefunded?.();
+    } catch (error) {
+      console.error('Error refunding transaction:', error);
+      toast({
+        title: "Refund Failed",
+        description: (error as Error).message || "Unable to refund this transaction",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -85,7 +206,7 @@ const TransactionReceiptModal: React.FC<TransactionReceiptModalProps> = ({
     doc.roundedRect(80, 45, 50, 12, 3, 3, 'F');
     doc.setTextColor(255, 255, 255);
     doc.setFontSize(10);
-    doc.text("COMPLETED", 105, 53, { align: "center" });
+    doc.text(statusLabel.toUpperCase(), 105, 53, { align: "center" });
     
     // Transaction details
     doc.setTextColor(40, 40, 40);
@@ -112,6 +233,17 @@ const TransactionReceiptModal: React.FC<TransactionReceiptModalProps> = ({
     if (transaction.description) {
       details.push(["Description", transaction.description]);
     }
+
+    if (links?.reversalOf) {
+      details.push(["Refund Of", links.reversalOf]);
+    }
+
+    if (links && links.refundedAmount > 0) {
+      details.push(["Refunded", `$${links.refundedAmount.toFixed(2)} GYD`]);
+      links.refunds.forEach((refund) => {
+        details.push(["Refund", `$${refund.amount.toFixed(2)} on ${formatDate(new Date(refund.created_at))} (${refund.id})`]);
+      });
+    }
     
     details.forEach(([label, value]) => {
       doc.setFont("helvetica", "bold");
@@ -144,133 +276,242 @@ const TransactionReceiptModal: React.FC<TransactionReceiptModalProps> = ({
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
-        <DialogHeader>
-          <DialogTitle className="flex items-center justify-center text-center">
-            <CheckCircle className="w-6 h-6 text-green-500 mr-2" />
-            Transaction Successful
-          </DialogTitle>
-          <DialogDescription className="text-center">
-            Your payment has been processed successfully
-          </DialogDescription>
-        </DialogHeader>
-
-        <div ref={receiptRef} className="space-y-4">
-          {/* Success Animation */}
-          <div className="flex justify-center py-4">
-            <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center">
-              <CheckCircle className="w-12 h-12 text-green-500" />
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center justify-center text-center">
+              <CheckCircle className="w-6 h-6 text-green-500 mr-2" />
+              Transaction Successful
+            </DialogTitle>
+            <DialogDescription className="text-center">
+              Your payment has been processed successfully
+            </DialogDescription>
+          </DialogHeader>
+
+          <div ref={receiptRef} className="space-y-4">
+            {/* Success Animation */}
+            <div className="flex justify-center py-4">
+              <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center">
+                <CheckCircle className="w-12 h-12 text-green-500" />
+              </div>
             </div>
-          </div>
 
-          {/* Amount Display */}
-          <div className="text-center">
-            <p className="text-3xl font-bold text-foreground">
-              ${transaction.amount.toFixed(2)} GYD
-            </p>
-            <Badge variant="default" className="mt-2">
-              Completed
-            </Badge>
-          </div>
+            {/* Amount Display */}
+            <div className="text-center">
+              <p className="text-3xl font-bold text-foreground">
+                ${transaction.amount.toFixed(2)} GYD
+              </p>
+              <Badge variant={links && refundStatusLabel(links.status) ? "secondary" : "default"} className="mt-2">
+                {statusLabel}
+              </Badge>
+            </div>
 
-          {/* Transaction Flow */}
-          <Card>
-            <CardContent className="pt-4">
-              <div className="flex items-center justify-between">
-                <div className="text-center flex-1">
-                  <p className="text-xs text-muted-foreground">From</p>
-                  <p className="font-medium text-sm truncate">{transaction.senderName}</p>
-                </div>
-                <ArrowRight className="w-5 h-5 text-muted-foreground mx-2" />
-                <div className="text-center flex-1">
-                  <p className="text-xs text-muted-foreground">To</p>
-                  <p className="font-medium text-sm truncate">{transaction.recipientName}</p>
+            {/* Transaction Flow */}
+            <Card>
+              <CardContent className="pt-4">
+                <div className="flex items-center justify-between">
+                  <div className="text-center flex-1">
+                    <p className="text-xs text-muted-foreground">From</p>
+                    <p className="font-medium text-sm truncate">{transaction.senderName}</p>
+                  </div>
+                  <ArrowRight className="w-5 h-5 text-muted-foreground mx-2" />
+                  <div className="text-center flex-1">
+                    <p className="text-xs text-muted-foreground">To</p>
+                    <p className="font-medium text-sm truncate">{transaction.recipientName}</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Transaction Details */}
-          <Card>
-            <CardContent className="pt-4 space-y-3">
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-muted-foreground flex items-center">
-                  <Hash className="w-3 h-3 mr-1" />
-                  Transaction ID
-                </span>
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  onClick={copyTransactionId}
-                  className="h-auto py-1 px-2 text-xs font-mono"
-                >
-                  {transaction.id.slice(0, 8)}...
-                  <Copy className="w-3 h-3 ml-1" />
-                </Button>
-              </div>
-              
-              <Separator />
-              
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-muted-foreground flex items-center">
-                  <Calendar className="w-3 h-3 mr-1" />
-                  Date & Time
-                </span>
-                <span className="text-sm">{formatDate(transaction.timestamp)}</span>
-              </div>
-              
-              <Separator />
-              
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">Amount</span>
-                  <span className="text-sm">${transaction.amount.toFixed(2)}</span>
+              </CardContent>
+            </Card>
+
+            {/* Transaction Details */}
+            <Card>
+              <CardContent className="pt-4 space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground flex items-center">
+                    <Hash className="w-3 h-3 mr-1" />
+                    Transaction ID
+                  </span>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    onClick={copyTransactionId}
+                    className="h-auto py-1 px-2 text-xs font-mono"
+                  >
+                    {transaction.id.slice(0, 8)}...
+                    <Copy className="w-3 h-3 ml-1" />
+                  </Button>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">Fee</span>
-                  <span className="text-sm">${transaction.fee.toFixed(2)}</span>
+                
+                <Separator />
+                
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground flex items-center">
+                    <Calendar className="w-3 h-3 mr-1" />
+                    Date & Time
+                  </span>
+                  <span className="text-sm">{formatDate(transaction.timestamp)}</span>
                 </div>
+                
                 <Separator />
-                <div className="flex justify-between font-semibold">
-                  <span className="text-sm">Total Debited</span>
-                  <span className="text-sm">${transaction.total.toFixed(2)}</span>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Amount</span>
+                    <span className="text-sm">${transaction.amount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Fee</span>
+                    <span className="text-sm">${transaction.fee.toFixed(2)}</span>
+                  </div>
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span className="text-sm">Total Debited</span>
+                    <span className="text-sm">${transaction.total.toFixed(2)}</span>
+                  </div>
                 </div>
-              </div>
 
-              {transaction.description && (
-                <>
-                  <Separator />
+                {transaction.description && (
+                  <>
+                    <Separator />
+                    <div>
+                      <span className="text-sm text-muted-foreground">Description</span>
+                      <p className="text-sm mt-1">{transaction.description}</p>
+                    </div>
+                  </>
+                )}
+
+                {links?.reversalOf && (
+                  <>
+                    <Separator />
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground flex items-center">
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        Refund Of
+                      </span>
+                      <span className="text-xs font-mono">{links.reversalOf.slice(0, 8)}...</span>
+                    </div>
+                  </>
+                )}
+
+                {links && links.refunds.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="space-y-2">
+                      <div className="flex justify-between font-semibold">
+                        <span className="text-sm">Refunded</span>
+                        <span className="text-sm">
+                          ${links.refundedAmount.toFixed(2)} of ${links.amount.toFixed(2)}
+                        </span>
+                      </div>
+                      {links.refunds.map((refund) => (
+                        <div key={refund.id} className="flex justify-between text-xs text-muted-foreground">
+                          <span className="flex items-center">
+                            <Undo2 className="w-3 h-3 mr-1" />
+                            {formatDate(new Date(refund.created_at))}
+                          </span>
+                          <span>${refund.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {showRefundForm && (
+              <Card>
+                <CardContent className="pt-4 space-y-3">
+                  <div>
+                    <Label htmlFor="refund-amount">Refund Amount</Label>
+                    <Input
+                      id="refund-amount"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max={refundRemaining}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Up to ${refundRemaining.toFixed(2)} can still be refunded
+                    </p>
+                  </div>
                   <div>
-                    <span className="text-sm text-muted-foreground">Description</span>
-                    <p className="text-sm mt-1">{transaction.description}</p>
+                    <Label htmlFor="refund-reason">Reason (optional)</Label>
+                    <Input
+                      id="refund-reason"
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                      maxLength={200}
+                      placeholder="Why is this being refunded?"
+                    />
                   </div>
-                </>
-              )}
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Actions */}
-        <div className="flex gap-2 mt-4">
-          <Button
-            variant="outline"
-            onClick={downloadReceipt}
-            className="flex-1"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Download PDF
-          </Button>
-          <Button
-            onClick={() => onOpenChange(false)}
-            className="flex-1"
-          >
-            <X className="w-4 h-4 mr-2" />
-            Close
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => setShowRefundForm(false)}
+                      disabled={isRefunding}
+                    >
+                      Cancel
+                    </Button>
+                    <Button className="flex-1" onClick={handleRefund} disabled={isRefunding}>
+                      {isRefunding ? "Refunding..." : isRecipient ? "Send Refund" : "Reverse Transfer"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {links && links.transactionType === 'transfer' && (isSender || isRecipient) && (
+              <TransactionDisputeCard
+                transactionId={transaction.id}
+                isSender={isSender}
+                disputable={canBeRefunded({ status: links.status, transaction_type: links.transactionType })}
+                maxAmount={refundRemaining}
+                onChanged={async () => setLinks(await loadRefundLinks(transaction.id))}
+              />
+            )}
+          </div>
+
+          {/* Actions */}
+          {refundable && !showRefundForm && (
+            <Button variant="outline" className="w-full mt-4" onClick={openRefundForm}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              {isRecipient ? "Refund" : "Reverse Transfer"}
+            </Button>
+          )}
+          <div className="flex gap-2 mt-4">
+            <Button
+              variant="outline"
+              onClick={downloadReceipt}
+              className="flex-1"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+            <Button
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              <X className="w-4 h-4 mr-2" />
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <PinVerificationModal
+        open={showPin}
+        onOpenChange={setShowPin}
+        onVerify={(pin) => submitRefund(parseFloat(refundAmount), pin)}
+        pinLength={pinLength}
+        title="Confirm Refund"
+        isLoading={isRefunding}
+        enableBiometric={false}
+      />
+    </>
   );
 };
 
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { supabase } from "@/integrations/supabase/client";
+import { redeemRecoveryCode, verifyTotpCode } from "@/lib/twoFactor";
+import { AlertTriangle, KeyRound, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+
+interface TwoFactorChallengeProps {
+  onVerified: () => void;
+}
+
+// Second sign-in step for accounts with an enrolled authenticator
+const TwoFactorChallenge = ({ onVerified }: TwoFactorChallengeProps) => {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleVerify = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      if (useRecoveryCode) {
+        const remaining = await redeemRecoveryCode(recoveryCode);
+        toast.warning(
+          `Authenticator removed. Set up two-factor authentication again from Account Settings (${remaining} recovery codes left).`
+        );
+      } else {
+        await verifyTotpCode(code);
+        toast.success("Signed in successfully!");
+      }
+      onVerified();
+    } catch (error) {
+      console.error("Two-factor verification error:", error);
+      setError((error as Error).message || "Verification failed");
+      setCode("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    await supabase.auth.signOut();
+  };
+
+  const canSubmit = useRecoveryCode ? recoveryCode.trim().length >= 10 : code.length === 6;
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="space-y-1 px-4 sm:px-6">
+        <CardTitle className="text-xl sm:text-2xl flex items-center">
+          <ShieldCheck className="w-6 h-6 mr-2" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription className="text-sm">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+            : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6 space-y-4">
+        {useRecoveryCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="recovery-code">Recovery Code</Label>
+            <Input
+              id="recovery-code"
+              placeholder="xxxxx-xxxxx"
+              value={recoveryCode}
+              onChange={(e) => {
+                setRecoveryCode(e.target.value);
+                setError("");
+              }}
+              className="font-mono"
+              autoComplete="off"
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center py-2">
+            <InputOTP
+              maxLength={6}
+              value={code}
+              onChange={(value) => {
+                setCode(value);
+                setError("");
+              }}
+            >
+              <InputOTPGroup>
+                <InputOTPSlot index={0} />
+                <InputOTPSlot index={1} />
+                <InputOTPSlot index={2} />
+                <InputOTPSlot index={3} />
+                <InputOTPSlot index={4} />
+                <InputOTPSlot index={5} />
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button className="w-full" onClick={handleVerify} disabled={loading || !canSubmit}>
+          {loading ? "Verifying..." : "Verify"}
+        </Button>
+
+        <Button
+          type="button"
+          variant="link"
+          className="w-full text-sm"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setError("");
+          }}
+        >
+          <KeyRound className="w-4 h-4 mr-2" />
+          {useRecoveryCode ? "Use authenticator code instead" : "Lost your authenticator? Use a recovery code"}
+        </Button>
+
+        <Button type="button" variant="ghost" className="w-full" onClick={handleCancel} disabled={loading}>
+          Sign in with a different account
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorChallenge;
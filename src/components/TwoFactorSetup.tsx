@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { clearPendingTotpFactors, generateRecoveryCodes } from "@/lib/twoFactor";
+import { AlertTriangle, Copy, Download, ShieldCheck, Smartphone } from "lucide-react";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Store these codes somewhere safe. Each one can be used once to sign in if you lose your authenticator,
+          and they will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm text-center">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={copyCodes}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={downloadCodes}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+type SetupStep = "intro" | "scan" | "codes";
+
+const TwoFactorSetup = ({ onComplete, onCancel }: TwoFactorSetupProps) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<SetupStep>("intro");
+  const [loading, setLoading] = useState(false);
+  const [factorId, setFactorId] = useState("");
+  const [otpUri, setOtpUri] = useState("");
+  const [secret, setSecret] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const startEnrollment = async () => {
+    setLoading(true);
+    try {
+      await clearPendingTotpFactors();
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator",
+      });
+      if (error) throw error;
+
+      setFactorId(data.id);
+      setOtpUri(data.totp.uri);
+      setSecret(data.totp.secret);
+      setStep("scan");
+    } catch (error) {
+      console.error("Error starting 2FA enrollment:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Could not start two-factor setup",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    if (code.length !== 6) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      if (error) {
+        setError("That code didn't match. Check your authenticator and try again.");
+        setCode("");
+        return;
+      }
+
+      const { data: currentUser } = await supabase.auth.getUser();
+      await supabase.from("activity_logs").insert({
+        user_id: currentUser.user?.id,
+        action_type: "MFA_ENROLLED",
+        description: "Authenticator app enrolled for two-factor authentication",
+      });
+
+      setRecoveryCodes(await generateRecoveryCodes());
+      setStep("codes");
+    } catch (error) {
+      console.error("Error verifying 2FA enrollment:", error);
+      setError((error as Error).message || "Verification failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (step === "intro") {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 p-4 bg-muted rounded-lg">
+          <Smartphone className="w-5 h-5 mt-0.5 text-primary" />
+          <p className="text-sm text-muted-foreground">
+            Use an authenticator app such as Google Authenticator, Authy or 1Password to generate a 6-digit
+            code each time you sign in or authorize a high-value transfer.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {onCancel && (
+            <Button variant="outline" className="flex-1" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+          <Button className="flex-1" onClick={startEnrollment} disabled={loading}>
+            {loading ? "Preparing..." : "Set Up Authenticator"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === "scan") {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center p-4 bg-white rounded-lg">
+          <QRCodeSVG value={otpUri} size={180} />
+        </div>
+        <div className="text-center">
+          <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+          <p className="font-mono text-sm break-all">{secret}</p>
+        </div>
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={(value) => {
+              setCode(value);
+              setError("");
+            }}
+          >
+            <InputOTPGroup>
+              <InputOTPSlot index={0} />
+              <InputOTPSlot index={1} />
+              <InputOTPSlot index={2} />
+              <InputOTPSlot index={3} />
+              <InputOTPSlot index={4} />
+              <InputOTPSlot index={5} />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-3">
+          {onCancel && (
+            <Button variant="outline" className="flex-1" onClick={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+          )}
+          <Button className="flex-1" onClick={confirmEnrollment} disabled={loading || code.length !== 6}>
+            {loading ? "Verifying..." : "Verify & Enable"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-success">
+        <ShieldCheck className="w-5 h-5" />
+        <span className="font-medium">Two-factor authentication is on</span>
+      </div>
+      <RecoveryCodesList codes={recoveryCodes} />
+      <Button className="w-full" onClick={onComplete}>
+        I've Saved My Recovery Codes
+      </Button>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
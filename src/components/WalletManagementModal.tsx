@@ -24,6 +24,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import {
   Wallet,
   Copy,
@@ -38,8 +39,11 @@ import {
   Shield,
   AlertTriangle,
   QrCode,
+  Send,
+  RefreshCw,
 } from "lucide-react";
-import { shortenAddress, isValidAddress } from "@/lib/wallet";
+import { shortenAddress, isValidAddress, decryptPrivateKey, privateKeyToWallet } from "@/lib/wallet";
+import { buildTokenTransfer, submitWithdrawal } from "@/lib/evmTransaction";
 import { QRCodeSVG } from "qrcode.react";
 
 interface WalletManagementModalProps {
@@ -58,6 +62,39 @@ interface Transaction {
   txHash: string;
 }
 
+interface OnchainWithdrawal {
+  id: string;
+  to_address: string;
+  amount: number;
+  tx_hash: string | null;
+  status: string;
+  confirmations: number;
+  error_message: string | null;
+  created_at: string;
+}
+
+interface WithdrawalRequestResult {
+  success: boolean;
+  error?: string;
+  withdrawal_id?: string;
+  rpc_endpoint?: string;
+  chain_id?: string;
+  token_address?: string;
+  decimals?: number;
+}
+
+const fetchWithdrawals = async (userId: string): Promise<OnchainWithdrawal[]> => {
+  const { data, error } = await supabase
+    .from("onchain_withdrawals")
+    .select("id, to_address, amount, tx_hash, status, confirmations, error_message, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+  return data || [];
+};
+
 const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
   open,
   onOpenChange,
@@ -72,14 +109,40 @@ const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
   const [loading, setLoading] = useState(true);
   const [exportPassword, setExportPassword] = useState("");
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [withdrawals, setWithdrawals] = useState<OnchainWithdrawal[]>([]);
+  const [sendTo, setSendTo] = useState("");
+  const [sendAmount, setSendAmount] = useState("");
+  const [sendPin, setSendPin] = useState("");
+  const [sendPassword, setSendPassword] = useState("");
+  const [sending, setSending] = useState(false);
+  const [tracking, setTracking] = useState(false);
+
+  const hasUnconfirmedWithdrawals = withdrawals.some((w) => w.status === "broadcast");
 
   useEffect(() => {
     if (open) {
       loadWalletData();
       loadBlockchainTransactions();
+      loadWithdrawals();
     }
   }, [open]);
 
+  // Follow broadcast withdrawals until they are confirmed or fail
+  useEffect(() => {
+    if (!open || !hasUnconfirmedWithdrawals) return;
+
+    const interval = setInterval(async () => {
+      try {
+        await supabase.functions.invoke("track-withdrawals");
+        setWithdrawals(await fetchWithdrawals(userId));
+      } catch (error) {
+        console.error("Error tracking withdrawals:", error);
+      }
+    }, 15000);
+
+    return () => clearInterval(interval);
+  }, [open, hasUnconfirmedWithdrawals, userId]);
+
   const loadWalletData = async () => {
     setLoading(true);
     try {
@@ -139,6 +202,138 @@ const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
     }
   };
 
+  const loadWithdrawals = async () => {
+    try {
+      setWithdrawals(await fetchWithdrawals(userId));
+    } catch (error) {
+      console.error("Error loading withdrawals:", error);
+    }
+  };
+
+  const trackWithdrawals = async () => {
+    setTracking(true);
+    try {
+      const { error } = await supabase.functions.invoke("track-withdrawals");
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error tracking withdrawals:", error);
+    } finally {
+      setTracking(false);
+      loadWithdrawals();
+    }
+  };
+
+  const handleSendOnchain = async () => {
+    if (!isValidAddress(sendTo)) {
+      toast({
+        title: "Invalid Address",
+        description: "Enter a valid GYD address (check the capitalisation)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!/^\d+(\.\d{1,2})?$/.test(sendAmount) || parseFloat(sendAmount) <= 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter an amount with up to 2 decimals",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      // Unlock the key before reserving funds so a wrong password costs nothing
+      let privateKey: string;
+      try {
+        privateKey = await decryptPrivateKey(encryptedPrivateKey, sendPassword);
+        if (privateKeyToWallet(privateKey).address.toLowerCase() !== walletAddress.toLowerCase()) {
+          throw new Error("Key does not match wallet");
+        }
+      } catch {
+        throw new Error("Incorrect password, or your wallet must be upgraded under Wallet Security");
+      }
+
+      const { data, error } = await supabase.rpc("request_onchain_withdrawal", {
+        p_to_address: sendTo,
+        p_amount: parseFloat(sendAmount),
+        p_pin: sendPin,
+        p_idempotency_key: crypto.randomUUID(),
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as WithdrawalRequestResult;
+      if (!result.success || !result.withdrawal_id) {
+        throw new Error(result.error || "Withdrawal request failed");
+      }
+
+      const withdrawalId = result.withdrawal_id;
+      const rpcEndpoint = result.rpc_endpoint!;
+
+      let signed: Awaited<ReturnType<typeof buildTokenTransfer>>;
+      try {
+        signed = await buildTokenTransfer(
+          {
+            rpcEndpoint,
+            chainId: result.chain_id!,
+            tokenAddress: result.token_address!,
+            decimals: result.decimals!,
+          },
+          privateKey,
+          sendTo,
+          sendAmount
+        );
+      } catch (error) {
+        await supabase.rpc("cancel_onchain_withdrawal", {
+          p_withdrawal_id: withdrawalId,
+          p_reason: (error as Error).message,
+        });
+        throw error;
+      }
+
+      // The server records the hash of what it broadcasts; a rejected transaction is never
+      // recorded, so the reservation can still be cancelled
+      const submitted = await submitWithdrawal(withdrawalId, signed.rawTransaction);
+      if (!submitted.success) {
+        await supabase.rpc("cancel_onchain_withdrawal", {
+          p_withdrawal_id: withdrawalId,
+          p_reason: submitted.error || "Withdrawal was not submitted",
+        });
+        throw new Error(submitted.error || "Failed to submit withdrawal");
+      }
+
+      if (!submitted.broadcast) {
+        toast({
+          title: "Broadcast Failed",
+          description: `${submitted.error}. If the network never receives the transaction, the amount is refunded automatically.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSendTo("");
+      setSendAmount("");
+      setSendPin("");
+      setSendPassword("");
+
+      toast({
+        title: "Withdrawal Sent",
+        description: `Transaction ${submitted.tx_hash!.slice(0, 10)}... is waiting for confirmations`,
+      });
+    } catch (error) {
+      toast({
+        title: "Withdrawal Failed",
+        description: (error as Error).message || "Failed to send GYD",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+      loadWithdrawals();
+    }
+  };
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -349,6 +544,122 @@ const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
               </CardContent>
             </Card>
 
+            {/* On-chain withdrawal */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <Send className="w-4 h-4 mr-2" />
+                  Send GYD On-Chain
+                </CardTitle>
+                <CardDescription>
+                  Withdraw to an external GYD address. Your wallet needs native coin for gas.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Destination Address</Label>
+                  <Input
+                    value={sendTo}
+                    onChange={(e) => setSendTo(e.target.value.trim())}
+                    placeholder="0x..."
+                    className="font-mono text-sm"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Amount (GYD)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={sendAmount}
+                    onChange={(e) => setSendAmount(e.target.value)}
+                    placeholder="0.00"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Wallet PIN</Label>
+                  <InputOTP maxLength={6} value={sendPin} onChange={setSendPin}>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Account Password</Label>
+                  <Input
+                    type="password"
+                    value={sendPassword}
+                    onChange={(e) => setSendPassword(e.target.value)}
+                    placeholder="Decrypts your private key on this device"
+                  />
+                </div>
+
+                <Button
+                  onClick={handleSendOnchain}
+                  disabled={sending || !sendTo || !sendAmount || sendPin.length !== 6 || !sendPassword}
+                  className="w-full"
+                >
+                  {sending ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4 mr-2" />
+                  )}
+                  Sign & Send
+                </Button>
+
+                {withdrawals.length > 0 && (
+                  <>
+                    <Separator />
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-muted-foreground">Recent Withdrawals</Label>
+                      <Button variant="ghost" size="sm" onClick={trackWithdrawals} disabled={tracking}>
+                        <RefreshCw className={`h-3 w-3 mr-1 ${tracking ? "animate-spin" : ""}`} />
+                        Refresh
+                      </Button>
+                    </div>
+                    <div className="space-y-2">
+                      {withdrawals.map((w) => (
+                        <div key={w.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">
+                              {Number(w.amount).toFixed(2)} GYD to {shortenAddress(w.to_address)}
+                            </p>
+                            {w.tx_hash && (
+                              <button
+                                className="text-xs font-mono text-muted-foreground hover:underline"
+                                onClick={() => copyToClipboard(w.tx_hash!, "Transaction hash")}
+                              >
+                                {w.tx_hash.slice(0, 18)}...
+                              </button>
+                            )}
+                            {w.error_message && (
+                              <p className="text-xs text-destructive">{w.error_message}</p>
+                            )}
+                          </div>
+                          <Badge
+                            variant={
+                              w.status === "confirmed"
+                                ? "default"
+                                : w.status === "failed"
+                                  ? "destructive"
+                                  : "secondary"
+                            }
+                          >
+                            {w.status === "broadcast" ? `${w.confirmations} confirmations` : w.status}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Transaction History */}
             <Card>
               <CardHeader>
@@ -29,7 +29,7 @@ import {
   CheckCircle2,
   FileKey,
 } from "lucide-react";
-import { generateWalletKeyPair, encryptPrivateKey, decryptPrivateKey } from "@/lib/wallet";
+import { generateWalletKeyPair, encryptPrivateKey, decryptPrivateKey, migrateLegacyWallet, WALLET_KEY_VERSION } from "@/lib/wallet";
 
 interface WalletSecurityModalProps {
   open: boolean;
@@ -55,6 +55,7 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [decryptedPrivateKey, setDecryptedPrivateKey] = useState("");
   const [decryptPassword, setDecryptPassword] = useState("");
+  const [upgradePassword, setUpgradePassword] = useState("");
   
   // Import/Export states
   const [importFile, setImportFile] = useState<File | null>(null);
@@ -75,6 +76,7 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
       setCurrentPin("");
       setNewPin("");
       setDecryptPassword("");
+      setUpgradePassword("");
     }
   }, [open]);
 
@@ -93,7 +95,7 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
       // Get sensitive wallet credentials from vault
       const { data: vaultData } = await supabase
         .from("wallet_vault")
-        .select("encrypted_private_key, wallet_pin_hash")
+        .select("encrypted_private_key, wallet_pin_hash, key_version")
         .eq("user_id", userId)
         .maybeSingle();
 
@@ -103,6 +105,7 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
         public_key: profileData?.public_key,
         encrypted_private_key: vaultData?.encrypted_private_key,
         wallet_pin_hash: vaultData?.wallet_pin_hash,
+        key_version: vaultData?.key_version ?? WALLET_KEY_VERSION,
       });
       setHasWalletPin(!!vaultData?.wallet_pin_hash);
     } catch (error) {
@@ -322,6 +325,54 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
     }
   };
 
+  const handleUpgradeWallet = async () => {
+    if (!upgradePassword) {
+      toast({
+        title: "Password Required",
+        description: "Please enter your account password to upgrade your wallet",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // The key is re-derived locally; only the new public data and re-encrypted key are sent
+      const { wallet, encryptedPrivateKey } = await migrateLegacyWallet(
+        walletData.encrypted_private_key,
+        upgradePassword
+      );
+
+      const { data, error } = await supabase.rpc("upgrade_wallet_keys", {
+        p_wallet_address: wallet.address,
+        p_public_key: wallet.publicKey,
+        p_encrypted_private_key: encryptedPrivateKey,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) throw new Error(result.error || "Failed to upgrade wallet");
+
+      setUpgradePassword("");
+      toast({
+        title: "Wallet Upgraded",
+        description: `Your new wallet address is ${wallet.address}`,
+      });
+
+      await loadWalletData();
+    } catch (error) {
+      console.error("Wallet upgrade error:", error);
+      toast({
+        title: "Upgrade Failed",
+        description: (error as Error).message || "Failed to upgrade wallet",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleExportWallet = async () => {
     if (!exportPassword || exportPassword !== confirmExportPassword) {
       toast({
@@ -351,6 +402,7 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
         type: "gyd-wallet-backup",
         walletAddress: walletData.wallet_address,
         publicKey: walletData.public_key,
+        keyVersion: walletData.key_version,
         encryptedPrivateKey: keyToExport,
         exportPassword: await hashPin(exportPassword), // Hash of export password for verification
         createdAt: new Date().toISOString(),
@@ -436,6 +488,8 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
         .upsert({
           user_id: userId,
           encrypted_private_key: importData.encryptedPrivateKey,
+          // Backups made before secp256k1 keys carry no version and need upgrading
+          key_version: importData.keyVersion ?? 1,
         }, { onConflict: 'user_id' });
 
       if (vaultError) throw vaultError;
@@ -519,6 +573,41 @@ const WalletSecurityModal: React.FC<WalletSecurityModalProps> = ({
 
             {/* Security Tab */}
             <TabsContent value="security" className="space-y-4">
+              {walletData.key_version < WALLET_KEY_VERSION && (
+                <Card className="border-yellow-500/50">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center">
+                      <AlertTriangle className="w-4 h-4 mr-2 text-yellow-500" />
+                      Wallet Upgrade Required
+                    </CardTitle>
+                    <CardDescription>
+                      Your wallet address was created with an older format that cannot sign
+                      GYD blockchain transactions. Upgrading keeps your private key and gives
+                      you a new address.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Account Password</Label>
+                      <Input
+                        type="password"
+                        value={upgradePassword}
+                        onChange={(e) => setUpgradePassword(e.target.value)}
+                        placeholder="Enter your account password"
+                      />
+                    </div>
+                    <Button
+                      onClick={handleUpgradeWallet}
+                      disabled={loading || !upgradePassword}
+                      className="w-full"
+                    >
+                      <FileKey className="w-4 h-4 mr-2" />
+                      Upgrade Wallet
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {!hasWalletPin ? (
                 <Card>
                   <CardHeader>
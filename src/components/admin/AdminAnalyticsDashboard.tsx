@@ -18,7 +18,7 @@ const AdminAnalyticsDashboard: React.FC = () => {
     transactionCount: 0,
     paymentRequests: {
       pending: 0,
-      accepted: 0,
+      paid: 0,
       rejected: 0,
       total: 0
     },
@@ -82,8 +82,8 @@ const AdminAnalyticsDashboard: React.FC = () => {
         .select('status');
 
       const requestStats = {
-        pending: paymentRequests?.filter(r => r.status === 'pending').length || 0,
-        accepted: paymentRequests?.filter(r => r.status === 'accepted').length || 0,
+        pending: paymentRequests?.filter(r => r.status === 'pending' || r.status === 'partially_paid').length || 0,
+        paid: paymentRequests?.filter(r => r.status === 'paid').length || 0,
         rejected: paymentRequests?.filter(r => r.status === 'rejected').length || 0,
         total: paymentRequests?.length || 0
       };
@@ -299,8 +299,8 @@ const AdminAnalyticsDashboard: React.FC = () => {
                       <Pie
                         data={[
                           { name: 'Pending', value: analytics.paymentRequests.pending },
-                          { name: 'Accepted', value: analytics.paymentRequests.accepted },
-                          { name: 'Rejected', value: analytics.paymentRequests.rejected }
+                          { name: 'Paid', value: analytics.paymentRequests.paid },
+                          { name: 'Declined', value: analytics.paymentRequests.rejected }
                         ]}
                         cx="50%"
                         cy="50%"
@@ -331,11 +331,11 @@ const AdminAnalyticsDashboard: React.FC = () => {
                       <span className="font-bold">{analytics.paymentRequests.pending}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Accepted</span>
-                      <span className="font-bold text-success">{analytics.paymentRequests.accepted}</span>
+                      <span className="text-sm">Paid</span>
+                      <span className="font-bold text-success">{analytics.paymentRequests.paid}</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-sm">Rejected</span>
+                      <span className="text-sm">Declined</span>
                       <span className="font-bold text-destructive">{analytics.paymentRequests.rejected}</span>
                     </div>
                   </div>
@@ -33,6 +33,8 @@ export function AdminTransferModal({ open, onOpenChange, currentUser }: AdminTra
   const [adminBalance, setAdminBalance] = useState(0);
   const [loading, setLoading] = useState(false);
   const [resultChainId, setResultChainId] = useState<string | null>(null);
+  // Reused across retries of the same transfer so the server can de-duplicate them
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
 
   useEffect(() => {
@@ -42,6 +44,11 @@ export function AdminTransferModal({ open, onOpenChange, currentUser }: AdminTra
     }
   }, [open]);
 
+  // A changed transfer is a new request and needs a new idempotency key
+  useEffect(() => {
+    setIdempotencyKey(crypto.randomUUID());
+  }, [selectedUser, amount, description, parentChainId]);
+
   const loadData = async () => {
     try {
       // Load users (excluding current admin)
@@ -107,7 +114,8 @@ export function AdminTransferModal({ open, onOpenChange, currentUser }: AdminTra
         p_recipient_id: selectedUser,
         p_amount: numAmount,
         p_description: description || null,
-        p_parent_chain_id: parentChainId || null
+        p_parent_chain_id: parentChainId || null,
+        p_idempotency_key: idempotencyKey,
       });
 
       if (error) throw error;
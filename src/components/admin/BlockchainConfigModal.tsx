@@ -19,7 +19,8 @@ import {
   Coins,
   ArrowDownToLine,
   ArrowUpFromLine,
-  History
+  History,
+  Scale
 } from "lucide-react";
 
 interface BlockchainConfigModalProps {
@@ -31,17 +32,34 @@ interface BlockchainConfig {
   network_name: string;
   rpc_endpoint: string;
   chain_id: string;
+  event_indexer: string;
   coin_symbol: string;
   coin_name: string;
   decimals: number;
   is_active: boolean;
   hot_wallet_address: string;
+  token_address: string;
   min_withdrawal: number;
   max_withdrawal: number;
   withdrawal_fee: number;
   deposit_confirmations: number;
 }
 
+interface GydsNodeConfig {
+  rpc_endpoint: string;
+  chain_id: string;
+  event_indexer: string;
+}
+
+interface ConfigVersion {
+  id: string;
+  network: string;
+  version: number;
+  config: Partial<BlockchainConfig>;
+  changed_by: string | null;
+  created_at: string;
+}
+
 interface WalletTransaction {
   id: string;
   user_id: string;
@@ -53,25 +71,57 @@ interface WalletTransaction {
   user_email?: string;
 }
 
+interface ReconciliationRun {
+  id: string;
+  status: string;
+  block_number: number | null;
+  wallets_checked: number;
+  discrepancies_found: number;
+  error_message: string | null;
+  started_at: string;
+}
+
+interface BalanceDiscrepancy {
+  id: string;
+  user_id: string;
+  wallet_address: string;
+  onchain_balance: number;
+  ledger_balance: number;
+  difference: number;
+  block_number: number;
+  created_at: string;
+}
+
 const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onOpenChange }) => {
   const [config, setConfig] = useState<BlockchainConfig>({
     network_name: 'GYD Network',
     rpc_endpoint: '',
     chain_id: '1',
+    event_indexer: '',
     coin_symbol: 'GYD',
     coin_name: 'GYD Stablecoin',
     decimals: 18,
     is_active: false,
     hot_wallet_address: '',
+    token_address: '',
     min_withdrawal: 10,
     max_withdrawal: 10000,
     withdrawal_fee: 1,
     deposit_confirmations: 3
   });
+  const [gydsConfig, setGydsConfig] = useState<GydsNodeConfig>({
+    rpc_endpoint: '',
+    chain_id: '1',
+    event_indexer: ''
+  });
+  const [configHistory, setConfigHistory] = useState<ConfigVersion[]>([]);
   
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
   const [isLoading, setIsLoading] = useState(false);
   const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [reconciliationRuns, setReconciliationRuns] = useState<ReconciliationRun[]>([]);
+  const [discrepancies, setDiscrepancies] = useState<BalanceDiscrepancy[]>([]);
+  const [resolutionNotes, setResolutionNotes] = useState<Record<string, string>>({});
   const [networkStats, setNetworkStats] = useState({
     totalDeposits: 0,
     totalWithdrawals: 0,
@@ -83,16 +133,62 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
     if (open) {
       loadConfig();
       loadTransactions();
+      loadReconciliation();
     }
   }, [open]);
 
   const loadConfig = async () => {
     try {
-      // Load from localStorage for now (will migrate to DB when tables are created)
-      const savedConfig = localStorage.getItem('gyd_blockchain_config');
-      if (savedConfig) {
-        setConfig(JSON.parse(savedConfig));
+      const [{ data: networks, error: networksError }, { data: history, error: historyError }] = await Promise.all([
+        supabase.from('blockchain_networks').select('*'),
+        supabase
+          .from('blockchain_network_history')
+          .select('id, network, version, config, changed_by, created_at')
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (networksError) throw networksError;
+      if (historyError) throw historyError;
+
+      const gyd = networks?.find((n) => n.network === 'GYD');
+      const gyds = networks?.find((n) => n.network === 'GYDS');
+
+      if (gyd) {
+        setConfig({
+          network_name: gyd.network_name,
+          rpc_endpoint: gyd.rpc_endpoint,
+          chain_id: gyd.chain_id,
+          event_indexer: gyd.event_indexer,
+          coin_symbol: gyd.coin_symbol,
+          coin_name: gyd.coin_name,
+          decimals: gyd.decimals,
+          is_active: gyd.is_active,
+          hot_wallet_address: gyd.hot_wallet_address,
+          token_address: gyd.token_address,
+          min_withdrawal: Number(gyd.min_withdrawal),
+          max_withdrawal: Number(gyd.max_withdrawal),
+          withdrawal_fee: Number(gyd.withdrawal_fee),
+          deposit_confirmations: gyd.deposit_confirmations,
+        });
       }
+
+      if (gyds) {
+        setGydsConfig({
+          rpc_endpoint: gyds.rpc_endpoint,
+          chain_id: gyds.chain_id,
+          event_indexer: gyds.event_indexer,
+        });
+      }
+
+      // Offer a config saved by an older version of this screen until it is stored server-side
+      const legacyConfig = localStorage.getItem('gyd_blockchain_config');
+      if (legacyConfig && !gyd?.rpc_endpoint) {
+        setConfig((current) => ({ ...current, ...JSON.parse(legacyConfig) }));
+        toast.info('Loaded configuration saved in this browser. Save it to share it with all users.');
+      }
+
+      setConfigHistory((history || []) as ConfigVersion[]);
     } catch (error) {
       console.error('Error loading config:', error);
     }
@@ -100,30 +196,114 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
 
   const loadTransactions = async () => {
     try {
-      // Load mock transactions for now
-      const mockTransactions: WalletTransaction[] = [
-        {
-          id: '1',
-          user_id: 'user-1',
-          type: 'deposit',
-          amount: 500,
-          tx_hash: '0x123...abc',
-          status: 'confirmed',
-          created_at: new Date().toISOString(),
-          user_email: 'user@example.com'
-        }
-      ];
-      setTransactions(mockTransactions);
+      const [{ data: deposits, error: depositsError }, { data: withdrawals, error: withdrawalsError }] = await Promise.all([
+        supabase
+          .from('onchain_deposits')
+          .select('id, user_id, amount, tx_hash, status, detected_at')
+          .order('detected_at', { ascending: false })
+          .limit(25),
+        supabase
+          .from('onchain_withdrawals')
+          .select('id, user_id, amount, tx_hash, status, created_at')
+          .order('created_at', { ascending: false })
+          .limit(25)
+      ]);
+
+      if (depositsError) throw depositsError;
+      if (withdrawalsError) throw withdrawalsError;
+
+      const toStatus = (status: string): WalletTransaction['status'] =>
+        status === 'credited' || status === 'confirmed' ? 'confirmed'
+          : status === 'pending' || status === 'broadcast' ? 'pending'
+          : 'failed';
+
+      setTransactions([
+        ...(deposits || []).map((d) => ({
+          id: d.id,
+          user_id: d.user_id,
+          type: 'deposit' as const,
+          amount: Number(d.amount),
+          tx_hash: d.tx_hash,
+          status: toStatus(d.status),
+          created_at: d.detected_at
+        })),
+        ...(withdrawals || []).map((w) => ({
+          id: w.id,
+          user_id: w.user_id,
+          type: 'withdrawal' as const,
+          amount: Number(w.amount),
+          tx_hash: w.tx_hash || 'not broadcast',
+          status: toStatus(w.status),
+          created_at: w.created_at
+        }))
+      ].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()));
     } catch (error) {
-      console.error('Error loading transactions:', error);
+      console.error('Error loading blockchain transactions:', error);
     }
   };
 
+  const loadReconciliation = async () => {
+    try {
+      const [{ data: runs, error: runsError }, { data: open, error: openError }] = await Promise.all([
+        supabase
+          .from('wallet_reconciliation_runs')
+          .select('id, status, block_number, wallets_checked, discrepancies_found, error_message, started_at')
+          .order('started_at', { ascending: false })
+          .limit(10),
+        supabase
+          .from('wallet_balance_discrepancies')
+          .select('id, user_id, wallet_address, onchain_balance, ledger_balance, difference, block_number, created_at')
+          .eq('status', 'open')
+          .order('created_at', { ascending: false })
+          .limit(100),
+      ]);
+
+      if (runsError) throw runsError;
+      if (openError) throw openError;
+      setReconciliationRuns(runs || []);
+      setDiscrepancies(open || []);
+    } catch (error) {
+      console.error('Error loading reconciliation data:', error);
+    }
+  };
+
+  const resolveDiscrepancy = async (id: string) => {
+    const { data, error } = await supabase.rpc('resolve_wallet_discrepancy', {
+      p_discrepancy_id: id,
+      p_note: resolutionNotes[id] || '',
+    });
+
+    const result = data as { success: boolean; error?: string } | null;
+    if (error || !result?.success) {
+      toast.error(error?.message || result?.error || 'Failed to resolve discrepancy');
+      return;
+    }
+
+    toast.success('Discrepancy resolved');
+    loadReconciliation();
+  };
+
   const saveConfig = async () => {
     setIsLoading(true);
     try {
-      localStorage.setItem('gyd_blockchain_config', JSON.stringify(config));
+      // Node configuration is shared with every client through blockchain_networks
+      const { error } = await supabase
+        .from('blockchain_networks')
+        .upsert([
+          { network: 'GYD', ...config },
+          {
+            network: 'GYDS',
+            network_name: config.network_name,
+            coin_symbol: 'GYDS',
+            coin_name: 'GYD Savings Token',
+            ...gydsConfig,
+          },
+        ], { onConflict: 'network' });
+
+      if (error) throw error;
+      localStorage.removeItem('gyd_blockchain_config');
       toast.success('Blockchain configuration saved');
+      loadConfig();
     } catch (error) {
       console.error('Error saving config:', error);
       toast.error('Failed to save configuration');
@@ -170,20 +350,40 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
     }
   };
 
-  const syncBalances = async () => {
-    if (connectionStatus !== 'connected') {
-      toast.error('Please connect to the network first');
-      return;
+  const scanDeposits = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('watch-deposits');
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Deposit scan failed');
+
+      toast.success(`Scanned to block ${data.block_number}: ${data.detected} new deposits, ${data.checked} pending checked`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to scan deposits');
+    } finally {
+      setIsLoading(false);
+      loadTransactions();
     }
+  };
 
+  const syncBalances = async () => {
     setIsLoading(true);
     try {
-      // This would sync on-chain balances with database
-      toast.success('Balance sync initiated');
+      const { data, error } = await supabase.functions.invoke('reconcile-wallets');
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Reconciliation failed');
+
+      const run = data.run as ReconciliationRun;
+      if (run.discrepancies_found > 0) {
+        toast.warning(`Checked ${run.wallets_checked} wallets at block ${run.block_number}: ${run.discrepancies_found} discrepancies`);
+      } else {
+        toast.success(`Checked ${run.wallets_checked} wallets at block ${run.block_number}: all balances match`);
+      }
     } catch (error) {
-      toast.error('Failed to sync balances');
+      toast.error((error as Error).message || 'Failed to sync balances');
     } finally {
       setIsLoading(false);
+      loadReconciliation();
     }
   };
 
@@ -272,6 +472,15 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Event Indexer URL</Label>
+                  <Input
+                    value={config.event_indexer}
+                    onChange={(e) => setConfig({ ...config, event_indexer: e.target.value })}
+                    placeholder="https://indexer.gyd-network.com"
+                  />
+                </div>
+
                 <div className="grid grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label>Coin Symbol</Label>
@@ -315,6 +524,80 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Network className="h-4 w-4" />
+                  GYDS Node
+                </CardTitle>
+                <CardDescription>
+                  Monitored read-only alongside the GYD network
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>RPC Endpoint URL</Label>
+                    <Input
+                      value={gydsConfig.rpc_endpoint}
+                      onChange={(e) => setGydsConfig({ ...gydsConfig, rpc_endpoint: e.target.value })}
+                      placeholder="https://rpc.gyds-network.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Chain ID</Label>
+                    <Input
+                      value={gydsConfig.chain_id}
+                      onChange={(e) => setGydsConfig({ ...gydsConfig, chain_id: e.target.value })}
+                      placeholder="1"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Event Indexer URL</Label>
+                  <Input
+                    value={gydsConfig.event_indexer}
+                    onChange={(e) => setGydsConfig({ ...gydsConfig, event_indexer: e.target.value })}
+                    placeholder="https://indexer.gyds-network.com"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Change History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {configHistory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No configuration changes recorded
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {configHistory.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {entry.network} v{entry.version}
+                          </p>
+                          <p className="text-xs text-muted-foreground font-mono truncate">
+                            {entry.config.rpc_endpoint || 'No RPC endpoint'} · chain {entry.config.chain_id}
+                          </p>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => onOpenChange(false)}>
                 Cancel
@@ -351,6 +634,19 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>GYD Token Contract Address</Label>
+                  <Input
+                    value={config.token_address}
+                    onChange={(e) => setConfig({ ...config, token_address: e.target.value })}
+                    placeholder="0x..."
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    ERC-20 contract used to read wallet balances during reconciliation
+                  </p>
+                </div>
+
                 <div className="grid grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label>Min Withdrawal (GYD)</Label>
@@ -405,8 +701,8 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
                   <div>
                     <h4 className="font-medium">Deposits</h4>
                     <p className="text-muted-foreground">
-                      Users send GYD to the hot wallet. The system monitors incoming transactions 
-                      and credits user accounts after the required confirmations.
+                      Users send GYD to their own wallet address. The deposit watcher reads token 
+                      Transfer events and credits user accounts after the required confirmations.
                     </p>
                   </div>
                 </div>
@@ -423,6 +719,57 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Scale className="h-4 w-4" />
+                  Balance Reconciliation
+                </CardTitle>
+                <CardDescription>
+                  Wallets whose on-chain GYD balance differs from the internal ledger
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {discrepancies.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No open discrepancies
+                  </p>
+                ) : (
+                  discrepancies.map((d) => (
+                    <div key={d.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs font-mono truncate">{d.wallet_address}</p>
+                        <Badge variant="destructive">
+                          {Number(d.difference) > 0 ? '+' : ''}{Number(d.difference).toLocaleString()} GYD
+                        </Badge>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+                        <span>On-chain: {Number(d.onchain_balance).toLocaleString()}</span>
+                        <span>Ledger: {Number(d.ledger_balance).toLocaleString()}</span>
+                        <span>Block: {d.block_number.toLocaleString()}</span>
+                      </div>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Resolution note"
+                          value={resolutionNotes[d.id] || ''}
+                          onChange={(e) => setResolutionNotes({ ...resolutionNotes, [d.id]: e.target.value })}
+                          className="h-8 text-xs"
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resolveDiscrepancy(d.id)}
+                          disabled={!resolutionNotes[d.id]?.trim()}
+                        >
+                          Resolve
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
             <div className="flex justify-end">
               <Button onClick={saveConfig} disabled={isLoading}>
                 Save Wallet Settings
@@ -469,10 +816,52 @@ const BlockchainConfigModal: React.FC<BlockchainConfigModalProps> = ({ open, onO
               </CardContent>
             </Card>
 
-            <div className="flex justify-end">
-              <Button onClick={syncBalances} variant="outline" disabled={connectionStatus !== 'connected'}>
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Sync Blockchain Data
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Scale className="h-4 w-4" />
+                  Reconciliation Runs
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {reconciliationRuns.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No reconciliation runs yet
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {reconciliationRuns.map((run) => (
+                      <div key={run.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium text-sm">
+                            {run.wallets_checked} wallets · {run.discrepancies_found} discrepancies
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(run.started_at).toLocaleString()}
+                            {run.block_number !== null && ` · block ${run.block_number.toLocaleString()}`}
+                          </p>
+                          {run.error_message && (
+                            <p className="text-xs text-destructive">{run.error_message}</p>
+                          )}
+                        </div>
+                        <Badge variant={run.status === 'completed' ? (run.discrepancies_found > 0 ? 'secondary' : 'default') : run.status === 'running' ? 'outline' : 'destructive'}>
+                          {run.status}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2">
+              <Button onClick={scanDeposits} variant="outline" disabled={isLoading}>
+                <ArrowDownToLine className="h-4 w-4 mr-2" />
+                Scan Deposits
+              </Button>
+              <Button onClick={syncBalances} variant="outline" disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Reconcile On-Chain Balances
               </Button>
             </div>
           </TabsContent>
@@ -15,6 +15,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { CreditCard, Printer, Users, Package } from "lucide-react";
 
 interface CardPrintingModalProps {
@@ -60,7 +61,7 @@ const CardPrintingModal: React.FC<CardPrintingModalProps> = ({ open, onOpenChang
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select(PROFILE_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -17,6 +17,8 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { 
   Database, 
   Server, 
@@ -56,14 +58,27 @@ interface BackupRecord {
   backup_name: string;
   backup_type: string;
   status: string;
-  file_size_bytes?: number;
-  started_at?: string;
-  completed_at?: string;
-  error_message?: string;
+  file_size_bytes: number | null;
+  checksum_sha256: string | null;
+  table_row_counts: Json;
+  started_at: string;
+  completed_at: string | null;
+  error_message: string | null;
+  database_backup_restores?: RestoreRecord[];
 }
 
+interface RestoreRecord {
+  id: string;
+  status: string;
+  target_host: string;
+  target_schema: string;
+  error_message: string | null;
+  started_at: string;
+}
+
+// Connection details (without the password) are kept locally; the restore target
+// falls back to BACKUP_RESTORE_DB_URL on the edge function when no host is set.
 const STORAGE_KEY_CONFIG = 'remote_db_config';
-const STORAGE_KEY_BACKUPS = 'db_backups';
 
 const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenChange }) => {
   const { toast } = useToast();
@@ -113,20 +128,39 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
     }
   };
 
-  const loadBackupHistory = () => {
+  const loadBackupHistory = async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_BACKUPS);
-      if (stored) {
-        setBackups(JSON.parse(stored));
-      }
+      const { data, error } = await supabase
+        .from('database_backups')
+        .select('*, database_backup_restores(id, status, target_host, target_schema, error_message, started_at)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setBackups(data || []);
     } catch (error) {
       console.error('Error loading backup history:', error);
     }
   };
 
-  const saveBackupHistory = (newBackups: BackupRecord[]) => {
-    localStorage.setItem(STORAGE_KEY_BACKUPS, JSON.stringify(newBackups));
-    setBackups(newBackups);
+  const getRestoreTarget = () => {
+    if (!remoteConfig.host) return undefined;
+    return {
+      host: remoteConfig.host,
+      port: remoteConfig.port,
+      database: remoteConfig.database_name,
+      user: remoteConfig.username,
+      password: remoteConfig.password,
+    };
+  };
+
+  const invokeBackupFunction = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('database-backup', { body });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Backup service request failed');
+    }
+    return data;
   };
 
   const testConnection = async () => {
@@ -143,13 +177,15 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
     setConnectionStatus('testing');
 
     try {
-      // Simulate connection test
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      const result = await invokeBackupFunction({
+        action: 'test_connection',
+        target: getRestoreTarget(),
+      });
+
       setConnectionStatus('connected');
       toast({
         title: "Connection Successful",
-        description: `Successfully connected to ${remoteConfig.host}`,
+        description: `Connected to ${remoteConfig.host}: ${result.version}`,
       });
     } catch (error: any) {
       setConnectionStatus('error');
@@ -181,7 +217,7 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
         is_active: true,
       };
 
-      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify(configToSave));
+      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify({ ...configToSave, password: '' }));
       setRemoteConfig(configToSave);
       setConnectionStatus('connected');
 
@@ -208,67 +244,46 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
   const triggerBackup = async () => {
     setBackupInProgress(true);
     try {
-      const backupName = `backup_${new Date().toISOString().replace(/[:.]/g, '-')}`;
-      
-      const newBackup: BackupRecord = {
-        id: crypto.randomUUID(),
-        backup_name: backupName,
-        backup_type: 'full',
-        status: 'in_progress',
-        started_at: new Date().toISOString(),
-      };
-
-      const updatedBackups = [newBackup, ...backups];
-      saveBackupHistory(updatedBackups);
-
-      // Simulate backup process
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      // Update backup record
-      const completedBackup: BackupRecord = {
-        ...newBackup,
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        file_size_bytes: Math.floor(Math.random() * 10000000) + 1000000,
-      };
-
-      const finalBackups = updatedBackups.map(b => 
-        b.id === newBackup.id ? completedBackup : b
-      );
-      saveBackupHistory(finalBackups);
+      const { backup } = await invokeBackupFunction({ action: 'backup' });
 
       // Update last backup timestamp
       const updatedConfig = {
         ...remoteConfig,
-        last_backup_at: new Date().toISOString(),
+        last_backup_at: backup.completed_at,
       };
-      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify(updatedConfig));
+      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify({ ...updatedConfig, password: '' }));
       setRemoteConfig(updatedConfig);
 
       toast({
         title: "Backup Completed",
-        description: "Database backup has been created successfully",
+        description: `${backup.backup_name} (${formatBytes(backup.file_size_bytes)}) stored with checksum ${backup.checksum_sha256.slice(0, 12)}…`,
       });
+      return backup as BackupRecord;
     } catch (error: any) {
       toast({
         title: "Backup Failed",
         description: error.message || "Failed to create backup",
         variant: "destructive",
       });
+      return null;
     } finally {
       setBackupInProgress(false);
+      loadBackupHistory();
     }
   };
 
   const triggerRestore = async (backupId: string) => {
     setRestoreInProgress(true);
     try {
-      // Simulate restore process
-      await new Promise(resolve => setTimeout(resolve, 4000));
+      const { restore } = await invokeBackupFunction({
+        action: 'restore',
+        backup_id: backupId,
+        target: getRestoreTarget(),
+      });
 
       toast({
-        title: "Restore Completed",
-        description: "Database has been restored successfully from backup",
+        title: "Restore Verified",
+        description: `Snapshot restored into ${restore.target_host} schema ${restore.target_schema} and verified`,
       });
     } catch (error: any) {
       toast({
@@ -278,39 +293,33 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
       });
     } finally {
       setRestoreInProgress(false);
+      loadBackupHistory();
     }
   };
 
+  // Sync takes a fresh snapshot and restores it into the remote server
   const triggerSync = async () => {
     setSyncInProgress(true);
     try {
-      // Simulate sync process
-      await new Promise(resolve => setTimeout(resolve, 2500));
+      const backup = await triggerBackup();
+      if (!backup) return;
+
+      await triggerRestore(backup.id);
 
       // Update last sync timestamp
       const updatedConfig = {
         ...remoteConfig,
+        last_backup_at: backup.completed_at,
         last_sync_at: new Date().toISOString(),
       };
-      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify(updatedConfig));
+      localStorage.setItem(STORAGE_KEY_CONFIG, JSON.stringify({ ...updatedConfig, password: '' }));
       setRemoteConfig(updatedConfig);
-
-      toast({
-        title: "Sync Completed",
-        description: "Database has been synchronized with remote server",
-      });
-    } catch (error: any) {
-      toast({
-        title: "Sync Failed",
-        description: error.message || "Failed to sync database",
-        variant: "destructive",
-      });
     } finally {
       setSyncInProgress(false);
     }
   };
 
-  const formatBytes = (bytes?: number) => {
+  const formatBytes = (bytes?: number | null) => {
     if (!bytes) return 'N/A';
     const sizes = ['Bytes', 'KB', 'MB', 'GB'];
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
@@ -320,6 +329,7 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: any }> = {
       completed: { variant: 'default', icon: CheckCircle },
+      verified: { variant: 'default', icon: CheckCircle },
       in_progress: { variant: 'secondary', icon: RefreshCw },
       pending: { variant: 'outline', icon: Clock },
       failed: { variant: 'destructive', icon: XCircle },
@@ -531,19 +541,19 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
                     Create Backup
                   </CardTitle>
                   <CardDescription>
-                    Create a full backup of your database to the remote server
+                    Export a versioned, checksummed snapshot to secure backup storage
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <Alert className="mb-4">
                     <Shield className="h-4 w-4" />
                     <AlertDescription>
-                      Backup includes: User profiles, transactions, payment requests, system settings, and all related data.
+                      Backup includes: User profiles and roles, transactions, payment requests, fund logs, fund chain tracking, treasury, ledger, activity logs, and system settings.
                     </AlertDescription>
                   </Alert>
                   <Button
                     onClick={triggerBackup}
-                    disabled={backupInProgress || connectionStatus !== 'connected'}
+                    disabled={backupInProgress}
                     className="w-full"
                   >
                     {backupInProgress ? (
@@ -568,7 +578,7 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
                     Sync Database
                   </CardTitle>
                   <CardDescription>
-                    Synchronize local database with remote server
+                    Take a fresh snapshot and restore it into the remote server for verification
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -641,9 +651,25 @@ const DatabaseBackupModal: React.FC<DatabaseBackupModalProps> = ({ open, onOpenC
                               <span>{new Date(backup.completed_at).toLocaleString()}</span>
                             )}
                           </div>
+                          {backup.checksum_sha256 && (
+                            <p className="text-xs text-muted-foreground font-mono">
+                              SHA-256: {backup.checksum_sha256.slice(0, 16)}…
+                            </p>
+                          )}
                           {backup.error_message && (
                             <p className="text-sm text-destructive">{backup.error_message}</p>
                           )}
+                          {backup.database_backup_restores?.slice(0, 3).map((restore) => (
+                            <div key={restore.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                              {getStatusBadge(restore.status)}
+                              <span>
+                                Restored to {restore.target_host} ({restore.target_schema}) on {new Date(restore.started_at).toLocaleString()}
+                              </span>
+                              {restore.error_message && (
+                                <span className="text-destructive">{restore.error_message}</span>
+                              )}
+                            </div>
+                          ))}
                         </div>
                         <Button
                           variant="outline"
@@ -107,51 +107,26 @@ export function FundManagementModal({ open, onOpenChange, currentUser }: FundMan
 
     setLoading(true);
     try {
-      // Get current user balance
-      const { data: userProfile, error: userError } = await supabase
-        .from('profiles')
-        .select('balance')
-        .eq('user_id', selectedUser)
-        .single();
-
-      if (userError) throw userError;
+      // Post the adjustment to the ledger (also writes the fund log)
+      const { data, error } = await supabase.rpc('admin_adjust_balance', {
+        p_user_id: selectedUser,
+        p_amount: numAmount,
+        p_type: fundType,
+        p_reason: reason.trim(),
+      });
 
-      const currentBalance = userProfile.balance || 0;
-      const finalAmount = fundType === 'ADD' ? numAmount : -numAmount;
-      const newBalance = currentBalance + finalAmount;
+      if (error) throw error;
 
-      if (newBalance < 0) {
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
         toast({
           title: "Error",
-          description: "Insufficient balance for withdrawal",
+          description: result?.error || "Failed to process fund operation",
           variant: "destructive",
         });
         return;
       }
 
-      // Update user balance
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ balance: newBalance })
-        .eq('user_id', selectedUser);
-
-      if (updateError) throw updateError;
-
-      // Log the fund operation
-      const { error: logError } = await supabase
-        .from('fund_logs')
-        .insert({
-          user_id: selectedUser,
-          amount: finalAmount,
-          type: fundType,
-          reason: reason.trim(),
-          admin_id: currentUser.id,
-          balance_before: currentBalance,
-          balance_after: newBalance
-        });
-
-      if (logError) throw logError;
-
       toast({
         title: "Success",
         description: `Funds ${fundType === 'ADD' ? 'added' : 'withdrawn'} successfully`,
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { Users, Search, UserX, UserCheck, Edit3, Trash2 } from "lucide-react";
 
 interface User {
@@ -38,7 +39,7 @@ export function ManageUsersModal({ open, onOpenChange }: ManageUsersModalProps)
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select(PROFILE_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -80,15 +81,26 @@ export function ManageUsersModal({ open, onOpenChange }: ManageUsersModalProps)
     }
   };
 
-  const updateUserBalance = async (userId: string, newBalance: number) => {
+  const updateUserBalance = async (userId: string, currentBalance: number, newBalance: number) => {
+    const difference = Math.round((newBalance - currentBalance) * 100) / 100;
+    if (difference === 0) return;
+
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ balance: newBalance })
-        .eq('user_id', userId);
+      // Balances are derived from the ledger, so post the difference as an adjustment
+      const { data, error } = await supabase.rpc('admin_adjust_balance', {
+        p_user_id: userId,
+        p_amount: Math.abs(difference),
+        p_type: difference > 0 ? 'ADD' : 'WITHDRAW',
+        p_reason: `Balance set to ${newBalance.toFixed(2)} from user management`,
+      });
 
       if (error) throw error;
 
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
+        throw new Error(result?.error || 'Balance adjustment failed');
+      }
+
       toast({
         title: "Success",
         description: "User balance updated successfully",
@@ -105,6 +117,33 @@ export function ManageUsersModal({ open, onOpenChange }: ManageUsersModalProps)
     }
   };
 
+  const unlockUserLogin = async (userId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('unlock_user_login', {
+        p_user_id: userId,
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to clear sign-in lock');
+      }
+
+      toast({
+        title: "Success",
+        description: "Sign-in lock cleared",
+      });
+    } catch (error) {
+      console.error('Error clearing sign-in lock:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear sign-in lock",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     if (open) {
       loadUsers();
@@ -232,12 +271,20 @@ export function ManageUsersModal({ open, onOpenChange }: ManageUsersModalProps)
                                 onClick={() => {
                                   const newBalance = prompt("Enter new balance:", user.balance?.toString() || "0");
                                   if (newBalance !== null && !isNaN(Number(newBalance))) {
-                                    updateUserBalance(user.user_id, Number(newBalance));
+                                    updateUserBalance(user.user_id, user.balance || 0, Number(newBalance));
                                   }
                                 }}
                               >
                                 <Edit3 className="w-3 h-3" />
                               </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                title="Clear sign-in lock"
+                                onClick={() => unlockUserLogin(user.user_id)}
+                              >
+                                <UserCheck className="w-3 h-3" />
+                              </Button>
                             </div>
                           </TableCell>
                         </TableRow>
@@ -59,22 +59,27 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
     monthlyLimit: "100000.00",
     singleTransactionLimit: "5000.00",
     kycRequiredAmount: "1000.00",
+    kycRequiredPeriodDays: "30",
     agentDailyFundLimit: "25000.00",
     adminUnlimitedFunds: true,
     transferFeePercentage: "0.5",
     transferFeeFixed: "0.00",
     minTransferAmount: "1.00",
     maxTransferAmount: "10000.00",
+    paymentRequestExpiryDays: "7",
+    refundFeePolicy: "sender",
   });
 
   // Security Settings
   const [securitySettings, setSecuritySettings] = useState({
-    twoFactorAuth: true,
+    twoFactorAuth: false,
     biometricLogin: false,
     sessionTimeout: true,
     sessionDuration: "30",
     maxLoginAttempts: "5",
     ipWhitelisting: false,
+    pinLength: "4",
+    pinRotationDays: "0",
   });
 
   // RPC Settings
@@ -116,9 +121,85 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
   useEffect(() => {
     if (open) {
       loadFirewallRules();
+      loadTransactionSettings();
+      loadSecuritySettings();
     }
   }, [open]);
 
+  const loadSecuritySettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_key, setting_value')
+        .in('setting_key', [
+          'require_two_factor',
+          'session_timeout_enabled',
+          'session_timeout_minutes',
+          'max_login_attempts',
+          'ip_whitelist_enforced',
+          'pin_length',
+          'pin_rotation_days',
+        ]);
+
+      if (error) throw error;
+
+      const values = Object.fromEntries((data || []).map(s => [s.setting_key, s.setting_value]));
+      setSecuritySettings(prev => ({
+        ...prev,
+        twoFactorAuth: values.require_two_factor !== undefined ? values.require_two_factor === 'true' : prev.twoFactorAuth,
+        sessionTimeout: values.session_timeout_enabled !== undefined ? values.session_timeout_enabled === 'true' : prev.sessionTimeout,
+        sessionDuration: values.session_timeout_minutes ?? prev.sessionDuration,
+        maxLoginAttempts: values.max_login_attempts ?? prev.maxLoginAttempts,
+        ipWhitelisting: values.ip_whitelist_enforced !== undefined ? values.ip_whitelist_enforced === 'true' : prev.ipWhitelisting,
+        pinLength: values.pin_length ?? prev.pinLength,
+        pinRotationDays: values.pin_rotation_days ?? prev.pinRotationDays,
+      }));
+    } catch (error) {
+      console.error('Error loading security settings:', error);
+    }
+  };
+
+  const loadTransactionSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_key, setting_value')
+        .in('setting_key', [
+          'transfer_fee_percentage',
+          'transfer_fee_fixed',
+          'min_transfer_amount',
+          'max_transfer_amount',
+          'kyc_required_amount',
+          'kyc_required_period_days',
+          'daily_transfer_limit',
+          'monthly_transfer_limit',
+          'single_transfer_limit',
+          'payment_request_expiry_days',
+          'refund_fee_policy',
+        ]);
+
+      if (error) throw error;
+
+      const values = Object.fromEntries((data || []).map(s => [s.setting_key, s.setting_value]));
+      setTransactionLimits(prev => ({
+        ...prev,
+        transferFeePercentage: values.transfer_fee_percentage ?? prev.transferFeePercentage,
+        transferFeeFixed: values.transfer_fee_fixed ?? prev.transferFeeFixed,
+        minTransferAmount: values.min_transfer_amount ?? prev.minTransferAmount,
+        maxTransferAmount: values.max_transfer_amount ?? prev.maxTransferAmount,
+        kycRequiredAmount: values.kyc_required_amount ?? prev.kycRequiredAmount,
+        kycRequiredPeriodDays: values.kyc_required_period_days ?? prev.kycRequiredPeriodDays,
+        dailyLimit: values.daily_transfer_limit ?? prev.dailyLimit,
+        monthlyLimit: values.monthly_transfer_limit ?? prev.monthlyLimit,
+        singleTransactionLimit: values.single_transfer_limit ?? prev.singleTransactionLimit,
+        paymentRequestExpiryDays: values.payment_request_expiry_days ?? prev.paymentRequestExpiryDays,
+        refundFeePolicy: values.refund_fee_policy ?? prev.refundFeePolicy,
+      }));
+    } catch (error) {
+      console.error('Error loading transaction settings:', error);
+    }
+  };
+
   const loadFirewallRules = async () => {
     try {
       const { data, error } = await supabase
@@ -435,6 +516,23 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                       />
                     </div>
 
+                    <div>
+                      <Label htmlFor="kyc-period">KYC Period (days)</Label>
+                      <Input
+                        id="kyc-period"
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={transactionLimits.kycRequiredPeriodDays}
+                        onChange={(e) =>
+                          setTransactionLimits(prev => ({ ...prev, kycRequiredPeriodDays: e.target.value }))
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Users without verified KYC can send up to the KYC amount in total over this many days
+                      </p>
+                    </div>
+
                     <div>
                       <Label htmlFor="agent-limit">Agent Daily Fund Limit ($)</Label>
                       <Input
@@ -528,6 +626,28 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                         </div>
                       </div>
                     </div>
+
+                    <div>
+                      <Label>Fees on Refunds</Label>
+                      <Select
+                        value={transactionLimits.refundFeePolicy}
+                        onValueChange={(value) =>
+                          setTransactionLimits(prev => ({ ...prev, refundFeePolicy: value }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Keep all fees</SelectItem>
+                          <SelectItem value="sender">Return the sender's fee</SelectItem>
+                          <SelectItem value="all">Return sender and receiver fees</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Returned fees are prorated on partial refunds
+                      </p>
+                    </div>
                   </div>
                 </div>
 
@@ -564,6 +684,23 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                         }
                       />
                     </div>
+
+                    <div>
+                      <Label htmlFor="request-expiry">Payment Request Expiry (days)</Label>
+                      <Input
+                        id="request-expiry"
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={transactionLimits.paymentRequestExpiryDays}
+                        onChange={(e) =>
+                          setTransactionLimits(prev => ({ ...prev, paymentRequestExpiryDays: e.target.value }))
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Applies when the requester doesn't pick a date. Set to 0 to keep requests open until paid
+                      </p>
+                    </div>
                   </div>
                 </div>
 
@@ -592,6 +729,42 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                         .update({ setting_value: transactionLimits.maxTransferAmount })
                         .eq('setting_key', 'max_transfer_amount');
                       
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.kycRequiredAmount })
+                        .eq('setting_key', 'kyc_required_amount');
+
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.kycRequiredPeriodDays })
+                        .eq('setting_key', 'kyc_required_period_days');
+
+                      // Defaults for every user; tiers and users can be overridden in Transaction Limits
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.dailyLimit })
+                        .eq('setting_key', 'daily_transfer_limit');
+
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.monthlyLimit })
+                        .eq('setting_key', 'monthly_transfer_limit');
+
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.singleTransactionLimit })
+                        .eq('setting_key', 'single_transfer_limit');
+
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.paymentRequestExpiryDays })
+                        .eq('setting_key', 'payment_request_expiry_days');
+
+                      await supabase
+                        .from('system_settings')
+                        .update({ setting_value: transactionLimits.refundFeePolicy })
+                        .eq('setting_key', 'refund_fee_policy');
+                      
                       saveSettings('Transaction', transactionLimits);
                     } catch (error) {
                       console.error('Error saving fee settings:', error);
@@ -619,7 +792,12 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
-                      <Label htmlFor="two-factor">Two-Factor Authentication</Label>
+                      <div className="space-y-0.5">
+                        <Label htmlFor="two-factor">Two-Factor Authentication</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Require every user to enroll an authenticator app
+                        </p>
+                      </div>
                       <Switch
                         id="two-factor"
                         checked={securitySettings.twoFactorAuth}
@@ -681,6 +859,37 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                       />
                     </div>
 
+                    <div>
+                      <Label htmlFor="pin-length">Transaction PIN Length (digits)</Label>
+                      <Input
+                        id="pin-length"
+                        type="number"
+                        min="4"
+                        max="8"
+                        value={securitySettings.pinLength}
+                        onChange={(e) =>
+                          setSecuritySettings(prev => ({ ...prev, pinLength: e.target.value }))
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Users with shorter PINs are asked to choose a new one
+                      </p>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="pin-rotation">PIN Rotation (days, 0 = never)</Label>
+                      <Input
+                        id="pin-rotation"
+                        type="number"
+                        min="0"
+                        max="365"
+                        value={securitySettings.pinRotationDays}
+                        onChange={(e) =>
+                          setSecuritySettings(prev => ({ ...prev, pinRotationDays: e.target.value }))
+                        }
+                      />
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <Label htmlFor="ip-whitelisting">IP Whitelisting</Label>
                       <Switch
@@ -695,7 +904,58 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                 </div>
 
                 <Button
-                  onClick={() => saveSettings('Security', securitySettings)}
+                  onClick={async () => {
+                    const sessionDuration = parseInt(securitySettings.sessionDuration, 10);
+                    const maxLoginAttempts = parseInt(securitySettings.maxLoginAttempts, 10);
+                    const pinLength = parseInt(securitySettings.pinLength, 10);
+                    const pinRotationDays = parseInt(securitySettings.pinRotationDays, 10);
+                    if (!(sessionDuration >= 5 && sessionDuration <= 1440) || !(maxLoginAttempts >= 3 && maxLoginAttempts <= 10)) {
+                      toast({
+                        title: "Validation Error",
+                        description: "Session duration must be 5-1440 minutes and max login attempts 3-10",
+                        variant: "destructive",
+                      });
+                      return;
+                    }
+                    if (!(pinLength >= 4 && pinLength <= 8) || !(pinRotationDays >= 0 && pinRotationDays <= 365)) {
+                      toast({
+                        title: "Validation Error",
+                        description: "PIN length must be 4-8 digits and rotation 0-365 days",
+                        variant: "destructive",
+                      });
+                      return;
+                    }
+
+                    try {
+                      const updates = {
+                        require_two_factor: String(securitySettings.twoFactorAuth),
+                        session_timeout_enabled: String(securitySettings.sessionTimeout),
+                        session_timeout_minutes: String(sessionDuration),
+                        max_login_attempts: String(maxLoginAttempts),
+                        ip_whitelist_enforced: String(securitySettings.ipWhitelisting),
+                        pin_length: String(pinLength),
+                        pin_rotation_days: String(pinRotationDays),
+                      };
+
+                      for (const [key, value] of Object.entries(updates)) {
+                        const { error } = await supabase
+                          .from('system_settings')
+                          .update({ setting_value: value })
+                          .eq('setting_key', key);
+
+                        if (error) throw error;
+                      }
+
+                      saveSettings('Security', securitySettings);
+                    } catch (error) {
+                      console.error('Error saving security settings:', error);
+                      toast({
+                        title: "Error",
+                        description: (error as Error).message || "Failed to save security settings",
+                        variant: "destructive",
+                      });
+                    }
+                  }}
                   disabled={loading}
                   className="w-full"
                 >
@@ -884,7 +1144,13 @@ const SystemSettingsModal: React.FC<SystemSettingsModalProps> = ({ open, onOpenC
                       <Label htmlFor="rule-value">Value</Label>
                       <Input
                         id="rule-value"
-                        placeholder="e.g., 192.168.1.1 or US"
+                        placeholder={
+                          newRule.rule_type === 'rate_limit'
+                            ? "e.g., 100/min or 10/min@transfer-gateway"
+                            : newRule.rule_type.startsWith('country')
+                              ? "e.g., US"
+                              : "e.g., 192.168.1.1 or 10.0.0.0/8"
+                        }
                         value={newRule.rule_value}
                         onChange={(e) => setNewRule(prev => ({ ...prev, rule_value: e.target.value }))}
                       />
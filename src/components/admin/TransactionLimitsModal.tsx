@@ -7,6 +7,7 @@ import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { TransferLimitOverrides } from "./TransferLimitOverrides";
 import { AlertTriangle, Shield, DollarSign, Save, Settings } from "lucide-react";
 
 interface TransactionLimitsModalProps {
@@ -125,7 +126,7 @@ export function TransactionLimitsModal({ open, onOpenChange }: TransactionLimits
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <Settings className="w-5 h-5 mr-2" />
@@ -236,6 +237,8 @@ export function TransactionLimitsModal({ open, onOpenChange }: TransactionLimits
               </CardContent>
             </Card>
 
+            <TransferLimitOverrides />
+
             {/* Action Buttons */}
             <div className="flex gap-3 pt-2">
               <Button
@@ -0,0 +1,368 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getTransferLimits, type TransferLimits } from "@/lib/transferLimits";
+import { Gauge, Save, Trash2, UserCog } from "lucide-react";
+
+interface LimitRow {
+  id: string;
+  tier: string | null;
+  user_id: string | null;
+  daily_limit: number | null;
+  monthly_limit: number | null;
+  single_transaction_limit: number | null;
+  notes: string | null;
+}
+
+interface LimitDraft {
+  daily_limit: string;
+  monthly_limit: string;
+  single_transaction_limit: string;
+}
+
+interface UserOption {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+const TIERS = [
+  { value: 'standard', label: 'Standard', description: 'No approved KYC' },
+  { value: 'verified', label: 'Verified', description: 'Approved KYC' },
+  { value: 'agent', label: 'Agent', description: 'Agent accounts' },
+];
+
+const EMPTY_DRAFT: LimitDraft = { daily_limit: '', monthly_limit: '', single_transaction_limit: '' };
+
+const toDraft = (row?: LimitRow): LimitDraft => ({
+  daily_limit: row?.daily_limit?.toString() ?? '',
+  monthly_limit: row?.monthly_limit?.toString() ?? '',
+  single_transaction_limit: row?.single_transaction_limit?.toString() ?? '',
+});
+
+// Blank inputs inherit the next level's limit
+const fromDraft = (draft: LimitDraft) => ({
+  daily_limit: draft.daily_limit === '' ? null : parseFloat(draft.daily_limit),
+  monthly_limit: draft.monthly_limit === '' ? null : parseFloat(draft.monthly_limit),
+  single_transaction_limit: draft.single_transaction_limit === '' ? null : parseFloat(draft.single_transaction_limit),
+});
+
+const formatLimit = (value: number | null) => (value === null ? 'Inherited' : `$${Number(value).toFixed(2)}`);
+
+function LimitInputs({ idPrefix, draft, onChange }: {
+  idPrefix: string;
+  draft: LimitDraft;
+  onChange: (draft: LimitDraft) => void;
+}) {
+  const fields: { key: keyof LimitDraft; label: string }[] = [
+    { key: 'daily_limit', label: 'Daily' },
+    { key: 'monthly_limit', label: 'Monthly' },
+    { key: 'single_transaction_limit', label: 'Per transfer' },
+  ];
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {fields.map(({ key, label }) => (
+        <div key={key} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${key}`} className="text-xs">{label}</Label>
+          <Input
+            id={`${idPrefix}-${key}`}
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Default"
+            value={draft[key]}
+            onChange={(e) => onChange({ ...draft, [key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Tier and per-user overrides of the global transfer limits in System Settings
+export function TransferLimitOverrides() {
+  const [rows, setRows] = useState<LimitRow[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [tierDrafts, setTierDrafts] = useState<Record<string, LimitDraft>>({});
+  const [selectedUser, setSelectedUser] = useState("");
+  const [userDraft, setUserDraft] = useState<LimitDraft>(EMPTY_DRAFT);
+  const [userNotes, setUserNotes] = useState("");
+  const [selectedUsage, setSelectedUsage] = useState<TransferLimits | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    try {
+      const [{ data: limitData, error: limitError }, { data: userData, error: userError }] = await Promise.all([
+        supabase
+          .from('transfer_limits')
+          .select('id, tier, user_id, daily_limit, monthly_limit, single_transaction_limit, notes')
+          .order('created_at'),
+        supabase
+          .from('profiles')
+          .select('user_id, full_name, email')
+          .order('full_name'),
+      ]);
+
+      if (limitError) throw limitError;
+      if (userError) throw userError;
+
+      const limitRows = (limitData || []) as LimitRow[];
+      setRows(limitRows);
+      setUsers(userData || []);
+      setTierDrafts(Object.fromEntries(
+        TIERS.map((tier) => [tier.value, toDraft(limitRows.find((row) => row.tier === tier.value))])
+      ));
+    } catch (error) {
+      console.error('Error loading transfer limits:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tier and user limits",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    if (!selectedUser) {
+      setSelectedUsage(null);
+      return;
+    }
+
+    const existing = rows.find((row) => row.user_id === selectedUser);
+    setUserDraft(toDraft(existing));
+    setUserNotes(existing?.notes || "");
+    getTransferLimits(selectedUser)
+      .then(setSelectedUsage)
+      .catch((error) => {
+        console.error('Error loading user limits:', error);
+        setSelectedUsage(null);
+      });
+  }, [selectedUser, rows]);
+
+  const logChange = async (description: string) => {
+    const { data: currentUser } = await supabase.auth.getUser();
+    await supabase.from('activity_logs').insert({
+      user_id: currentUser.user?.id,
+      action_type: 'TRANSFER_LIMITS_UPDATED',
+      description,
+    });
+  };
+
+  const saveTiers = async () => {
+    setSaving(true);
+    try {
+      const { data: currentUser } = await supabase.auth.getUser();
+      for (const tier of TIERS) {
+        const { error } = await supabase
+          .from('transfer_limits')
+          .upsert(
+            { tier: tier.value, ...fromDraft(tierDrafts[tier.value] || EMPTY_DRAFT), updated_by: currentUser.user?.id },
+            { onConflict: 'tier' }
+          );
+
+        if (error) throw error;
+      }
+
+      await logChange('Updated tier transfer limits');
+      toast({
+        title: "Tier Limits Saved",
+        description: "Tier transfer limits updated successfully",
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error saving tier limits:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save tier limits",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveUserOverride = async () => {
+    if (!selectedUser) return;
+
+    setSaving(true);
+    try {
+      const { data: currentUser } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('transfer_limits')
+        .upsert(
+          { user_id: selectedUser, ...fromDraft(userDraft), notes: userNotes || null, updated_by: currentUser.user?.id },
+          { onConflict: 'user_id' }
+        );
+
+      if (error) throw error;
+
+      const user = users.find((u) => u.user_id === selectedUser);
+      await logChange(`Set transfer limit override for ${user?.email || selectedUser}`);
+
+      toast({
+        title: "Override Saved",
+        description: `Transfer limits updated for ${user?.full_name || user?.email || 'user'}`,
+      });
+      loadData();
+    } catch (error) {
+      console.error('Error saving user override:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save user override",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeUserOverride = async (row: LimitRow) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('transfer_limits').delete().eq('id', row.id);
+      if (error) throw error;
+
+      const user = users.find((u) => u.user_id === row.user_id);
+      await logChange(`Removed transfer limit override for ${user?.email || row.user_id}`);
+      if (selectedUser === row.user_id) setSelectedUser("");
+      loadData();
+    } catch (error) {
+      console.error('Error removing user override:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to remove override",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const userRows = rows.filter((row) => row.user_id);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-base">
+            <Gauge className="w-4 h-4 mr-2" />
+            Tier Limits
+          </CardTitle>
+          <CardDescription>
+            Leave a field blank to use the default from System Settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {TIERS.map((tier) => (
+            <div key={tier.value} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{tier.label}</span>
+                <span className="text-xs text-muted-foreground">{tier.description}</span>
+              </div>
+              <LimitInputs
+                idPrefix={`tier-${tier.value}`}
+                draft={tierDrafts[tier.value] || EMPTY_DRAFT}
+                onChange={(draft) => setTierDrafts((prev) => ({ ...prev, [tier.value]: draft }))}
+              />
+            </div>
+          ))}
+          <Button onClick={saveTiers} disabled={saving} className="w-full">
+            <Save className="w-4 h-4 mr-2" />
+            Save Tier Limits
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-base">
+            <UserCog className="w-4 h-4 mr-2" />
+            User Overrides
+          </CardTitle>
+          <CardDescription>
+            Override the tier limits for a single user; blank fields use the tier limit
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={selectedUser} onValueChange={setSelectedUser}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a user..." />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.user_id} value={user.user_id}>
+                  {user.full_name} ({user.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {selectedUser && (
+            <div className="space-y-3">
+              {selectedUsage && (
+                <p className="text-xs text-muted-foreground">
+                  {selectedUsage.tier} tier · sent ${selectedUsage.dailyUsed.toFixed(2)} in 24h and $
+                  {selectedUsage.monthlyUsed.toFixed(2)} in 30 days
+                </p>
+              )}
+              <LimitInputs idPrefix="user" draft={userDraft} onChange={setUserDraft} />
+              <div className="space-y-1">
+                <Label htmlFor="user-limit-notes" className="text-xs">Reason</Label>
+                <Input
+                  id="user-limit-notes"
+                  placeholder="Why this user has different limits"
+                  value={userNotes}
+                  onChange={(e) => setUserNotes(e.target.value)}
+                />
+              </div>
+              <Button onClick={saveUserOverride} disabled={saving} className="w-full">
+                <Save className="w-4 h-4 mr-2" />
+                Save Override
+              </Button>
+            </div>
+          )}
+
+          {userRows.length > 0 && (
+            <div className="space-y-2">
+              {userRows.map((row) => {
+                const user = users.find((u) => u.user_id === row.user_id);
+                return (
+                  <div key={row.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{user?.full_name || user?.email || row.user_id}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge variant="outline">Daily {formatLimit(row.daily_limit)}</Badge>
+                        <Badge variant="outline">Monthly {formatLimit(row.monthly_limit)}</Badge>
+                        <Badge variant="outline">Per transfer {formatLimit(row.single_transaction_limit)}</Badge>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeUserOverride(row)}
+                      disabled={saving}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -45,6 +45,8 @@ export function TreasuryManagementModal({ open, onOpenChange, currentUser }: Tre
   const [reason, setReason] = useState("");
   const [loading, setLoading] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  // Reused across retries of the same withdrawal so the server can de-duplicate them
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
 
   useEffect(() => {
@@ -53,6 +55,11 @@ export function TreasuryManagementModal({ open, onOpenChange, currentUser }: Tre
     }
   }, [open]);
 
+  // A changed withdrawal is a new request and needs a new idempotency key
+  useEffect(() => {
+    setIdempotencyKey(crypto.randomUUID());
+  }, [amount, reason]);
+
   const loadData = async () => {
     try {
       // Load admin's balance
@@ -118,7 +125,8 @@ export function TreasuryManagementModal({ open, onOpenChange, currentUser }: Tre
     try {
       const { data, error } = await supabase.rpc('withdraw_from_treasury', {
         p_amount: numAmount,
-        p_reason: reason.trim()
+        p_reason: reason.trim(),
+        p_idempotency_key: idempotencyKey,
       });
 
       if (error) throw error;
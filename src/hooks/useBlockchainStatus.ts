@@ -5,7 +5,8 @@ import {
   BlockchainNodeConfig,
   checkBlockchainReadiness,
   DEFAULT_GYD_CONFIG,
-  DEFAULT_GYDS_CONFIG
+  DEFAULT_GYDS_CONFIG,
+  loadBlockchainConfig
 } from '@/lib/blockchainStatus';
 
 interface UseBlockchainStatusReturn {
@@ -27,47 +28,11 @@ export function useBlockchainStatus(): UseBlockchainStatusReturn {
 
   const loadConfig = useCallback(async () => {
     try {
-      // Load blockchain configuration from system_settings
-      const { data: settings } = await supabase
-        .from('system_settings')
-        .select('setting_key, setting_value')
-        .in('setting_key', [
-          'blockchain_rpc',
-          'blockchain_chain_id',
-          'blockchain_event_indexer',
-          'gyds_rpc',
-          'gyds_chain_id',
-          'gyds_event_indexer'
-        ]);
-
-      if (settings) {
-        const settingsMap: Record<string, string> = {};
-        settings.forEach(s => {
-          settingsMap[s.setting_key] = s.setting_value;
-        });
-
-        // Configure GYD (primary)
-        const newGydConfig: BlockchainNodeConfig = {
-          ...DEFAULT_GYD_CONFIG,
-          rpcEndpoint: settingsMap['blockchain_rpc'] || '',
-          chainId: settingsMap['blockchain_chain_id'] || '1',
-          eventIndexer: settingsMap['blockchain_event_indexer'] || ''
-        };
-        setGydConfig(newGydConfig);
-
-        // Configure GYDS (secondary/monitoring)
-        const newGydsConfig: BlockchainNodeConfig = {
-          ...DEFAULT_GYDS_CONFIG,
-          rpcEndpoint: settingsMap['gyds_rpc'] || '',
-          chainId: settingsMap['gyds_chain_id'] || '1',
-          eventIndexer: settingsMap['gyds_event_indexer'] || ''
-        };
-        setGydsConfig(newGydsConfig);
-
-        return { gydConfig: newGydConfig, gydsConfig: newGydsConfig };
-      }
-
-      return { gydConfig: DEFAULT_GYD_CONFIG, gydsConfig: DEFAULT_GYDS_CONFIG };
+      // Node configuration is shared by all users through blockchain_networks
+      const configs = await loadBlockchainConfig();
+      setGydConfig(configs.gydConfig);
+      setGydsConfig(configs.gydsConfig);
+      return configs;
     } catch (error) {
       console.error('Error loading blockchain config:', error);
       return { gydConfig: DEFAULT_GYD_CONFIG, gydsConfig: DEFAULT_GYDS_CONFIG };
@@ -106,19 +71,18 @@ export function useBlockchainStatus(): UseBlockchainStatusReturn {
     // Re-check every 30 seconds
     const interval = setInterval(checkStatus, 30000);
 
-    // Subscribe to settings changes
+    // Subscribe to node configuration changes
     const channel = supabase
-      .channel('blockchain-settings-changes')
+      .channel('blockchain-network-changes')
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'system_settings',
-          filter: 'setting_key=in.(blockchain_rpc,blockchain_chain_id,gyds_rpc,gyds_chain_id)'
+          table: 'blockchain_networks'
         },
         () => {
-          console.log('Blockchain settings changed, refreshing status...');
+          console.log('Blockchain network config changed, refreshing status...');
           checkStatus();
         }
       )
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  OfflineQueueMessage,
+  OfflineTransfer,
+  discardOfflineTransfer,
+  enqueueOfflineTransfer,
+  isOfflineQueueSupported,
+  listOfflineTransfers,
+  requestOfflineSync,
+  trackOfflineSession
+} from '@/lib/offlineQueue';
+
+interface UseOfflineQueueReturn {
+  isSupported: boolean;
+  isOnline: boolean;
+  transfers: OfflineTransfer[];
+  enqueue: typeof enqueueOfflineTransfer;
+  discard: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export function useOfflineQueue(userId: string, onReplayed?: () => void): UseOfflineQueueReturn {
+  const { toast } = useToast();
+  const [isSupported] = useState(() => isOfflineQueueSupported());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [transfers, setTransfers] = useState<OfflineTransfer[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!isSupported || !userId) return;
+    try {
+      setTransfers(await listOfflineTransfers(userId));
+    } catch (error) {
+      console.error('Error loading offline transfers:', error);
+    }
+  }, [isSupported, userId]);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    return trackOfflineSession();
+  }, [isSupported]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      // Browsers without Background Sync only replay when asked
+      requestOfflineSync().catch((error) => console.error('Error requesting offline sync:', error));
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isSupported) return;
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      const message = event.data as OfflineQueueMessage;
+      if (message?.type !== 'OFFLINE_QUEUE_UPDATED') return;
+
+      const label = message.transferType === 'send' ? 'Transfer' : 'Payment request';
+      if (message.outcome === 'completed') {
+        toast({
+          title: `Offline ${label.toLowerCase()} submitted`,
+          description: `${label} for $${message.amount.toFixed(2)} was completed`,
+        });
+        onReplayed?.();
+      } else {
+        toast({
+          title: `Offline ${label.toLowerCase()} failed`,
+          description: message.error || `${label} for $${message.amount.toFixed(2)} could not be completed`,
+          variant: 'destructive',
+        });
+      }
+      refresh();
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleWorkerMessage);
+  }, [isSupported, refresh, toast, onReplayed]);
+
+  const enqueue = useCallback<typeof enqueueOfflineTransfer>(async (input) => {
+    const transfer = await enqueueOfflineTransfer(input);
+    await refresh();
+    return transfer;
+  }, [refresh]);
+
+  const discard = useCallback(async (id: string) => {
+    await discardOfflineTransfer(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    isSupported,
+    isOnline,
+    transfers,
+    enqueue,
+    discard,
+    refresh
+  };
+}
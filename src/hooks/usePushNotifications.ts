@@ -1,8 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Capacitor } from '@capacitor/core';
 import { PushNotifications, Token, PushNotificationSchema, ActionPerformed } from '@capacitor/push-notifications';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { subscribeToWebPush, unsubscribeFromWebPush } from '@/lib/notifications';
+
+// Last token registered from this device, so it can be revoked on sign-out or rotation
+const DEVICE_TOKEN_KEY = 'push_device_token';
 
 interface UsePushNotificationsReturn {
   isSupported: boolean;
@@ -19,6 +23,12 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
   const [isRegistered, setIsRegistered] = useState(false);
   const [permissionStatus, setPermissionStatus] = useState<'prompt' | 'granted' | 'denied' | 'unknown'>('unknown');
   const [token, setToken] = useState<string | null>(null);
+  // Listeners are attached once, so they read the current user through a ref
+  const userIdRef = useRef(userId);
+
+  useEffect(() => {
+    userIdRef.current = userId;
+  }, [userId]);
 
   useEffect(() => {
     // Check if running on native platform
@@ -35,6 +45,15 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
         setIsSupported(true);
         setPermissionStatus(Notification.permission as any);
       }
+
+      // The service worker reports when the browser rotates the push subscription
+      const handleWorkerMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'PUSH_SUBSCRIPTION_CHANGED') {
+          registerWebPush().catch((error) => console.error('Error refreshing web push subscription:', error));
+        }
+      };
+      navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+      return () => navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
     }
   }, []);
 
@@ -54,17 +73,21 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
       setToken(token.value);
       setIsRegistered(true);
 
-      // Store token in database for later use
-      if (userId) {
+      // Register the token so the server can push to this device
+      if (userIdRef.current) {
         try {
-          // Store in user's profile or a separate tokens table
-          await supabase
-            .from('activity_logs')
-            .insert({
-              user_id: userId,
-              action_type: 'PUSH_TOKEN_REGISTERED',
-              description: 'Push notification token registered'
-            });
+          const previousToken = localStorage.getItem(DEVICE_TOKEN_KEY);
+          const { data, error } = await supabase.rpc('register_device_token', {
+            p_token: token.value,
+            p_platform: Capacitor.getPlatform(),
+            p_previous_token: previousToken && previousToken !== token.value ? previousToken : null
+          });
+          if (error) throw error;
+
+          const result = data as { success: boolean; error?: string };
+          if (!result.success) throw new Error(result.error);
+
+          localStorage.setItem(DEVICE_TOKEN_KEY, token.value);
         } catch (error) {
           console.error('Error storing push token:', error);
         }
@@ -103,6 +126,12 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
         window.location.href = '/?openHistory=true';
       } else if (data?.type === 'payment_request') {
         window.location.href = '/?openRequests=true';
+      } else if (data?.type === 'scheduled_transfer') {
+        window.location.href = '/?openScheduled=true';
+      } else if (data?.type === 'merchant_sale' || data?.type === 'merchant_settlement') {
+        window.location.href = '/?openMerchant=true';
+      } else if (data?.type === 'dispute') {
+        window.location.href = '/?openHistory=true';
       }
     });
   };
@@ -128,12 +157,35 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
     }
   };
 
+  // Web Push subscriptions are stored server-side so the closed PWA can still be notified
+  const registerWebPush = async () => {
+    const subscription = await subscribeToWebPush();
+    if (!subscription || !userIdRef.current) return;
+
+    const previousEndpoint = localStorage.getItem(DEVICE_TOKEN_KEY);
+    const { data, error } = await supabase.rpc('register_web_push_subscription', {
+      p_endpoint: subscription.endpoint,
+      p_p256dh: subscription.p256dh,
+      p_auth: subscription.auth,
+      p_previous_endpoint: previousEndpoint && previousEndpoint !== subscription.endpoint ? previousEndpoint : null
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string };
+    if (!result.success) throw new Error(result.error);
+
+    setToken(subscription.endpoint);
+    localStorage.setItem(DEVICE_TOKEN_KEY, subscription.endpoint);
+  };
+
   const registerForPush = async () => {
     try {
       if (Capacitor.getPlatform() === 'web') {
-        // For web, just request permission
-        await requestPermission();
-        setIsRegistered(true);
+        const granted = permissionStatus === 'granted' || await requestPermission();
+        if (granted) {
+          await registerWebPush();
+          setIsRegistered(true);
+        }
         return;
       }
 
@@ -161,6 +213,27 @@ export function usePushNotifications(userId: string): UsePushNotificationsReturn
   };
 }
 
+/**
+ * Revoke this device's push token. Call before signing out, while the session is still valid.
+ */
+export async function unregisterPushDevice() {
+  const token = localStorage.getItem(DEVICE_TOKEN_KEY);
+  if (!token) return;
+
+  try {
+    await supabase.rpc('unregister_device_token', { p_token: token });
+    if (Capacitor.getPlatform() === 'web') {
+      await unsubscribeFromWebPush();
+    } else {
+      await PushNotifications.unregister();
+    }
+  } catch (error) {
+    console.error('Error unregistering push token:', error);
+  } finally {
+    localStorage.removeItem(DEVICE_TOKEN_KEY);
+  }
+}
+
 // Helper function to send local notification (for testing and in-app alerts)
 export async function sendLocalNotification(title: string, body: string, data?: Record<string, any>) {
   if (Capacitor.getPlatform() === 'web') {
@@ -0,0 +1,127 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Shared across tabs, and survives a reload so refreshing can't skip the lock
+const LAST_ACTIVITY_KEY = 'session_last_activity';
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll', 'wheel'] as const;
+// Activity only needs to be recorded often enough to be accurate to the check interval
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+const CHECK_INTERVAL_MS = 15000;
+
+interface UseSessionTimeoutReturn {
+  isLocked: boolean;
+  timeoutMinutes: number;
+  unlock: () => void;
+}
+
+/**
+ * Lock the app after the admin-configured period of inactivity. A locked session that
+ * stays idle for a second period is ended through onExpire.
+ */
+export function useSessionTimeout(userId: string, onExpire: () => void): UseSessionTimeoutReturn {
+  const [enabled, setEnabled] = useState(false);
+  const [timeoutMinutes, setTimeoutMinutes] = useState(30);
+  const [isLocked, setIsLocked] = useState(false);
+  const lastWriteRef = useRef(0);
+  const isLockedRef = useRef(false);
+  const expiredRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    isLockedRef.current = isLocked;
+  }, [isLocked]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('system_settings')
+          .select('setting_key, setting_value')
+          .in('setting_key', ['session_timeout_enabled', 'session_timeout_minutes']);
+
+        if (error) throw error;
+
+        const values = Object.fromEntries((data || []).map((s) => [s.setting_key, s.setting_value]));
+        setEnabled(values.session_timeout_enabled !== 'false');
+        setTimeoutMinutes(parseInt(values.session_timeout_minutes, 10) || 30);
+      } catch (error) {
+        console.error('Error loading session timeout settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, [userId]);
+
+  const recordActivity = useCallback((force = false) => {
+    const now = Date.now();
+    if (!force && now - lastWriteRef.current < ACTIVITY_WRITE_INTERVAL_MS) return;
+    lastWriteRef.current = now;
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const timeoutMs = timeoutMinutes * 60 * 1000;
+
+    const checkIdle = () => {
+      if (expiredRef.current) return;
+
+      const lastActivity = parseInt(localStorage.getItem(LAST_ACTIVITY_KEY) || '0', 10) || Date.now();
+      const idleMs = Date.now() - lastActivity;
+
+      if (idleMs >= timeoutMs * 2) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      } else if (idleMs >= timeoutMs) {
+        setIsLocked(true);
+      }
+    };
+
+    const handleActivity = () => {
+      // Input on the lock screen itself doesn't count as activity
+      if (!isLockedRef.current) recordActivity();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkIdle();
+    };
+
+    if (!localStorage.getItem(LAST_ACTIVITY_KEY)) recordActivity(true);
+    checkIdle();
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMinutes, userId, recordActivity]);
+
+  const unlock = useCallback(() => {
+    recordActivity(true);
+    setIsLocked(false);
+  }, [recordActivity]);
+
+  return {
+    isLocked,
+    timeoutMinutes,
+    unlock
+  };
+}
+
+/**
+ * Forget the activity clock, so the next sign-in starts a fresh idle period
+ */
+export function clearSessionActivity() {
+  localStorage.removeItem(LAST_ACTIVITY_KEY);
+}
@@ -14,6 +14,36 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_status_history: {
+        Row: {
+          changed_by: string
+          created_at: string
+          id: string
+          new_status: string
+          previous_status: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          changed_by: string
+          created_at?: string
+          id?: string
+          new_status: string
+          previous_status: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          changed_by?: string
+          created_at?: string
+          id?: string
+          new_status?: string
+          previous_status?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       activity_logs: {
         Row: {
           action_type: string
@@ -149,6 +179,104 @@ export type Database = {
         }
         Relationships: []
       }
+      blockchain_network_history: {
+        Row: {
+          changed_by: string | null
+          config: Json
+          created_at: string
+          id: string
+          network: string
+          version: number
+        }
+        Insert: {
+          changed_by?: string | null
+          config: Json
+          created_at?: string
+          id?: string
+          network: string
+          version: number
+        }
+        Update: {
+          changed_by?: string | null
+          config?: Json
+          created_at?: string
+          id?: string
+          network?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blockchain_network_history_network_fkey"
+            columns: ["network"]
+            isOneToOne: false
+            referencedRelation: "blockchain_networks"
+            referencedColumns: ["network"]
+          },
+        ]
+      }
+      blockchain_networks: {
+        Row: {
+          chain_id: string
+          coin_name: string
+          coin_symbol: string
+          decimals: number
+          deposit_confirmations: number
+          event_indexer: string
+          hot_wallet_address: string
+          is_active: boolean
+          max_withdrawal: number
+          min_withdrawal: number
+          network: string
+          network_name: string
+          rpc_endpoint: string
+          token_address: string
+          updated_at: string
+          updated_by: string | null
+          version: number
+          withdrawal_fee: number
+        }
+        Insert: {
+          chain_id?: string
+          coin_name: string
+          coin_symbol: string
+          decimals?: number
+          deposit_confirmations?: number
+          event_indexer?: string
+          hot_wallet_address?: string
+          is_active?: boolean
+          max_withdrawal?: number
+          min_withdrawal?: number
+          network: string
+          network_name: string
+          rpc_endpoint?: string
+          token_address?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          withdrawal_fee?: number
+        }
+        Update: {
+          chain_id?: string
+          coin_name?: string
+          coin_symbol?: string
+          decimals?: number
+          deposit_confirmations?: number
+          event_indexer?: string
+          hot_wallet_address?: string
+          is_active?: boolean
+          max_withdrawal?: number
+          min_withdrawal?: number
+          network?: string
+          network_name?: string
+          rpc_endpoint?: string
+          token_address?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          withdrawal_fee?: number
+        }
+        Relationships: []
+      }
       chat_conversations: {
         Row: {
           agent_id: string | null
@@ -211,6 +339,196 @@ export type Database = {
           },
         ]
       }
+      database_backup_restores: {
+        Row: {
+          backup_id: string
+          checksum_verified: boolean
+          completed_at: string | null
+          error_message: string | null
+          id: string
+          requested_by: string | null
+          restored_row_counts: Json
+          started_at: string
+          status: string
+          target_database: string
+          target_host: string
+          target_schema: string
+          verification: Json | null
+        }
+        Insert: {
+          backup_id: string
+          checksum_verified?: boolean
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          requested_by?: string | null
+          restored_row_counts?: Json
+          started_at?: string
+          status?: string
+          target_database: string
+          target_host: string
+          target_schema: string
+          verification?: Json | null
+        }
+        Update: {
+          backup_id?: string
+          checksum_verified?: boolean
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          requested_by?: string | null
+          restored_row_counts?: Json
+          started_at?: string
+          status?: string
+          target_database?: string
+          target_host?: string
+          target_schema?: string
+          verification?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "database_backup_restores_backup_id_fkey"
+            columns: ["backup_id"]
+            isOneToOne: false
+            referencedRelation: "database_backups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      database_backups: {
+        Row: {
+          backup_name: string
+          backup_type: string
+          checksum_sha256: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          error_message: string | null
+          file_size_bytes: number | null
+          format_version: number
+          id: string
+          started_at: string
+          status: string
+          storage_path: string | null
+          table_row_counts: Json
+        }
+        Insert: {
+          backup_name: string
+          backup_type?: string
+          checksum_sha256?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          file_size_bytes?: number | null
+          format_version?: number
+          id?: string
+          started_at?: string
+          status?: string
+          storage_path?: string | null
+          table_row_counts?: Json
+        }
+        Update: {
+          backup_name?: string
+          backup_type?: string
+          checksum_sha256?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          file_size_bytes?: number | null
+          format_version?: number
+          id?: string
+          started_at?: string
+          status?: string
+          storage_path?: string | null
+          table_row_counts?: Json
+        }
+        Relationships: []
+      }
+      deposit_scan_cursors: {
+        Row: {
+          last_block: number
+          network: string
+          updated_at: string
+        }
+        Insert: {
+          last_block: number
+          network: string
+          updated_at?: string
+        }
+        Update: {
+          last_block?: number
+          network?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deposit_scan_cursors_network_fkey"
+            columns: ["network"]
+            isOneToOne: true
+            referencedRelation: "blockchain_networks"
+            referencedColumns: ["network"]
+          },
+        ]
+      }
+      device_tokens: {
+        Row: {
+          auth_secret: string | null
+          created_at: string
+          id: string
+          last_seen_at: string
+          p256dh: string | null
+          platform: string
+          revoke_reason: string | null
+          revoked_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          auth_secret?: string | null
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          p256dh?: string | null
+          platform: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          auth_secret?: string | null
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          p256dh?: string | null
+          platform?: string
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      firewall_rate_counters: {
+        Row: {
+          bucket_key: string
+          hits: number
+          window_start: string
+        }
+        Insert: {
+          bucket_key: string
+          hits?: number
+          window_start: string
+        }
+        Update: {
+          bucket_key?: string
+          hits?: number
+          window_start?: string
+        }
+        Relationships: []
+      }
       firewall_rules: {
         Row: {
           created_at: string | null
@@ -342,6 +660,39 @@ export type Database = {
           },
         ]
       }
+      idempotency_keys: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          operation: string
+          request_fingerprint: string
+          response: Json | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          operation: string
+          request_fingerprint: string
+          response?: Json | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          operation?: string
+          request_fingerprint?: string
+          response?: Json | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       knowledge_base: {
         Row: {
           answer: string
@@ -375,431 +726,1449 @@ export type Database = {
         }
         Relationships: []
       }
-      payment_requests: {
+      kyc_documents: {
         Row: {
-          amount: number
           created_at: string
-          description: string | null
+          document_type: string
+          document_url: string
+          file_name: string | null
           id: string
-          recipient_id: string
-          sender_id: string
-          status: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["kyc_status"] | null
           updated_at: string
+          user_id: string
         }
         Insert: {
-          amount: number
           created_at?: string
-          description?: string | null
+          document_type: string
+          document_url: string
+          file_name?: string | null
           id?: string
-          recipient_id: string
-          sender_id: string
-          status?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["kyc_status"] | null
           updated_at?: string
+          user_id: string
         }
         Update: {
-          amount?: number
           created_at?: string
-          description?: string | null
+          document_type?: string
+          document_url?: string
+          file_name?: string | null
           id?: string
-          recipient_id?: string
-          sender_id?: string
-          status?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["kyc_status"] | null
           updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
-      profiles: {
+      ledger_accounts: {
         Row: {
-          address_line1: string | null
-          address_line2: string | null
-          alternate_number: string | null
-          avatar_url: string | null
-          balance: number | null
-          card_cvv: string | null
-          city: string | null
-          country: string | null
+          account_code: string
+          account_type: string
           created_at: string
-          date_of_birth: string | null
-          email: string
-          full_name: string
-          gender: string | null
           id: string
-          id_number: string | null
-          id_type: string | null
-          mobile_number: string | null
-          nationality: string | null
-          notify_email: string | null
-          occupation: string | null
-          pin_enabled: boolean | null
-          pin_hash: string | null
-          public_key: string | null
-          referral_code: string | null
-          region: string | null
-          role: string
-          tin_number: string | null
-          user_id: string
-          wallet_address: string | null
+          name: string
+          treasury_id: string | null
+          user_id: string | null
         }
         Insert: {
-          address_line1?: string | null
-          address_line2?: string | null
-          alternate_number?: string | null
-          avatar_url?: string | null
-          balance?: number | null
-          card_cvv?: string | null
-          city?: string | null
-          country?: string | null
+          account_code: string
+          account_type: string
           created_at?: string
-          date_of_birth?: string | null
-          email: string
-          full_name: string
-          gender?: string | null
           id?: string
-          id_number?: string | null
-          id_type?: string | null
-          mobile_number?: string | null
-          nationality?: string | null
-          notify_email?: string | null
-          occupation?: string | null
-          pin_enabled?: boolean | null
-          pin_hash?: string | null
-          public_key?: string | null
-          referral_code?: string | null
-          region?: string | null
-          role?: string
-          tin_number?: string | null
-          user_id: string
-          wallet_address?: string | null
+          name: string
+          treasury_id?: string | null
+          user_id?: string | null
         }
         Update: {
-          address_line1?: string | null
-          address_line2?: string | null
-          alternate_number?: string | null
-          avatar_url?: string | null
-          balance?: number | null
-          card_cvv?: string | null
-          city?: string | null
-          country?: string | null
+          account_code?: string
+          account_type?: string
           created_at?: string
-          date_of_birth?: string | null
-          email?: string
-          full_name?: string
-          gender?: string | null
           id?: string
-          id_number?: string | null
-          id_type?: string | null
-          mobile_number?: string | null
-          nationality?: string | null
-          notify_email?: string | null
-          occupation?: string | null
-          pin_enabled?: boolean | null
-          pin_hash?: string | null
-          public_key?: string | null
-          referral_code?: string | null
-          region?: string | null
-          role?: string
-          tin_number?: string | null
-          user_id?: string
-          wallet_address?: string | null
-        }
-        Relationships: []
-      }
-      pwa_settings: {
-        Row: {
-          created_at: string
-          enabled: boolean | null
-          id: string
-          setting_key: string
-          setting_value: Json
-          updated_at: string
-        }
-        Insert: {
-          created_at?: string
-          enabled?: boolean | null
-          id?: string
-          setting_key: string
-          setting_value: Json
-          updated_at?: string
-        }
-        Update: {
-          created_at?: string
-          enabled?: boolean | null
-          id?: string
-          setting_key?: string
-          setting_value?: Json
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      security_rate_limits: {
-        Row: {
-          action_type: string
-          attempt_count: number
-          first_attempt_at: string
-          id: string
-          last_attempt_at: string
-          locked_until: string | null
-          user_id: string
-        }
-        Insert: {
-          action_type: string
-          attempt_count?: number
-          first_attempt_at?: string
-          id?: string
-          last_attempt_at?: string
-          locked_until?: string | null
-          user_id: string
-        }
-        Update: {
-          action_type?: string
-          attempt_count?: number
-          first_attempt_at?: string
-          id?: string
-          last_attempt_at?: string
-          locked_until?: string | null
-          user_id?: string
+          name?: string
+          treasury_id?: string | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_treasury_id_fkey"
+            columns: ["treasury_id"]
+            isOneToOne: true
+            referencedRelation: "bank_treasury"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      support_ticket_attachments: {
+      ledger_journal_entries: {
         Row: {
-          content_type: string
+          chain_id: string | null
           created_at: string
-          file_name: string
-          file_path: string
-          file_size: number
+          created_by: string | null
+          description: string | null
+          entry_type: string
+          fund_log_id: string | null
           id: string
-          ticket_id: string
-          uploaded_by: string
+          transaction_id: string | null
         }
         Insert: {
-          content_type: string
+          chain_id?: string | null
           created_at?: string
-          file_name: string
-          file_path: string
-          file_size: number
+          created_by?: string | null
+          description?: string | null
+          entry_type: string
+          fund_log_id?: string | null
           id?: string
-          ticket_id: string
-          uploaded_by: string
+          transaction_id?: string | null
         }
         Update: {
-          content_type?: string
+          chain_id?: string | null
           created_at?: string
-          file_name?: string
-          file_path?: string
-          file_size?: number
+          created_by?: string | null
+          description?: string | null
+          entry_type?: string
+          fund_log_id?: string | null
           id?: string
-          ticket_id?: string
-          uploaded_by?: string
+          transaction_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "support_ticket_attachments_ticket_id_fkey"
-            columns: ["ticket_id"]
+            foreignKeyName: "ledger_journal_entries_fund_log_id_fkey"
+            columns: ["fund_log_id"]
             isOneToOne: false
-            referencedRelation: "support_tickets"
+            referencedRelation: "fund_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_journal_entries_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
             referencedColumns: ["id"]
           },
         ]
       }
-      support_ticket_responses: {
+      ledger_postings: {
         Row: {
+          account_id: string
+          amount: number
           created_at: string
           id: string
-          is_agent: boolean
-          message: string
-          responder_id: string
-          ticket_id: string
+          journal_entry_id: string
+          line_type: string
         }
         Insert: {
+          account_id: string
+          amount: number
           created_at?: string
           id?: string
-          is_agent?: boolean
-          message: string
-          responder_id: string
-          ticket_id: string
+          journal_entry_id: string
+          line_type?: string
         }
         Update: {
+          account_id?: string
+          amount?: number
           created_at?: string
           id?: string
-          is_agent?: boolean
-          message?: string
-          responder_id?: string
-          ticket_id?: string
+          journal_entry_id?: string
+          line_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "support_ticket_responses_ticket_id_fkey"
-            columns: ["ticket_id"]
+            foreignKeyName: "ledger_postings_account_id_fkey"
+            columns: ["account_id"]
             isOneToOne: false
-            referencedRelation: "support_tickets"
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_postings_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_journal_entries"
             referencedColumns: ["id"]
           },
         ]
       }
-      support_tickets: {
+      merchant_profiles: {
         Row: {
+          api_key_hash: string | null
+          api_key_prefix: string | null
+          business_name: string
           created_at: string
           id: string
-          message: string
-          priority: string
+          settlement_user_id: string
           status: string
-          subject: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          api_key_hash?: string | null
+          api_key_prefix?: string | null
+          business_name: string
           created_at?: string
           id?: string
-          message: string
-          priority?: string
+          settlement_user_id: string
           status?: string
-          subject: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          api_key_hash?: string | null
+          api_key_prefix?: string | null
+          business_name?: string
           created_at?: string
           id?: string
-          message?: string
-          priority?: string
+          settlement_user_id?: string
           status?: string
-          subject?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      system_settings: {
+      merchant_settlement_invites: {
         Row: {
-          description: string | null
+          created_at: string
           id: string
-          setting_key: string
-          setting_value: string
-          updated_at: string
-          updated_by: string | null
+          invitee_id: string
+          merchant_id: string
+          responded_at: string | null
+          status: string
         }
         Insert: {
-          description?: string | null
+          created_at?: string
           id?: string
-          setting_key: string
-          setting_value: string
-          updated_at?: string
-          updated_by?: string | null
+          invitee_id: string
+          merchant_id: string
+          responded_at?: string | null
+          status?: string
         }
         Update: {
-          description?: string | null
+          created_at?: string
           id?: string
-          setting_key?: string
-          setting_value?: string
-          updated_at?: string
-          updated_by?: string | null
+          invitee_id?: string
+          merchant_id?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "merchant_settlement_invites_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "merchant_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
         }
         Relationships: []
       }
-      transactions: {
+      onchain_deposits: {
         Row: {
           amount: number
-          created_at: string
-          description: string | null
-          fee: number
+          amount_units: number
+          block_hash: string
+          block_number: number
+          confirmations: number
+          credited_at: string | null
+          detected_at: string
+          from_address: string
           id: string
-          recipient_id: string
-          sender_id: string
+          journal_entry_id: string | null
+          log_index: number
+          network: string
           status: string
-          total_amount: number
-          transaction_type: string
+          to_address: string
+          token_address: string
+          tx_hash: string
+          user_id: string
         }
         Insert: {
           amount: number
-          created_at?: string
-          description?: string | null
-          fee?: number
+          amount_units: number
+          block_hash: string
+          block_number: number
+          confirmations?: number
+          credited_at?: string | null
+          detected_at?: string
+          from_address: string
           id?: string
-          recipient_id: string
-          sender_id: string
+          journal_entry_id?: string | null
+          log_index: number
+          network?: string
           status?: string
-          total_amount: number
-          transaction_type?: string
+          to_address: string
+          token_address: string
+          tx_hash: string
+          user_id: string
         }
         Update: {
           amount?: number
-          created_at?: string
-          description?: string | null
-          fee?: number
+          amount_units?: number
+          block_hash?: string
+          block_number?: number
+          confirmations?: number
+          credited_at?: string | null
+          detected_at?: string
+          from_address?: string
           id?: string
-          recipient_id?: string
-          sender_id?: string
+          journal_entry_id?: string | null
+          log_index?: number
+          network?: string
           status?: string
-          total_amount?: number
-          transaction_type?: string
+          to_address?: string
+          token_address?: string
+          tx_hash?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "onchain_deposits_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: true
+            referencedRelation: "ledger_journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onchain_deposits_network_fkey"
+            columns: ["network"]
+            isOneToOne: false
+            referencedRelation: "blockchain_networks"
+            referencedColumns: ["network"]
+          },
+        ]
       }
-      treasury_withdrawals: {
+      onchain_withdrawals: {
         Row: {
-          admin_id: string
           amount: number
+          block_number: number | null
+          broadcast_at: string | null
           chain_id: string
+          completed_at: string | null
+          confirmations: number
           created_at: string
+          error_message: string | null
+          from_address: string
           id: string
-          reason: string
-          treasury_id: string
+          journal_entry_id: string | null
+          network: string
+          nonce: number | null
+          reversal_entry_id: string | null
+          status: string
+          to_address: string
+          token_address: string
+          tx_hash: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          admin_id: string
           amount: number
+          block_number?: number | null
+          broadcast_at?: string | null
           chain_id: string
+          completed_at?: string | null
+          confirmations?: number
           created_at?: string
+          error_message?: string | null
+          from_address: string
           id?: string
-          reason: string
-          treasury_id: string
+          journal_entry_id?: string | null
+          network?: string
+          nonce?: number | null
+          reversal_entry_id?: string | null
+          status?: string
+          to_address: string
+          token_address: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          admin_id?: string
           amount?: number
+          block_number?: number | null
+          broadcast_at?: string | null
           chain_id?: string
+          completed_at?: string | null
+          confirmations?: number
           created_at?: string
+          error_message?: string | null
+          from_address?: string
           id?: string
-          reason?: string
-          treasury_id?: string
+          journal_entry_id?: string | null
+          network?: string
+          nonce?: number | null
+          reversal_entry_id?: string | null
+          status?: string
+          to_address?: string
+          token_address?: string
+          tx_hash?: string | null
+          updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "treasury_withdrawals_treasury_id_fkey"
-            columns: ["treasury_id"]
+            foreignKeyName: "onchain_withdrawals_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
             isOneToOne: false
-            referencedRelation: "bank_treasury"
+            referencedRelation: "ledger_journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "onchain_withdrawals_network_fkey"
+            columns: ["network"]
+            isOneToOne: false
+            referencedRelation: "blockchain_networks"
+            referencedColumns: ["network"]
+          },
+          {
+            foreignKeyName: "onchain_withdrawals_reversal_entry_id_fkey"
+            columns: ["reversal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_journal_entries"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      payment_qr_keys: {
         Row: {
+          active: boolean
           created_at: string
-          id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          id: number
+          secret: string
         }
         Insert: {
+          active?: boolean
           created_at?: string
-          id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          id?: number
+          secret?: string
         }
         Update: {
+          active?: boolean
           created_at?: string
-          id?: string
+          id?: number
+          secret?: string
+        }
+        Relationships: []
+      }
+      payment_request_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          payer_id: string
+          request_id: string
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          payer_id: string
+          request_id: string
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          payer_id?: string
+          request_id?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_request_payments_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "payment_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_request_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_requests: {
+        Row: {
+          amount: number
+          amount_paid: number
+          created_at: string
+          description: string | null
+          expires_at: string | null
+          id: string
+          merchant_id: string | null
+          order_reference: string | null
+          recipient_id: string | null
+          sender_id: string
+          settled_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          amount_paid?: number
+          created_at?: string
+          description?: string | null
+          expires_at?: string | null
+          id?: string
+          merchant_id?: string | null
+          order_reference?: string | null
+          recipient_id?: string | null
+          sender_id: string
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          amount_paid?: number
+          created_at?: string
+          description?: string | null
+          expires_at?: string | null
+          id?: string
+          merchant_id?: string | null
+          order_reference?: string | null
+          recipient_id?: string | null
+          sender_id?: string
+          settled_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_requests_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "merchant_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          account_status: string
+          account_status_changed_at: string | null
+          account_status_changed_by: string | null
+          account_status_reason: string | null
+          address_line1: string | null
+          address_line2: string | null
+          alternate_number: string | null
+          avatar_url: string | null
+          balance: number | null
+          card_cvv: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          date_of_birth: string | null
+          email: string
+          full_name: string
+          gender: string | null
+          has_pin: boolean
+          id: string
+          id_number: string | null
+          id_type: string | null
+          legacy_wallet_address: string | null
+          mobile_number: string | null
+          nationality: string | null
+          notify_email: string | null
+          occupation: string | null
+          pin_enabled: boolean | null
+          pin_hash: string | null
+          pin_length: number | null
+          pin_updated_at: string | null
+          public_key: string | null
+          referral_code: string | null
+          region: string | null
+          role: string
+          tin_number: string | null
+          user_id: string
+          wallet_address: string | null
+        }
+        Insert: {
+          account_status?: string
+          account_status_changed_at?: string | null
+          account_status_changed_by?: string | null
+          account_status_reason?: string | null
+          address_line1?: string | null
+          address_line2?: string | null
+          alternate_number?: string | null
+          avatar_url?: string | null
+          balance?: number | null
+          card_cvv?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          email: string
+          full_name: string
+          gender?: string | null
+          has_pin?: never
+          id?: string
+          id_number?: string | null
+          id_type?: string | null
+          legacy_wallet_address?: string | null
+          mobile_number?: string | null
+          nationality?: string | null
+          notify_email?: string | null
+          occupation?: string | null
+          pin_enabled?: boolean | null
+          pin_hash?: string | null
+          pin_length?: number | null
+          pin_updated_at?: string | null
+          public_key?: string | null
+          referral_code?: string | null
+          region?: string | null
+          role?: string
+          tin_number?: string | null
+          user_id: string
+          wallet_address?: string | null
+        }
+        Update: {
+          account_status?: string
+          account_status_changed_at?: string | null
+          account_status_changed_by?: string | null
+          account_status_reason?: string | null
+          address_line1?: string | null
+          address_line2?: string | null
+          alternate_number?: string | null
+          avatar_url?: string | null
+          balance?: number | null
+          card_cvv?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          email?: string
+          full_name?: string
+          gender?: string | null
+          has_pin?: never
+          id?: string
+          id_number?: string | null
+          id_type?: string | null
+          legacy_wallet_address?: string | null
+          mobile_number?: string | null
+          nationality?: string | null
+          notify_email?: string | null
+          occupation?: string | null
+          pin_enabled?: boolean | null
+          pin_hash?: string | null
+          pin_length?: number | null
+          pin_updated_at?: string | null
+          public_key?: string | null
+          referral_code?: string | null
+          region?: string | null
+          role?: string
+          tin_number?: string | null
+          user_id?: string
+          wallet_address?: string | null
+        }
+        Relationships: []
+      }
+      push_notifications: {
+        Row: {
+          attempts: number
+          body: string
+          created_at: string
+          data: Json
+          devices_sent: number
+          event_type: string
+          id: string
+          last_error: string | null
+          sent_at: string | null
+          status: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          body: string
+          created_at?: string
+          data?: Json
+          devices_sent?: number
+          event_type: string
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string
+          created_at?: string
+          data?: Json
+          devices_sent?: number
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          sent_at?: string | null
+          status?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      pwa_settings: {
+        Row: {
+          created_at: string
+          enabled: boolean | null
+          id: string
+          setting_key: string
+          setting_value: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean | null
+          id?: string
+          setting_key: string
+          setting_value: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean | null
+          id?: string
+          setting_key?: string
+          setting_value?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      scheduled_transfer_runs: {
+        Row: {
+          attempt: number
+          created_at: string
+          error: string | null
+          id: string
+          occurrence_at: string
+          schedule_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          attempt?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          occurrence_at: string
+          schedule_id: string
+          status: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          attempt?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          occurrence_at?: string
+          schedule_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_transfer_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_transfer_runs_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_transfers: {
+        Row: {
+          amount: number
+          attempts: number
+          created_at: string
+          cron_expression: string | null
+          description: string | null
+          end_at: string | null
+          frequency: string
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          next_run_at: string | null
+          recipient_id: string
+          retry_at: string | null
+          run_count: number
+          start_at: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          attempts?: number
+          created_at?: string
+          cron_expression?: string | null
+          description?: string | null
+          end_at?: string | null
+          frequency: string
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          next_run_at?: string | null
+          recipient_id: string
+          retry_at?: string | null
+          run_count?: number
+          start_at: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          attempts?: number
+          created_at?: string
+          cron_expression?: string | null
+          description?: string | null
+          end_at?: string | null
+          frequency?: string
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          next_run_at?: string | null
+          recipient_id?: string
+          retry_at?: string | null
+          run_count?: number
+          start_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      security_rate_limits: {
+        Row: {
+          action_type: string
+          attempt_count: number
+          first_attempt_at: string
+          id: string
+          last_attempt_at: string
+          locked_until: string | null
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          attempt_count?: number
+          first_attempt_at?: string
+          id?: string
+          last_attempt_at?: string
+          locked_until?: string | null
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          attempt_count?: number
+          first_attempt_at?: string
+          id?: string
+          last_attempt_at?: string
+          locked_until?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      support_ticket_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id: string
+          ticket_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id?: string
+          ticket_id: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          id?: string
+          ticket_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "support_ticket_attachments_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "support_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      support_ticket_responses: {
+        Row: {
+          created_at: string
+          id: string
+          is_agent: boolean
+          message: string
+          responder_id: string
+          ticket_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_agent?: boolean
+          message: string
+          responder_id: string
+          ticket_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_agent?: boolean
+          message?: string
+          responder_id?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "support_ticket_responses_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "support_tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      support_tickets: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          priority: string
+          status: string
+          subject: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          priority?: string
+          status?: string
+          subject: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          priority?: string
+          status?: string
+          subject?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      system_settings: {
+        Row: {
+          description: string | null
+          id: string
+          setting_key: string
+          setting_value: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          setting_key: string
+          setting_value: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          setting_key?: string
+          setting_value?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      transaction_dispute_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          data: Json
+          dispute_id: string
+          event_type: string
+          id: string
+          note: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          data?: Json
+          dispute_id: string
+          event_type: string
+          id?: string
+          note?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          data?: Json
+          dispute_id?: string
+          event_type?: string
+          id?: string
+          note?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_dispute_events_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_dispute_evidence: {
+        Row: {
+          content_type: string
+          created_at: string
+          dispute_id: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          dispute_id: string
+          file_name: string
+          file_path: string
+          file_size: number
+          id?: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          dispute_id?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number
+          id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "transaction_disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_disputes: {
+        Row: {
+          amount: number
+          assigned_to: string | null
+          created_at: string
+          description: string
+          first_response_at: string | null
+          hold_amount: number
+          hold_expires_at: string | null
+          hold_requested: boolean
+          id: string
+          opened_by: string
+          reason_code: string
+          refund_transaction_id: string | null
+          resolution_due_at: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          respondent_id: string
+          response_due_at: string
+          status: string
+          transaction_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          assigned_to?: string | null
+          created_at?: string
+          description: string
+          first_response_at?: string | null
+          hold_amount?: number
+          hold_expires_at?: string | null
+          hold_requested?: boolean
+          id?: string
+          opened_by: string
+          reason_code: string
+          refund_transaction_id?: string | null
+          resolution_due_at: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          respondent_id: string
+          response_due_at: string
+          status?: string
+          transaction_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          assigned_to?: string | null
+          created_at?: string
+          description?: string
+          first_response_at?: string | null
+          hold_amount?: number
+          hold_expires_at?: string | null
+          hold_requested?: boolean
+          id?: string
+          opened_by?: string
+          reason_code?: string
+          refund_transaction_id?: string | null
+          resolution_due_at?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          respondent_id?: string
+          response_due_at?: string
+          status?: string
+          transaction_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_disputes_refund_transaction_id_fkey"
+            columns: ["refund_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_disputes_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          fee: number
+          id: string
+          recipient_id: string
+          refunded_amount: number
+          reversal_of: string | null
+          sender_id: string
+          status: string
+          total_amount: number
+          transaction_type: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          fee?: number
+          id?: string
+          recipient_id: string
+          refunded_amount?: number
+          reversal_of?: string | null
+          sender_id: string
+          status?: string
+          total_amount: number
+          transaction_type?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          fee?: number
+          id?: string
+          recipient_id?: string
+          refunded_amount?: number
+          reversal_of?: string | null
+          sender_id?: string
+          status?: string
+          total_amount?: number
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfer_limits: {
+        Row: {
+          created_at: string
+          daily_limit: number | null
+          id: string
+          monthly_limit: number | null
+          notes: string | null
+          single_transaction_limit: number | null
+          tier: string | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          monthly_limit?: number | null
+          notes?: string | null
+          single_transaction_limit?: number | null
+          tier?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          monthly_limit?: number | null
+          notes?: string | null
+          single_transaction_limit?: number | null
+          tier?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      treasury_withdrawals: {
+        Row: {
+          admin_id: string
+          amount: number
+          chain_id: string
+          created_at: string
+          id: string
+          reason: string
+          treasury_id: string
+        }
+        Insert: {
+          admin_id: string
+          amount: number
+          chain_id: string
+          created_at?: string
+          id?: string
+          reason: string
+          treasury_id: string
+        }
+        Update: {
+          admin_id?: string
+          amount?: number
+          chain_id?: string
+          created_at?: string
+          id?: string
+          reason?: string
+          treasury_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "treasury_withdrawals_treasury_id_fkey"
+            columns: ["treasury_id"]
+            isOneToOne: false
+            referencedRelation: "bank_treasury"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
           role?: Database["public"]["Enums"]["app_role"]
           user_id?: string
         }
         Relationships: []
       }
+      wallet_balance_discrepancies: {
+        Row: {
+          block_number: number
+          created_at: string
+          difference: number
+          id: string
+          ledger_balance: number
+          onchain_balance: number
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          run_id: string
+          status: string
+          user_id: string
+          wallet_address: string
+        }
+        Insert: {
+          block_number: number
+          created_at?: string
+          difference: number
+          id?: string
+          ledger_balance: number
+          onchain_balance: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id: string
+          status?: string
+          user_id: string
+          wallet_address: string
+        }
+        Update: {
+          block_number?: number
+          created_at?: string
+          difference?: number
+          id?: string
+          ledger_balance?: number
+          onchain_balance?: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id?: string
+          status?: string
+          user_id?: string
+          wallet_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_balance_discrepancies_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_reconciliation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_reconciliation_runs: {
+        Row: {
+          block_number: number | null
+          completed_at: string | null
+          discrepancies_found: number
+          error_message: string | null
+          id: string
+          rpc_endpoint: string | null
+          started_at: string
+          status: string
+          token_address: string | null
+          triggered_by: string | null
+          wallets_checked: number
+        }
+        Insert: {
+          block_number?: number | null
+          completed_at?: string | null
+          discrepancies_found?: number
+          error_message?: string | null
+          id?: string
+          rpc_endpoint?: string | null
+          started_at?: string
+          status?: string
+          token_address?: string | null
+          triggered_by?: string | null
+          wallets_checked?: number
+        }
+        Update: {
+          block_number?: number | null
+          completed_at?: string | null
+          discrepancies_found?: number
+          error_message?: string | null
+          id?: string
+          rpc_endpoint?: string | null
+          started_at?: string
+          status?: string
+          token_address?: string | null
+          triggered_by?: string | null
+          wallets_checked?: number
+        }
+        Relationships: []
+      }
       wallet_vault: {
         Row: {
           created_at: string
           encrypted_private_key: string | null
           id: string
+          key_version: number
           updated_at: string
           user_id: string
           wallet_pin_hash: string | null
@@ -808,6 +2177,7 @@ export type Database = {
           created_at?: string
           encrypted_private_key?: string | null
           id?: string
+          key_version?: number
           updated_at?: string
           user_id: string
           wallet_pin_hash?: string | null
@@ -816,6 +2186,7 @@ export type Database = {
           created_at?: string
           encrypted_private_key?: string | null
           id?: string
+          key_version?: number
           updated_at?: string
           user_id?: string
           wallet_pin_hash?: string | null
@@ -824,10 +2195,145 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      ledger_account_balances: {
+        Row: {
+          account_code: string | null
+          account_id: string | null
+          account_type: string | null
+          cached_balance: number | null
+          ledger_balance: number | null
+          treasury_id: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_treasury_id_fkey"
+            columns: ["treasury_id"]
+            isOneToOne: true
+            referencedRelation: "bank_treasury"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      add_dispute_evidence: {
+        Args: {
+          p_content_type: string
+          p_dispute_id: string
+          p_file_name: string
+          p_file_path: string
+          p_file_size: number
+        }
+        Returns: Json
+      }
+      admin_adjust_balance: {
+        Args: {
+          p_amount: number
+          p_reason: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
       admin_transfer_with_chain: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_idempotency_key?: string
+          p_parent_chain_id?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      cancel_onchain_withdrawal: {
+        Args: {
+          p_reason?: string
+          p_withdrawal_id: string
+        }
+        Returns: Json
+      }
+      cancel_payment_request: { Args: { p_request_id: string }; Returns: Json }
+      claim_transaction_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_note?: string
+        }
+        Returns: Json
+      }
+      consume_mfa_recovery_code: {
+        Args: {
+          p_code: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      create_merchant_invoice: {
+        Args: {
+          p_amount: number
+          p_expires_in_minutes?: number
+          p_memo?: string
+          p_order_reference: string
+        }
+        Returns: Json
+      }
+      create_merchant_invoice_for: {
+        Args: {
+          p_amount: number
+          p_expires_in_minutes?: number
+          p_memo?: string
+          p_merchant_id: string
+          p_order_reference: string
+        }
+        Returns: Json
+      }
+      create_payment_request: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_expires_at?: string
+          p_idempotency_key?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      create_scheduled_transfer: {
+        Args: {
+          p_amount: number
+          p_cron_expression?: string
+          p_description?: string
+          p_end_at?: string
+          p_frequency: string
+          p_pin?: string
+          p_recipient_id: string
+          p_start_at: string
+        }
+        Returns: Json
+      }
+      credit_onchain_deposit: {
+        Args: {
+          p_confirmations: number
+          p_deposit_id: string
+        }
+        Returns: Json
+      }
+      cron_field_values: {
+        Args: {
+          p_field: string
+          p_max: number
+          p_min: number
+        }
+        Returns: number[]
+      }
+      cron_next_run: {
+        Args: {
+          p_after: string
+          p_expression: string
+        }
+        Returns: string
+      }
+      decline_payment_request: { Args: { p_request_id: string }; Returns: Json }
+      execute_admin_transfer: {
         Args: {
           p_amount: number
           p_description: string
@@ -836,7 +2342,63 @@ export type Database = {
         }
         Returns: Json
       }
+      execute_transfer: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      execute_transfer_secure: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_pin?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      execute_treasury_withdrawal: {
+        Args: {
+          p_amount: number
+          p_reason: string
+        }
+        Returns: Json
+      }
+      find_account_user_id: { Args: { p_account: string }; Returns: string }
+      firewall_register_hit: {
+        Args: {
+          p_bucket_key: string
+          p_window_seconds: number
+        }
+        Returns: Json
+      }
       generate_chain_id: { Args: never; Returns: string }
+      generate_mfa_recovery_codes: { Args: never; Returns: Json }
+      get_kyc_status: { Args: { p_user_id?: string }; Returns: string }
+      get_ledger_statement: {
+        Args: {
+          p_from?: string
+          p_to?: string
+          p_user_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          description: string
+          entry_type: string
+          journal_entry_id: string
+          line_type: string
+          posting_id: string
+          running_balance: number
+          transaction_id: string
+        }[]
+      }
+      get_mfa_recovery_status: { Args: never; Returns: Json }
+      get_pin_policy: { Args: never; Returns: Json }
+      get_settlement_invites: { Args: never; Returns: Json }
+      get_transfer_limits: { Args: { p_user_id?: string }; Returns: Json }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -844,11 +2406,109 @@ export type Database = {
         }
         Returns: boolean
       }
+      hook_password_verification_attempt: {
+        Args: { event: Json }
+        Returns: Json
+      }
+      idempotency_begin: {
+        Args: {
+          p_fingerprint: string
+          p_key: string
+          p_operation: string
+        }
+        Returns: Json
+      }
+      idempotency_complete: {
+        Args: {
+          p_key: string
+          p_result: Json
+        }
+        Returns: Json
+      }
       is_admin: { Args: never; Returns: boolean }
+      is_dispute_staff: { Args: never; Returns: boolean }
+      ledger_system_account: {
+        Args: { p_account_code: string }
+        Returns: string
+      }
+      ledger_treasury_account: {
+        Args: { p_treasury_id: string }
+        Returns: string
+      }
+      ledger_user_account: { Args: { p_user_id: string }; Returns: string }
+      manage_scheduled_transfer: {
+        Args: {
+          p_action: string
+          p_schedule_id: string
+        }
+        Returns: Json
+      }
+      merchant_daily_sales: {
+        Args: {
+          p_date?: string
+          p_timezone?: string
+        }
+        Returns: Json
+      }
+      mfa_satisfied: { Args: never; Returns: boolean }
+      open_transaction_dispute: {
+        Args: {
+          p_amount?: number
+          p_description: string
+          p_reason_code: string
+          p_request_hold?: boolean
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      payment_qr_message: {
+        Args: {
+          p_amount: number
+          p_currency: string
+          p_expires_at: number
+          p_key_id: number
+          p_memo: string
+          p_recipient_id: string
+          p_request_id: string
+        }
+        Returns: string
+      }
+      payment_request_open_check: {
+        Args: { p_request: Database["public"]["Tables"]["payment_requests"]["Row"] }
+        Returns: Json
+      }
+      pin_change_required: { Args: { p_user_id: string }; Returns: boolean }
+      pin_policy_length: { Args: never; Returns: number }
+      pin_weakness: {
+        Args: {
+          p_pin: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      place_dispute_hold: {
+        Args: {
+          p_amount?: number
+          p_dispute_id: string
+        }
+        Returns: Json
+      }
+      post_journal_entry: {
+        Args: {
+          p_chain_id?: string
+          p_description: string
+          p_entry_type: string
+          p_fund_log_id?: string
+          p_lines: Json
+          p_transaction_id?: string
+        }
+        Returns: string
+      }
       process_transfer: {
         Args: {
           p_amount: number
           p_description?: string
+          p_idempotency_key?: string
           p_recipient_id: string
         }
         Returns: Json
@@ -857,8 +2517,194 @@ export type Database = {
         Args: {
           p_amount: number
           p_description?: string
+          p_idempotency_key?: string
+          p_pin?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
+      record_onchain_withdrawal_tx: {
+        Args: {
+          p_nonce: number
+          p_tx_hash: string
+          p_user_id: string
+          p_withdrawal_id: string
+        }
+        Returns: Json
+      }
+      refund_transaction: {
+        Args: {
+          p_amount?: number
+          p_idempotency_key?: string
           p_pin?: string
+          p_reason?: string
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      register_device_token: {
+        Args: {
+          p_platform: string
+          p_previous_token?: string
+          p_token: string
+        }
+        Returns: Json
+      }
+      register_web_push_subscription: {
+        Args: {
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+          p_previous_endpoint?: string
+        }
+        Returns: Json
+      }
+      release_dispute_hold: {
+        Args: {
+          p_dispute_id: string
+          p_note?: string
+        }
+        Returns: Json
+      }
+      request_onchain_withdrawal: {
+        Args: {
+          p_amount: number
+          p_idempotency_key?: string
+          p_pin: string
+          p_to_address: string
+        }
+        Returns: Json
+      }
+      reset_transaction_pin: { Args: { p_user_id: string }; Returns: Json }
+      resolve_payment_qr: {
+        Args: {
+          p_amount?: number
+          p_currency?: string
+          p_expires_at?: number
+          p_key_id?: number
+          p_memo?: string
           p_recipient_id: string
+          p_request_id?: string
+          p_signature?: string
+          p_version?: number
+        }
+        Returns: Json
+      }
+      resolve_transaction_dispute: {
+        Args: {
+          p_amount?: number
+          p_dispute_id: string
+          p_note: string
+          p_outcome: string
+        }
+        Returns: Json
+      }
+      resolve_wallet_discrepancy: {
+        Args: {
+          p_discrepancy_id: string
+          p_note: string
+        }
+        Returns: Json
+      }
+      review_kyc: {
+        Args: {
+          p_decision: string
+          p_reason?: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      respond_settlement_invite: {
+        Args: {
+          p_accept: boolean
+          p_invite_id: string
+        }
+        Returns: Json
+      }
+      rotate_merchant_api_key: { Args: never; Returns: Json }
+      run_scheduled_transfer: { Args: { p_schedule_id: string }; Returns: Json }
+      save_merchant_profile: {
+        Args: {
+          p_business_name: string
+          p_settlement_account?: string
+        }
+        Returns: Json
+      }
+      scheduled_transfer_next_run: {
+        Args: {
+          p_after: string
+          p_schedule: Database["public"]["Tables"]["scheduled_transfers"]["Row"]
+        }
+        Returns: string
+      }
+      set_account_status: {
+        Args: {
+          p_reason?: string
+          p_status: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      set_pin_enabled: {
+        Args: {
+          p_current_pin?: string
+          p_enabled: boolean
+        }
+        Returns: Json
+      }
+      set_transaction_pin: {
+        Args: {
+          p_current_pin?: string
+          p_new_pin: string
+        }
+        Returns: Json
+      }
+      settle_onchain_withdrawal: {
+        Args: {
+          p_block_number?: number
+          p_confirmations?: number
+          p_error?: string
+          p_status: string
+          p_withdrawal_id: string
+        }
+        Returns: Json
+      }
+      settle_payment_request: {
+        Args: {
+          p_amount?: number
+          p_idempotency_key?: string
+          p_pin?: string
+          p_request_id: string
+        }
+        Returns: Json
+      }
+      sign_payment_qr: {
+        Args: {
+          p_amount?: number
+          p_currency?: string
+          p_expires_at?: string
+          p_memo?: string
+          p_request_id?: string
+        }
+        Returns: Json
+      }
+      transaction_fee_split: {
+        Args: {
+          p_transaction_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      transfer_limit_check: { Args: { p_amount: number }; Returns: Json }
+      transfer_limit_status: { Args: { p_user_id: string }; Returns: Json }
+      transfer_limit_tier: { Args: { p_user_id: string }; Returns: string }
+      unlock_user_login: { Args: { p_user_id: string }; Returns: Json }
+      unregister_device_token: { Args: { p_token: string }; Returns: Json }
+      upgrade_wallet_keys: {
+        Args: {
+          p_encrypted_private_key: string
+          p_public_key: string
+          p_wallet_address: string
         }
         Returns: Json
       }
@@ -866,12 +2712,21 @@ export type Database = {
       verify_transaction_pin: { Args: { p_pin: string }; Returns: Json }
       verify_wallet_pin: { Args: { p_pin: string }; Returns: Json }
       withdraw_from_treasury: {
-        Args: { p_amount: number; p_reason: string }
+        Args: {
+          p_amount: number
+          p_idempotency_key?: string
+          p_reason: string
+        }
+        Returns: Json
+      }
+      withdraw_transaction_dispute: {
+        Args: { p_dispute_id: string }
         Returns: Json
       }
     }
     Enums: {
       app_role: "admin" | "agent" | "client"
+      kyc_status: "PENDING" | "APPROVED" | "REJECTED"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1000,6 +2855,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "agent", "client"],
+      kyc_status: ["PENDING", "APPROVED", "REJECTED"],
     },
   },
 } as const
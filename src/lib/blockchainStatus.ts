@@ -1,6 +1,11 @@
 // Blockchain Node Status and Readiness Checker
 // Supports GYD (primary) and GYDS (secondary) tokens on the GYD blockchain
 
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type BlockchainNetworkRow = Tables<'blockchain_networks'>;
+
 export interface BlockchainNodeConfig {
   rpcEndpoint: string;
   chainId: string;
@@ -8,6 +13,7 @@ export interface BlockchainNodeConfig {
   coinSymbol: 'GYD' | 'GYDS';
   coinName: string;
   decimals: number;
+  tokenAddress?: string;
 }
 
 export interface NodeStatus {
@@ -33,7 +39,8 @@ export const DEFAULT_GYD_CONFIG: BlockchainNodeConfig = {
   eventIndexer: '',
   coinSymbol: 'GYD',
   coinName: 'GYD Stablecoin',
-  decimals: 18
+  decimals: 18,
+  tokenAddress: ''
 };
 
 export const DEFAULT_GYDS_CONFIG: BlockchainNodeConfig = {
@@ -42,9 +49,47 @@ export const DEFAULT_GYDS_CONFIG: BlockchainNodeConfig = {
   eventIndexer: '',
   coinSymbol: 'GYDS',
   coinName: 'GYD Savings Token',
-  decimals: 18
+  decimals: 18,
+  tokenAddress: ''
 };
 
+/**
+ * Map a blockchain_networks row onto the node config used by the status checks
+ */
+export function toNodeConfig(row: BlockchainNetworkRow): BlockchainNodeConfig {
+  return {
+    rpcEndpoint: row.rpc_endpoint,
+    chainId: row.chain_id,
+    eventIndexer: row.event_indexer,
+    coinSymbol: row.network === 'GYDS' ? 'GYDS' : 'GYD',
+    coinName: row.coin_name,
+    decimals: row.decimals,
+    tokenAddress: row.token_address
+  };
+}
+
+/**
+ * Load the shared GYD and GYDS node configuration, falling back to defaults
+ */
+export async function loadBlockchainConfig(): Promise<{
+  gydConfig: BlockchainNodeConfig;
+  gydsConfig: BlockchainNodeConfig;
+}> {
+  const { data, error } = await supabase
+    .from('blockchain_networks')
+    .select('*');
+
+  if (error) throw error;
+
+  const gydRow = data?.find(row => row.network === 'GYD');
+  const gydsRow = data?.find(row => row.network === 'GYDS');
+
+  return {
+    gydConfig: gydRow ? toNodeConfig(gydRow) : DEFAULT_GYD_CONFIG,
+    gydsConfig: gydsRow ? toNodeConfig(gydsRow) : DEFAULT_GYDS_CONFIG
+  };
+}
+
 /**
  * Check if a blockchain RPC endpoint is reachable and get block height
  */
@@ -127,12 +172,17 @@ export async function checkEventIndexer(indexerUrl: string): Promise<boolean> {
 
 /**
  * Check overall blockchain readiness for the banking system
- * Only GYD is used for transactions, GYDS is monitored but not active
+ * Only GYD is used for transactions, GYDS is monitored but not active.
+ * Without explicit configs the shared configuration is loaded from the database.
  */
 export async function checkBlockchainReadiness(
-  gydConfig: BlockchainNodeConfig,
+  gydConfig?: BlockchainNodeConfig,
   gydsConfig?: BlockchainNodeConfig
 ): Promise<BlockchainReadiness> {
+  if (!gydConfig) {
+    ({ gydConfig, gydsConfig } = await loadBlockchainConfig());
+  }
+
   const gydStatus = await checkNodeStatus(gydConfig);
   
   let gydsStatus: NodeStatus | undefined;
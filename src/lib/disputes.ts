@@ -0,0 +1,324 @@
+// Disputes of transfers. The sender opens a case from the receipt; agents work it from
+// the queue in Agent Tools, can hold the recipient's funds meanwhile, and close it with a
+// refund (through refund_transaction) or a rejection. Evidence files live in the
+// support-attachments bucket under disputes/<dispute id>/, readable only by the sender
+// who opened the case and by agents.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type DisputeReason =
+  | 'wrong_recipient'
+  | 'wrong_amount'
+  | 'duplicate'
+  | 'unauthorized'
+  | 'goods_not_received'
+  | 'other';
+
+export type DisputeStatus = 'open' | 'investigating' | 'refunded' | 'rejected' | 'withdrawn';
+
+export const DISPUTE_REASONS: { value: DisputeReason; label: string }[] = [
+  { value: 'wrong_recipient', label: 'Sent to the wrong person' },
+  { value: 'wrong_amount', label: 'Sent the wrong amount' },
+  { value: 'duplicate', label: 'Sent twice by mistake' },
+  { value: 'unauthorized', label: "I didn't make this transfer" },
+  { value: 'goods_not_received', label: "Paid but didn't receive what I paid for" },
+  { value: 'other', label: 'Something else' },
+];
+
+export interface Dispute {
+  id: string;
+  transaction_id: string;
+  opened_by: string;
+  respondent_id: string;
+  reason_code: DisputeReason;
+  description: string;
+  amount: number;
+  status: DisputeStatus;
+  hold_requested: boolean;
+  hold_amount: number;
+  hold_expires_at: string | null;
+  assigned_to: string | null;
+  response_due_at: string;
+  resolution_due_at: string;
+  first_response_at: string | null;
+  resolution_note: string | null;
+  refund_transaction_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  file_name: string;
+  file_path: string;
+  file_size: number;
+  content_type: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface DisputeEvent {
+  id: string;
+  actor_id: string | null;
+  event_type: string;
+  note: string | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface DisputeCase extends Dispute {
+  transactionAmount: number;
+  transactionDate: string;
+  openerName: string | null;
+  respondentName: string | null;
+}
+
+type DisputeResult = {
+  success: boolean;
+  error?: string;
+  dispute_id?: string;
+  status?: DisputeStatus;
+  hold_amount?: number;
+  released?: number;
+  refund_transaction_id?: string | null;
+};
+
+const DISPUTE_COLUMNS =
+  'id, transaction_id, opened_by, respondent_id, reason_code, description, amount, status, hold_requested, hold_amount, hold_expires_at, assigned_to, response_due_at, resolution_due_at, first_response_at, resolution_note, refund_transaction_id, resolved_at, created_at';
+
+const unwrap = (data: unknown, fallback: string): DisputeResult => {
+  const result = data as DisputeResult;
+  if (!result?.success) throw new Error(result?.error || fallback);
+  return result;
+};
+
+const toDispute = <T extends { amount: number; hold_amount: number }>(row: T): T => ({
+  ...row,
+  amount: Number(row.amount),
+  hold_amount: Number(row.hold_amount),
+});
+
+export function disputeReasonLabel(reason: string): string {
+  return DISPUTE_REASONS.find((r) => r.value === reason)?.label ?? reason;
+}
+
+export function disputeStatusLabel(status: string): string {
+  switch (status) {
+    case 'open':
+      return 'Awaiting Review';
+    case 'investigating':
+      return 'Under Review';
+    case 'refunded':
+      return 'Refunded';
+    case 'rejected':
+      return 'Closed';
+    case 'withdrawn':
+      return 'Withdrawn';
+    default:
+      return status;
+  }
+}
+
+export function isDisputeOpen(dispute: { status: string }): boolean {
+  return dispute.status === 'open' || dispute.status === 'investigating';
+}
+
+/**
+ * The SLA a case is currently measured against: the first response until an agent picks
+ * it up, then the resolution
+ */
+export function disputeDeadline(dispute: Pick<Dispute, 'status' | 'first_response_at' | 'response_due_at' | 'resolution_due_at'>): {
+  label: string;
+  dueAt: string;
+} | null {
+  if (!isDisputeOpen(dispute)) return null;
+  return dispute.first_response_at
+    ? { label: 'Resolve', dueAt: dispute.resolution_due_at }
+    : { label: 'Respond', dueAt: dispute.response_due_at };
+}
+
+/**
+ * The latest dispute of a transaction, open or not
+ */
+export async function loadDisputeForTransaction(transactionId: string): Promise<Dispute | null> {
+  const { data, error } = await supabase
+    .from('transaction_disputes')
+    .select(DISPUTE_COLUMNS)
+    .eq('transaction_id', transactionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toDispute(data as Dispute) : null;
+}
+
+export async function openDispute(params: {
+  transactionId: string;
+  reason: DisputeReason;
+  description: string;
+  amount?: number | null;
+  requestHold?: boolean;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('open_transaction_dispute', {
+    p_transaction_id: params.transactionId,
+    p_reason_code: params.reason,
+    p_description: params.description,
+    p_amount: params.amount ?? null,
+    p_request_hold: params.requestHold ?? false,
+  });
+  if (error) throw error;
+  return unwrap(data, 'Failed to open dispute').dispute_id!;
+}
+
+export async function uploadDisputeEvidence(disputeId: string, files: File[]): Promise<void> {
+  for (const file of files) {
+    const filePath = `disputes/${disputeId}/${Date.now()}_${file.name}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('support-attachments')
+      .upload(filePath, file);
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase.rpc('add_dispute_evidence', {
+      p_dispute_id: disputeId,
+      p_file_name: file.name,
+      p_file_path: filePath,
+      p_file_size: file.size,
+      p_content_type: file.type || 'application/octet-stream',
+    });
+    if (error) throw error;
+    unwrap(data, 'Failed to attach evidence');
+  }
+}
+
+export async function downloadDisputeEvidence(evidence: Pick<DisputeEvidence, 'file_path' | 'file_name'>): Promise<void> {
+  const { data, error } = await supabase.storage
+    .from('support-attachments')
+    .download(evidence.file_path);
+  if (error) throw error;
+
+  const url = URL.createObjectURL(data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = evidence.file_name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function withdrawDispute(disputeId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('withdraw_transaction_dispute', { p_dispute_id: disputeId });
+  if (error) throw error;
+  unwrap(data, 'Failed to withdraw dispute');
+}
+
+/**
+ * Agents: open cases, those closest to breaching their SLA first, or the most recently
+ * closed ones
+ */
+export async function loadDisputeQueue(view: 'open' | 'closed'): Promise<DisputeCase[]> {
+  let query = supabase.from('transaction_disputes').select(DISPUTE_COLUMNS);
+  query = view === 'open'
+    ? query.in('status', ['open', 'investigating']).order('resolution_due_at', { ascending: true })
+    : query.in('status', ['refunded', 'rejected', 'withdrawn']).order('resolved_at', { ascending: false });
+
+  const { data, error } = await query.limit(100);
+  if (error) throw error;
+  const disputes = (data || []).map((d) => toDispute(d as Dispute));
+  if (disputes.length === 0) return [];
+
+  const userIds = [...new Set(disputes.flatMap((d) => [d.opened_by, d.respondent_id]))];
+  const [{ data: profiles }, { data: transactions }] = await Promise.all([
+    supabase.from('profiles').select('user_id, full_name').in('user_id', userIds),
+    supabase
+      .from('transactions')
+      .select('id, amount, created_at')
+      .in('id', disputes.map((d) => d.transaction_id)),
+  ]);
+  const names = new Map((profiles || []).map((p) => [p.user_id, p.full_name]));
+  const transfers = new Map((transactions || []).map((t) => [t.id, t]));
+
+  return disputes.map((d) => ({
+    ...d,
+    transactionAmount: Number(transfers.get(d.transaction_id)?.amount ?? d.amount),
+    transactionDate: transfers.get(d.transaction_id)?.created_at ?? d.created_at,
+    openerName: names.get(d.opened_by) ?? null,
+    respondentName: names.get(d.respondent_id) ?? null,
+  }));
+}
+
+export async function loadDisputeDetail(disputeId: string): Promise<{
+  evidence: DisputeEvidence[];
+  events: DisputeEvent[];
+}> {
+  const [{ data: evidence, error: evidenceError }, { data: events, error: eventsError }] = await Promise.all([
+    supabase
+      .from('transaction_dispute_evidence')
+      .select('id, file_name, file_path, file_size, content_type, uploaded_by, created_at')
+      .eq('dispute_id', disputeId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('transaction_dispute_events')
+      .select('id, actor_id, event_type, note, data, created_at')
+      .eq('dispute_id', disputeId)
+      .order('created_at', { ascending: true }),
+  ]);
+  if (evidenceError) throw evidenceError;
+  if (eventsError) throw eventsError;
+
+  return {
+    evidence: evidence || [],
+    events: (events || []).map((e) => ({ ...e, data: (e.data ?? {}) as Record<string, unknown> })),
+  };
+}
+
+/**
+ * Agents: take the case (and optionally leave a note on it)
+ */
+export async function claimDispute(disputeId: string, note?: string | null): Promise<void> {
+  const { data, error } = await supabase.rpc('claim_transaction_dispute', {
+    p_dispute_id: disputeId,
+    p_note: note || null,
+  });
+  if (error) throw error;
+  unwrap(data, 'Failed to claim dispute');
+}
+
+/**
+ * Agents: hold up to amount (the disputed amount by default) of the recipient's balance.
+ * Returns what was actually held, which is capped at the recipient's balance.
+ */
+export async function placeDisputeHold(disputeId: string, amount?: number | null): Promise<number> {
+  const { data, error } = await supabase.rpc('place_dispute_hold', {
+    p_dispute_id: disputeId,
+    p_amount: amount ?? null,
+  });
+  if (error) throw error;
+  return Number(unwrap(data, 'Failed to hold funds').hold_amount);
+}
+
+export async function releaseDisputeHold(disputeId: string, note?: string | null): Promise<number> {
+  const { data, error } = await supabase.rpc('release_dispute_hold', {
+    p_dispute_id: disputeId,
+    p_note: note || null,
+  });
+  if (error) throw error;
+  return Number(unwrap(data, 'Failed to release held funds').released);
+}
+
+export async function resolveDispute(params: {
+  disputeId: string;
+  outcome: 'refund' | 'reject';
+  note: string;
+  amount?: number | null;
+}): Promise<{ status: DisputeStatus; refundTransactionId: string | null }> {
+  const { data, error } = await supabase.rpc('resolve_transaction_dispute', {
+    p_dispute_id: params.disputeId,
+    p_outcome: params.outcome,
+    p_note: params.note,
+    p_amount: params.amount ?? null,
+  });
+  if (error) throw error;
+
+  const result = unwrap(data, 'Failed to resolve dispute');
+  return { status: result.status!, refundTransactionId: result.refund_transaction_id ?? null };
+}
@@ -0,0 +1,217 @@
+// GYD On-Chain Transaction Builder
+// Builds and signs (EIP-155 legacy transactions) ERC-20 token transfers. Withdrawals are
+// broadcast by the submit-withdrawal edge function, which records the hash itself.
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/hashes/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { privateKeyToWallet } from '@/lib/wallet';
+
+export interface TokenNetworkConfig {
+  rpcEndpoint: string;
+  chainId: string;
+  tokenAddress: string;
+  decimals: number;
+}
+
+export interface LegacyTransaction {
+  nonce: bigint;
+  gasPrice: bigint;
+  gasLimit: bigint;
+  to: string;
+  value: bigint;
+  data: string;
+  chainId: bigint;
+}
+
+export interface SignedTransaction {
+  rawTransaction: string;
+  hash: string;
+}
+
+// transfer(address,uint256) selector
+const TRANSFER_SELECTOR = 'a9059cbb';
+
+// Headroom over eth_estimateGas so small state changes between estimate and inclusion don't fail the tx
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+
+let requestId = 0;
+
+/**
+ * Minimal JSON-RPC call against the configured node
+ */
+export async function rpcRequest<T = string>(
+  rpcEndpoint: string,
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  const response = await fetch(rpcEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, id: ++requestId }),
+    signal: AbortSignal.timeout(15000)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || 'RPC error');
+  }
+  return data.result as T;
+}
+
+const strip0x = (hex: string) => hex.replace(/^0x/i, '');
+
+/**
+ * Big-endian bytes of a non-negative integer with no leading zeros (RLP scalar form)
+ */
+const bigintToBytes = (value: bigint): Uint8Array => {
+  if (value === 0n) return new Uint8Array(0);
+  const hex = value.toString(16);
+  return hexToBytes(hex.length % 2 ? '0' + hex : hex);
+};
+
+const encodeLength = (length: number, offset: number): Uint8Array => {
+  if (length < 56) return Uint8Array.of(offset + length);
+  const lengthBytes = bigintToBytes(BigInt(length));
+  return concatBytes(Uint8Array.of(offset + 55 + lengthBytes.length), lengthBytes);
+};
+
+type RlpInput = Uint8Array | RlpInput[];
+
+/**
+ * Recursive Length Prefix encoding of byte strings and lists
+ */
+export const rlpEncode = (input: RlpInput): Uint8Array => {
+  if (Array.isArray(input)) {
+    const payload = concatBytes(...input.map(rlpEncode));
+    return concatBytes(encodeLength(payload.length, 0xc0), payload);
+  }
+  if (input.length === 1 && input[0] < 0x80) return input;
+  return concatBytes(encodeLength(input.length, 0x80), input);
+};
+
+/**
+ * Parse a decimal amount into token base units, rejecting more precision than the token has
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const [, whole, fraction = ''] = match;
+  const trimmed = fraction.replace(/0+$/, '');
+  if (trimmed.length > decimals) {
+    throw new Error(`Amount ${value} has more than ${decimals} decimals`);
+  }
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(trimmed.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Calldata for ERC-20 transfer(to, amount)
+ */
+export const encodeTokenTransfer = (to: string, amount: bigint): string =>
+  '0x' + TRANSFER_SELECTOR + strip0x(to).toLowerCase().padStart(64, '0') + amount.toString(16).padStart(64, '0');
+
+/**
+ * Sign a legacy transaction with EIP-155 replay protection
+ */
+export function signLegacyTransaction(tx: LegacyTransaction, privateKey: string): SignedTransaction {
+  const fields: Uint8Array[] = [
+    bigintToBytes(tx.nonce),
+    bigintToBytes(tx.gasPrice),
+    bigintToBytes(tx.gasLimit),
+    hexToBytes(strip0x(tx.to)),
+    bigintToBytes(tx.value),
+    hexToBytes(strip0x(tx.data))
+  ];
+
+  // EIP-155: sign over (fields..., chainId, 0, 0)
+  const signingHash = keccak_256(rlpEncode([...fields, bigintToBytes(tx.chainId), new Uint8Array(0), new Uint8Array(0)]));
+  const signature = secp256k1.sign(signingHash, strip0x(privateKey));
+  const v = BigInt(signature.recovery) + tx.chainId * 2n + 35n;
+
+  const raw = rlpEncode([...fields, bigintToBytes(v), bigintToBytes(signature.r), bigintToBytes(signature.s)]);
+
+  return {
+    rawTransaction: '0x' + bytesToHex(raw),
+    hash: '0x' + bytesToHex(keccak_256(raw))
+  };
+}
+
+/**
+ * Build and sign an ERC-20 transfer from the wallet of privateKey
+ * Nonce, gas price and gas limit are read from the node; the node's chain id must match the config.
+ */
+export async function buildTokenTransfer(
+  config: TokenNetworkConfig,
+  privateKey: string,
+  to: string,
+  amount: string
+): Promise<SignedTransaction & { nonce: bigint }> {
+  const { address: from } = privateKeyToWallet(privateKey);
+  const chainId = BigInt(config.chainId);
+
+  const nodeChainId = BigInt(await rpcRequest(config.rpcEndpoint, 'eth_chainId'));
+  if (nodeChainId !== chainId) {
+    throw new Error(`RPC node is on chain ${nodeChainId}, expected ${chainId}`);
+  }
+
+  const data = encodeTokenTransfer(to, parseUnits(amount, config.decimals));
+
+  const [nonce, gasPrice, gasEstimate] = await Promise.all([
+    rpcRequest(config.rpcEndpoint, 'eth_getTransactionCount', [from, 'pending']),
+    rpcRequest(config.rpcEndpoint, 'eth_gasPrice'),
+    rpcRequest(config.rpcEndpoint, 'eth_estimateGas', [{ from, to: config.tokenAddress, data }])
+  ]);
+
+  const gasLimit = BigInt(gasEstimate) * (100n + GAS_LIMIT_BUFFER_PERCENT) / 100n;
+
+  const signed = signLegacyTransaction(
+    {
+      nonce: BigInt(nonce),
+      gasPrice: BigInt(gasPrice),
+      gasLimit,
+      to: config.tokenAddress,
+      value: 0n,
+      data,
+      chainId
+    },
+    privateKey
+  );
+
+  return { ...signed, nonce: BigInt(nonce) };
+}
+
+export interface SubmitWithdrawalResult {
+  success: boolean;
+  error?: string;
+  tx_hash?: string;
+  /** False when the hash was recorded but the node refused the transaction */
+  broadcast?: boolean;
+}
+
+/**
+ * Hand a signed withdrawal to the server, which checks it against the reservation,
+ * records its hash and broadcasts it
+ */
+export async function submitWithdrawal(withdrawalId: string, rawTransaction: string): Promise<SubmitWithdrawalResult> {
+  const { data, error } = await supabase.functions.invoke('submit-withdrawal', {
+    body: {
+      withdrawal_id: withdrawalId,
+      raw_transaction: rawTransaction,
+    },
+  });
+
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const body = context ? await context.json().catch(() => null) : null;
+    return { success: false, error: body?.error || error.message };
+  }
+
+  return data as SubmitWithdrawalResult;
+}
@@ -0,0 +1,204 @@
+// Merchant accounts and checkout invoices. An invoice is a payment request with no payer
+// until a customer scans its QR code and pays it, so payment goes through
+// settle_payment_request like any other request.
+// Sales can settle into another account once its owner accepts an invite to receive them.
+
+import { supabase } from '@/integrations/supabase/client';
+import { encodePaymentQr, type PaymentQrCurrency } from '@/lib/paymentQr';
+
+export interface MerchantProfile {
+  id: string;
+  user_id: string;
+  business_name: string;
+  settlement_user_id: string;
+  status: 'active' | 'suspended';
+  api_key_prefix: string | null;
+  created_at: string;
+}
+
+export interface MerchantInvoice {
+  invoiceId: string;
+  orderReference: string;
+  businessName: string;
+  amount: number;
+  status: string;
+  expiresAt: string;
+  qrValue: string;
+}
+
+export interface ReceivedSettlementInvite {
+  invite_id: string;
+  business_name: string;
+  owner_name: string | null;
+  status: 'pending' | 'accepted';
+  created_at: string;
+}
+
+export interface SettlementInvites {
+  /** Merchants that want to, or already do, settle into the caller's account */
+  received: ReceivedSettlementInvite[];
+  /** Where the caller's sales settle, when it isn't their own account */
+  settlementAccount: { user_id: string; name: string | null; email: string | null } | null;
+  /** The caller's invite that hasn't been answered yet */
+  pendingInvite: { invite_id: string; name: string | null; email: string | null; created_at: string } | null;
+}
+
+export interface DailySales {
+  date: string;
+  totals: {
+    paid_count: number;
+    paid_total: number;
+    created_count: number;
+    open_count: number;
+    expired_count: number;
+    cancelled_count: number;
+  };
+  byHour: { hour: number; count: number; total: number }[];
+}
+
+type MerchantResult = {
+  success: boolean;
+  error?: string;
+  merchant_id?: string;
+  settlement_invite_id?: string | null;
+  received?: SettlementInvites['received'];
+  settlement_account?: SettlementInvites['settlementAccount'];
+  pending_invite?: SettlementInvites['pendingInvite'];
+  api_key?: string;
+  invoice_id?: string;
+  order_reference?: string;
+  business_name?: string;
+  amount?: number;
+  status?: string;
+  expires_at?: string;
+  qr?: {
+    version: number;
+    key_id: number;
+    recipient_id: string;
+    amount: number;
+    currency: PaymentQrCurrency;
+    memo: string | null;
+    expires_at: number;
+    request_id: string;
+    signature: string;
+  };
+  date?: string;
+  totals?: DailySales['totals'];
+  by_hour?: DailySales['byHour'];
+};
+
+const unwrap = (data: unknown, fallback: string): MerchantResult => {
+  const result = data as MerchantResult;
+  if (!result?.success) throw new Error(result?.error || fallback);
+  return result;
+};
+
+export async function loadMerchantProfile(userId: string): Promise<MerchantProfile | null> {
+  const { data, error } = await supabase
+    .from('merchant_profiles')
+    .select('id, user_id, business_name, settlement_user_id, status, api_key_prefix, created_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as MerchantProfile | null;
+}
+
+/**
+ * Register as a merchant or update the details. The settlement account may be a user
+ * id or email; its owner is invited and sales keep settling where they did until they
+ * accept. Left empty, sales settle into the merchant's own account. Returns true while
+ * an invite is waiting for an answer.
+ */
+export async function saveMerchantProfile(businessName: string, settlementAccount?: string | null): Promise<boolean> {
+  const { data, error } = await supabase.rpc('save_merchant_profile', {
+    p_business_name: businessName,
+    p_settlement_account: settlementAccount || null,
+  });
+  if (error) throw error;
+  return !!unwrap(data, 'Failed to save merchant profile').settlement_invite_id;
+}
+
+export async function getSettlementInvites(): Promise<SettlementInvites> {
+  const { data, error } = await supabase.rpc('get_settlement_invites');
+  if (error) throw error;
+
+  const result = unwrap(data, 'Failed to load settlement invites');
+  return {
+    received: result.received || [],
+    settlementAccount: result.settlement_account ?? null,
+    pendingInvite: result.pending_invite ?? null,
+  };
+}
+
+/**
+ * Accept or decline an invite to receive a merchant's sales. Declining one already
+ * accepted stops the sales settling into this account.
+ */
+export async function respondToSettlementInvite(inviteId: string, accept: boolean): Promise<string> {
+  const { data, error } = await supabase.rpc('respond_settlement_invite', {
+    p_invite_id: inviteId,
+    p_accept: accept,
+  });
+  if (error) throw error;
+  return unwrap(data, 'Failed to answer the invite').status!;
+}
+
+/**
+ * Issue a new API key. It is only returned here, and replaces the previous one.
+ */
+export async function rotateMerchantApiKey(): Promise<string> {
+  const { data, error } = await supabase.rpc('rotate_merchant_api_key');
+  if (error) throw error;
+  return unwrap(data, 'Failed to issue an API key').api_key!;
+}
+
+export async function createMerchantInvoice(params: {
+  amount: number;
+  orderReference: string;
+  memo?: string | null;
+  expiresInMinutes?: number;
+}): Promise<MerchantInvoice> {
+  const { data, error } = await supabase.rpc('create_merchant_invoice', {
+    p_amount: params.amount,
+    p_order_reference: params.orderReference,
+    p_memo: params.memo || null,
+    p_expires_in_minutes: params.expiresInMinutes ?? 15,
+  });
+  if (error) throw error;
+
+  const result = unwrap(data, 'Failed to create invoice');
+  const qr = result.qr!;
+  return {
+    invoiceId: result.invoice_id!,
+    orderReference: result.order_reference!,
+    businessName: result.business_name!,
+    amount: Number(result.amount),
+    status: result.status!,
+    expiresAt: result.expires_at!,
+    qrValue: encodePaymentQr({
+      version: qr.version,
+      recipientId: qr.recipient_id,
+      keyId: qr.key_id,
+      amount: Number(qr.amount),
+      currency: qr.currency,
+      memo: qr.memo,
+      expiresAt: qr.expires_at,
+      requestId: qr.request_id,
+      signature: qr.signature,
+    }),
+  };
+}
+
+/**
+ * Sales for one day (yyyy-MM-dd, today by default) in the browser's time zone
+ */
+export async function getDailySales(date?: string): Promise<DailySales> {
+  const { data, error } = await supabase.rpc('merchant_daily_sales', {
+    p_date: date || null,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  });
+  if (error) throw error;
+
+  const result = unwrap(data, 'Failed to load sales');
+  return { date: result.date!, totals: result.totals!, byHour: result.by_hour! };
+}
@@ -84,7 +84,8 @@ export function showChatNotification(
 }
 
 /**
- * Register service worker for push notifications
+ * Service worker used for push notifications. Registration itself is handled by
+ * PWAUpdatePrompt so the dev and production worker URLs stay with the PWA plugin.
  */
 export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
   if (!("serviceWorker" in navigator)) {
@@ -93,15 +94,77 @@ export async function registerServiceWorker(): Promise<ServiceWorkerRegistration
   }
 
   try {
-    const registration = await navigator.serviceWorker.register("/sw.js");
-    console.log("Service Worker registered:", registration);
-    return registration;
+    return await navigator.serviceWorker.ready;
   } catch (error) {
     console.error("Service Worker registration failed:", error);
     return null;
   }
 }
 
+const urlBase64ToUint8Array = (value: string): Uint8Array => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+export interface WebPushSubscriptionData {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/**
+ * Subscribe this browser to Web Push with the server's VAPID key.
+ * Reuses an existing subscription when it was made with the same key.
+ */
+export async function subscribeToWebPush(): Promise<WebPushSubscriptionData | null> {
+  const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+  if (!vapidPublicKey || !("serviceWorker" in navigator) || !("PushManager" in window)) {
+    return null;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const applicationServerKey = urlBase64ToUint8Array(vapidPublicKey);
+
+  let subscription = await registration.pushManager.getSubscription();
+  const currentKey = subscription?.options.applicationServerKey;
+  if (
+    subscription &&
+    currentKey &&
+    new Uint8Array(currentKey).join() !== applicationServerKey.join()
+  ) {
+    // The server key was rotated; the old subscription can no longer be used
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey,
+    });
+  }
+
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    return null;
+  }
+
+  return { endpoint: json.endpoint, p256dh: json.keys.p256dh, auth: json.keys.auth };
+}
+
+/**
+ * Remove this browser's Web Push subscription, if any
+ */
+export async function unsubscribeFromWebPush(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  await subscription?.unsubscribe();
+}
+
 /**
  * Check if the document is currently visible
  */
@@ -0,0 +1,169 @@
+// Offline Transfer Queue
+// Transfers and payment requests composed without connectivity are kept in IndexedDB.
+// Payment requests need no PIN and are replayed by the service worker (src/sw.js) once the
+// browser is back online. Transfers are never stored with their PIN: they wait in the queue
+// until the user confirms each one with the PIN in the app. The idempotency key doubles as
+// the queue id, so a replay that runs twice is de-duplicated by the server. The schema
+// here must stay in sync with the service worker.
+
+import { supabase } from '@/integrations/supabase/client';
+
+const DB_NAME = 'gyd-offline';
+const DB_VERSION = 1;
+const TRANSFERS_STORE = 'transfers';
+const META_STORE = 'meta';
+
+export const OFFLINE_SYNC_TAG = 'background-sync';
+
+export type OfflineTransferType = 'send' | 'receive';
+
+export interface OfflineTransfer {
+  id: string;
+  userId: string;
+  type: OfflineTransferType;
+  amount: number;
+  recipient: string;
+  description: string | null;
+  status: 'queued' | 'submitting' | 'failed';
+  error?: string;
+  createdAt: number;
+}
+
+export interface OfflineQueueMessage {
+  type: 'OFFLINE_QUEUE_UPDATED';
+  id: string;
+  outcome: 'completed' | 'failed';
+  transferType: OfflineTransferType;
+  amount: number;
+  error?: string;
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return 'indexedDB' in window && 'serviceWorker' in navigator;
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRANSFERS_STORE)) {
+        db.createObjectStore(TRANSFERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Ask the service worker to replay the queue, via Background Sync where available
+ */
+export async function requestOfflineSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  const syncManager = (registration as ServiceWorkerRegistration & {
+    sync?: { register: (tag: string) => Promise<void> };
+  }).sync;
+
+  if (syncManager && !navigator.onLine) {
+    await syncManager.register(OFFLINE_SYNC_TAG);
+  } else {
+    registration.active?.postMessage({ type: 'FLUSH_OFFLINE_QUEUE' });
+  }
+}
+
+export async function enqueueOfflineTransfer(input: {
+  id: string;
+  userId: string;
+  type: OfflineTransferType;
+  amount: number;
+  recipient: string;
+  description: string | null;
+}): Promise<OfflineTransfer> {
+  const transfer: OfflineTransfer = {
+    id: input.id,
+    userId: input.userId,
+    type: input.type,
+    amount: input.amount,
+    recipient: input.recipient.trim(),
+    description: input.description || null,
+    status: 'queued',
+    createdAt: Date.now(),
+  };
+
+  await withStore(TRANSFERS_STORE, 'readwrite', (store) => store.put(transfer));
+  await requestOfflineSync();
+  return transfer;
+}
+
+export async function listOfflineTransfers(userId: string): Promise<OfflineTransfer[]> {
+  const all = await withStore<OfflineTransfer[]>(TRANSFERS_STORE, 'readonly', (store) => store.getAll());
+  return all
+    .filter((t) => t.userId === userId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function discardOfflineTransfer(id: string): Promise<void> {
+  await withStore(TRANSFERS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Mirror the current session into IndexedDB so the service worker can authenticate replays.
+ * The worker only uses the access token; it never refreshes the session itself.
+ */
+export async function saveOfflineSession(session: {
+  user: { id: string };
+  access_token: string;
+  expires_at?: number;
+} | null): Promise<void> {
+  if (!isOfflineQueueSupported()) return;
+
+  if (!session) {
+    await withStore(META_STORE, 'readwrite', (store) => store.delete('session'));
+    return;
+  }
+
+  await withStore(META_STORE, 'readwrite', (store) => store.put({
+    key: 'session',
+    userId: session.user.id,
+    accessToken: session.access_token,
+    expiresAt: session.expires_at ?? 0,
+    supabaseUrl: import.meta.env.VITE_SUPABASE_URL,
+    apiKey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+  }));
+}
+
+/**
+ * Keep the worker's copy of the session current for as long as the app is open
+ */
+export function trackOfflineSession(): () => void {
+  supabase.auth.getSession().then(({ data }) => saveOfflineSession(data.session));
+
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    saveOfflineSession(session).catch((error) => console.error('Error saving offline session:', error));
+  });
+
+  return () => subscription.unsubscribe();
+}
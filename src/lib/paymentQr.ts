@@ -0,0 +1,201 @@
+// Payment QR codes. Version 1 codes are URIs signed server-side:
+//   stablecoin:pay?v=1&k=<key>&to=<user id>&amt=&cur=GYD&exp=&req=&memo=&sig=<hmac>
+// Anything printed in a code is only a claim until resolve_payment_qr verifies it; the
+// recipient name shown to the payer always comes from the server.
+// Legacy STABLECOIN:<user id>:<name> codes still scan, ignoring the embedded name.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type PaymentQrCurrency = 'GYD' | 'GYDS';
+
+export const PAYMENT_QR_CURRENCIES: PaymentQrCurrency[] = ['GYD', 'GYDS'];
+
+const URI_PREFIX = 'stablecoin:pay?';
+const LEGACY_PREFIX = 'STABLECOIN:';
+
+export interface PaymentQrPayload {
+  /** 0 for legacy codes, which carry nothing but the recipient */
+  version: number;
+  recipientId: string;
+  keyId: number | null;
+  amount: number | null;
+  currency: PaymentQrCurrency;
+  memo: string | null;
+  /** Unix seconds */
+  expiresAt: number | null;
+  requestId: string | null;
+  signature: string | null;
+}
+
+export interface ResolvedPaymentQr {
+  /** False for legacy codes, which aren't signed */
+  verified: boolean;
+  recipientId: string;
+  /** Always from the recipient's profile, never from the code */
+  recipientName: string;
+  /** Set when the code fixes the amount */
+  amount: number | null;
+  currency: PaymentQrCurrency;
+  memo: string | null;
+  expiresAt: string | null;
+  requestId: string | null;
+}
+
+type SignResult = {
+  success: boolean;
+  error?: string;
+  version?: number;
+  key_id?: number;
+  recipient_id?: string;
+  amount?: number | null;
+  currency?: PaymentQrCurrency;
+  memo?: string | null;
+  expires_at?: number | null;
+  request_id?: string | null;
+  signature?: string;
+};
+
+type ResolveResult = {
+  success: boolean;
+  error?: string;
+  verified?: boolean;
+  recipient_id?: string;
+  recipient_name?: string;
+  amount?: number | null;
+  currency?: PaymentQrCurrency;
+  memo?: string | null;
+  expires_at?: string | null;
+  request_id?: string | null;
+};
+
+const isUuid = (value: string) =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+export function encodePaymentQr(payload: PaymentQrPayload): string {
+  const params = new URLSearchParams();
+  params.set('v', String(payload.version));
+  params.set('k', String(payload.keyId));
+  params.set('to', payload.recipientId);
+  if (payload.amount !== null) params.set('amt', payload.amount.toFixed(2));
+  params.set('cur', payload.currency);
+  if (payload.expiresAt !== null) params.set('exp', String(payload.expiresAt));
+  if (payload.requestId) params.set('req', payload.requestId);
+  if (payload.memo) params.set('memo', payload.memo);
+  params.set('sig', payload.signature || '');
+  return URI_PREFIX + params.toString();
+}
+
+/**
+ * Parse a scanned or pasted code. Returns null when it isn't a payment code at all;
+ * whether it is genuine is only known after resolvePaymentQr.
+ */
+export function parsePaymentQr(code: string): PaymentQrPayload | null {
+  const value = code.trim();
+
+  if (value.startsWith(LEGACY_PREFIX)) {
+    const recipientId = value.split(':')[1];
+    if (!recipientId || !isUuid(recipientId)) return null;
+    return {
+      version: 0,
+      recipientId,
+      keyId: null,
+      amount: null,
+      currency: 'GYD',
+      memo: null,
+      expiresAt: null,
+      requestId: null,
+      signature: null,
+    };
+  }
+
+  if (!value.toLowerCase().startsWith(URI_PREFIX)) return null;
+
+  const params = new URLSearchParams(value.slice(URI_PREFIX.length));
+  const version = Number(params.get('v'));
+  const recipientId = params.get('to') || '';
+  const currency = params.get('cur') as PaymentQrCurrency;
+  if (!Number.isInteger(version) || version < 1 || !isUuid(recipientId)) return null;
+  if (!PAYMENT_QR_CURRENCIES.includes(currency)) return null;
+
+  const amount = params.get('amt');
+  const expiresAt = params.get('exp');
+  return {
+    version,
+    recipientId,
+    keyId: Number(params.get('k')) || null,
+    amount: amount !== null ? Number(amount) : null,
+    currency,
+    memo: params.get('memo'),
+    expiresAt: expiresAt !== null ? Number(expiresAt) : null,
+    requestId: params.get('req'),
+    signature: params.get('sig'),
+  };
+}
+
+/**
+ * Sign a receive code for the signed-in user
+ */
+export async function createPaymentQr(options: {
+  amount?: number | null;
+  currency?: PaymentQrCurrency;
+  memo?: string | null;
+  expiresAt?: Date | null;
+  requestId?: string | null;
+} = {}): Promise<string> {
+  const { data, error } = await supabase.rpc('sign_payment_qr', {
+    p_amount: options.amount ?? null,
+    p_currency: options.currency || 'GYD',
+    p_memo: options.memo || null,
+    p_expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+    p_request_id: options.requestId || null,
+  });
+  if (error) throw error;
+
+  const result = data as SignResult;
+  if (!result?.success) throw new Error(result?.error || 'Failed to create QR code');
+
+  return encodePaymentQr({
+    version: result.version!,
+    recipientId: result.recipient_id!,
+    keyId: result.key_id!,
+    amount: result.amount ?? null,
+    currency: result.currency!,
+    memo: result.memo ?? null,
+    expiresAt: result.expires_at ?? null,
+    requestId: result.request_id ?? null,
+    signature: result.signature!,
+  });
+}
+
+/**
+ * Verify a parsed code and look up who it pays. Throws if the code is forged, expired
+ * or points at a request that can no longer be paid.
+ */
+export async function resolvePaymentQr(payload: PaymentQrPayload): Promise<ResolvedPaymentQr> {
+  const { data, error } = await supabase.rpc('resolve_payment_qr', {
+    p_recipient_id: payload.recipientId,
+    p_version: payload.version,
+    p_key_id: payload.keyId,
+    p_amount: payload.amount,
+    p_currency: payload.currency,
+    p_memo: payload.memo,
+    p_expires_at: payload.expiresAt,
+    p_request_id: payload.requestId,
+    p_signature: payload.signature,
+  });
+  if (error) throw error;
+
+  const result = data as ResolveResult;
+  if (!result?.success) throw new Error(result?.error || 'Invalid QR code');
+
+  return {
+    verified: !!result.verified,
+    recipientId: result.recipient_id!,
+    recipientName: result.recipient_name!,
+    amount: result.amount ?? null,
+    currency: result.currency || 'GYD',
+    memo: result.memo ?? null,
+    expiresAt: result.expires_at ?? null,
+    requestId: result.request_id ?? null,
+  };
+}
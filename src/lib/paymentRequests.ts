@@ -0,0 +1,89 @@
+// Payment request settlement. Paying, declining and cancelling all go through RPCs that
+// lock the request, so its status always matches the money that moved.
+// sender_id is the requester and recipient_id the payer.
+
+import { supabase } from '@/integrations/supabase/client';
+import { callTransferGateway } from '@/lib/transferGateway';
+
+export type PaymentRequestStatus =
+  | 'pending'
+  | 'partially_paid'
+  | 'paid'
+  | 'rejected'
+  | 'cancelled'
+  | 'expired';
+
+type RequestResult = {
+  success: boolean;
+  error?: string;
+  attempts_remaining?: number;
+  status?: PaymentRequestStatus;
+  amount_paid?: number;
+  remaining?: number;
+  transaction_id?: string;
+};
+
+const unwrap = (data: unknown, fallback: string): RequestResult => {
+  const result = data as RequestResult;
+  if (!result?.success) {
+    throw new Error(
+      result?.attempts_remaining !== undefined
+        ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+        : result?.error || fallback
+    );
+  }
+  return result;
+};
+
+/**
+ * Whether a request can still be paid, declined or cancelled. Requests past their
+ * expiry are only marked expired the next time someone acts on them.
+ */
+export function isRequestOpen(request: { status: string; expires_at: string | null }): boolean {
+  if (request.status !== 'pending' && request.status !== 'partially_paid') return false;
+  return !request.expires_at || new Date(request.expires_at) > new Date();
+}
+
+export function displayStatus(request: { status: string; expires_at: string | null }): PaymentRequestStatus {
+  if ((request.status === 'pending' || request.status === 'partially_paid') && !isRequestOpen(request)) {
+    return 'expired';
+  }
+  return request.status as PaymentRequestStatus;
+}
+
+/**
+ * Pay what is left on a request, or part of it when amount is given
+ */
+export async function settlePaymentRequest(params: {
+  requestId: string;
+  amount?: number | null;
+  pin?: string | null;
+  idempotencyKey: string;
+}): Promise<{ status: PaymentRequestStatus; amountPaid: number; remaining: number; transactionId: string }> {
+  const data = await callTransferGateway('settle_payment_request', {
+    request_id: params.requestId,
+    amount: params.amount ?? null,
+    pin: params.pin || null,
+    idempotency_key: params.idempotencyKey,
+  });
+
+  const result = unwrap(data, 'Payment failed');
+  return {
+    status: result.status!,
+    amountPaid: Number(result.amount_paid),
+    remaining: Number(result.remaining),
+    transactionId: result.transaction_id!,
+  };
+}
+
+export async function declinePaymentRequest(requestId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('decline_payment_request', { p_request_id: requestId });
+  if (error) throw error;
+  unwrap(data, 'Failed to decline request');
+}
+
+export async function cancelPaymentRequest(requestId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('cancel_payment_request', { p_request_id: requestId });
+  if (error) throw error;
+  unwrap(data, 'Failed to cancel request');
+}
@@ -0,0 +1,78 @@
+// Transaction PIN policy. PINs are hashed and checked in the database
+// (set_transaction_pin / verify_transaction_pin); nothing here sees a hash.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PinPolicy {
+  /** Digits required for a new PIN */
+  pinLength: number;
+  pinSet: boolean;
+  /** Digits in the user's current PIN, which may predate the policy */
+  currentPinLength: number | null;
+  /** PIN has expired or is shorter than the policy and must be changed */
+  changeRequired: boolean;
+}
+
+export const DEFAULT_PIN_POLICY: PinPolicy = {
+  pinLength: 4,
+  pinSet: false,
+  currentPinLength: null,
+  changeRequired: false,
+};
+
+export async function getPinPolicy(): Promise<PinPolicy> {
+  const { data, error } = await supabase.rpc('get_pin_policy');
+  if (error) throw error;
+
+  const result = data as {
+    success: boolean;
+    error?: string;
+    pin_length?: number;
+    pin_set?: boolean;
+    current_pin_length?: number | null;
+    change_required?: boolean;
+  };
+  if (!result?.success) throw new Error(result?.error || 'Failed to load PIN policy');
+
+  return {
+    pinLength: result.pin_length || DEFAULT_PIN_POLICY.pinLength,
+    pinSet: !!result.pin_set,
+    currentPinLength: result.current_pin_length ?? null,
+    changeRequired: !!result.change_required,
+  };
+}
+
+/**
+ * Set the caller's PIN, or change it when one exists (currentPin is then required).
+ * Weak PINs are rejected server-side with a message suitable for display.
+ */
+export async function setTransactionPin(newPin: string, currentPin?: string): Promise<void> {
+  const { data, error } = await supabase.rpc('set_transaction_pin', {
+    p_new_pin: newPin,
+    p_current_pin: currentPin || null,
+  });
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string };
+  if (!result?.success) throw new Error(result?.error || 'Failed to set PIN');
+}
+
+/**
+ * Turn the PIN requirement for transactions on or off. Turning it off needs the current PIN.
+ */
+export async function setPinEnabled(enabled: boolean, currentPin?: string): Promise<void> {
+  const { data, error } = await supabase.rpc('set_pin_enabled', {
+    p_enabled: enabled,
+    p_current_pin: currentPin || null,
+  });
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string; attempts_remaining?: number };
+  if (!result?.success) {
+    throw new Error(
+      result?.attempts_remaining !== undefined
+        ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+        : result?.error || 'Failed to update PIN setting'
+    );
+  }
+}
@@ -0,0 +1,5 @@
+// Profile columns clients can read. pin_hash is not granted to clients, so a profile is
+// loaded with this list instead of '*'; has_pin says whether a PIN is set.
+
+export const PROFILE_COLUMNS =
+  'id, user_id, email, full_name, role, balance, created_at, account_status, account_status_changed_at, account_status_changed_by, account_status_reason, address_line1, address_line2, alternate_number, avatar_url, card_cvv, city, country, date_of_birth, gender, id_number, id_type, legacy_wallet_address, mobile_number, nationality, notify_email, occupation, pin_enabled, pin_length, pin_updated_at, has_pin, public_key, referral_code, region, tin_number, wallet_address';
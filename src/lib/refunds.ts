@@ -0,0 +1,127 @@
+// Refunds of transfers. A refund is its own 'refund' transaction back to the original
+// sender, linked to the original through reversal_of; the original tracks how much of it
+// has been refunded so far.
+
+import { supabase } from '@/integrations/supabase/client';
+import { callTransferGateway } from '@/lib/transferGateway';
+
+export type TransferStatus = 'completed' | 'partially_refunded' | 'refunded';
+
+export interface RefundSummary {
+  id: string;
+  amount: number;
+  description: string | null;
+  created_at: string;
+}
+
+export interface RefundLinks {
+  status: string;
+  transactionType: string;
+  amount: number;
+  refundedAmount: number;
+  /** Set when this transaction is itself a refund */
+  reversalOf: string | null;
+  refunds: RefundSummary[];
+}
+
+type RefundResult = {
+  success: boolean;
+  error?: string;
+  attempts_remaining?: number;
+  transaction_id?: string;
+  amount?: number;
+  sender_fee_returned?: number;
+  recipient_fee_returned?: number;
+  refunded_amount?: number;
+  remaining?: number;
+  status?: TransferStatus;
+};
+
+export function canBeRefunded(transaction: { status: string; transaction_type?: string }): boolean {
+  return (transaction.transaction_type ?? 'transfer') === 'transfer'
+    && (transaction.status === 'completed' || transaction.status === 'partially_refunded');
+}
+
+export function refundStatusLabel(status: string): string | null {
+  switch (status) {
+    case 'refunded':
+      return 'Refunded';
+    case 'partially_refunded':
+      return 'Partially Refunded';
+    default:
+      return null;
+  }
+}
+
+/**
+ * The refund state of a transaction: what has been refunded of it, or what it refunds
+ */
+export async function loadRefundLinks(transactionId: string): Promise<RefundLinks | null> {
+  const [{ data: transaction, error }, { data: refunds, error: refundsError }] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('status, transaction_type, amount, refunded_amount, reversal_of')
+      .eq('id', transactionId)
+      .maybeSingle(),
+    supabase
+      .from('transactions')
+      .select('id, amount, description, created_at')
+      .eq('reversal_of', transactionId)
+      .order('created_at', { ascending: true }),
+  ]);
+  if (error) throw error;
+  if (refundsError) throw refundsError;
+  if (!transaction) return null;
+
+  return {
+    status: transaction.status,
+    transactionType: transaction.transaction_type,
+    amount: Number(transaction.amount),
+    refundedAmount: Number(transaction.refunded_amount),
+    reversalOf: transaction.reversal_of,
+    refunds: (refunds || []).map((r) => ({ ...r, amount: Number(r.amount) })),
+  };
+}
+
+/**
+ * Refund what is left of a transfer, or part of it when amount is given. The recipient
+ * refunds from their own balance; admins can reverse any transfer.
+ */
+export async function refundTransaction(params: {
+  transactionId: string;
+  amount?: number | null;
+  reason?: string | null;
+  pin?: string | null;
+  idempotencyKey: string;
+}): Promise<{
+  refundId: string;
+  amount: number;
+  feeReturned: number;
+  refundedAmount: number;
+  remaining: number;
+  status: TransferStatus;
+}> {
+  const result = await callTransferGateway<RefundResult>('refund_transaction', {
+    transaction_id: params.transactionId,
+    amount: params.amount ?? null,
+    reason: params.reason || null,
+    pin: params.pin || null,
+    idempotency_key: params.idempotencyKey,
+  });
+  if (!result?.success) {
+    throw new Error(
+      result?.attempts_remaining !== undefined
+        ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+        : result?.error || 'Refund failed'
+    );
+  }
+
+  return {
+    refundId: result.transaction_id!,
+    amount: Number(result.amount),
+    feeReturned: Number(result.sender_fee_returned) + Number(result.recipient_fee_returned),
+    refundedAmount: Number(result.refunded_amount),
+    remaining: Number(result.remaining),
+    status: result.status!,
+  };
+}
@@ -0,0 +1,89 @@
+// Future-dated and recurring transfers. The run-scheduled-transfers edge function sends
+// them through the same transfer RPC as the app, so fees and limits apply on each run.
+
+import { supabase } from '@/integrations/supabase/client';
+import { callTransferGateway } from '@/lib/transferGateway';
+
+export type TransferFrequency = 'once' | 'weekly' | 'monthly' | 'cron';
+
+export type ScheduleAction = 'pause' | 'resume' | 'skip' | 'cancel';
+
+export interface ScheduledTransfer {
+  id: string;
+  recipient_id: string;
+  amount: number;
+  description: string | null;
+  frequency: TransferFrequency;
+  cron_expression: string | null;
+  start_at: string;
+  end_at: string | null;
+  next_run_at: string | null;
+  retry_at: string | null;
+  attempts: number;
+  run_count: number;
+  status: 'active' | 'paused' | 'completed' | 'cancelled' | 'failed';
+  last_run_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export const FREQUENCY_LABELS: Record<TransferFrequency, string> = {
+  once: 'One-off',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  cron: 'Custom',
+};
+
+type ScheduleResult = {
+  success: boolean;
+  error?: string;
+  attempts_remaining?: number;
+  schedule_id?: string;
+  next_run_at?: string | null;
+};
+
+/**
+ * Create a schedule for the signed-in user. The PIN is verified now, since the
+ * transfers run unattended. Cron expressions are evaluated in UTC.
+ */
+export async function createScheduledTransfer(params: {
+  recipientId: string;
+  amount: number;
+  frequency: TransferFrequency;
+  startAt: Date;
+  description?: string | null;
+  cronExpression?: string | null;
+  endAt?: Date | null;
+  pin?: string | null;
+}): Promise<{ scheduleId: string; nextRunAt: string }> {
+  const result = await callTransferGateway<ScheduleResult>('create_scheduled_transfer', {
+    recipient_id: params.recipientId,
+    amount: params.amount,
+    frequency: params.frequency,
+    start_at: params.startAt.toISOString(),
+    description: params.description || null,
+    cron_expression: params.frequency === 'cron' ? params.cronExpression || null : null,
+    end_at: params.endAt ? params.endAt.toISOString() : null,
+    pin: params.pin || null,
+  });
+  if (!result?.success) {
+    throw new Error(
+      result?.attempts_remaining !== undefined
+        ? `${result.error} (${result.attempts_remaining} attempts remaining)`
+        : result?.error || 'Failed to schedule transfer'
+    );
+  }
+
+  return { scheduleId: result.schedule_id!, nextRunAt: result.next_run_at! };
+}
+
+export async function manageScheduledTransfer(scheduleId: string, action: ScheduleAction): Promise<void> {
+  const { data, error } = await supabase.rpc('manage_scheduled_transfer', {
+    p_schedule_id: scheduleId,
+    p_action: action,
+  });
+  if (error) throw error;
+
+  const result = data as ScheduleResult;
+  if (!result?.success) throw new Error(result?.error || `Failed to ${action} scheduled transfer`);
+}
@@ -0,0 +1,51 @@
+// Transfers, payment request settlements, refunds and new schedules go through the
+// transfer-gateway edge function, where the admin firewall rules are enforced. The RPCs
+// themselves can't be called by clients.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type GatewayAction = 'transfer' | 'settle_payment_request' | 'refund_transaction' | 'create_scheduled_transfer';
+
+export interface TransferResult {
+  success: boolean;
+  error?: string;
+  transaction_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Run one gateway action as the signed-in user and return the RPC's result
+ */
+export async function callTransferGateway<T = TransferResult>(
+  action: GatewayAction,
+  body: Record<string, unknown>
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('transfer-gateway', {
+    body: { action, ...body },
+  });
+
+  if (error) {
+    // Firewall blocks (403) and rate limits (429) explain themselves in the body
+    const context = (error as { context?: Response }).context;
+    const body = context ? await context.json().catch(() => null) : null;
+    throw new Error(body?.error || error.message);
+  }
+
+  return data as T;
+}
+
+export async function submitTransfer(params: {
+  recipientId: string;
+  amount: number;
+  description: string | null;
+  idempotencyKey: string;
+  pin?: string | null;
+}): Promise<TransferResult> {
+  return callTransferGateway('transfer', {
+    recipient_id: params.recipientId,
+    amount: params.amount,
+    description: params.description,
+    idempotency_key: params.idempotencyKey,
+    pin: params.pin || null,
+  });
+}
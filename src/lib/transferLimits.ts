@@ -0,0 +1,65 @@
+// Daily, monthly and single-transfer limits. They are enforced by the transfer RPCs;
+// this only reads them so the UI can show what's left.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type TransferLimitTier = 'standard' | 'verified' | 'agent';
+
+export interface TransferLimits {
+  tier: TransferLimitTier;
+  /** The user has their own override row */
+  hasOverride: boolean;
+  /** null means no limit */
+  singleLimit: number | null;
+  dailyLimit: number | null;
+  dailyUsed: number;
+  dailyRemaining: number | null;
+  monthlyLimit: number | null;
+  monthlyUsed: number;
+  monthlyRemaining: number | null;
+}
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+/**
+ * Limits for the signed-in user, or for another user when called by an admin or agent
+ */
+export async function getTransferLimits(userId?: string): Promise<TransferLimits> {
+  const { data, error } = await supabase.rpc('get_transfer_limits', userId ? { p_user_id: userId } : {});
+  if (error) throw error;
+
+  const result = data as Record<string, unknown> & { success: boolean; error?: string };
+  if (!result?.success) throw new Error(result?.error || 'Failed to load transfer limits');
+
+  return {
+    tier: result.tier as TransferLimitTier,
+    hasOverride: !!result.has_override,
+    singleLimit: toNumber(result.single_limit),
+    dailyLimit: toNumber(result.daily_limit),
+    dailyUsed: toNumber(result.daily_used) || 0,
+    dailyRemaining: toNumber(result.daily_remaining),
+    monthlyLimit: toNumber(result.monthly_limit),
+    monthlyUsed: toNumber(result.monthly_used) || 0,
+    monthlyRemaining: toNumber(result.monthly_remaining),
+  };
+}
+
+const smallest = (values: (number | null)[]): number | null => {
+  const caps = values.filter((value): value is number => value !== null);
+  return caps.length > 0 ? Math.min(...caps) : null;
+};
+
+/**
+ * What's left of the daily and monthly limits, or null when neither applies
+ */
+export function remainingAllowance(limits: TransferLimits): number | null {
+  return smallest([limits.dailyRemaining, limits.monthlyRemaining]);
+}
+
+/**
+ * Largest amount that can be sent in one transfer right now, or null when nothing limits it
+ */
+export function maxSendableAmount(limits: TransferLimits): number | null {
+  return smallest([limits.singleLimit, remainingAllowance(limits)]);
+}
@@ -0,0 +1,102 @@
+// Two-Factor Authentication
+// TOTP factors are enrolled and verified through Supabase Auth MFA, which upgrades the
+// session to aal2. Recovery codes live in mfa_recovery_codes and are redeemed by the
+// mfa-recovery edge function.
+
+import { supabase } from '@/integrations/supabase/client';
+
+// What a signed-in session still has to do before it can use the app
+export type TwoFactorGate = 'none' | 'verify' | 'enroll';
+
+export async function isTwoFactorRequired(): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', 'require_two_factor')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.setting_value === 'true';
+}
+
+/**
+ * The user's verified authenticator, if any. Unverified factors from abandoned
+ * enrollments are ignored.
+ */
+export async function getVerifiedTotpFactor(): Promise<{ id: string; friendly_name?: string } | null> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp.find((factor) => factor.status === 'verified') || null;
+}
+
+export async function getTwoFactorGate(): Promise<TwoFactorGate> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+
+  if (data.nextLevel === 'aal2' && data.currentLevel !== 'aal2') {
+    return 'verify';
+  }
+  if (data.nextLevel !== 'aal2' && await isTwoFactorRequired()) {
+    return 'enroll';
+  }
+  return 'none';
+}
+
+/**
+ * Check a 6-digit code from the user's authenticator. Success also raises the session to aal2.
+ */
+export async function verifyTotpCode(code: string): Promise<void> {
+  const factor = await getVerifiedTotpFactor();
+  if (!factor) throw new Error('No authenticator is set up for this account');
+
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+  if (error) throw error;
+}
+
+/**
+ * Remove any half-finished enrollments so a new one can reuse the friendly name
+ */
+export async function clearPendingTotpFactors(): Promise<void> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+
+  for (const factor of data.all) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+      await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+  }
+}
+
+export async function generateRecoveryCodes(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string; codes?: string[] };
+  if (!result.success) throw new Error(result.error);
+  return result.codes || [];
+}
+
+export async function getRemainingRecoveryCodes(): Promise<number> {
+  const { data, error } = await supabase.rpc('get_mfa_recovery_status');
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string; remaining?: number };
+  if (!result.success) throw new Error(result.error);
+  return result.remaining ?? 0;
+}
+
+/**
+ * Trade a recovery code for removal of the lost authenticator. The session stays at
+ * aal1 but, with no factor left, is no longer asked for a second one.
+ */
+export async function redeemRecoveryCode(code: string): Promise<number> {
+  const { data, error } = await supabase.functions.invoke('mfa-recovery', {
+    body: { code },
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Recovery code could not be verified');
+
+  await supabase.auth.refreshSession();
+  return data.remaining ?? 0;
+}
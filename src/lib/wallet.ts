@@ -1,5 +1,12 @@
 // GYD Wallet Generation Utility
-// Generates a cryptographic key pair for blockchain operations
+// Generates secp256k1 key pairs with Keccak-256 (EIP-55) addresses for the EVM-based GYD chain
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+// wallet_vault.key_version of keys generated by this module; version 1 wallets used SHA-256 addresses
+export const WALLET_KEY_VERSION = 2;
 
 export interface WalletKeyPair {
   publicKey: string;
@@ -14,16 +21,7 @@ interface EncryptedData {
 }
 
 /**
- * Generates a random hex string of specified length
- */
-const generateRandomHex = (bytes: number): string => {
-  const array = new Uint8Array(bytes);
-  crypto.getRandomValues(array);
-  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
-};
-
-/**
- * Simple hash function for address generation
+ * SHA-256 hex digest, used by the legacy key encryption format
  */
 const simpleHash = async (data: string): Promise<string> => {
   const encoder = new TextEncoder();
@@ -65,27 +63,48 @@ const deriveKey = async (password: string, salt: Uint8Array): Promise<CryptoKey>
 };
 
 /**
- * Generates a new GYD wallet key pair
- * Returns public key, private key, and derived wallet address
+ * Converts an address to its EIP-55 mixed-case checksum form
  */
-export const generateWalletKeyPair = async (): Promise<WalletKeyPair> => {
-  // Generate 32-byte (256-bit) private key
-  const privateKey = generateRandomHex(32);
-  
-  // Derive public key from private key using SHA-256
-  const publicKey = await simpleHash(privateKey);
-  
-  // Generate wallet address (first 20 bytes of hashed public key with 0x prefix)
-  const addressHash = await simpleHash(publicKey);
-  const address = '0x' + addressHash.substring(0, 40);
-  
+export const toChecksumAddress = (address: string): string => {
+  const lower = address.replace(/^0x/i, '').toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+};
+
+/**
+ * Derives the uncompressed public key and checksummed address for a hex private key
+ * Throws if the key is not a valid secp256k1 scalar
+ */
+export const privateKeyToWallet = (privateKey: string): WalletKeyPair => {
+  const key = privateKey.trim().replace(/^0x/i, '').toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(key) || !secp256k1.utils.isValidPrivateKey(key)) {
+    throw new Error('Invalid private key');
+  }
+
+  // 65-byte uncompressed point; the address is the last 20 bytes of keccak256(x || y)
+  const publicKey = secp256k1.getPublicKey(key, false);
+  const address = toChecksumAddress(bytesToHex(keccak_256(publicKey.slice(1)).slice(-20)));
+
   return {
-    publicKey,
-    privateKey,
+    publicKey: bytesToHex(publicKey),
+    privateKey: key,
     address
   };
 };
 
+/**
+ * Generates a new GYD wallet key pair
+ * Returns public key, private key, and derived wallet address
+ */
+export const generateWalletKeyPair = async (): Promise<WalletKeyPair> => {
+  return privateKeyToWallet(bytesToHex(secp256k1.utils.randomPrivateKey()));
+};
+
 /**
  * Encrypts a private key using AES-256-GCM with PBKDF2 key derivation
  * Uses proper cryptographic standards for secure storage
@@ -166,16 +185,46 @@ export const decryptPrivateKey = async (encryptedKey: string, password: string):
 };
 
 /**
- * Validates a wallet address format
+ * Re-derives a version 1 wallet with secp256k1 from its existing private key
+ * The old 32-byte random key is reused, so only the public key and address change.
+ * Returns the new key pair and the private key re-encrypted in the current format.
+ */
+export const migrateLegacyWallet = async (
+  encryptedKey: string,
+  password: string
+): Promise<{ wallet: WalletKeyPair; encryptedPrivateKey: string }> => {
+  let wallet: WalletKeyPair;
+  try {
+    // A wrong password decrypts the legacy format to garbage, which fails key validation
+    wallet = privateKeyToWallet(await decryptPrivateKey(encryptedKey, password));
+  } catch {
+    throw new Error('Incorrect password or corrupted key');
+  }
+
+  return {
+    wallet,
+    encryptedPrivateKey: await encryptPrivateKey(wallet.privateKey, password)
+  };
+};
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Validates a wallet address, including its EIP-55 checksum when mixed-case
  */
 export const isValidAddress = (address: string): boolean => {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
+  if (!ADDRESS_PATTERN.test(address)) return false;
+
+  const body = address.slice(2);
+  if (body === body.toLowerCase() || body === body.toUpperCase()) return true;
+
+  return toChecksumAddress(address) === address;
 };
 
 /**
  * Shortens address for display (0x1234...5678)
  */
 export const shortenAddress = (address: string): string => {
-  if (!isValidAddress(address)) return address;
+  if (!ADDRESS_PATTERN.test(address)) return address;
   return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
 };
@@ -7,7 +7,17 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Shield, Bell, Lock, CreditCard } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Shield, Bell, Lock, CreditCard, KeyRound } from "lucide-react";
+import TwoFactorSetup, { RecoveryCodesList } from "@/components/TwoFactorSetup";
+import PinVerificationModal from "@/components/PinVerificationModal";
+import { setPinEnabled } from "@/lib/pinPolicy";
+import {
+  generateRecoveryCodes,
+  getRemainingRecoveryCodes,
+  getVerifiedTotpFactor,
+  isTwoFactorRequired
+} from "@/lib/twoFactor";
 
 const AccountSettings: React.FC = () => {
   const { toast } = useToast();
@@ -21,11 +31,87 @@ const AccountSettings: React.FC = () => {
     loginAlerts: true,
     cardLocked: false,
   });
+  const [twoFactor, setTwoFactor] = useState({
+    factorId: null as string | null,
+    required: false,
+    recoveryCodesLeft: 0,
+  });
+  const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[]>([]);
+  const [pinLength, setPinLength] = useState(4);
+  const [confirmPinDisable, setConfirmPinDisable] = useState(false);
 
   useEffect(() => {
     loadSettings();
+    loadTwoFactorStatus();
   }, []);
 
+  const loadTwoFactorStatus = async () => {
+    try {
+      const [factor, required] = await Promise.all([getVerifiedTotpFactor(), isTwoFactorRequired()]);
+      setTwoFactor({
+        factorId: factor?.id || null,
+        required,
+        recoveryCodesLeft: factor ? await getRemainingRecoveryCodes() : 0,
+      });
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+    }
+  };
+
+  const handleTwoFactorToggle = async (enabled: boolean) => {
+    if (enabled) {
+      setShowTwoFactorSetup(true);
+      return;
+    }
+    if (!twoFactor.factorId) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: twoFactor.factorId });
+      if (error) throw error;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      await supabase.from('activity_logs').insert({
+        user_id: user?.id,
+        action_type: 'MFA_DISABLED',
+        description: 'Authenticator app removed from two-factor authentication',
+      });
+
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Your authenticator app has been removed",
+      });
+      await loadTwoFactorStatus();
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to disable two-factor authentication",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    setLoading(true);
+    try {
+      setNewRecoveryCodes(await generateRecoveryCodes());
+      await loadTwoFactorStatus();
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to generate recovery codes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const loadSettings = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -33,7 +119,7 @@ const AccountSettings: React.FC = () => {
 
       const { data: profile } = await supabase
         .from('profiles')
-        .select('pin_enabled')
+        .select('pin_enabled, pin_length')
         .eq('user_id', user.id)
         .single();
 
@@ -42,38 +128,48 @@ const AccountSettings: React.FC = () => {
           ...prev,
           pinEnabled: profile.pin_enabled || false,
         }));
+        setPinLength(profile.pin_length || 4);
       }
     } catch (error) {
       console.error('Error loading settings:', error);
     }
   };
 
+  const savePinEnabled = async (value: boolean, pin?: string) => {
+    setLoading(true);
+    try {
+      await setPinEnabled(value, pin);
+
+      setSettings(prev => ({ ...prev, pinEnabled: value }));
+      setConfirmPinDisable(false);
+      toast({
+        title: "Setting Updated",
+        description: `Transaction PIN has been ${value ? 'enabled' : 'disabled'}`,
+      });
+    } catch (error) {
+      console.error('Error saving setting:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save setting",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSettingChange = async (key: string, value: boolean) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
-    
-    // Save to database if it's a database-backed setting
+    // The PIN requirement is saved on the server, and turning it off needs the current PIN
     if (key === 'pinEnabled') {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return;
-
-        const { error } = await supabase
-          .from('profiles')
-          .update({ pin_enabled: value })
-          .eq('user_id', user.id);
-
-        if (error) throw error;
-      } catch (error) {
-        console.error('Error saving setting:', error);
-        toast({
-          title: "Error",
-          description: "Failed to save setting",
-          variant: "destructive",
-        });
-        return;
+      if (value) {
+        await savePinEnabled(true);
+      } else {
+        setConfirmPinDisable(true);
       }
+      return;
     }
-    
+
+    setSettings(prev => ({ ...prev, [key]: value }));
     toast({
       title: "Setting Updated",
       description: `${key.replace(/([A-Z])/g, ' $1').trim()} has been ${value ? 'enabled' : 'disabled'}`,
@@ -124,12 +220,49 @@ const AccountSettings: React.FC = () => {
                 <Switch
                   id="pin-enabled"
                   checked={settings.pinEnabled}
+                  disabled={loading}
                   onCheckedChange={(checked) => handleSettingChange('pinEnabled', checked)}
                 />
               </div>
 
               <Separator />
 
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="two-factor">Two-Factor Authentication</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {twoFactor.required && !twoFactor.factorId
+                      ? "Required by your bank"
+                      : "Ask for an authenticator code when signing in"}
+                  </p>
+                </div>
+                <Switch
+                  id="two-factor"
+                  checked={!!twoFactor.factorId}
+                  disabled={loading || (twoFactor.required && !!twoFactor.factorId)}
+                  onCheckedChange={handleTwoFactorToggle}
+                />
+              </div>
+
+              {twoFactor.factorId && (
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {twoFactor.recoveryCodesLeft} recovery codes remaining
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRegenerateRecoveryCodes}
+                    disabled={loading}
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    New Recovery Codes
+                  </Button>
+                </div>
+              )}
+
+              <Separator />
+
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label htmlFor="card-locked">Lock Card</Label>
@@ -251,6 +384,56 @@ const AccountSettings: React.FC = () => {
           </Card>
         </div>
       </div>
+
+      <Dialog
+        open={showTwoFactorSetup}
+        onOpenChange={(open) => {
+          setShowTwoFactorSetup(open);
+          if (!open) loadTwoFactorStatus();
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Protect your account with a code from an authenticator app
+            </DialogDescription>
+          </DialogHeader>
+          <TwoFactorSetup
+            onComplete={() => {
+              setShowTwoFactorSetup(false);
+              loadTwoFactorStatus();
+            }}
+            onCancel={() => setShowTwoFactorSetup(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <PinVerificationModal
+        open={confirmPinDisable}
+        onOpenChange={setConfirmPinDisable}
+        onVerify={(pin) => savePinEnabled(false, pin)}
+        pinLength={pinLength}
+        isLoading={loading}
+        title="Turn Off PIN"
+        description="Enter your current PIN to stop requiring it for transactions"
+        enableBiometric={false}
+      />
+
+      <Dialog open={newRecoveryCodes.length > 0} onOpenChange={(open) => !open && setNewRecoveryCodes([])}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Your previous recovery codes no longer work
+            </DialogDescription>
+          </DialogHeader>
+          <RecoveryCodesList codes={newRecoveryCodes} />
+          <Button className="w-full" onClick={() => setNewRecoveryCodes([])}>
+            Done
+          </Button>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
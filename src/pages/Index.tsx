@@ -3,6 +3,11 @@ import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import SimpleBankingApp from "@/components/SimpleBankingApp";
 import AuthForm from "@/components/AuthForm";
+import TwoFactorChallenge from "@/components/TwoFactorChallenge";
+import TwoFactorSetup from "@/components/TwoFactorSetup";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getTwoFactorGate, TwoFactorGate } from "@/lib/twoFactor";
 import { useMobileDetect } from "@/hooks/useMobileDetect";
 
 const Index = () => {
@@ -11,11 +16,39 @@ const Index = () => {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [hasRedirected, setHasRedirected] = useState(false);
+  const [twoFactorGate, setTwoFactorGate] = useState<TwoFactorGate>('none');
+
+  const refreshTwoFactorGate = async () => {
+    try {
+      setTwoFactorGate(await getTwoFactorGate());
+    } catch (error) {
+      console.error('Error checking two-factor status:', error);
+      setTwoFactorGate('none');
+    }
+  };
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      setUser(session?.user || null);
-      setLoading(false);
+      if (!session) {
+        setUser(null);
+        setTwoFactorGate('none');
+        setLoading(false);
+        return;
+      }
+
+      // Only a new sign-in changes what the session still has to prove; the
+      // two-factor screens re-check once they are done
+      if (event !== 'SIGNED_IN' && event !== 'INITIAL_SESSION') {
+        setUser(session.user);
+        return;
+      }
+
+      // Supabase calls must not be awaited inside the auth callback
+      setTimeout(async () => {
+        await refreshTwoFactorGate();
+        setUser(session.user);
+        setLoading(false);
+      }, 0);
     });
 
     return () => subscription.unsubscribe();
@@ -45,6 +78,35 @@ const Index = () => {
     );
   }
 
+  if (twoFactorGate === 'verify') {
+    return (
+      <div className="min-h-screen w-full overflow-x-hidden bg-background flex items-center justify-center p-4">
+        <TwoFactorChallenge onVerified={refreshTwoFactorGate} />
+      </div>
+    );
+  }
+
+  if (twoFactorGate === 'enroll') {
+    return (
+      <div className="min-h-screen w-full overflow-x-hidden bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              Your bank requires an authenticator app for every account before you can continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <TwoFactorSetup onComplete={refreshTwoFactorGate} />
+            <Button variant="ghost" className="w-full" onClick={() => supabase.auth.signOut()}>
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return <SimpleBankingApp user={user} />;
 };
 
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { PROFILE_COLUMNS } from "@/lib/profiles";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,15 +9,38 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, User, Mail, Calendar, Shield, Camera } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, User, Mail, Calendar, Shield, Camera, FileCheck, Upload } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
+interface KYCDocument {
+  id: string;
+  document_type: string;
+  file_name: string | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | null;
+  rejection_reason: string | null;
+  created_at: string;
+}
+
+const KYC_DOCUMENT_TYPES = [
+  { value: 'national_id', label: 'National ID' },
+  { value: 'passport', label: 'Passport' },
+  { value: 'drivers_license', label: "Driver's License" },
+  { value: 'proof_of_address', label: 'Proof of Address' },
+  { value: 'selfie', label: 'Selfie with ID' },
+];
+
 const ManageProfile: React.FC = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const kycInputRef = useRef<HTMLInputElement>(null);
+  const [kycDocuments, setKycDocuments] = useState<KYCDocument[]>([]);
+  const [kycStatus, setKycStatus] = useState<string>('not_submitted');
+  const [kycDocumentType, setKycDocumentType] = useState('national_id');
+  const [kycUploading, setKycUploading] = useState(false);
   const [profile, setProfile] = useState({
     fullName: '',
     email: '',
@@ -28,6 +52,7 @@ const ManageProfile: React.FC = () => {
 
   useEffect(() => {
     loadProfile();
+    loadKYC();
   }, []);
 
   const loadProfile = async () => {
@@ -37,7 +62,7 @@ const ManageProfile: React.FC = () => {
 
       const { data } = await supabase
         .from('profiles')
-        .select('*')
+        .select(PROFILE_COLUMNS)
         .eq('user_id', user.id)
         .single();
 
@@ -61,6 +86,112 @@ const ManageProfile: React.FC = () => {
     }
   };
 
+  const loadKYC = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [{ data: documents, error }, { data: status }] = await Promise.all([
+        supabase
+          .from('kyc_documents')
+          .select('id, document_type, file_name, status, rejection_reason, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_kyc_status'),
+      ]);
+
+      if (error) throw error;
+      setKycDocuments(documents || []);
+      setKycStatus(status || 'not_submitted');
+    } catch (error) {
+      console.error('Error loading KYC documents:', error);
+    }
+  };
+
+  const handleKYCUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      toast({
+        title: "Invalid File",
+        description: "Please upload an image or PDF of your document",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Validate file size (10MB)
+    if (file.size > 10 * 1024 * 1024) {
+      toast({
+        title: "File Too Large",
+        description: "Please upload a document smaller than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setKycUploading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const fileExt = file.name.split('.').pop();
+      const filePath = `${user.id}/${kycDocumentType}-${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('kyc-documents')
+        .upload(filePath, file);
+
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase
+        .from('kyc_documents')
+        .insert({
+          user_id: user.id,
+          document_type: kycDocumentType,
+          document_url: filePath,
+          file_name: file.name,
+        });
+
+      if (insertError) {
+        await supabase.storage.from('kyc-documents').remove([filePath]);
+        throw insertError;
+      }
+
+      toast({
+        title: "Document Submitted",
+        description: "Your document has been submitted for review",
+      });
+      loadKYC();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to upload document",
+        variant: "destructive",
+      });
+    } finally {
+      setKycUploading(false);
+    }
+  };
+
+  const getKYCBadgeVariant = (status: string | null) => {
+    switch (status) {
+      case 'approved':
+      case 'APPROVED':
+        return 'default';
+      case 'rejected':
+      case 'REJECTED':
+        return 'destructive';
+      case 'pending':
+      case 'PENDING':
+        return 'secondary';
+      default:
+        return 'outline';
+    }
+  };
+
   const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -297,6 +428,83 @@ const ManageProfile: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Identity Verification */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <FileCheck className="w-5 h-5 mr-2" />
+                  Identity Verification
+                </span>
+                <Badge variant={getKYCBadgeVariant(kycStatus)} className="capitalize">
+                  {kycStatus.replace('_', ' ')}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Upload a government-issued ID to unlock larger transfers
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {kycStatus !== 'approved' && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Select value={kycDocumentType} onValueChange={setKycDocumentType}>
+                    <SelectTrigger className="sm:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {KYC_DOCUMENT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => kycInputRef.current?.click()}
+                    disabled={kycUploading}
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    {kycUploading ? "Uploading..." : "Upload Document"}
+                  </Button>
+                  <input
+                    ref={kycInputRef}
+                    type="file"
+                    accept="image/*,application/pdf"
+                    className="hidden"
+                    onChange={handleKYCUpload}
+                  />
+                </div>
+              )}
+
+              {kycDocuments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No documents submitted yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {kycDocuments.map((doc) => (
+                    <div key={doc.id} className="flex items-start justify-between rounded-lg border p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">
+                          {KYC_DOCUMENT_TYPES.find(t => t.value === doc.document_type)?.label || doc.document_type}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {doc.file_name} · {new Date(doc.created_at).toLocaleDateString()}
+                        </p>
+                        {doc.status === 'REJECTED' && doc.rejection_reason && (
+                          <p className="text-xs text-destructive mt-1">{doc.rejection_reason}</p>
+                        )}
+                      </div>
+                      <Badge variant={getKYCBadgeVariant(doc.status)}>
+                        {doc.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Account Details */}
           <Card>
             <CardHeader>
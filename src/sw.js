@@ -0,0 +1,393 @@
+// Service worker source. vite-plugin-pwa (injectManifest) bundles this file to /sw.js and
+// replaces self.__WB_MANIFEST with the hashed build assets.
+
+const CACHE_PREFIX = 'stablecoin-banking-';
+const PRECACHE_MANIFEST = self.__WB_MANIFEST || [];
+
+// Every deploy produces a different asset list, and so a cache of its own
+function hashManifest(entries) {
+  let hash = 5381;
+  const text = entries.map((entry) => entry.url + '@' + (entry.revision || '')).join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+const PRECACHE_NAME = CACHE_PREFIX + 'precache-' + hashManifest(PRECACHE_MANIFEST);
+const PRECACHE_URLS = new Set(
+  PRECACHE_MANIFEST.map((entry) => new URL(entry.url, self.location.origin).href)
+);
+const APP_SHELL_URL = new URL('index.html', self.location.origin).href;
+
+self.addEventListener('install', (event) => {
+  // The new worker waits until the app asks it to take over (see PWAUpdatePrompt)
+  event.waitUntil(
+    caches.open(PRECACHE_NAME).then((cache) =>
+      cache.addAll(
+        PRECACHE_MANIFEST.map((entry) => new Request(new URL(entry.url, self.location.origin).href, { cache: 'reload' }))
+      )
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Also drops the API cache kept by earlier versions of this worker
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isSupabaseRequest(url) {
+  return url.hostname.endsWith('.supabase.co') || /^\/(rest|auth|functions|storage|realtime)\/v1\//.test(url.pathname);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // API responses carry balances, card and identity data, so they never touch Cache Storage
+  if (isSupabaseRequest(url)) return;
+
+  if (request.mode === 'navigate') {
+    // Always try the network so a deploy is picked up on the next load
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.open(PRECACHE_NAME).then((cache) => cache.match(APP_SHELL_URL)).then((response) => response || Response.error())
+      )
+    );
+    return;
+  }
+
+  // Hashed build assets never change under the same URL
+  if (PRECACHE_URLS.has(url.origin + url.pathname)) {
+    event.respondWith(
+      caches.open(PRECACHE_NAME)
+        .then((cache) => cache.match(url.origin + url.pathname))
+        .then((response) => response || fetch(request))
+    );
+  }
+});
+
+// Handle background sync for offline transactions
+self.addEventListener('sync', (event) => {
+  if (event.tag === 'background-sync') {
+    event.waitUntil(doBackgroundSync());
+  }
+});
+
+// Offline transfer queue, written by src/lib/offlineQueue.ts
+const OFFLINE_DB_NAME = 'gyd-offline';
+const OFFLINE_DB_VERSION = 1;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('transfers')) {
+        db.createObjectStore('transfers', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('meta')) {
+        db.createObjectStore('meta', { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function offlineStore(db, storeName, mode, run) {
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Thrown for conditions that should leave the transfer queued for a later attempt
+class RetryLater extends Error {}
+
+async function supabaseRequest(session, path, body) {
+  let response;
+  try {
+    response = await fetch(session.supabaseUrl + path, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        apikey: session.apiKey,
+        Authorization: 'Bearer ' + session.accessToken,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  } catch (e) {
+    throw new RetryLater('Network unavailable');
+  }
+
+  // 429 is the firewall's rate limit, which clears by itself
+  if (response.status === 401 || response.status === 429 || response.status >= 500) {
+    throw new RetryLater('HTTP ' + response.status);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error((data && (data.message || data.error)) || 'Request failed with HTTP ' + response.status);
+  }
+  return data;
+}
+
+async function resolveRecipient(session, recipient) {
+  if (UUID_PATTERN.test(recipient)) return recipient;
+  if (!recipient.includes('@')) throw new Error('Invalid recipient');
+
+  const rows = await supabaseRequest(
+    session,
+    '/rest/v1/profiles?select=user_id&email=eq.' + encodeURIComponent(recipient)
+  );
+  if (!rows || rows.length === 0) throw new Error('Recipient not found');
+  return rows[0].user_id;
+}
+
+async function submitOfflineRequest(session, transfer) {
+  const recipientId = await resolveRecipient(session, transfer.recipient);
+
+  return supabaseRequest(session, '/rest/v1/rpc/create_payment_request', {
+    p_recipient_id: recipientId,
+    p_amount: transfer.amount,
+    p_description: transfer.description,
+    p_idempotency_key: transfer.id
+  });
+}
+
+async function reportOfflineResult(transfer, outcome, error) {
+  const label = transfer.type === 'send' ? 'Transfer' : 'Payment request';
+  const message = {
+    type: 'OFFLINE_QUEUE_UPDATED',
+    id: transfer.id,
+    outcome,
+    transferType: transfer.type,
+    amount: transfer.amount,
+    error
+  };
+
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client) => client.postMessage(message));
+
+  // Only notify when no window is open to show a toast
+  if (clientList.length === 0) {
+    try {
+      await self.registration.showNotification(
+        outcome === 'completed' ? label + ' sent' : label + ' failed',
+        {
+          body: outcome === 'completed'
+            ? 'Your offline ' + label.toLowerCase() + ' for $' + transfer.amount.toFixed(2) + ' was completed'
+            : error,
+          icon: '/icon-512x512.png',
+          tag: 'offline-' + transfer.id,
+          data: { type: 'transaction', url: '/?openHistory=true' }
+        }
+      );
+    } catch (e) {
+      // Notification permission was not granted
+    }
+  }
+}
+
+let offlineReplay = null;
+
+function doBackgroundSync() {
+  // Replays are serialised; a request arriving mid-run waits for the current one
+  offlineReplay = (offlineReplay || Promise.resolve())
+    .catch(() => {})
+    .then(replayOfflineTransfers);
+  return offlineReplay;
+}
+
+async function replayOfflineTransfers() {
+  const db = await openOfflineDb();
+  try {
+    const session = await offlineStore(db, 'meta', 'readonly', (store) => store.get('session'));
+    // The worker cannot refresh the session; wait for the app to store a fresh token
+    if (!session || session.expiresAt * 1000 < Date.now() + 30000) return;
+
+    // Queues written before PINs were left out kept them encrypted under this key
+    await offlineStore(db, 'meta', 'readwrite', (store) => store.delete('pinKey'));
+
+    const transfers = await offlineStore(db, 'transfers', 'readonly', (store) => store.getAll());
+    let retry = false;
+
+    for (const transfer of transfers) {
+      if (transfer.userId !== session.userId || transfer.status === 'failed') continue;
+      // Transfers wait for the user to confirm them with the PIN in the app
+      if (transfer.type === 'send') continue;
+
+      await offlineStore(db, 'transfers', 'readwrite', (store) => store.put({ ...transfer, status: 'submitting' }));
+
+      try {
+        const result = await submitOfflineRequest(session, transfer);
+
+        if (result && result.success) {
+          await offlineStore(db, 'transfers', 'readwrite', (store) => store.delete(transfer.id));
+          await reportOfflineResult(transfer, 'completed');
+          continue;
+        }
+
+        const error = (result && result.error) || 'Request was rejected';
+        if (error.includes('already being processed')) {
+          throw new RetryLater(error);
+        }
+
+        // Validation failures are final
+        await offlineStore(db, 'transfers', 'readwrite', (store) => store.put({ ...transfer, status: 'failed', error }));
+        await reportOfflineResult(transfer, 'failed', error);
+      } catch (e) {
+        if (e instanceof RetryLater) {
+          retry = true;
+          await offlineStore(db, 'transfers', 'readwrite', (store) => store.put({ ...transfer, status: 'queued' }));
+        } else {
+          await offlineStore(db, 'transfers', 'readwrite', (store) => store.put({ ...transfer, status: 'failed', error: e.message }));
+          await reportOfflineResult(transfer, 'failed', e.message);
+        }
+      }
+    }
+
+    // Rejecting makes the browser schedule another sync attempt
+    if (retry) throw new Error('Offline transfers are waiting for connectivity');
+  } finally {
+    db.close();
+  }
+}
+
+// Deep link and grouping tag for each notification type sent by dispatch-push
+function describeNotification(data) {
+  switch (data.type) {
+    case 'transaction':
+      return { url: '/?openHistory=true', tag: 'transaction-' + (data.transaction_id || '') };
+    case 'payment_request':
+      return { url: '/?openRequests=true', tag: 'payment-request-' + (data.request_id || '') };
+    case 'scheduled_transfer':
+      return { url: '/?openScheduled=true', tag: 'scheduled-transfer-' + (data.schedule_id || '') };
+    case 'merchant_sale':
+      return { url: '/?openMerchant=true', tag: 'merchant-sale-' + (data.request_id || '') };
+    case 'merchant_settlement':
+      return { url: '/?openMerchant=true', tag: 'merchant-settlement-' + (data.invite_id || '') };
+    case 'dispute':
+      return { url: '/?openHistory=true', tag: 'dispute-' + (data.dispute_id || '') };
+    case 'chat_message': {
+      const conversationId = data.conversation_id || data.conversationId || '';
+      return { url: '/?openChat=true&conversationId=' + encodeURIComponent(conversationId), tag: 'chat-' + conversationId };
+    }
+    case 'support_ticket':
+      return { url: '/?openSupport=true&ticketId=' + encodeURIComponent(data.ticket_id || ''), tag: 'ticket-' + (data.ticket_id || '') };
+    default:
+      return { url: '/', tag: 'default' };
+  }
+}
+
+// Handle push notifications
+self.addEventListener('push', (event) => {
+  let data = {
+    title: 'StableCoin Banking',
+    body: 'New notification',
+    icon: '/icon-512x512.png',
+    badge: '/icon-512x512.png',
+    data: {}
+  };
+
+  if (event.data) {
+    try {
+      const payload = event.data.json();
+      data = { ...data, ...payload };
+    } catch (e) {
+      data.body = event.data.text();
+    }
+  }
+
+  const { url, tag } = describeNotification(data.data || {});
+
+  const options = {
+    body: data.body,
+    icon: data.icon || '/icon-512x512.png',
+    badge: data.badge || '/icon-512x512.png',
+    tag,
+    renotify: tag !== 'default',
+    vibrate: [100, 50, 100],
+    data: { ...(data.data || {}), url },
+    actions: [
+      {
+        action: 'view',
+        title: 'View',
+        icon: '/icon-512x512.png'
+      },
+      {
+        action: 'close',
+        title: 'Dismiss',
+        icon: '/icon-512x512.png'
+      }
+    ]
+  };
+
+  event.waitUntil(
+    self.registration.showNotification(data.title, options)
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const data = event.notification.data || {};
+  
+  if (event.action === 'close') {
+    return;
+  }
+
+  const url = data.url || describeNotification(data).url;
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then((clientList) => {
+        // Focus existing window if available
+        for (const client of clientList) {
+          if (client.url.includes(self.location.origin) && 'focus' in client) {
+            client.navigate(url);
+            return client.focus();
+          }
+        }
+        // Open new window if no existing window
+        if (clients.openWindow) {
+          return clients.openWindow(url);
+        }
+      })
+  );
+});
+
+// The browser rotated the subscription; the app re-registers it on next launch
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then((clientList) => {
+        clientList.forEach((client) => client.postMessage({ type: 'PUSH_SUBSCRIPTION_CHANGED' }));
+      })
+  );
+});
+
+// Handle messages from the main thread
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SHOW_NOTIFICATION') {
+    const { title, options } = event.data;
+    self.registration.showNotification(title, options);
+  } else if (event.data && event.data.type === 'FLUSH_OFFLINE_QUEUE') {
+    event.waitUntil(doBackgroundSync().catch(() => {}));
+  } else if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
\ No newline at end of file
@@ -0,0 +1,163 @@
+// Minimal Ethereum JSON-RPC client for the GYD chain.
+// Plain fetch with no Supabase dependencies, so it can be pointed at a local stub node.
+
+let requestId = 0;
+
+export class RpcError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export async function jsonRpc<T = string>(
+  rpcUrl: string,
+  method: string,
+  params: unknown[] = [],
+  timeoutMs = 15000,
+): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', method, params, id: ++requestId }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new RpcError(`HTTP ${response.status} from RPC endpoint`);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new RpcError(data.error.message || 'RPC error', data.error.code);
+  }
+  return data.result as T;
+}
+
+export const hexToBigInt = (hex: string | null | undefined): bigint =>
+  hex && hex !== '0x' ? BigInt(hex) : 0n;
+
+export const toHexQuantity = (value: bigint | number): string =>
+  '0x' + BigInt(value).toString(16);
+
+const pad32 = (hex: string) => hex.replace(/^0x/, '').toLowerCase().padStart(64, '0');
+
+// balanceOf(address) selector
+const BALANCE_OF = '0x70a08231';
+
+export const encodeBalanceOf = (owner: string) => BALANCE_OF + pad32(owner);
+
+export async function getBlockNumber(rpcUrl: string): Promise<bigint> {
+  return hexToBigInt(await jsonRpc(rpcUrl, 'eth_blockNumber'));
+}
+
+export async function getChainId(rpcUrl: string): Promise<bigint> {
+  return hexToBigInt(await jsonRpc(rpcUrl, 'eth_chainId'));
+}
+
+/**
+ * ERC-20 balance of owner at the given block (defaults to latest)
+ */
+export async function getTokenBalance(
+  rpcUrl: string,
+  tokenAddress: string,
+  owner: string,
+  blockTag: string = 'latest',
+): Promise<bigint> {
+  const result = await jsonRpc(rpcUrl, 'eth_call', [
+    { to: tokenAddress, data: encodeBalanceOf(owner) },
+    blockTag,
+  ]);
+  return hexToBigInt(result);
+}
+
+/**
+ * Format base units as a decimal string, e.g. 1500000000000000000n with 18 decimals -> "1.5"
+ */
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+  const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? '.' + fraction : ''}`;
+}
+
+/**
+ * Parse a decimal amount into base units, rejecting more precision than the token has
+ */
+export function parseUnits(value: string | number, decimals: number): bigint {
+  const text = typeof value === 'number' ? value.toFixed(Math.min(decimals, 20)) : value.trim();
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  const trimmed = fraction.replace(/0+$/, '');
+  if (trimmed.length > decimals) {
+    throw new Error(`Amount ${value} has more than ${decimals} decimals`);
+  }
+  const units = BigInt(whole || '0') * 10n ** BigInt(decimals)
+    + BigInt(trimmed.padEnd(decimals, '0') || '0');
+  return sign ? -units : units;
+}
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export interface TransactionLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  removed?: boolean;
+}
+
+export interface TransactionReceipt {
+  status: string;
+  blockNumber: string;
+  blockHash: string;
+  from: string;
+  to: string | null;
+  transactionHash: string;
+  logs: TransactionLog[];
+}
+
+export async function getTransactionReceipt(rpcUrl: string, txHash: string): Promise<TransactionReceipt | null> {
+  return jsonRpc<TransactionReceipt | null>(rpcUrl, 'eth_getTransactionReceipt', [txHash]);
+}
+
+export async function getTransactionByHash(rpcUrl: string, txHash: string): Promise<Record<string, unknown> | null> {
+  return jsonRpc<Record<string, unknown> | null>(rpcUrl, 'eth_getTransactionByHash', [txHash]);
+}
+
+export async function getTransactionCount(rpcUrl: string, address: string, blockTag = 'latest'): Promise<bigint> {
+  return hexToBigInt(await jsonRpc(rpcUrl, 'eth_getTransactionCount', [address, blockTag]));
+}
+
+export interface LogFilter {
+  address: string;
+  topics: (string | string[] | null)[];
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * eth_getLogs over an inclusive block range
+ */
+export async function getLogs(rpcUrl: string, filter: LogFilter): Promise<TransactionLog[]> {
+  return jsonRpc<TransactionLog[]>(rpcUrl, 'eth_getLogs', [{
+    address: filter.address,
+    topics: filter.topics,
+    fromBlock: toHexQuantity(filter.fromBlock),
+    toBlock: toHexQuantity(filter.toBlock),
+  }], 30000);
+}
+
+/**
+ * Address held in an indexed 32-byte log topic
+ */
+export const topicToAddress = (topic: string) => '0x' + topic.slice(-40).toLowerCase();
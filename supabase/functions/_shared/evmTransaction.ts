@@ -0,0 +1,143 @@
+// Decoding of signed EIP-155 legacy transactions, the only kind the wallet signs.
+// The hash of a withdrawal is computed here from the exact bytes that get broadcast,
+// and the sender is recovered from the signature rather than taken from the client.
+
+import { secp256k1 } from 'npm:@noble/curves@1.9.7/secp256k1';
+import { keccak_256 } from 'npm:@noble/hashes@1.8.0/sha3';
+import { bytesToHex, concatBytes, hexToBytes } from 'npm:@noble/hashes@1.8.0/utils';
+
+type RlpItem = Uint8Array | RlpItem[];
+
+export interface DecodedTransaction {
+  hash: string;
+  from: string;
+  nonce: bigint;
+  gasPrice: bigint;
+  gasLimit: bigint;
+  to: string;
+  value: bigint;
+  data: string;
+  chainId: bigint;
+}
+
+// transfer(address,uint256) selector
+const TRANSFER_SELECTOR = 'a9059cbb';
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.length === 0 ? 0n : BigInt('0x' + bytesToHex(bytes));
+
+const bigintToBytes = (value: bigint): Uint8Array => {
+  if (value === 0n) return new Uint8Array(0);
+  const hex = value.toString(16);
+  return hexToBytes(hex.length % 2 ? '0' + hex : hex);
+};
+
+const readLength = (bytes: Uint8Array, offset: number, size: number): number => {
+  if (offset + size > bytes.length) throw new Error('Truncated RLP length');
+  return Number(bytesToBigInt(bytes.subarray(offset, offset + size)));
+};
+
+const decodeItem = (bytes: Uint8Array, offset: number): [RlpItem, number] => {
+  const prefix = bytes[offset];
+  if (prefix === undefined) throw new Error('Truncated RLP input');
+
+  if (prefix < 0x80) return [bytes.subarray(offset, offset + 1), offset + 1];
+
+  let start: number;
+  let length: number;
+  const isList = prefix >= 0xc0;
+  const base = isList ? 0xc0 : 0x80;
+
+  if (prefix - base < 56) {
+    start = offset + 1;
+    length = prefix - base;
+  } else {
+    const size = prefix - base - 55;
+    length = readLength(bytes, offset + 1, size);
+    start = offset + 1 + size;
+  }
+
+  const end = start + length;
+  if (end > bytes.length) throw new Error('Truncated RLP payload');
+
+  if (!isList) return [bytes.subarray(start, end), end];
+
+  const items: RlpItem[] = [];
+  let cursor = start;
+  while (cursor < end) {
+    const [item, next] = decodeItem(bytes, cursor);
+    items.push(item);
+    cursor = next;
+  }
+  if (cursor !== end) throw new Error('Malformed RLP list');
+  return [items, end];
+};
+
+const encodeLength = (length: number, offset: number): Uint8Array => {
+  if (length < 56) return Uint8Array.of(offset + length);
+  const lengthBytes = bigintToBytes(BigInt(length));
+  return concatBytes(Uint8Array.of(offset + 55 + lengthBytes.length), lengthBytes);
+};
+
+const rlpEncode = (input: RlpItem): Uint8Array => {
+  if (Array.isArray(input)) {
+    const payload = concatBytes(...input.map(rlpEncode));
+    return concatBytes(encodeLength(payload.length, 0xc0), payload);
+  }
+  if (input.length === 1 && input[0] < 0x80) return input;
+  return concatBytes(encodeLength(input.length, 0x80), input);
+};
+
+/**
+ * Decode a signed legacy transaction and recover its sender. Throws on anything else.
+ */
+export function decodeSignedTransaction(rawTransaction: string): DecodedTransaction {
+  if (!/^0x[0-9a-fA-F]+$/.test(rawTransaction) || rawTransaction.length % 2) {
+    throw new Error('Signed transaction must be hex');
+  }
+
+  const raw = hexToBytes(rawTransaction.slice(2));
+  const [decoded, end] = decodeItem(raw, 0);
+  if (end !== raw.length || !Array.isArray(decoded) || decoded.length !== 9) {
+    throw new Error('Not a signed legacy transaction');
+  }
+
+  const fields = decoded as Uint8Array[];
+  if (fields.some((field) => Array.isArray(field))) {
+    throw new Error('Not a signed legacy transaction');
+  }
+
+  const [nonce, gasPrice, gasLimit, to, value, data, vBytes, rBytes, sBytes] = fields;
+  if (to.length !== 20) throw new Error('Transaction has no recipient contract');
+
+  // EIP-155: v = recovery + chainId * 2 + 35
+  const v = bytesToBigInt(vBytes);
+  if (v < 35n) throw new Error('Transaction is not replay protected');
+  const chainId = (v - 35n) / 2n;
+  const recovery = Number(v - 35n - chainId * 2n);
+
+  const signingHash = keccak_256(rlpEncode([
+    nonce, gasPrice, gasLimit, to, value, data,
+    bigintToBytes(chainId), new Uint8Array(0), new Uint8Array(0),
+  ]));
+  const signature = new secp256k1.Signature(bytesToBigInt(rBytes), bytesToBigInt(sBytes)).addRecoveryBit(recovery);
+  const publicKey = signature.recoverPublicKey(signingHash).toRawBytes(false);
+
+  return {
+    hash: '0x' + bytesToHex(keccak_256(raw)),
+    from: '0x' + bytesToHex(keccak_256(publicKey.subarray(1)).subarray(-20)),
+    nonce: bytesToBigInt(nonce),
+    gasPrice: bytesToBigInt(gasPrice),
+    gasLimit: bytesToBigInt(gasLimit),
+    to: '0x' + bytesToHex(to),
+    value: bytesToBigInt(value),
+    data: '0x' + bytesToHex(data),
+    chainId,
+  };
+}
+
+/**
+ * Calldata for ERC-20 transfer(to, amount)
+ */
+export const encodeTokenTransfer = (to: string, amount: bigint): string =>
+  '0x' + TRANSFER_SELECTOR + to.replace(/^0x/i, '').toLowerCase().padStart(64, '0') + amount.toString(16).padStart(64, '0');
@@ -0,0 +1,57 @@
+// Offline country lookup against a MaxMind-format database (GeoLite2-Country.mmdb or
+// compatible). The file is read once per isolate, from GEOIP_DB_PATH when set or else
+// from the private "geoip" storage bucket, so lookups never leave the function.
+
+import { Buffer } from 'node:buffer';
+import { Reader } from 'npm:mmdb-lib@2.1.1';
+import type { CountryResponse } from 'npm:mmdb-lib@2.1.1';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const GEOIP_BUCKET = 'geoip';
+const DEFAULT_OBJECT = 'GeoLite2-Country.mmdb';
+
+let readerPromise: Promise<Reader<CountryResponse> | null> | null = null;
+
+async function loadReader(adminClient: SupabaseClient): Promise<Reader<CountryResponse> | null> {
+  try {
+    const path = Deno.env.get('GEOIP_DB_PATH');
+    let bytes: Uint8Array;
+
+    if (path) {
+      bytes = await Deno.readFile(path);
+    } else {
+      const objectName = Deno.env.get('GEOIP_DB_OBJECT') || DEFAULT_OBJECT;
+      const { data, error } = await adminClient.storage.from(GEOIP_BUCKET).download(objectName);
+      if (error || !data) {
+        console.warn(`GeoIP database ${GEOIP_BUCKET}/${objectName} unavailable; country rules are skipped`);
+        return null;
+      }
+      bytes = new Uint8Array(await data.arrayBuffer());
+    }
+
+    return new Reader<CountryResponse>(Buffer.from(bytes));
+  } catch (error) {
+    console.error('Failed to load GeoIP database:', error);
+    return null;
+  }
+}
+
+/**
+ * ISO 3166-1 alpha-2 code for an IP address, or null when the database is missing or
+ * has no entry (private ranges, for example).
+ */
+export async function lookupCountry(adminClient: SupabaseClient, ip: string): Promise<string | null> {
+  if (!readerPromise) {
+    readerPromise = loadReader(adminClient);
+  }
+
+  const reader = await readerPromise;
+  if (!reader) return null;
+
+  try {
+    const result = reader.get(ip);
+    return result?.country?.iso_code || result?.registered_country?.iso_code || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,394 @@
+// Push delivery providers for dispatch-push.
+// Each provider sends one message to one device token. PUSH_PROVIDER=mock swaps every
+// platform to MockPushProvider so the dispatcher can run against a local stub.
+
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+  // Web Push subscription keys; token is then the subscription endpoint
+  keys?: { p256dh: string; auth: string };
+}
+
+export type PushResult =
+  | { status: 'sent' }
+  | { status: 'invalid_token'; error: string }
+  | { status: 'error'; error: string };
+
+export interface PushProvider {
+  name: string;
+  send(message: PushMessage): Promise<PushResult>;
+}
+
+const base64Url = (input: ArrayBuffer | Uint8Array | string): string => {
+  const bytes = typeof input === 'string'
+    ? new TextEncoder().encode(input)
+    : input instanceof Uint8Array ? input : new Uint8Array(input);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (input: string): Uint8Array =>
+  Uint8Array.from(atob(input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=')), (c) => c.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const pemToDer = (pem: string): ArrayBuffer => {
+  const body = pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+  return Uint8Array.from(atob(body), (c) => c.charCodeAt(0)).buffer;
+};
+
+async function signJwt(
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  algorithm: AlgorithmIdentifier | EcdsaParams,
+): Promise<string> {
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign(algorithm, key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64Url(signature)}`;
+}
+
+interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+}
+
+/**
+ * Firebase Cloud Messaging HTTP v1, authenticated with a service account
+ */
+export class FcmPushProvider implements PushProvider {
+  name = 'fcm';
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(private account: ServiceAccount) {}
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'pkcs8',
+      pemToDer(this.account.private_key),
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await signJwt(
+      { alg: 'RS256', typ: 'JWT' },
+      {
+        iss: this.account.client_email,
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+        aud: 'https://oauth2.googleapis.com/token',
+        iat: now,
+        exp: now + 3600,
+      },
+      key,
+      { name: 'RSASSA-PKCS1-v1_5' },
+    );
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`FCM auth failed: HTTP ${response.status}`);
+    }
+
+    const { access_token, expires_in } = await response.json();
+    this.accessToken = { value: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return access_token;
+  }
+
+  async send(message: PushMessage): Promise<PushResult> {
+    const response = await fetch(
+      `https://fcm.googleapis.com/v1/projects/${this.account.project_id}/messages:send`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: { title: message.title, body: message.body },
+            data: message.data,
+          },
+        }),
+      },
+    );
+
+    if (response.ok) return { status: 'sent' };
+
+    const text = await response.text();
+    if (response.status === 404 || text.includes('UNREGISTERED')) {
+      return { status: 'invalid_token', error: text };
+    }
+    return { status: 'error', error: `HTTP ${response.status}: ${text}` };
+  }
+}
+
+interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  privateKey: string;
+  topic: string;
+  production: boolean;
+}
+
+/**
+ * Apple Push Notification service with token-based (.p8) authentication
+ */
+export class ApnsPushProvider implements PushProvider {
+  name = 'apns';
+  private providerToken: { value: string; issuedAt: number } | null = null;
+
+  constructor(private config: ApnsConfig) {}
+
+  private async getProviderToken(): Promise<string> {
+    // Apple rejects provider tokens older than an hour
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < 50 * 60_000) {
+      return this.providerToken.value;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'pkcs8',
+      pemToDer(this.config.privateKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign'],
+    );
+    const value = await signJwt(
+      { alg: 'ES256', kid: this.config.keyId },
+      { iss: this.config.teamId, iat: Math.floor(Date.now() / 1000) },
+      key,
+      { name: 'ECDSA', hash: 'SHA-256' },
+    );
+    this.providerToken = { value, issuedAt: Date.now() };
+    return value;
+  }
+
+  async send(message: PushMessage): Promise<PushResult> {
+    const host = this.config.production ? 'api.push.apple.com' : 'api.sandbox.push.apple.com';
+    const response = await fetch(`https://${host}/3/device/${message.token}`, {
+      method: 'POST',
+      headers: {
+        authorization: `bearer ${await this.getProviderToken()}`,
+        'apns-topic': this.config.topic,
+        'apns-push-type': 'alert',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        aps: { alert: { title: message.title, body: message.body }, sound: 'default' },
+        ...message.data,
+      }),
+    });
+
+    if (response.ok) return { status: 'sent' };
+
+    const text = await response.text();
+    if (response.status === 410 || text.includes('BadDeviceToken') || text.includes('Unregistered')) {
+      return { status: 'invalid_token', error: text };
+    }
+    return { status: 'error', error: `HTTP ${response.status}: ${text}` };
+  }
+}
+
+interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+const hkdf = async (salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, bytes: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, bytes * 8));
+};
+
+/**
+ * Web Push with VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291)
+ */
+export class WebPushProvider implements PushProvider {
+  name = 'webpush';
+  private signingKey: Promise<CryptoKey> | null = null;
+
+  constructor(private vapid: VapidConfig) {}
+
+  private getSigningKey(): Promise<CryptoKey> {
+    if (!this.signingKey) {
+      // The public key is the uncompressed point 0x04 || x || y
+      const publicKey = fromBase64Url(this.vapid.publicKey);
+      this.signingKey = crypto.subtle.importKey(
+        'jwk',
+        {
+          kty: 'EC',
+          crv: 'P-256',
+          x: base64Url(publicKey.slice(1, 33)),
+          y: base64Url(publicKey.slice(33, 65)),
+          d: this.vapid.privateKey,
+        },
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign'],
+      );
+    }
+    return this.signingKey;
+  }
+
+  private async encrypt(payload: Uint8Array, p256dh: string, auth: string): Promise<Uint8Array> {
+    const uaPublic = fromBase64Url(p256dh);
+    const authSecret = fromBase64Url(auth);
+
+    const local = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+    const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', local.publicKey));
+    const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, local.privateKey, 256));
+
+    const encoder = new TextEncoder();
+    const ikm = await hkdf(authSecret, ecdhSecret, concat(encoder.encode('WebPush: info\0'), uaPublic, asPublic), 32);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+    const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+    // Single record: the payload followed by the 0x02 last-record delimiter
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(payload, Uint8Array.of(2))),
+    );
+
+    const recordSize = Uint8Array.of(0, 0, 0x10, 0);
+    return concat(salt, recordSize, Uint8Array.of(asPublic.length), asPublic, ciphertext);
+  }
+
+  async send(message: PushMessage): Promise<PushResult> {
+    if (!message.keys) {
+      return { status: 'invalid_token', error: 'Subscription has no encryption keys' };
+    }
+
+    const jwt = await signJwt(
+      { typ: 'JWT', alg: 'ES256' },
+      {
+        aud: new URL(message.token).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 3600,
+        sub: this.vapid.subject,
+      },
+      await this.getSigningKey(),
+      { name: 'ECDSA', hash: 'SHA-256' },
+    );
+
+    const payload = new TextEncoder().encode(JSON.stringify({
+      title: message.title,
+      body: message.body,
+      tag: message.data.type || 'default',
+      data: message.data,
+    }));
+
+    const response = await fetch(message.token, {
+      method: 'POST',
+      headers: {
+        Authorization: `vapid t=${jwt}, k=${this.vapid.publicKey}`,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: '86400',
+        Urgency: 'high',
+      },
+      body: await this.encrypt(payload, message.keys.p256dh, message.keys.auth),
+    });
+
+    if (response.ok) return { status: 'sent' };
+
+    const text = await response.text();
+    if (response.status === 404 || response.status === 410) {
+      return { status: 'invalid_token', error: text || `HTTP ${response.status}` };
+    }
+    return { status: 'error', error: `HTTP ${response.status}: ${text}` };
+  }
+}
+
+/**
+ * Records messages instead of delivering them. Tokens starting with "invalid" are reported
+ * as unregistered; PUSH_MOCK_URL, when set, receives each message as a JSON POST.
+ */
+export class MockPushProvider implements PushProvider {
+  name = 'mock';
+  sent: PushMessage[] = [];
+
+  constructor(private sinkUrl?: string) {}
+
+  async send(message: PushMessage): Promise<PushResult> {
+    if (message.token.startsWith('invalid')) {
+      return { status: 'invalid_token', error: 'Mock token is unregistered' };
+    }
+
+    this.sent.push(message);
+    if (this.sinkUrl) {
+      const response = await fetch(this.sinkUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+      if (!response.ok) return { status: 'error', error: `HTTP ${response.status} from mock sink` };
+    }
+    return { status: 'sent' };
+  }
+}
+
+/**
+ * Providers per platform from the environment. Platforms without a configured provider are absent.
+ */
+export function createPushProviders(): Partial<Record<string, PushProvider>> {
+  if (Deno.env.get('PUSH_PROVIDER') === 'mock') {
+    const mock = new MockPushProvider(Deno.env.get('PUSH_MOCK_URL'));
+    return { android: mock, ios: mock, web: mock };
+  }
+
+  const providers: Partial<Record<string, PushProvider>> = {};
+
+  const serviceAccount = Deno.env.get('FCM_SERVICE_ACCOUNT');
+  if (serviceAccount) {
+    const fcm = new FcmPushProvider(JSON.parse(serviceAccount));
+    providers.android = fcm;
+    providers.ios = fcm;
+  }
+
+  // iOS builds that register with APNs directly (no Firebase SDK) hand out raw APNs tokens
+  const apnsKeyId = Deno.env.get('APNS_KEY_ID');
+  if (apnsKeyId) {
+    providers.ios = new ApnsPushProvider({
+      keyId: apnsKeyId,
+      teamId: Deno.env.get('APNS_TEAM_ID')!,
+      privateKey: Deno.env.get('APNS_PRIVATE_KEY')!,
+      topic: Deno.env.get('APNS_TOPIC')!,
+      production: Deno.env.get('APNS_PRODUCTION') === 'true',
+    });
+  }
+
+  const vapidPublicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  if (vapidPublicKey) {
+    providers.web = new WebPushProvider({
+      publicKey: vapidPublicKey,
+      privateKey: Deno.env.get('VAPID_PRIVATE_KEY')!,
+      subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:support@example.com',
+    });
+  }
+
+  return providers;
+}
@@ -0,0 +1,325 @@
+// Request guard
+// Evaluates the admin-managed firewall_rules before a function does any work:
+//   ip_whitelist       trusted IPs/CIDRs; skip every other rule (and, when the
+//                      "ip_whitelist_enforced" setting is on, the only IPs allowed)
+//   ip_blacklist       IPs/CIDRs that are always refused
+//   country_whitelist  ISO country codes allowed when any are listed
+//   country_blacklist  ISO country codes that are refused
+//   rate_limit         "<count>/<sec|min|hour>" per client IP, optionally scoped to one
+//                      function with "@<function-name>", e.g. "20/min@transfer-gateway"
+// Calls made with the service role key (cron jobs, other functions) are not filtered.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { lookupCountry } from './geoip.ts';
+
+// Rules change rarely, so each isolate re-reads them at most this often
+const RULES_TTL_MS = 30_000;
+
+interface FirewallRule {
+  id: string;
+  rule_type: 'ip_whitelist' | 'ip_blacklist' | 'country_whitelist' | 'country_blacklist' | 'rate_limit';
+  rule_value: string;
+}
+
+interface FirewallConfig {
+  rules: FirewallRule[];
+  whitelistEnforced: boolean;
+  loadedAt: number;
+}
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+  functionName: string | null;
+}
+
+export interface GuardOptions {
+  corsHeaders: Record<string, string>;
+  functionName: string;
+}
+
+let cachedConfig: FirewallConfig | null = null;
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  let address = ip.split('%')[0].toLowerCase();
+
+  // Trailing dotted quad, e.g. ::ffff:192.0.2.1
+  const lastColon = address.lastIndexOf(':');
+  if (address.indexOf('.', lastColon) !== -1) {
+    const v4 = parseIPv4(address.slice(lastColon + 1));
+    if (v4 === null) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+function parseIp(ip: string): ParsedIp | null {
+  if (!ip.includes(':')) {
+    const value = parseIPv4(ip);
+    return value === null ? null : { version: 4, value };
+  }
+
+  const value = parseIPv6(ip);
+  if (value === null) return null;
+
+  // IPv4-mapped addresses are matched against IPv4 rules
+  if (value >> 32n === 0xffffn) {
+    return { version: 4, value: value & 0xffffffffn };
+  }
+  return { version: 6, value };
+}
+
+/**
+ * Whether an address matches a rule value: a single IP or a CIDR block
+ */
+export function ipMatches(ip: string, ruleValue: string): boolean {
+  const client = parseIp(ip);
+  if (!client) return false;
+
+  const [network, prefixText] = ruleValue.trim().split('/');
+  const target = parseIp(network);
+  if (!target || target.version !== client.version) return false;
+
+  const bits = client.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false;
+
+  const shift = BigInt(bits - prefix);
+  return client.value >> shift === target.value >> shift;
+}
+
+function parseRateLimit(ruleValue: string): RateLimit | null {
+  const match = ruleValue.trim().match(/^(\d+)\s*(?:\/\s*(s|sec|second|m|min|minute|h|hr|hour))?\s*(?:@\s*([\w-]+))?$/i);
+  if (!match) return null;
+
+  const limit = parseInt(match[1], 10);
+  const unit = (match[2] || 'min').toLowerCase();
+  const windowSeconds = unit.startsWith('s') ? 1 : unit.startsWith('h') ? 3600 : 60;
+  if (limit <= 0) return null;
+
+  return { limit, windowSeconds, functionName: match[3] || null };
+}
+
+/**
+ * Client address as seen by the platform proxy. Clients can send any X-Forwarded-For,
+ * cf-connecting-ip or x-real-ip they like, so only the hop the proxy appended is used:
+ * the right-most one, or further left when TRUSTED_PROXY_HOPS says more proxies sit in
+ * front of the function.
+ */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (!forwarded) return null;
+
+  const hops = forwarded.split(',').map((hop) => hop.trim()).filter(Boolean);
+  const trustedHops = Math.max(parseInt(Deno.env.get('TRUSTED_PROXY_HOPS') || '1', 10) || 1, 1);
+  return hops[hops.length - trustedHops] || null;
+}
+
+async function loadConfig(adminClient: ReturnType<typeof createClient>): Promise<FirewallConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.loadedAt < RULES_TTL_MS) {
+    return cachedConfig;
+  }
+
+  const [{ data: rules, error: rulesError }, { data: setting }] = await Promise.all([
+    adminClient
+      .from('firewall_rules')
+      .select('id, rule_type, rule_value')
+      .eq('enabled', true),
+    adminClient
+      .from('system_settings')
+      .select('setting_value')
+      .eq('setting_key', 'ip_whitelist_enforced')
+      .maybeSingle(),
+  ]);
+
+  if (rulesError) throw rulesError;
+
+  cachedConfig = {
+    rules: (rules || []) as FirewallRule[],
+    whitelistEnforced: setting?.setting_value === 'true',
+    loadedAt: Date.now(),
+  };
+  return cachedConfig;
+}
+
+/**
+ * Check a request against the firewall. Returns the 403/429 response to send back, or
+ * null when the request may proceed.
+ */
+export async function guardRequest(req: Request, options: GuardOptions): Promise<Response | null> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`) {
+    return null;
+  }
+
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  const respond = (status: number, body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify({ success: false, ...body }), {
+      status,
+      headers: { ...options.corsHeaders, ...headers, 'Content-Type': 'application/json' },
+    });
+
+  const ip = getClientIp(req);
+
+  const logBlock = async (actionType: string, reason: string, country: string | null) => {
+    const { error } = await adminClient.from('activity_logs').insert({
+      user_id: null,
+      action_type: actionType,
+      description: `${options.functionName}: ${reason} (ip ${ip || 'unknown'}${country ? `, ${country}` : ''})`,
+      ip_address: ip,
+      user_agent: req.headers.get('user-agent'),
+    });
+    if (error) console.error('Error logging firewall block:', error);
+  };
+
+  try {
+    const config = await loadConfig(adminClient);
+    if (config.rules.length === 0 && !config.whitelistEnforced) {
+      return null;
+    }
+
+    const rulesOfType = (type: FirewallRule['rule_type']) =>
+      config.rules.filter((rule) => rule.rule_type === type);
+
+    if (ip && rulesOfType('ip_whitelist').some((rule) => ipMatches(ip, rule.rule_value))) {
+      return null;
+    }
+
+    if (config.whitelistEnforced) {
+      await logBlock('FIREWALL_BLOCKED', 'address is not whitelisted', null);
+      return respond(403, {
+        error: 'Access from this network is not allowed',
+        code: 'FIREWALL_BLOCKED',
+        reason: 'ip_not_whitelisted',
+      });
+    }
+
+    if (!ip) {
+      return null;
+    }
+
+    const blacklisted = rulesOfType('ip_blacklist').find((rule) => ipMatches(ip, rule.rule_value));
+    if (blacklisted) {
+      await logBlock('FIREWALL_BLOCKED', `address matches blacklist ${blacklisted.rule_value}`, null);
+      return respond(403, {
+        error: 'Access from this network is not allowed',
+        code: 'FIREWALL_BLOCKED',
+        reason: 'ip_blacklist',
+        rule_id: blacklisted.id,
+      });
+    }
+
+    const countryWhitelist = rulesOfType('country_whitelist');
+    const countryBlacklist = rulesOfType('country_blacklist');
+    if (countryWhitelist.length > 0 || countryBlacklist.length > 0) {
+      // Unresolvable addresses are not judged on country
+      const country = await lookupCountry(adminClient, ip);
+      const sameCountry = (rule: FirewallRule) => rule.rule_value.trim().toUpperCase() === country;
+
+      if (country) {
+        const blockedCountry = countryBlacklist.find(sameCountry);
+        if (blockedCountry) {
+          await logBlock('FIREWALL_BLOCKED', `country ${country} is blacklisted`, country);
+          return respond(403, {
+            error: 'Access from your region is not allowed',
+            code: 'FIREWALL_BLOCKED',
+            reason: 'country_blacklist',
+            rule_id: blockedCountry.id,
+          });
+        }
+
+        if (countryWhitelist.length > 0 && !countryWhitelist.some(sameCountry)) {
+          await logBlock('FIREWALL_BLOCKED', `country ${country} is not whitelisted`, country);
+          return respond(403, {
+            error: 'Access from your region is not allowed',
+            code: 'FIREWALL_BLOCKED',
+            reason: 'country_not_whitelisted',
+          });
+        }
+      }
+    }
+
+    for (const rule of rulesOfType('rate_limit')) {
+      const rateLimit = parseRateLimit(rule.rule_value);
+      if (!rateLimit) {
+        console.warn(`Ignoring malformed rate_limit rule ${rule.id}: ${rule.rule_value}`);
+        continue;
+      }
+      if (rateLimit.functionName && rateLimit.functionName !== options.functionName) continue;
+
+      const { data, error } = await adminClient.rpc('firewall_register_hit', {
+        p_bucket_key: `${rule.id}:${ip}`,
+        p_window_seconds: rateLimit.windowSeconds,
+      });
+      if (error) throw error;
+
+      const { hits, reset_at } = data as { hits: number; reset_at: string };
+      if (hits > rateLimit.limit) {
+        const retryAfter = Math.max(1, Math.ceil((new Date(reset_at).getTime() - Date.now()) / 1000));
+        // One log entry per client and window is enough
+        if (hits === rateLimit.limit + 1) {
+          await logBlock('RATE_LIMITED', `more than ${rule.rule_value}`, null);
+        }
+        return respond(
+          429,
+          {
+            error: 'Too many requests. Please slow down and try again shortly.',
+            code: 'RATE_LIMITED',
+            reason: 'rate_limit',
+            rule_id: rule.id,
+            retry_after: retryAfter,
+          },
+          { 'Retry-After': String(retryAfter) }
+        );
+      }
+    }
+
+    return null;
+  } catch (error) {
+    // A broken rule store must not take every function down with it
+    console.error('Firewall evaluation failed; allowing request:', error);
+    return null;
+  }
+}
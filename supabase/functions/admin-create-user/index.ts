@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +20,9 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'admin-create-user' });
+  if (blocked) return blocked;
+
   try {
     // Validate authorization
     const authHeader = req.headers.get('Authorization');
@@ -160,7 +164,6 @@ Deno.serve(async (req) => {
         email,
         full_name,
         role,
-        balance: initial_balance,
       });
 
     if (profileInsertError) {
@@ -177,6 +180,21 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Credit the initial balance through the ledger (profiles.balance is a cached view of it)
+    if (initial_balance > 0) {
+      const { data: adjustment, error: adjustmentError } = await userClient.rpc('admin_adjust_balance', {
+        p_user_id: newUser.user.id,
+        p_amount: initial_balance,
+        p_type: 'ADD',
+        p_reason: 'Initial balance on account creation',
+      });
+
+      if (adjustmentError || !adjustment?.success) {
+        console.error('Error crediting initial balance:', adjustmentError || adjustment?.error);
+        // Non-critical, the admin can add funds from Fund Management
+      }
+    }
+
     // Create wallet vault for the new user
     const { error: vaultError } = await adminClient
       .from('wallet_vault')
@@ -0,0 +1,459 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Client } from 'https://deno.land/x/postgres@v0.19.3/mod.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Bump when the archive layout changes; restore refuses versions it does not know
+const FORMAT_VERSION = 1;
+const BUCKET = 'database-backups';
+const PAGE_SIZE = 1000;
+
+// Exported in this order so a restore can insert parents before children
+const BACKUP_TABLES = [
+  'profiles',
+  'user_roles',
+  'system_settings',
+  'blockchain_networks',
+  'bank_treasury',
+  'treasury_withdrawals',
+  'transactions',
+  'payment_requests',
+  'fund_logs',
+  'fund_chain_tracking',
+  'ledger_accounts',
+  'ledger_journal_entries',
+  'ledger_postings',
+  'onchain_withdrawals',
+  'onchain_deposits',
+  'account_status_history',
+  'activity_logs',
+];
+
+interface RestoreTarget {
+  host: string;
+  port?: number;
+  database: string;
+  user: string;
+  password?: string;
+}
+
+interface BackupRequest {
+  action: 'backup' | 'restore' | 'test_connection';
+  backup_id?: string;
+  target?: RestoreTarget;
+}
+
+interface BackupArchive {
+  format: 'vvb-backup';
+  format_version: number;
+  created_at: string;
+  tables: Record<string, { columns: string[]; rows: Record<string, unknown>[] }>;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: Uint8Array) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+const gzip = async (text: string) => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const gunzip = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+};
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Column types for the verification copy are inferred from the exported JSON values
+const inferColumnType = (rows: Record<string, unknown>[], column: string) => {
+  let type: string | null = null;
+  for (const row of rows) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    const current = typeof value === 'number' ? 'numeric'
+      : typeof value === 'boolean' ? 'boolean'
+      : typeof value === 'object' ? 'jsonb'
+      : 'text';
+    if (type && type !== current) return 'text';
+    type = current;
+  }
+  return type || 'text';
+};
+
+const exportTable = async (client: SupabaseClient, table: string) => {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select('*')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to export ${table}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return { columns, rows };
+};
+
+const connectTarget = async (target?: RestoreTarget) => {
+  const fallbackUrl = Deno.env.get('BACKUP_RESTORE_DB_URL');
+  if (!target?.host && !fallbackUrl) {
+    throw new Error('No restore target configured');
+  }
+
+  const client = target?.host
+    ? new Client({
+        hostname: target.host,
+        port: target.port || 5432,
+        database: target.database,
+        user: target.user,
+        password: target.password,
+        tls: { enabled: false },
+      })
+    : new Client(fallbackUrl);
+
+  await client.connect();
+  return client;
+};
+
+const describeTarget = (target?: RestoreTarget) => {
+  if (target?.host) return { host: target.host, database: target.database };
+  const fallbackUrl = Deno.env.get('BACKUP_RESTORE_DB_URL');
+  if (!fallbackUrl) throw new Error('No restore target configured');
+  const url = new URL(fallbackUrl);
+  return { host: url.hostname, database: url.pathname.replace(/^\//, '') };
+};
+
+const createBackup = async (adminClient: SupabaseClient, adminUserId: string) => {
+  const startedAt = new Date();
+  const backupName = `backup_${startedAt.toISOString().replace(/[:.]/g, '-')}`;
+
+  const { data: record, error: recordError } = await adminClient
+    .from('database_backups')
+    .insert({
+      backup_name: backupName,
+      backup_type: 'full',
+      format_version: FORMAT_VERSION,
+      created_by: adminUserId,
+      started_at: startedAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (recordError) throw recordError;
+
+  try {
+    const archive: BackupArchive = {
+      format: 'vvb-backup',
+      format_version: FORMAT_VERSION,
+      created_at: startedAt.toISOString(),
+      tables: {},
+    };
+    const rowCounts: Record<string, number> = {};
+
+    for (const table of BACKUP_TABLES) {
+      archive.tables[table] = await exportTable(adminClient, table);
+      rowCounts[table] = archive.tables[table].rows.length;
+    }
+
+    const compressed = await gzip(JSON.stringify(archive));
+    const checksum = await sha256(compressed);
+    const storagePath = `v${FORMAT_VERSION}/${backupName}.json.gz`;
+
+    const { error: uploadError } = await adminClient.storage
+      .from(BUCKET)
+      .upload(storagePath, compressed, { contentType: 'application/gzip' });
+
+    if (uploadError) throw uploadError;
+
+    const { data: completed, error: updateError } = await adminClient
+      .from('database_backups')
+      .update({
+        status: 'completed',
+        storage_path: storagePath,
+        file_size_bytes: compressed.byteLength,
+        checksum_sha256: checksum,
+        table_row_counts: rowCounts,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', record.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await adminClient.from('activity_logs').insert({
+      user_id: adminUserId,
+      action_type: 'DATABASE_BACKUP_CREATED',
+      description: `Created backup ${backupName} (${compressed.byteLength} bytes, sha256 ${checksum})`,
+    });
+
+    return completed;
+  } catch (error) {
+    await adminClient
+      .from('database_backups')
+      .update({ status: 'failed', error_message: (error as Error).message, completed_at: new Date().toISOString() })
+      .eq('id', record.id);
+    throw error;
+  }
+};
+
+const restoreBackup = async (
+  adminClient: SupabaseClient,
+  adminUserId: string,
+  backupId: string,
+  target?: RestoreTarget,
+) => {
+  const { data: backup, error: backupError } = await adminClient
+    .from('database_backups')
+    .select('*')
+    .eq('id', backupId)
+    .single();
+
+  if (backupError || !backup) throw new Error('Backup not found');
+  if (backup.status !== 'completed') throw new Error('Only completed backups can be restored');
+
+  const targetInfo = describeTarget(target);
+  const schema = `restore_${backup.backup_name.replace(/[^a-z0-9_]/gi, '_').toLowerCase()}`;
+
+  const { data: run, error: runError } = await adminClient
+    .from('database_backup_restores')
+    .insert({
+      backup_id: backup.id,
+      target_host: targetInfo.host,
+      target_database: targetInfo.database,
+      target_schema: schema,
+      requested_by: adminUserId,
+    })
+    .select()
+    .single();
+
+  if (runError) throw runError;
+
+  let pg: Client | null = null;
+  try {
+    const { data: file, error: downloadError } = await adminClient.storage
+      .from(BUCKET)
+      .download(backup.storage_path);
+
+    if (downloadError || !file) throw new Error('Failed to download backup archive');
+
+    const compressed = new Uint8Array(await file.arrayBuffer());
+    const checksum = await sha256(compressed);
+    if (checksum !== backup.checksum_sha256) {
+      throw new Error(`Checksum mismatch: expected ${backup.checksum_sha256}, got ${checksum}`);
+    }
+
+    const archive: BackupArchive = JSON.parse(await gunzip(compressed));
+    if (archive.format !== 'vvb-backup' || archive.format_version > FORMAT_VERSION) {
+      throw new Error(`Unsupported backup format version ${archive.format_version}`);
+    }
+
+    pg = await connectTarget(target);
+    const restoredCounts: Record<string, number> = {};
+
+    // Restore into a fresh schema so the target's own tables are never touched
+    const transaction = pg.createTransaction(`restore_${run.id.replace(/-/g, '')}`);
+    await transaction.begin();
+    await transaction.queryArray(`DROP SCHEMA IF EXISTS ${quoteIdent(schema)} CASCADE`);
+    await transaction.queryArray(`CREATE SCHEMA ${quoteIdent(schema)}`);
+
+    for (const [table, { columns, rows }] of Object.entries(archive.tables)) {
+      const qualified = `${quoteIdent(schema)}.${quoteIdent(table)}`;
+      const columnDefs = columns.length > 0
+        ? columns.map((c) => `${quoteIdent(c)} ${inferColumnType(rows, c)}`).join(', ')
+        : 'id text';
+      await transaction.queryArray(`CREATE TABLE ${qualified} (${columnDefs})`);
+
+      // Batches keep each statement well under the bind parameter limit
+      const batchSize = Math.max(1, Math.floor(30000 / Math.max(columns.length, 1)));
+      for (let i = 0; i < rows.length; i += batchSize) {
+        const batch = rows.slice(i, i + batchSize);
+        const args: unknown[] = [];
+        const values = batch.map((row) =>
+          `(${columns.map((c) => {
+            const value = row[c];
+            args.push(value !== null && typeof value === 'object' ? JSON.stringify(value) : value ?? null);
+            return `$${args.length}`;
+          }).join(', ')})`
+        );
+        await transaction.queryArray(
+          `INSERT INTO ${qualified} (${columns.map(quoteIdent).join(', ')}) VALUES ${values.join(', ')}`,
+          args,
+        );
+      }
+
+      const { rows: [[count]] } = await transaction.queryArray<[bigint]>(`SELECT count(*) FROM ${qualified}`);
+      restoredCounts[table] = Number(count);
+    }
+
+    await transaction.commit();
+
+    const countMismatches = Object.entries(backup.table_row_counts as Record<string, number>)
+      .filter(([table, expected]) => restoredCounts[table] !== expected)
+      .map(([table, expected]) => ({ table, expected, restored: restoredCounts[table] ?? 0 }));
+
+    const verification: Record<string, unknown> = { count_mismatches: countMismatches };
+
+    // The restored ledger must still balance and agree with the cached profile balances
+    if (archive.tables.ledger_postings && archive.tables.ledger_accounts && archive.tables.profiles) {
+      const s = quoteIdent(schema);
+      const { rows: [[unbalanced]] } = await pg.queryArray<[bigint]>(
+        `SELECT count(*) FROM (
+           SELECT journal_entry_id FROM ${s}.ledger_postings
+           GROUP BY journal_entry_id
+           HAVING SUM(amount::numeric) <> 0
+         ) e`,
+      );
+      const { rows: [[mismatched]] } = await pg.queryArray<[bigint]>(
+        `SELECT count(*) FROM ${s}.profiles p
+         LEFT JOIN (
+           SELECT la.user_id, SUM(lp.amount::numeric) AS ledger_balance
+           FROM ${s}.ledger_accounts la
+           JOIN ${s}.ledger_postings lp ON lp.account_id = la.id
+           WHERE la.user_id IS NOT NULL
+           GROUP BY la.user_id
+         ) l ON l.user_id = p.user_id
+         WHERE COALESCE(p.balance::numeric, 0) <> COALESCE(l.ledger_balance, 0)`,
+      );
+      verification.unbalanced_journal_entries = Number(unbalanced);
+      verification.profile_balance_mismatches = Number(mismatched);
+    }
+
+    const verified = countMismatches.length === 0
+      && !verification.unbalanced_journal_entries
+      && !verification.profile_balance_mismatches;
+
+    const { data: completed, error: updateError } = await adminClient
+      .from('database_backup_restores')
+      .update({
+        status: verified ? 'verified' : 'failed',
+        checksum_verified: true,
+        restored_row_counts: restoredCounts,
+        verification,
+        error_message: verified ? null : 'Restored data did not pass verification',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await adminClient.from('activity_logs').insert({
+      user_id: adminUserId,
+      action_type: 'DATABASE_BACKUP_RESTORED',
+      description: `Restored backup ${backup.backup_name} into ${targetInfo.host}/${targetInfo.database} schema ${schema}: ${verified ? 'verified' : 'verification failed'}`,
+    });
+
+    return completed;
+  } catch (error) {
+    await adminClient
+      .from('database_backup_restores')
+      .update({ status: 'failed', error_message: (error as Error).message, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+    throw error;
+  } finally {
+    await pg?.end();
+  }
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'database-backup' });
+  if (blocked) return blocked;
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await userClient.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const adminUserId = claimsData.claims.sub;
+
+    const { data: isAdmin } = await userClient.rpc('has_role', {
+      _user_id: adminUserId,
+      _role: 'admin',
+    });
+
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: 'Only administrators can manage backups' }, 403);
+    }
+
+    // Service role is needed to read every user's rows and to write the backup bucket
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const body: BackupRequest = await req.json();
+
+    switch (body.action) {
+      case 'backup': {
+        const backup = await createBackup(adminClient, adminUserId);
+        return jsonResponse({ success: true, backup });
+      }
+      case 'restore': {
+        if (!body.backup_id) {
+          return jsonResponse({ success: false, error: 'backup_id is required' }, 400);
+        }
+        const restore = await restoreBackup(adminClient, adminUserId, body.backup_id, body.target);
+        return jsonResponse({ success: restore.status === 'verified', restore, error: restore.error_message });
+      }
+      case 'test_connection': {
+        const pg = await connectTarget(body.target);
+        try {
+          const { rows: [[version]] } = await pg.queryArray<[string]>('SELECT version()');
+          return jsonResponse({ success: true, version });
+        } finally {
+          await pg.end();
+        }
+      }
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Database backup error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
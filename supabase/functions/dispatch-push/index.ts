@@ -0,0 +1,192 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createPushProviders } from '../_shared/pushProvider.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 100;
+// Notifications that keep failing are given up on after this many runs
+const MAX_ATTEMPTS = 5;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface QueuedNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  attempts: number;
+}
+
+interface DeviceToken {
+  id: string;
+  user_id: string;
+  token: string;
+  platform: string;
+  p256dh: string | null;
+  auth_secret: string | null;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'dispatch-push' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs use the service role key; otherwise only admins may drain the queue
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const providers = createPushProviders();
+
+    const { data: queued, error: queuedError } = await adminClient
+      .from('push_notifications')
+      .select('id, user_id, title, body, data, attempts')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (queuedError) throw queuedError;
+
+    const notifications = (queued || []) as QueuedNotification[];
+    const userIds = [...new Set(notifications.map((n) => n.user_id))];
+
+    const devicesByUser = new Map<string, DeviceToken[]>();
+    if (userIds.length > 0) {
+      const { data: devices, error: devicesError } = await adminClient
+        .from('device_tokens')
+        .select('id, user_id, token, platform, p256dh, auth_secret')
+        .in('user_id', userIds)
+        .is('revoked_at', null);
+
+      if (devicesError) throw devicesError;
+
+      ((devices || []) as DeviceToken[]).forEach((d) => {
+        devicesByUser.set(d.user_id, [...(devicesByUser.get(d.user_id) || []), d]);
+      });
+    }
+
+    const revoked = new Set<string>();
+    const summary = { sent: 0, failed: 0, skipped: 0, tokens_revoked: 0 };
+
+    for (const notification of notifications) {
+      const devices = (devicesByUser.get(notification.user_id) || [])
+        .filter((d) => !revoked.has(d.id) && providers[d.platform]);
+
+      if (devices.length === 0) {
+        await adminClient
+          .from('push_notifications')
+          .update({ status: 'skipped', last_error: 'No registered devices' })
+          .eq('id', notification.id);
+        summary.skipped++;
+        continue;
+      }
+
+      // FCM and APNs only carry string values in the data payload; Web Push gets the same shape
+      const data = Object.fromEntries(
+        Object.entries(notification.data || {}).map(([key, value]) => [key, String(value)])
+      );
+
+      let delivered = 0;
+      const errors: string[] = [];
+
+      for (const device of devices) {
+        try {
+          const result = await providers[device.platform]!.send({
+            token: device.token,
+            title: notification.title,
+            body: notification.body,
+            data,
+            keys: device.p256dh && device.auth_secret
+              ? { p256dh: device.p256dh, auth: device.auth_secret }
+              : undefined,
+          });
+
+          if (result.status === 'sent') {
+            delivered++;
+          } else if (result.status === 'invalid_token') {
+            revoked.add(device.id);
+            await adminClient
+              .from('device_tokens')
+              .update({ revoked_at: new Date().toISOString(), revoke_reason: 'unregistered' })
+              .eq('id', device.id);
+            summary.tokens_revoked++;
+          } else {
+            errors.push(result.error);
+          }
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+      }
+
+      const attempts = notification.attempts + 1;
+      // Retry later only if no device got it and the failure looked transient
+      const status = delivered > 0 ? 'sent'
+        : errors.length === 0 ? 'skipped'
+        : attempts >= MAX_ATTEMPTS ? 'failed'
+        : 'pending';
+
+      await adminClient
+        .from('push_notifications')
+        .update({
+          status,
+          attempts,
+          devices_sent: delivered,
+          last_error: errors[0] || null,
+          sent_at: delivered > 0 ? new Date().toISOString() : null,
+        })
+        .eq('id', notification.id);
+
+      if (status === 'sent') summary.sent++;
+      else if (status === 'skipped') summary.skipped++;
+      else summary.failed++;
+    }
+
+    return jsonResponse({ success: true, processed: notifications.length, ...summary });
+  } catch (error) {
+    console.error('Push dispatch error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,75 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface ReleaseResult {
+  success: boolean;
+  released: number;
+}
+
+// Gives recipients back funds held for a dispute once the hold runs out. Meant to be
+// called every hour or so.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'expire-dispute-holds' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs use the service role key; otherwise only admins may trigger a run
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const { data, error } = await adminClient.rpc('release_expired_dispute_holds');
+    if (error) throw error;
+
+    const result = data as ReleaseResult;
+    return jsonResponse({ success: true, released: result?.released ?? 0 });
+  } catch (error) {
+    console.error('Dispute hold expiry error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
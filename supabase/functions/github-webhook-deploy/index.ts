@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { guardRequest } from "../_shared/requestGuard.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -43,6 +44,9 @@ const handler = async (req: Request): Promise<Response> => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const blocked = await guardRequest(req, { corsHeaders, functionName: "github-webhook-deploy" });
+  if (blocked) return blocked;
+
   const logs: DeploymentLog[] = [];
   const log = (message: string, type: DeploymentLog['type'] = 'info') => {
     logs.push({ timestamp: new Date().toISOString(), message, type });
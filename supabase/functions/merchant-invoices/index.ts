@@ -0,0 +1,161 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-merchant-key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface InvoiceResult {
+  success: boolean;
+  error?: string;
+  invoice_id?: string;
+  qr?: {
+    version: number;
+    key_id: number;
+    recipient_id: string;
+    amount: number;
+    currency: string;
+    memo: string | null;
+    expires_at: number;
+    request_id: string;
+    signature: string;
+  };
+}
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Same layout as the app's encodePaymentQr, so any app can scan it
+const encodePaymentQr = (qr: NonNullable<InvoiceResult['qr']>) => {
+  const params = new URLSearchParams();
+  params.set('v', String(qr.version));
+  params.set('k', String(qr.key_id));
+  params.set('to', qr.recipient_id);
+  params.set('amt', Number(qr.amount).toFixed(2));
+  params.set('cur', qr.currency);
+  params.set('exp', String(qr.expires_at));
+  params.set('req', qr.request_id);
+  if (qr.memo) params.set('memo', qr.memo);
+  params.set('sig', qr.signature);
+  return 'stablecoin:pay?' + params.toString();
+};
+
+// Checkout invoices for point-of-sale systems, authenticated with a merchant API key
+// in the x-merchant-key header.
+//   POST { amount, order_reference, memo?, expires_in_minutes? } creates an invoice,
+//        or returns the open one for that order reference
+//   GET  ?invoice_id=... returns its current status
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'merchant-invoices' });
+  if (blocked) return blocked;
+
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    const apiKey = req.headers.get('x-merchant-key');
+    if (!apiKey) {
+      return jsonResponse({ success: false, error: 'Missing merchant API key' }, 401);
+    }
+
+    const { data: merchant, error: merchantError } = await adminClient
+      .from('merchant_profiles')
+      .select('id, status')
+      .eq('api_key_hash', await sha256Hex(apiKey))
+      .maybeSingle();
+
+    if (merchantError) throw merchantError;
+    if (!merchant) {
+      return jsonResponse({ success: false, error: 'Invalid merchant API key' }, 401);
+    }
+    if (merchant.status !== 'active') {
+      return jsonResponse({ success: false, error: 'This merchant account is suspended' }, 403);
+    }
+
+    if (req.method === 'GET') {
+      const invoiceId = new URL(req.url).searchParams.get('invoice_id');
+      if (!invoiceId) {
+        return jsonResponse({ success: false, error: 'invoice_id is required' }, 400);
+      }
+
+      const { data: invoice, error } = await adminClient
+        .from('payment_requests')
+        .select('id, order_reference, amount, amount_paid, status, expires_at, settled_at, created_at')
+        .eq('id', invoiceId)
+        .eq('merchant_id', merchant.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!invoice) {
+        return jsonResponse({ success: false, error: 'Invoice not found' }, 404);
+      }
+
+      // Unpaid invoices are only marked expired when someone next touches them
+      const expired = invoice.status === 'pending' && invoice.expires_at && new Date(invoice.expires_at) <= new Date();
+      return jsonResponse({
+        success: true,
+        invoice_id: invoice.id,
+        order_reference: invoice.order_reference,
+        amount: invoice.amount,
+        amount_paid: invoice.amount_paid,
+        status: expired ? 'expired' : invoice.status,
+        expires_at: invoice.expires_at,
+        settled_at: invoice.settled_at,
+        created_at: invoice.created_at,
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+    }
+
+    const body = await req.json().catch(() => null);
+    const amount = Number(body?.amount);
+    if (!body || !Number.isFinite(amount) || typeof body.order_reference !== 'string') {
+      return jsonResponse({ success: false, error: 'amount and order_reference are required' }, 400);
+    }
+
+    const { data, error } = await adminClient.rpc('create_merchant_invoice_for', {
+      p_merchant_id: merchant.id,
+      p_amount: amount,
+      p_order_reference: body.order_reference,
+      p_memo: typeof body.memo === 'string' ? body.memo : null,
+      p_expires_in_minutes: body.expires_in_minutes !== undefined ? Number(body.expires_in_minutes) : 15,
+    });
+
+    if (error) throw error;
+
+    const result = data as InvoiceResult;
+    if (!result.success) {
+      return jsonResponse(result, result.invoice_id ? 409 : 400);
+    }
+
+    return jsonResponse({ ...result, qr_uri: encodePaymentQr(result.qr!) });
+  } catch (error) {
+    console.error('Merchant invoice error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
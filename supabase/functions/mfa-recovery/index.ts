@@ -0,0 +1,94 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface RecoveryResult {
+  success: boolean;
+  error?: string;
+  remaining?: number;
+  attempts_remaining?: number;
+}
+
+// Redeem a recovery code for a user who has lost their authenticator. The password
+// session (aal1) proves the first factor; a valid code removes the enrolled TOTP
+// factors so the user can sign in and enroll a new device.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'mfa-recovery' });
+  if (blocked) return blocked;
+
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const { code } = await req.json() as { code?: string };
+    if (!code || typeof code !== 'string') {
+      return jsonResponse({ success: false, error: 'Recovery code is required' }, 400);
+    }
+
+    const { data, error } = await adminClient.rpc('consume_mfa_recovery_code', {
+      p_user_id: user.id,
+      p_code: code,
+    });
+    if (error) throw error;
+
+    // A wrong or used code is an expected outcome, reported like an RPC failure
+    const result = data as RecoveryResult;
+    if (!result.success) {
+      return jsonResponse(result);
+    }
+
+    const { data: factors, error: factorsError } = await adminClient.auth.admin.mfa.listFactors({
+      userId: user.id,
+    });
+    if (factorsError) throw factorsError;
+
+    for (const factor of factors?.factors || []) {
+      if (factor.factor_type !== 'totp') continue;
+
+      const { error: deleteError } = await adminClient.auth.admin.mfa.deleteFactor({
+        id: factor.id,
+        userId: user.id,
+      });
+      if (deleteError) throw deleteError;
+    }
+
+    return jsonResponse({ success: true, remaining: result.remaining });
+  } catch (error) {
+    console.error('MFA recovery error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,202 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  formatUnits,
+  getBlockNumber,
+  getTokenBalance,
+  parseUnits,
+  toHexQuantity,
+} from '../_shared/evmRpc.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Concurrent eth_call requests per batch
+const BATCH_SIZE = 10;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'reconcile-wallets' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs authenticate with the service role key, manual runs with an admin session
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    let triggeredBy: string | null = null;
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: 'Only administrators can run reconciliation' }, 403);
+      }
+      triggeredBy = user.id;
+    }
+
+    const { data: network } = await adminClient
+      .from('blockchain_networks')
+      .select('rpc_endpoint, token_address, decimals')
+      .eq('network', 'GYD')
+      .maybeSingle();
+
+    // GYD_RPC_URL points the job at a local node without touching the shared config
+    const rpcUrl = Deno.env.get('GYD_RPC_URL') || network?.rpc_endpoint;
+    const tokenAddress = network?.token_address;
+    const decimals = network?.decimals ?? 18;
+
+    if (!rpcUrl || !tokenAddress) {
+      return jsonResponse({ success: false, error: 'GYD RPC endpoint and token address must be configured' }, 400);
+    }
+
+    const { data: run, error: runError } = await adminClient
+      .from('wallet_reconciliation_runs')
+      .insert({ rpc_endpoint: rpcUrl, token_address: tokenAddress, triggered_by: triggeredBy })
+      .select()
+      .single();
+
+    if (runError) throw runError;
+
+    try {
+      // Every wallet is read at the same block so the run is a consistent snapshot
+      const blockNumber = await getBlockNumber(rpcUrl);
+      const blockTag = toHexQuantity(blockNumber);
+
+      const { data: wallets, error: walletsError } = await adminClient
+        .from('profiles')
+        .select('user_id, wallet_address')
+        .not('wallet_address', 'is', null);
+
+      if (walletsError) throw walletsError;
+
+      const { data: ledger, error: ledgerError } = await adminClient
+        .from('ledger_account_balances')
+        .select('user_id, ledger_balance')
+        .eq('account_type', 'user_wallet');
+
+      if (ledgerError) throw ledgerError;
+
+      const ledgerByUser = new Map<string, number>();
+      ledger?.forEach((row) => ledgerByUser.set(row.user_id, Number(row.ledger_balance) || 0));
+
+      // Withdrawals are debited before they are mined, so their tokens are still on-chain
+      const { data: inFlight, error: inFlightError } = await adminClient
+        .from('onchain_withdrawals')
+        .select('user_id, amount')
+        .in('status', ['pending', 'broadcast']);
+
+      if (inFlightError) throw inFlightError;
+
+      inFlight?.forEach((w) => {
+        ledgerByUser.set(w.user_id, (ledgerByUser.get(w.user_id) ?? 0) + Number(w.amount));
+      });
+
+      // Deposits waiting for confirmations are on-chain but not credited yet
+      const { data: unconfirmed, error: unconfirmedError } = await adminClient
+        .from('onchain_deposits')
+        .select('user_id, amount')
+        .eq('status', 'pending');
+
+      if (unconfirmedError) throw unconfirmedError;
+
+      unconfirmed?.forEach((d) => {
+        ledgerByUser.set(d.user_id, (ledgerByUser.get(d.user_id) ?? 0) + Number(d.amount));
+      });
+
+      const discrepancies: Record<string, unknown>[] = [];
+
+      for (let i = 0; i < (wallets?.length || 0); i += BATCH_SIZE) {
+        const batch = wallets!.slice(i, i + BATCH_SIZE);
+        const balances = await Promise.all(
+          batch.map((w) => getTokenBalance(rpcUrl, tokenAddress, w.wallet_address!, blockTag))
+        );
+
+        batch.forEach((wallet, index) => {
+          const ledgerBalance = ledgerByUser.get(wallet.user_id) ?? 0;
+          const onchain = balances[index];
+          const difference = onchain - parseUnits(ledgerBalance.toFixed(2), decimals);
+
+          if (difference !== 0n) {
+            discrepancies.push({
+              run_id: run.id,
+              user_id: wallet.user_id,
+              wallet_address: wallet.wallet_address,
+              onchain_balance: formatUnits(onchain, decimals),
+              ledger_balance: ledgerBalance,
+              difference: formatUnits(difference, decimals),
+              block_number: Number(blockNumber),
+            });
+          }
+        });
+      }
+
+      if (discrepancies.length > 0) {
+        const { error: insertError } = await adminClient
+          .from('wallet_balance_discrepancies')
+          .insert(discrepancies);
+        if (insertError) throw insertError;
+      }
+
+      const { data: completed, error: updateError } = await adminClient
+        .from('wallet_reconciliation_runs')
+        .update({
+          status: 'completed',
+          block_number: Number(blockNumber),
+          wallets_checked: wallets?.length || 0,
+          discrepancies_found: discrepancies.length,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', run.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      return jsonResponse({ success: true, run: completed });
+    } catch (error) {
+      await adminClient
+        .from('wallet_reconciliation_runs')
+        .update({ status: 'failed', error_message: (error as Error).message, completed_at: new Date().toISOString() })
+        .eq('id', run.id);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Wallet reconciliation error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,106 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 50;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface RunResult {
+  success: boolean;
+  error?: string;
+  not_due?: boolean;
+  retry_at?: string;
+}
+
+// Sends every scheduled transfer that is due. Meant to be called every few minutes;
+// each schedule is locked while it runs, so overlapping calls don't send twice.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'run-scheduled-transfers' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs use the service role key; otherwise only admins may trigger a run
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const { data: due, error: dueError } = await adminClient
+      .from('scheduled_transfers')
+      .select('id')
+      .eq('status', 'active')
+      .lte('next_run_at', now)
+      .or(`retry_at.is.null,retry_at.lte.${now}`)
+      .order('next_run_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) throw dueError;
+
+    const summary = { sent: 0, failed: 0, retrying: 0, skipped: 0 };
+
+    // One call per schedule so each transfer commits on its own
+    for (const { id } of due || []) {
+      const { data, error } = await adminClient.rpc('run_scheduled_transfer', { p_schedule_id: id });
+
+      if (error) {
+        console.error(`Scheduled transfer ${id} errored:`, error);
+        summary.failed++;
+        continue;
+      }
+
+      const result = data as RunResult;
+      if (result.success) summary.sent++;
+      else if (result.not_due) summary.skipped++;
+      else if (result.retry_at) summary.retrying++;
+      else summary.failed++;
+    }
+
+    return jsonResponse({ success: true, processed: due?.length || 0, ...summary });
+  } catch (error) {
+    console.error('Scheduled transfer run error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
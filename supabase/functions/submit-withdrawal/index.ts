@@ -0,0 +1,134 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { jsonRpc, parseUnits } from '../_shared/evmRpc.ts';
+import { decodeSignedTransaction, encodeTokenTransfer } from '../_shared/evmTransaction.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface SubmitRequest {
+  withdrawal_id?: string;
+  raw_transaction?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// The browser signs a withdrawal, but only this function records and broadcasts it. The
+// transaction must be exactly the reserved transfer from the user's wallet, and the hash
+// the tracker follows is computed here from the bytes that are broadcast.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'submit-withdrawal' });
+  if (blocked) return blocked;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json() as SubmitRequest;
+    if (!body.withdrawal_id || !UUID_PATTERN.test(body.withdrawal_id) || !body.raw_transaction) {
+      return jsonResponse({ success: false, error: 'Invalid request' }, 400);
+    }
+
+    const { data: withdrawal, error: withdrawalError } = await adminClient
+      .from('onchain_withdrawals')
+      .select('id, from_address, to_address, amount, token_address, chain_id, status, tx_hash')
+      .eq('id', body.withdrawal_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (withdrawalError) throw withdrawalError;
+
+    if (!withdrawal || withdrawal.status !== 'pending' || withdrawal.tx_hash) {
+      return jsonResponse({ success: false, error: 'Withdrawal not found or already signed' }, 400);
+    }
+
+    const { data: network } = await adminClient
+      .from('blockchain_networks')
+      .select('rpc_endpoint, decimals')
+      .eq('network', 'GYD')
+      .maybeSingle();
+
+    // GYD_RPC_URL points the function at a local node without touching the shared config
+    const rpcUrl = Deno.env.get('GYD_RPC_URL') || network?.rpc_endpoint;
+    if (!network || !rpcUrl) {
+      return jsonResponse({ success: false, error: 'GYD RPC endpoint must be configured' }, 400);
+    }
+
+    let tx: ReturnType<typeof decodeSignedTransaction>;
+    try {
+      tx = decodeSignedTransaction(body.raw_transaction);
+    } catch (error) {
+      return jsonResponse({ success: false, error: (error as Error).message }, 400);
+    }
+
+    const expectedData = encodeTokenTransfer(
+      withdrawal.to_address,
+      parseUnits(Number(withdrawal.amount).toFixed(2), network.decimals),
+    );
+
+    if (
+      tx.chainId !== BigInt(withdrawal.chain_id) ||
+      tx.from !== withdrawal.from_address.toLowerCase() ||
+      tx.to !== withdrawal.token_address.toLowerCase() ||
+      tx.value !== 0n ||
+      tx.data !== expectedData
+    ) {
+      return jsonResponse({ success: false, error: 'Transaction does not match the withdrawal' }, 400);
+    }
+
+    // Recorded before broadcasting so the tracker can always find the transaction
+    const { data: recorded, error: recordError } = await adminClient.rpc('record_onchain_withdrawal_tx', {
+      p_withdrawal_id: withdrawal.id,
+      p_user_id: user.id,
+      p_tx_hash: tx.hash,
+      p_nonce: Number(tx.nonce),
+    });
+    if (recordError) throw recordError;
+    if (!recorded?.success) {
+      return jsonResponse(recorded, 400);
+    }
+
+    try {
+      await jsonRpc(rpcUrl, 'eth_sendRawTransaction', [body.raw_transaction]);
+    } catch (error) {
+      // The tracker refunds the withdrawal if the network never takes the transaction
+      return jsonResponse({ success: true, tx_hash: tx.hash, broadcast: false, error: (error as Error).message });
+    }
+
+    return jsonResponse({ success: true, tx_hash: tx.hash, broadcast: true });
+  } catch (error) {
+    console.error('Withdrawal submission error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,204 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  TRANSFER_TOPIC,
+  getBlockNumber,
+  getTransactionByHash,
+  getTransactionCount,
+  getTransactionReceipt,
+  hexToBigInt,
+  parseUnits,
+  topicToAddress,
+} from '../_shared/evmRpc.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Unsigned withdrawals older than this are refunded
+const UNSIGNED_TIMEOUT_MS = 60 * 60 * 1000;
+// Broadcast transactions the node has never seen are refunded after this
+const UNSEEN_TIMEOUT_MS = 30 * 60 * 1000;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface Withdrawal {
+  id: string;
+  user_id: string;
+  from_address: string;
+  to_address: string;
+  amount: number;
+  token_address: string;
+  nonce: number | null;
+  tx_hash: string | null;
+  status: string;
+  created_at: string;
+  broadcast_at: string | null;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'track-withdrawals' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs use the service role key; users may only track their own withdrawals
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    let onlyUserId: string | null = null;
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        onlyUserId = user.id;
+      }
+    }
+
+    const { data: network } = await adminClient
+      .from('blockchain_networks')
+      .select('rpc_endpoint, decimals, deposit_confirmations')
+      .eq('network', 'GYD')
+      .maybeSingle();
+
+    // GYD_RPC_URL points the job at a local node without touching the shared config
+    const rpcUrl = Deno.env.get('GYD_RPC_URL') || network?.rpc_endpoint;
+    if (!network || !rpcUrl) {
+      return jsonResponse({ success: false, error: 'GYD RPC endpoint must be configured' }, 400);
+    }
+
+    let query = adminClient
+      .from('onchain_withdrawals')
+      .select('id, user_id, from_address, to_address, amount, token_address, nonce, tx_hash, status, created_at, broadcast_at')
+      .in('status', ['pending', 'broadcast'])
+      .order('created_at', { ascending: true })
+      .limit(100);
+
+    if (onlyUserId) {
+      query = query.eq('user_id', onlyUserId);
+    }
+
+    const { data: withdrawals, error: withdrawalsError } = await query;
+    if (withdrawalsError) throw withdrawalsError;
+
+    const head = await getBlockNumber(rpcUrl);
+    const now = Date.now();
+    const results: Record<string, unknown>[] = [];
+
+    const settle = async (
+      withdrawal: Withdrawal,
+      status: 'broadcast' | 'confirmed' | 'failed',
+      blockNumber: bigint | null = null,
+      confirmations = 0,
+      error: string | null = null,
+    ) => {
+      const { data, error: rpcError } = await adminClient.rpc('settle_onchain_withdrawal', {
+        p_withdrawal_id: withdrawal.id,
+        p_status: status,
+        p_block_number: blockNumber === null ? null : Number(blockNumber),
+        p_confirmations: confirmations,
+        p_error: error,
+      });
+      if (rpcError) throw rpcError;
+      results.push({ id: withdrawal.id, status, confirmations, error, result: data });
+    };
+
+    for (const withdrawal of (withdrawals || []) as Withdrawal[]) {
+      try {
+        if (withdrawal.status === 'pending' || !withdrawal.tx_hash) {
+          if (now - new Date(withdrawal.created_at).getTime() > UNSIGNED_TIMEOUT_MS) {
+            await settle(withdrawal, 'failed', null, 0, 'Withdrawal was not signed in time');
+          }
+          continue;
+        }
+
+        const receipt = await getTransactionReceipt(rpcUrl, withdrawal.tx_hash);
+
+        if (!receipt) {
+          const known = await getTransactionByHash(rpcUrl, withdrawal.tx_hash);
+          if (known) continue;
+
+          // The nonce was consumed by another transaction, so this one can never be mined
+          const confirmedNonce = await getTransactionCount(rpcUrl, withdrawal.from_address);
+          if (withdrawal.nonce !== null && confirmedNonce > BigInt(withdrawal.nonce)) {
+            await settle(withdrawal, 'failed', null, 0, 'Transaction was replaced or dropped');
+          } else if (now - new Date(withdrawal.broadcast_at || withdrawal.created_at).getTime() > UNSEEN_TIMEOUT_MS) {
+            await settle(withdrawal, 'failed', null, 0, 'Transaction was not accepted by the network');
+          }
+          continue;
+        }
+
+        const blockNumber = hexToBigInt(receipt.blockNumber);
+
+        if (hexToBigInt(receipt.status) !== 1n) {
+          await settle(withdrawal, 'failed', blockNumber, 0, 'Transaction reverted');
+          continue;
+        }
+
+        const expectedAmount = parseUnits(Number(withdrawal.amount).toFixed(2), network.decimals);
+        const token = withdrawal.token_address.toLowerCase();
+        const matches = receipt.logs.some((log) =>
+          log.address.toLowerCase() === token &&
+          log.topics[0] === TRANSFER_TOPIC &&
+          topicToAddress(log.topics[1]) === withdrawal.from_address.toLowerCase() &&
+          topicToAddress(log.topics[2]) === withdrawal.to_address.toLowerCase() &&
+          hexToBigInt(log.data) === expectedAmount
+        );
+
+        if (!matches) {
+          await settle(withdrawal, 'failed', blockNumber, 0, 'Transaction does not match the withdrawal');
+          continue;
+        }
+
+        const confirmations = Number(head - blockNumber + 1n);
+        await settle(
+          withdrawal,
+          confirmations >= network.deposit_confirmations ? 'confirmed' : 'broadcast',
+          blockNumber,
+          confirmations,
+        );
+      } catch (error) {
+        // One unreachable receipt should not stop the rest of the batch
+        console.error(`Failed to track withdrawal ${withdrawal.id}:`, error);
+        results.push({ id: withdrawal.id, error: (error as Error).message });
+      }
+    }
+
+    return jsonResponse({ success: true, block_number: Number(head), checked: withdrawals?.length || 0, results });
+  } catch (error) {
+    console.error('Withdrawal tracking error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
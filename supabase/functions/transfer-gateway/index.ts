@@ -0,0 +1,179 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+type GatewayAction = 'transfer' | 'settle_payment_request' | 'refund_transaction' | 'create_scheduled_transfer';
+
+interface TransferRequest {
+  action?: GatewayAction;
+  recipient_id?: string;
+  request_id?: string;
+  transaction_id?: string;
+  amount?: number | null;
+  description?: string | null;
+  reason?: string | null;
+  frequency?: string;
+  start_at?: string;
+  end_at?: string | null;
+  cron_expression?: string | null;
+  idempotency_key?: string | null;
+  pin?: string | null;
+}
+
+const tokenClaims = (token: string): { aal?: string } => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')));
+  } catch {
+    return {};
+  }
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Transfers, payment request settlements, refunds and new schedules can only enter through
+// here, so the firewall applies to all of them. Clients can't call those RPCs; this calls
+// the matching gateway_* function with the service role, which runs it as the signed-in user.
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'transfer-gateway' });
+  if (blocked) return blocked;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json() as TransferRequest;
+    const isUuid = (value: string | undefined) => !!value && UUID_PATTERN.test(value);
+    const isAmount = (value: unknown) => typeof value === 'number' && value > 0;
+
+    // The token was just verified, so its claims can be trusted for the assurance level
+    const caller = {
+      p_user_id: user.id,
+      p_aal: tokenClaims(token).aal || 'aal1',
+    };
+
+    let rpcName: string;
+    let params: Record<string, unknown>;
+
+    switch (body.action || 'transfer') {
+      case 'transfer':
+        if (!isUuid(body.recipient_id)) {
+          return jsonResponse({ success: false, error: 'Invalid recipient' }, 400);
+        }
+        if (!isAmount(body.amount)) {
+          return jsonResponse({ success: false, error: 'Amount must be greater than 0' }, 400);
+        }
+        rpcName = 'gateway_transfer';
+        params = {
+          p_recipient_id: body.recipient_id,
+          p_amount: body.amount,
+          p_description: body.description || null,
+          p_pin: body.pin || null,
+          p_idempotency_key: body.idempotency_key || null,
+        };
+        break;
+
+      case 'settle_payment_request':
+        if (!isUuid(body.request_id)) {
+          return jsonResponse({ success: false, error: 'Invalid payment request' }, 400);
+        }
+        if (body.amount != null && !isAmount(body.amount)) {
+          return jsonResponse({ success: false, error: 'Amount must be greater than 0' }, 400);
+        }
+        rpcName = 'gateway_settle_payment_request';
+        params = {
+          p_request_id: body.request_id,
+          p_amount: body.amount ?? null,
+          p_pin: body.pin || null,
+          p_idempotency_key: body.idempotency_key || null,
+        };
+        break;
+
+      case 'refund_transaction':
+        if (!isUuid(body.transaction_id)) {
+          return jsonResponse({ success: false, error: 'Invalid transaction' }, 400);
+        }
+        if (body.amount != null && !isAmount(body.amount)) {
+          return jsonResponse({ success: false, error: 'Amount must be greater than 0' }, 400);
+        }
+        rpcName = 'gateway_refund_transaction';
+        params = {
+          p_transaction_id: body.transaction_id,
+          p_amount: body.amount ?? null,
+          p_reason: body.reason || null,
+          p_pin: body.pin || null,
+          p_idempotency_key: body.idempotency_key || null,
+        };
+        break;
+
+      case 'create_scheduled_transfer':
+        if (!isUuid(body.recipient_id)) {
+          return jsonResponse({ success: false, error: 'Invalid recipient' }, 400);
+        }
+        if (!isAmount(body.amount)) {
+          return jsonResponse({ success: false, error: 'Amount must be greater than 0' }, 400);
+        }
+        if (!body.frequency || !body.start_at) {
+          return jsonResponse({ success: false, error: 'Invalid schedule' }, 400);
+        }
+        rpcName = 'gateway_create_scheduled_transfer';
+        params = {
+          p_recipient_id: body.recipient_id,
+          p_amount: body.amount,
+          p_frequency: body.frequency,
+          p_start_at: body.start_at,
+          p_description: body.description || null,
+          p_cron_expression: body.cron_expression || null,
+          p_end_at: body.end_at || null,
+          p_pin: body.pin || null,
+        };
+        break;
+
+      default:
+        return jsonResponse({ success: false, error: 'Unknown action' }, 400);
+    }
+
+    const { data, error } = await adminClient.rpc(rpcName, { ...caller, ...params });
+
+    if (error) throw error;
+
+    return jsonResponse(data);
+  } catch (error) {
+    console.error('Transfer gateway error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
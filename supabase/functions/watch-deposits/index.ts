@@ -0,0 +1,265 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  TRANSFER_TOPIC,
+  TransactionLog,
+  formatUnits,
+  getBlockNumber,
+  getLogs,
+  getTransactionReceipt,
+  hexToBigInt,
+  topicToAddress,
+} from '../_shared/evmRpc.ts';
+import { guardRequest } from '../_shared/requestGuard.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Most nodes cap eth_getLogs ranges; stay well under the common limits
+const MAX_BLOCK_RANGE = 2000n;
+// How far back the very first scan looks when there is no cursor yet
+const INITIAL_LOOKBACK_BLOCKS = 10000n;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface PendingDeposit {
+  id: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash: string;
+}
+
+/**
+ * Floor base units to whole cents, the precision of the internal ledger
+ */
+const unitsToCents = (units: bigint, decimals: number): string => {
+  const cents = decimals >= 2 ? units / 10n ** BigInt(decimals - 2) : units * 10n ** BigInt(2 - decimals);
+  return formatUnits(cents, 2);
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const blocked = await guardRequest(req, { corsHeaders, functionName: 'watch-deposits' });
+  if (blocked) return blocked;
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const adminClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    serviceRoleKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+
+  try {
+    // Scheduled runs use the service role key; otherwise only admins may trigger a scan
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await adminClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin } = await adminClient.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin',
+      });
+      if (!isAdmin) {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const { data: network } = await adminClient
+      .from('blockchain_networks')
+      .select('rpc_endpoint, event_indexer, token_address, decimals, deposit_confirmations, is_active')
+      .eq('network', 'GYD')
+      .maybeSingle();
+
+    // GYD_RPC_URL points the job at a local node without touching the shared config
+    const rpcUrl = Deno.env.get('GYD_RPC_URL') || network?.rpc_endpoint;
+    if (!network || !rpcUrl || !network.token_address) {
+      return jsonResponse({ success: false, error: 'GYD RPC endpoint and token address must be configured' }, 400);
+    }
+    if (!network.is_active) {
+      return jsonResponse({ success: false, error: 'GYD network is disabled' }, 400);
+    }
+
+    // The event indexer serves the same eth_getLogs API with wider range limits
+    const logsUrl = network.event_indexer || rpcUrl;
+    const required = BigInt(Math.max(network.deposit_confirmations, 1));
+    const head = await getBlockNumber(rpcUrl);
+
+    const { data: cursor } = await adminClient
+      .from('deposit_scan_cursors')
+      .select('last_block')
+      .eq('network', 'GYD')
+      .maybeSingle();
+
+    // Re-read the unconfirmed tail of the last scan so logs from reorged blocks are picked up again
+    let fromBlock = cursor
+      ? BigInt(cursor.last_block) - required + 1n
+      : head - INITIAL_LOOKBACK_BLOCKS;
+    if (fromBlock < 0n) fromBlock = 0n;
+
+    const { data: wallets, error: walletsError } = await adminClient
+      .from('profiles')
+      .select('user_id, wallet_address')
+      .not('wallet_address', 'is', null);
+
+    if (walletsError) throw walletsError;
+
+    const userByAddress = new Map<string, string>();
+    wallets?.forEach((w) => userByAddress.set(w.wallet_address!.toLowerCase(), w.user_id));
+
+    let detected = 0;
+
+    for (let start = fromBlock; start <= head; start += MAX_BLOCK_RANGE) {
+      const end = start + MAX_BLOCK_RANGE - 1n < head ? start + MAX_BLOCK_RANGE - 1n : head;
+      const logs = await getLogs(logsUrl, {
+        address: network.token_address,
+        topics: [TRANSFER_TOPIC],
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      const rows = logs
+        .filter((log: TransactionLog) => !log.removed && log.topics.length === 3 && userByAddress.has(topicToAddress(log.topics[2])))
+        .map((log: TransactionLog) => {
+          const units = hexToBigInt(log.data);
+          return {
+            user_id: userByAddress.get(topicToAddress(log.topics[2]))!,
+            network: 'GYD',
+            tx_hash: log.transactionHash.toLowerCase(),
+            log_index: Number(hexToBigInt(log.logIndex)),
+            block_number: Number(hexToBigInt(log.blockNumber)),
+            block_hash: log.blockHash.toLowerCase(),
+            from_address: topicToAddress(log.topics[1]),
+            to_address: topicToAddress(log.topics[2]),
+            token_address: log.address.toLowerCase(),
+            amount_units: units.toString(),
+            amount: unitsToCents(units, network.decimals),
+          };
+        });
+
+      if (rows.length > 0) {
+        // Logs seen on an earlier run are skipped by the (tx_hash, log_index) constraint
+        const { data: inserted, error: insertError } = await adminClient
+          .from('onchain_deposits')
+          .upsert(rows, { onConflict: 'tx_hash,log_index', ignoreDuplicates: true })
+          .select('id');
+        if (insertError) throw insertError;
+        detected += inserted?.length || 0;
+
+        // A log orphaned by a reorg and mined again later goes back to pending
+        const { data: orphaned, error: orphanedError } = await adminClient
+          .from('onchain_deposits')
+          .select('id, tx_hash, log_index')
+          .eq('status', 'orphaned')
+          .in('tx_hash', rows.map((r) => r.tx_hash));
+        if (orphanedError) throw orphanedError;
+
+        for (const row of orphaned || []) {
+          const seen = rows.find((r) => r.tx_hash === row.tx_hash && r.log_index === row.log_index);
+          if (!seen) continue;
+          await adminClient
+            .from('onchain_deposits')
+            .update({ status: 'pending', block_number: seen.block_number, block_hash: seen.block_hash })
+            .eq('id', row.id)
+            .eq('status', 'orphaned');
+        }
+      }
+
+      const { error: cursorError } = await adminClient
+        .from('deposit_scan_cursors')
+        .upsert({ network: 'GYD', last_block: Number(end), updated_at: new Date().toISOString() });
+      if (cursorError) throw cursorError;
+    }
+
+    const { data: pending, error: pendingError } = await adminClient
+      .from('onchain_deposits')
+      .select('id, tx_hash, log_index, block_number, block_hash')
+      .eq('status', 'pending')
+      .order('block_number', { ascending: true })
+      .limit(200);
+
+    if (pendingError) throw pendingError;
+
+    const results: Record<string, unknown>[] = [];
+
+    for (const deposit of (pending || []) as PendingDeposit[]) {
+      try {
+        const confirmations = Number(head - BigInt(deposit.block_number) + 1n);
+        if (BigInt(confirmations) < required) {
+          await adminClient.from('onchain_deposits').update({ confirmations }).eq('id', deposit.id);
+          continue;
+        }
+
+        // Confirm against the canonical chain before crediting
+        const receipt = await getTransactionReceipt(rpcUrl, deposit.tx_hash);
+        const log = receipt?.logs.find((l) => Number(hexToBigInt(l.logIndex)) === deposit.log_index);
+
+        if (!receipt || hexToBigInt(receipt.status) !== 1n || !log) {
+          await adminClient.from('onchain_deposits').update({ status: 'orphaned', confirmations: 0 }).eq('id', deposit.id);
+          results.push({ id: deposit.id, status: 'orphaned' });
+          continue;
+        }
+
+        if (receipt.blockHash.toLowerCase() !== deposit.block_hash) {
+          // Re-mined in a different block after a reorg; wait for that block to confirm
+          const blockNumber = Number(hexToBigInt(receipt.blockNumber));
+          await adminClient
+            .from('onchain_deposits')
+            .update({
+              block_number: blockNumber,
+              block_hash: receipt.blockHash.toLowerCase(),
+              confirmations: Number(head - BigInt(blockNumber) + 1n),
+            })
+            .eq('id', deposit.id);
+          results.push({ id: deposit.id, status: 'reorged' });
+          continue;
+        }
+
+        const { data, error: rpcError } = await adminClient.rpc('credit_onchain_deposit', {
+          p_deposit_id: deposit.id,
+          p_confirmations: confirmations,
+        });
+        if (rpcError) throw rpcError;
+        results.push({ id: deposit.id, confirmations, result: data });
+      } catch (error) {
+        // One unreachable receipt should not stop the rest of the batch
+        console.error(`Failed to process deposit ${deposit.id}:`, error);
+        results.push({ id: deposit.id, error: (error as Error).message });
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      block_number: Number(head),
+      scanned_from: Number(fromBlock),
+      detected,
+      checked: pending?.length || 0,
+      results,
+    });
+  } catch (error) {
+    console.error('Deposit watcher error:', error);
+    return jsonResponse({ success: false, error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,991 @@
+-- Double-entry ledger for all money movements
+-- 1. Accounts, journal entries and postings (postings of an entry must sum to zero)
+-- 2. profiles.balance and bank_treasury.balance become caches maintained from postings
+-- 3. Existing balances are carried over as opening balance entries
+-- 4. Transfer, treasury and admin RPCs post balanced journal entries instead of
+--    updating balances directly
+
+-- Ledger accounts: one per user wallet, one per treasury, plus system accounts
+CREATE TABLE public.ledger_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_code TEXT NOT NULL UNIQUE,
+  account_type TEXT NOT NULL CHECK (account_type IN ('user_wallet', 'treasury', 'fee_income', 'equity', 'adjustment')),
+  user_id UUID UNIQUE,
+  treasury_id UUID UNIQUE REFERENCES public.bank_treasury(id),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (account_type <> 'user_wallet' OR user_id IS NOT NULL),
+  CHECK (account_type <> 'treasury' OR treasury_id IS NOT NULL)
+);
+
+-- Journal entries: one per business event
+CREATE TABLE public.ledger_journal_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('opening_balance', 'transfer', 'treasury_withdrawal', 'admin_transfer', 'admin_adjustment')),
+  description TEXT,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  fund_log_id UUID REFERENCES public.fund_logs(id) ON DELETE SET NULL,
+  chain_id TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Postings: signed amounts, positive increases the account balance
+CREATE TABLE public.ledger_postings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID NOT NULL REFERENCES public.ledger_journal_entries(id),
+  account_id UUID NOT NULL REFERENCES public.ledger_accounts(id),
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount <> 0),
+  line_type TEXT NOT NULL DEFAULT 'principal' CHECK (line_type IN ('principal', 'fee')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ledger_postings_entry ON public.ledger_postings(journal_entry_id);
+CREATE INDEX idx_ledger_postings_account ON public.ledger_postings(account_id, created_at);
+CREATE INDEX idx_ledger_journal_entries_transaction ON public.ledger_journal_entries(transaction_id);
+
+-- Enable RLS
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_postings ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen through SECURITY DEFINER functions, so only read policies are created
+CREATE POLICY "Users can view their own ledger account"
+  ON public.ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all ledger accounts"
+  ON public.ledger_accounts
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view their own journal entries"
+  ON public.ledger_journal_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.ledger_postings lp
+      JOIN public.ledger_accounts la ON la.id = lp.account_id
+      WHERE lp.journal_entry_id = ledger_journal_entries.id
+        AND la.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all journal entries"
+  ON public.ledger_journal_entries
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view their own postings"
+  ON public.ledger_postings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ledger_accounts la
+      WHERE la.id = ledger_postings.account_id AND la.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all postings"
+  ON public.ledger_postings
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- System accounts
+INSERT INTO public.ledger_accounts (account_code, account_type, name) VALUES
+  ('FEE_INCOME', 'fee_income', 'Transfer fee income'),
+  ('OPENING_EQUITY', 'equity', 'Opening balance equity'),
+  ('ADMIN_ADJUSTMENTS', 'adjustment', 'Admin balance adjustments');
+
+-- Get (or lazily create) the ledger account of a user
+CREATE OR REPLACE FUNCTION public.ledger_user_account(p_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id FROM ledger_accounts WHERE user_id = p_user_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO ledger_accounts (account_code, account_type, user_id, name)
+    VALUES ('USER:' || p_user_id, 'user_wallet', p_user_id, 'User wallet ' || p_user_id)
+    ON CONFLICT (account_code) DO NOTHING;
+
+    SELECT id INTO v_account_id FROM ledger_accounts WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Get (or lazily create) the ledger account of a treasury
+CREATE OR REPLACE FUNCTION public.ledger_treasury_account(p_treasury_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id FROM ledger_accounts WHERE treasury_id = p_treasury_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO ledger_accounts (account_code, account_type, treasury_id, name)
+    SELECT 'TREASURY:' || id, 'treasury', id, name FROM bank_treasury WHERE id = p_treasury_id
+    ON CONFLICT (account_code) DO NOTHING;
+
+    SELECT id INTO v_account_id FROM ledger_accounts WHERE treasury_id = p_treasury_id;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Get a system account by code
+CREATE OR REPLACE FUNCTION public.ledger_system_account(p_account_code TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.ledger_accounts WHERE account_code = p_account_code
+$$;
+
+-- Post a balanced journal entry.
+-- p_lines is a JSON array of {"account_id": uuid, "amount": numeric, "line_type": text}.
+-- Zero-amount lines are skipped; the remaining lines must sum to zero.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_lines JSONB,
+  p_transaction_id UUID DEFAULT NULL,
+  p_fund_log_id UUID DEFAULT NULL,
+  p_chain_id TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_total NUMERIC;
+  v_line_count INTEGER;
+BEGIN
+  SELECT COALESCE(SUM((line->>'amount')::NUMERIC), 0), COUNT(*)
+  INTO v_total, v_line_count
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount')::NUMERIC <> 0;
+
+  IF v_line_count < 2 THEN
+    RAISE EXCEPTION 'Journal entry needs at least two non-zero lines';
+  END IF;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Journal entry is unbalanced by %', v_total;
+  END IF;
+
+  INSERT INTO ledger_journal_entries (entry_type, description, transaction_id, fund_log_id, chain_id, created_by)
+  VALUES (p_entry_type, p_description, p_transaction_id, p_fund_log_id, p_chain_id, auth.uid())
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO ledger_postings (journal_entry_id, account_id, amount, line_type)
+  SELECT
+    v_entry_id,
+    (line->>'account_id')::UUID,
+    (line->>'amount')::NUMERIC,
+    COALESCE(line->>'line_type', 'principal')
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE (line->>'amount')::NUMERIC <> 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Ledger internals are only callable from other SECURITY DEFINER functions
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(TEXT, TEXT, JSONB, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_user_account(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_treasury_account(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Carry existing balances over as opening balance entries
+DO $$
+DECLARE
+  v_profile RECORD;
+  v_treasury RECORD;
+  v_equity_id UUID;
+BEGIN
+  v_equity_id := public.ledger_system_account('OPENING_EQUITY');
+
+  FOR v_profile IN SELECT user_id, balance FROM public.profiles LOOP
+    PERFORM public.ledger_user_account(v_profile.user_id);
+
+    IF COALESCE(v_profile.balance, 0) <> 0 THEN
+      PERFORM public.post_journal_entry(
+        'opening_balance',
+        'Opening balance carried over from profiles.balance',
+        jsonb_build_array(
+          jsonb_build_object('account_id', public.ledger_user_account(v_profile.user_id), 'amount', v_profile.balance),
+          jsonb_build_object('account_id', v_equity_id, 'amount', -v_profile.balance)
+        )
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_treasury IN SELECT id, balance FROM public.bank_treasury LOOP
+    PERFORM public.ledger_treasury_account(v_treasury.id);
+
+    IF v_treasury.balance <> 0 THEN
+      PERFORM public.post_journal_entry(
+        'opening_balance',
+        'Opening treasury balance',
+        jsonb_build_array(
+          jsonb_build_object('account_id', public.ledger_treasury_account(v_treasury.id), 'amount', v_treasury.balance),
+          jsonb_build_object('account_id', v_equity_id, 'amount', -v_treasury.balance)
+        )
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Deferred backstop: every journal entry must balance at commit time
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_total NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM ledger_postings
+  WHERE journal_entry_id = NEW.journal_entry_id;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Journal entry % is unbalanced by %', NEW.journal_entry_id, v_total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+  AFTER INSERT ON public.ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- Ledger history is append-only
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger records are immutable; post a correcting entry instead';
+END;
+$$;
+
+CREATE TRIGGER ledger_postings_immutable
+  BEFORE UPDATE OR DELETE ON public.ledger_postings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+CREATE TRIGGER ledger_journal_entries_immutable
+  BEFORE UPDATE OR DELETE ON public.ledger_journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Keep cached balances in sync with postings
+CREATE OR REPLACE FUNCTION public.apply_ledger_posting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account RECORD;
+BEGIN
+  SELECT user_id, treasury_id INTO v_account FROM ledger_accounts WHERE id = NEW.account_id;
+
+  PERFORM set_config('app.ledger_write', 'on', true);
+
+  IF v_account.user_id IS NOT NULL THEN
+    UPDATE profiles SET balance = COALESCE(balance, 0) + NEW.amount WHERE user_id = v_account.user_id;
+  ELSIF v_account.treasury_id IS NOT NULL THEN
+    UPDATE bank_treasury SET balance = balance + NEW.amount, updated_at = now() WHERE id = v_account.treasury_id;
+  END IF;
+
+  PERFORM set_config('app.ledger_write', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ledger_postings_apply_balance
+  AFTER INSERT ON public.ledger_postings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_ledger_posting();
+
+-- Reject balance writes that do not come from a ledger posting
+CREATE OR REPLACE FUNCTION public.guard_cached_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.ledger_write', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' AND COALESCE(NEW.balance, 0) <> 0 THEN
+      RAISE EXCEPTION 'Balances can only be changed through ledger postings';
+    ELSIF TG_OP = 'UPDATE' AND NEW.balance IS DISTINCT FROM OLD.balance THEN
+      RAISE EXCEPTION 'Balances can only be changed through ledger postings';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_balance
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_cached_balance();
+
+CREATE TRIGGER bank_treasury_guard_balance
+  BEFORE INSERT OR UPDATE ON public.bank_treasury
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_cached_balance();
+
+-- Derived balances next to cached ones, for audits and reconciliation
+CREATE OR REPLACE VIEW public.ledger_account_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  la.id AS account_id,
+  la.account_code,
+  la.account_type,
+  la.user_id,
+  la.treasury_id,
+  COALESCE(SUM(lp.amount), 0) AS ledger_balance,
+  CASE
+    WHEN la.user_id IS NOT NULL THEN (SELECT p.balance FROM public.profiles p WHERE p.user_id = la.user_id)
+    WHEN la.treasury_id IS NOT NULL THEN (SELECT bt.balance FROM public.bank_treasury bt WHERE bt.id = la.treasury_id)
+  END AS cached_balance
+FROM public.ledger_accounts la
+LEFT JOIN public.ledger_postings lp ON lp.account_id = la.id
+GROUP BY la.id;
+
+-- Reconstruct a user's balance history from the ledger (own statement, or any for admins)
+CREATE OR REPLACE FUNCTION public.get_ledger_statement(
+  p_user_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  posting_id UUID,
+  journal_entry_id UUID,
+  entry_type TEXT,
+  line_type TEXT,
+  description TEXT,
+  transaction_id UUID,
+  amount NUMERIC,
+  running_balance NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.posting_id, s.journal_entry_id, s.entry_type, s.line_type, s.description,
+         s.transaction_id, s.amount, s.running_balance, s.created_at
+  FROM (
+    SELECT
+      lp.id AS posting_id,
+      je.id AS journal_entry_id,
+      je.entry_type,
+      lp.line_type,
+      je.description,
+      je.transaction_id,
+      lp.amount,
+      SUM(lp.amount) OVER (ORDER BY lp.created_at, lp.id) AS running_balance,
+      lp.created_at
+    FROM ledger_postings lp
+    JOIN ledger_journal_entries je ON je.id = lp.journal_entry_id
+    JOIN ledger_accounts la ON la.id = lp.account_id
+    WHERE la.user_id = p_user_id
+      AND (p_to IS NULL OR lp.created_at <= p_to)
+      AND (auth.uid() = p_user_id OR has_role(auth.uid(), 'admin'::app_role))
+  ) s
+  WHERE p_from IS NULL OR s.created_at >= p_from
+  ORDER BY s.created_at, s.posting_id
+$$;
+
+-- Legacy transfer (PIN verified by the caller) posting to the ledger
+CREATE OR REPLACE FUNCTION public.process_transfer(p_recipient_id uuid, p_amount numeric, p_description text DEFAULT NULL::text)
+ RETURNS json
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_sender_id UUID;
+  v_sender_balance NUMERIC;
+  v_recipient_balance NUMERIC;
+  v_sender_fee_percentage NUMERIC;
+  v_sender_fee_fixed NUMERIC;
+  v_receiver_fee_percentage NUMERIC;
+  v_receiver_fee_fixed NUMERIC;
+  v_sender_total_fee NUMERIC;
+  v_receiver_total_fee NUMERIC;
+  v_sender_total_amount NUMERIC;
+  v_recipient_receives NUMERIC;
+  v_transaction_id UUID;
+  v_recipient_exists BOOLEAN;
+BEGIN
+  v_sender_id := auth.uid();
+
+  -- Validate sender is authenticated
+  IF v_sender_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Validate sender and recipient are different
+  IF v_sender_id = p_recipient_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot transfer to yourself');
+  END IF;
+
+  -- Validate amount is positive
+  IF p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  -- Check recipient exists and lock the row
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id FOR UPDATE) INTO v_recipient_exists;
+  IF NOT v_recipient_exists THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  -- Get fee settings with defaults if not set
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_percentage
+  FROM system_settings WHERE setting_key = 'transfer_fee_percentage';
+  v_sender_fee_percentage := COALESCE(v_sender_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_fixed
+  FROM system_settings WHERE setting_key = 'transfer_fee_fixed';
+  v_sender_fee_fixed := COALESCE(v_sender_fee_fixed, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_percentage
+  FROM system_settings WHERE setting_key = 'receiver_fee_percentage';
+  v_receiver_fee_percentage := COALESCE(v_receiver_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_fixed
+  FROM system_settings WHERE setting_key = 'receiver_fee_fixed';
+  v_receiver_fee_fixed := COALESCE(v_receiver_fee_fixed, 0);
+
+  -- Calculate fees (rounded to cents so ledger postings match cached balances)
+  v_sender_total_fee := ROUND((p_amount * v_sender_fee_percentage / 100) + v_sender_fee_fixed, 2);
+  v_sender_total_amount := p_amount + v_sender_total_fee;
+
+  v_receiver_total_fee := ROUND((p_amount * v_receiver_fee_percentage / 100) + v_receiver_fee_fixed, 2);
+  v_recipient_receives := p_amount - v_receiver_total_fee;
+
+  -- Lock sender row and get balance to prevent race conditions
+  SELECT balance INTO v_sender_balance FROM profiles WHERE user_id = v_sender_id FOR UPDATE;
+
+  IF v_sender_balance IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Sender profile not found');
+  END IF;
+
+  -- Check sender has sufficient balance
+  IF v_sender_balance < v_sender_total_amount THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient funds');
+  END IF;
+
+  -- Get recipient balance (already locked above)
+  SELECT balance INTO v_recipient_balance FROM profiles WHERE user_id = p_recipient_id;
+
+  -- Check receiver can pay the fee (balance won't go negative)
+  IF v_recipient_balance + v_recipient_receives < 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient cannot receive - insufficient balance for fees');
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO transactions (sender_id, recipient_id, amount, fee, total_amount, description)
+  VALUES (v_sender_id, p_recipient_id, p_amount, v_sender_total_fee + v_receiver_total_fee, v_sender_total_amount, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  -- Post balanced ledger entry (updates cached balances)
+  PERFORM post_journal_entry(
+    'transfer',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', p_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -v_sender_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', -v_receiver_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_system_account('FEE_INCOME'), 'amount', v_sender_total_fee + v_receiver_total_fee, 'line_type', 'fee')
+    ),
+    v_transaction_id
+  );
+
+  -- Log activity
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_sender_id, 'TRANSFER_SENT', 'Sent $' || p_amount || ' (sender fee: $' || v_sender_total_fee || ')');
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_recipient_id, 'TRANSFER_RECEIVED', 'Received $' || v_recipient_receives || ' (receiver fee: $' || v_receiver_total_fee || ')');
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', p_amount,
+    'sender_fee', v_sender_total_fee,
+    'receiver_fee', v_receiver_total_fee,
+    'total_sender_paid', v_sender_total_amount,
+    'total_recipient_received', v_recipient_receives
+  );
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction would result in negative balance');
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction failed: ' || SQLERRM);
+END;
+$function$;
+
+-- Rate-limited, PIN-checked transfer posting to the ledger
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender_id UUID;
+  v_sender_balance NUMERIC;
+  v_recipient_balance NUMERIC;
+  v_sender_fee_percentage NUMERIC;
+  v_sender_fee_fixed NUMERIC;
+  v_receiver_fee_percentage NUMERIC;
+  v_receiver_fee_fixed NUMERIC;
+  v_sender_total_fee NUMERIC;
+  v_receiver_total_fee NUMERIC;
+  v_sender_total_amount NUMERIC;
+  v_recipient_receives NUMERIC;
+  v_transaction_id UUID;
+  v_recipient_exists BOOLEAN;
+  v_pin_required BOOLEAN;
+  v_stored_pin_hash TEXT;
+  v_transfer_count INTEGER;
+  v_max_transfers_per_hour INTEGER := 20;
+  v_pin_result JSON;
+BEGIN
+  v_sender_id := auth.uid();
+
+  -- Validate sender is authenticated
+  IF v_sender_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Validate sender and recipient are different
+  IF v_sender_id = p_recipient_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot transfer to yourself');
+  END IF;
+
+  -- Validate amount is positive and reasonable
+  IF p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_amount > 1000000 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount exceeds maximum transfer limit');
+  END IF;
+
+  -- Rate limiting: check transfer frequency
+  SELECT COUNT(*) INTO v_transfer_count
+  FROM transactions
+  WHERE sender_id = v_sender_id
+    AND created_at > now() - interval '1 hour';
+
+  IF v_transfer_count >= v_max_transfers_per_hour THEN
+    RETURN json_build_object('success', false, 'error', 'Transfer rate limit exceeded. Please wait before making more transfers.');
+  END IF;
+
+  -- Check if PIN verification is required
+  SELECT pin_enabled, pin_hash INTO v_pin_required, v_stored_pin_hash
+  FROM profiles
+  WHERE user_id = v_sender_id;
+
+  IF v_pin_required AND v_stored_pin_hash IS NOT NULL THEN
+    IF p_pin IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'PIN required', 'pin_required', true);
+    END IF;
+
+    -- Verify PIN server-side
+    v_pin_result := verify_transaction_pin(p_pin);
+    IF NOT (v_pin_result->>'success')::boolean THEN
+      RETURN v_pin_result;
+    END IF;
+  END IF;
+
+  -- Check recipient exists and lock the row
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id FOR UPDATE) INTO v_recipient_exists;
+  IF NOT v_recipient_exists THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  -- Get fee settings with defaults if not set
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_percentage
+  FROM system_settings WHERE setting_key = 'transfer_fee_percentage';
+  v_sender_fee_percentage := COALESCE(v_sender_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_fixed
+  FROM system_settings WHERE setting_key = 'transfer_fee_fixed';
+  v_sender_fee_fixed := COALESCE(v_sender_fee_fixed, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_percentage
+  FROM system_settings WHERE setting_key = 'receiver_fee_percentage';
+  v_receiver_fee_percentage := COALESCE(v_receiver_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_fixed
+  FROM system_settings WHERE setting_key = 'receiver_fee_fixed';
+  v_receiver_fee_fixed := COALESCE(v_receiver_fee_fixed, 0);
+
+  -- Calculate fees (rounded to cents so ledger postings match cached balances)
+  v_sender_total_fee := ROUND((p_amount * v_sender_fee_percentage / 100) + v_sender_fee_fixed, 2);
+  v_sender_total_amount := p_amount + v_sender_total_fee;
+
+  v_receiver_total_fee := ROUND((p_amount * v_receiver_fee_percentage / 100) + v_receiver_fee_fixed, 2);
+  v_recipient_receives := p_amount - v_receiver_total_fee;
+
+  -- Lock sender row and get balance to prevent race conditions
+  SELECT balance INTO v_sender_balance FROM profiles WHERE user_id = v_sender_id FOR UPDATE;
+
+  IF v_sender_balance IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Sender profile not found');
+  END IF;
+
+  -- Check sender has sufficient balance
+  IF v_sender_balance < v_sender_total_amount THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient funds');
+  END IF;
+
+  -- Get recipient balance (already locked above)
+  SELECT balance INTO v_recipient_balance FROM profiles WHERE user_id = p_recipient_id;
+
+  -- Check receiver can pay the fee (balance won't go negative)
+  IF v_recipient_balance + v_recipient_receives < 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient cannot receive - insufficient balance for fees');
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO transactions (sender_id, recipient_id, amount, fee, total_amount, description)
+  VALUES (v_sender_id, p_recipient_id, p_amount, v_sender_total_fee + v_receiver_total_fee, v_sender_total_amount, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  -- Post balanced ledger entry (updates cached balances)
+  PERFORM post_journal_entry(
+    'transfer',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', p_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -v_sender_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', -v_receiver_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_system_account('FEE_INCOME'), 'amount', v_sender_total_fee + v_receiver_total_fee, 'line_type', 'fee')
+    ),
+    v_transaction_id
+  );
+
+  -- Log activity
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_sender_id, 'TRANSFER_SENT', 'Sent $' || p_amount || ' (sender fee: $' || v_sender_total_fee || ')');
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_recipient_id, 'TRANSFER_RECEIVED', 'Received $' || v_recipient_receives || ' (receiver fee: $' || v_receiver_total_fee || ')');
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', p_amount,
+    'sender_fee', v_sender_total_fee,
+    'receiver_fee', v_receiver_total_fee,
+    'total_sender_paid', v_sender_total_amount,
+    'total_recipient_received', v_recipient_receives
+  );
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction would result in negative balance');
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction failed: ' || SQLERRM);
+END;
+$$;
+
+-- Treasury withdrawal posting treasury -> admin
+CREATE OR REPLACE FUNCTION public.withdraw_from_treasury(
+  p_amount NUMERIC,
+  p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_treasury_id UUID;
+  v_chain_id TEXT;
+  v_admin_balance NUMERIC;
+BEGIN
+  v_admin_id := auth.uid();
+
+  -- Verify admin status
+  IF NOT public.is_admin() THEN
+    RETURN json_build_object('success', false, 'error', 'Only admins can withdraw from treasury');
+  END IF;
+
+  -- Validate amount
+  IF p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  -- Get treasury
+  SELECT id INTO v_treasury_id FROM bank_treasury WHERE is_active = true LIMIT 1;
+  IF v_treasury_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No active treasury found');
+  END IF;
+
+  -- Generate chain ID
+  v_chain_id := generate_chain_id();
+
+  -- Record withdrawal
+  INSERT INTO treasury_withdrawals (treasury_id, admin_id, amount, chain_id, reason)
+  VALUES (v_treasury_id, v_admin_id, p_amount, v_chain_id, p_reason);
+
+  -- Get current admin balance
+  SELECT balance INTO v_admin_balance FROM profiles WHERE user_id = v_admin_id FOR UPDATE;
+
+  -- Move funds from the treasury account to the admin (updates cached balances)
+  PERFORM post_journal_entry(
+    'treasury_withdrawal',
+    p_reason,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_treasury_account(v_treasury_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_admin_id), 'amount', p_amount)
+    ),
+    NULL,
+    NULL,
+    v_chain_id
+  );
+
+  -- Track the chain
+  INSERT INTO fund_chain_tracking (chain_id, source_type, destination_user_id, amount)
+  VALUES (v_chain_id, 'treasury_withdrawal', v_admin_id, p_amount);
+
+  -- Log activity
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_admin_id, 'TREASURY_WITHDRAWAL', 'Withdrew $' || p_amount || ' from treasury. Chain ID: ' || v_chain_id);
+
+  RETURN json_build_object(
+    'success', true,
+    'chain_id', v_chain_id,
+    'new_balance', COALESCE(v_admin_balance, 0) + p_amount
+  );
+END;
+$$;
+
+-- Admin transfer with chain ID tracking posting admin -> recipient
+CREATE OR REPLACE FUNCTION public.admin_transfer_with_chain(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_parent_chain_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_admin_balance NUMERIC;
+  v_recipient_balance NUMERIC;
+  v_chain_id TEXT;
+  v_transaction_id UUID;
+  v_fund_log_id UUID;
+BEGIN
+  v_admin_id := auth.uid();
+
+  -- Verify admin status
+  IF NOT public.is_admin() THEN
+    RETURN json_build_object('success', false, 'error', 'Only admins can use this function');
+  END IF;
+
+  -- Validate amount
+  IF p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  -- Validate parent chain ID if provided
+  IF p_parent_chain_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM fund_chain_tracking WHERE chain_id = p_parent_chain_id AND is_verified = true) THEN
+      RETURN json_build_object('success', false, 'error', 'Invalid or unverified parent chain ID. Funds rejected.');
+    END IF;
+  END IF;
+
+  -- Get admin balance
+  SELECT balance INTO v_admin_balance FROM profiles WHERE user_id = v_admin_id FOR UPDATE;
+
+  IF v_admin_balance < p_amount THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient admin balance');
+  END IF;
+
+  -- Get recipient balance
+  SELECT balance INTO v_recipient_balance FROM profiles WHERE user_id = p_recipient_id FOR UPDATE;
+
+  IF v_recipient_balance IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  -- Generate new chain ID
+  v_chain_id := generate_chain_id();
+
+  -- Create transaction record
+  INSERT INTO transactions (sender_id, recipient_id, amount, total_amount, fee, description, transaction_type, status)
+  VALUES (v_admin_id, p_recipient_id, p_amount, p_amount, 0, COALESCE(p_description, 'Admin transfer') || ' [Chain: ' || v_chain_id || ']', 'admin_transfer', 'completed')
+  RETURNING id INTO v_transaction_id;
+
+  -- Log fund operation
+  INSERT INTO fund_logs (user_id, admin_id, amount, type, reason, balance_before, balance_after)
+  VALUES (p_recipient_id, v_admin_id, p_amount, 'ADD', COALESCE(p_description, 'Admin transfer') || ' [Chain: ' || v_chain_id || ']', v_recipient_balance, v_recipient_balance + p_amount)
+  RETURNING id INTO v_fund_log_id;
+
+  -- Move funds from admin to recipient (updates cached balances)
+  PERFORM post_journal_entry(
+    'admin_transfer',
+    COALESCE(p_description, 'Admin transfer'),
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_admin_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', p_amount)
+    ),
+    v_transaction_id,
+    v_fund_log_id,
+    v_chain_id
+  );
+
+  -- Track the chain
+  INSERT INTO fund_chain_tracking (chain_id, parent_chain_id, transaction_id, fund_log_id, source_type, source_user_id, destination_user_id, amount)
+  VALUES (v_chain_id, p_parent_chain_id, v_transaction_id, v_fund_log_id, 'admin_transfer', v_admin_id, p_recipient_id, p_amount);
+
+  -- Log activity
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_admin_id, 'ADMIN_TRANSFER', 'Transferred $' || p_amount || ' to user. Chain ID: ' || v_chain_id);
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_recipient_id, 'FUND_RECEIVED', 'Received $' || p_amount || ' from admin. Chain ID: ' || v_chain_id);
+
+  RETURN json_build_object(
+    'success', true,
+    'chain_id', v_chain_id,
+    'transaction_id', v_transaction_id
+  );
+END;
+$$;
+
+-- Admin balance adjustment (replaces direct profiles.balance updates from the admin UI)
+CREATE OR REPLACE FUNCTION public.admin_adjust_balance(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_type TEXT,
+  p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin_id UUID;
+  v_balance_before NUMERIC;
+  v_signed_amount NUMERIC;
+  v_fund_log_id UUID;
+BEGIN
+  v_admin_id := auth.uid();
+
+  -- Verify admin status
+  IF NOT public.is_admin() THEN
+    RETURN json_build_object('success', false, 'error', 'Only admins can adjust balances');
+  END IF;
+
+  IF p_type NOT IN ('ADD', 'WITHDRAW') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid adjustment type');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  SELECT balance INTO v_balance_before FROM profiles WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'User not found');
+  END IF;
+
+  v_balance_before := COALESCE(v_balance_before, 0);
+  v_signed_amount := CASE WHEN p_type = 'ADD' THEN p_amount ELSE -p_amount END;
+
+  IF v_balance_before + v_signed_amount < 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient balance for withdrawal');
+  END IF;
+
+  -- Log fund operation
+  INSERT INTO fund_logs (user_id, admin_id, amount, type, reason, balance_before, balance_after)
+  VALUES (p_user_id, v_admin_id, v_signed_amount, p_type, p_reason, v_balance_before, v_balance_before + v_signed_amount)
+  RETURNING id INTO v_fund_log_id;
+
+  -- Post against the adjustments account (updates cached balance)
+  PERFORM post_journal_entry(
+    'admin_adjustment',
+    p_reason,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(p_user_id), 'amount', v_signed_amount),
+      jsonb_build_object('account_id', ledger_system_account('ADMIN_ADJUSTMENTS'), 'amount', -v_signed_amount)
+    ),
+    NULL,
+    v_fund_log_id
+  );
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_admin_id, 'ADMIN_BALANCE_ADJUSTMENT', p_type || ' $' || p_amount || ' for user ' || p_user_id || ': ' || p_reason);
+
+  RETURN json_build_object(
+    'success', true,
+    'fund_log_id', v_fund_log_id,
+    'balance_before', v_balance_before,
+    'balance_after', v_balance_before + v_signed_amount
+  );
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Adjustment would result in negative balance');
+END;
+$$;
@@ -0,0 +1,240 @@
+-- Idempotency keys for money-moving RPCs
+-- A client-generated key is stored per user with a unique constraint. A replay with the
+-- same key returns the original successful result instead of moving money again.
+-- Failed attempts release the key so the client can retry with it.
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  idempotency_key UUID NOT NULL,
+  operation TEXT NOT NULL,
+  request_fingerprint TEXT NOT NULL,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX idx_idempotency_keys_created_at ON public.idempotency_keys(created_at);
+
+-- Enable RLS
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Only allow the system (via SECURITY DEFINER functions) to access this table
+CREATE POLICY "No direct access to idempotency keys"
+  ON public.idempotency_keys
+  FOR ALL
+  TO authenticated
+  USING (false);
+
+-- Claim a key for the current user.
+-- Returns NULL when the caller should go ahead, otherwise the response to return as-is.
+CREATE OR REPLACE FUNCTION public.idempotency_begin(
+  p_key UUID,
+  p_operation TEXT,
+  p_fingerprint TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_existing RECORD;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- No key (or no user, which the wrapped function rejects) means no de-duplication
+  IF p_key IS NULL OR v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Blocks on a concurrent request holding the same key until it commits or rolls back
+  INSERT INTO idempotency_keys (user_id, idempotency_key, operation, request_fingerprint)
+  VALUES (v_user_id, p_key, p_operation, p_fingerprint)
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT operation, request_fingerprint, response INTO v_existing
+  FROM idempotency_keys
+  WHERE user_id = v_user_id AND idempotency_key = p_key;
+
+  IF v_existing.operation <> p_operation OR v_existing.request_fingerprint <> p_fingerprint THEN
+    RETURN json_build_object('success', false, 'error', 'Idempotency key was already used for a different request');
+  END IF;
+
+  IF v_existing.response IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'A request with this idempotency key is already being processed');
+  END IF;
+
+  RETURN (v_existing.response || jsonb_build_object('idempotent_replay', true))::json;
+END;
+$$;
+
+-- Store a successful result against the key, or release the key when the call failed
+CREATE OR REPLACE FUNCTION public.idempotency_complete(p_key UUID, p_result JSON)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_key IS NULL OR auth.uid() IS NULL THEN
+    RETURN p_result;
+  END IF;
+
+  IF COALESCE((p_result->>'success')::boolean, false) THEN
+    UPDATE idempotency_keys
+    SET response = p_result::jsonb, completed_at = now()
+    WHERE user_id = auth.uid() AND idempotency_key = p_key;
+  ELSE
+    DELETE FROM idempotency_keys
+    WHERE user_id = auth.uid() AND idempotency_key = p_key;
+  END IF;
+
+  RETURN p_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.idempotency_begin(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.idempotency_complete(UUID, JSON) FROM PUBLIC, anon, authenticated;
+
+-- Keep the existing implementations as internal functions behind keyed wrappers
+ALTER FUNCTION public.process_transfer(UUID, NUMERIC, TEXT) RENAME TO execute_transfer;
+ALTER FUNCTION public.process_transfer_secure(UUID, NUMERIC, TEXT, TEXT) RENAME TO execute_transfer_secure;
+ALTER FUNCTION public.admin_transfer_with_chain(UUID, NUMERIC, TEXT, TEXT) RENAME TO execute_admin_transfer;
+ALTER FUNCTION public.withdraw_from_treasury(NUMERIC, TEXT) RENAME TO execute_treasury_withdrawal;
+
+REVOKE EXECUTE ON FUNCTION public.execute_transfer(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_transfer_secure(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_admin_transfer(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_treasury_withdrawal(NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Transfer after the client has verified the PIN or biometrics
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Rate-limited transfer with server-side PIN check
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer_secure(p_recipient_id, p_amount, p_description, p_pin)
+  );
+END;
+$$;
+
+-- Admin transfer with chain ID tracking
+CREATE OR REPLACE FUNCTION public.admin_transfer_with_chain(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_parent_chain_id TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'admin_transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description, p_parent_chain_id))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_admin_transfer(p_recipient_id, p_amount, p_description, p_parent_chain_id)
+  );
+END;
+$$;
+
+-- Admin withdrawal from treasury
+CREATE OR REPLACE FUNCTION public.withdraw_from_treasury(
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'treasury_withdrawal',
+    md5(concat_ws('|', p_amount, p_reason))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_treasury_withdrawal(p_amount, p_reason)
+  );
+END;
+$$;
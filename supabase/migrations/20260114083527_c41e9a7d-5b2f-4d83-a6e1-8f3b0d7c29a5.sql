@@ -0,0 +1,317 @@
+-- KYC document review workflow
+-- Users upload ID documents to a private bucket and register them in kyc_documents.
+-- Staff approve or reject through review_kyc, which records the reviewer and logs the decision.
+-- Transfers above the kyc_required_amount setting need an approved KYC.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'kyc_status') THEN
+    CREATE TYPE public.kyc_status AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.kyc_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL,
+  document_url TEXT NOT NULL,
+  status kyc_status DEFAULT 'PENDING',
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- document_url holds the object path inside the kyc-documents bucket
+ALTER TABLE public.kyc_documents ADD COLUMN IF NOT EXISTS file_name TEXT;
+ALTER TABLE public.kyc_documents ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_kyc_documents_user_id ON public.kyc_documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_kyc_documents_status ON public.kyc_documents(status);
+
+ALTER TABLE public.kyc_documents ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_kyc_documents_updated_at ON public.kyc_documents;
+CREATE TRIGGER update_kyc_documents_updated_at
+  BEFORE UPDATE ON public.kyc_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reviews go through review_kyc so every decision is audited; staff only read directly
+DROP POLICY IF EXISTS "Users can view own KYC" ON public.kyc_documents;
+DROP POLICY IF EXISTS "Users can create own KYC" ON public.kyc_documents;
+DROP POLICY IF EXISTS "Staff can manage KYC" ON public.kyc_documents;
+
+CREATE POLICY "Users can view own KYC documents"
+  ON public.kyc_documents
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can submit own KYC documents"
+  ON public.kyc_documents
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'PENDING'
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+    AND rejection_reason IS NULL
+  );
+
+CREATE POLICY "Users can withdraw pending KYC documents"
+  ON public.kyc_documents
+  FOR DELETE
+  USING (auth.uid() = user_id AND status = 'PENDING');
+
+CREATE POLICY "Staff can view all KYC documents"
+  ON public.kyc_documents
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role));
+
+-- Create storage bucket for KYC documents
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'kyc-documents',
+  'kyc-documents',
+  false,
+  10485760, -- 10MB
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own KYC documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'kyc-documents'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can view their own KYC documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'kyc-documents'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own KYC documents"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'kyc-documents'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Staff can view all KYC documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'kyc-documents'
+  AND (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role))
+);
+
+-- Transfers above this amount require approved KYC
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('kyc_required_amount', '1000.00', 'Transfers above this amount require approved KYC')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Overall KYC status for a user: approved, pending, rejected or not_submitted
+CREATE OR REPLACE FUNCTION public.get_kyc_status(p_user_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := COALESCE(p_user_id, auth.uid());
+
+  IF v_user_id <> auth.uid()
+     AND NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role)) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = v_user_id AND status = 'APPROVED') THEN
+    RETURN 'approved';
+  ELSIF EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = v_user_id AND status = 'PENDING') THEN
+    RETURN 'pending';
+  ELSIF EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = v_user_id AND status = 'REJECTED') THEN
+    RETURN 'rejected';
+  END IF;
+
+  RETURN 'not_submitted';
+END;
+$$;
+
+-- Approve or reject a user's pending documents
+CREATE OR REPLACE FUNCTION public.review_kyc(
+  p_user_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewer_id UUID;
+  v_reason TEXT;
+  v_count INTEGER;
+BEGIN
+  v_reviewer_id := auth.uid();
+
+  IF NOT (has_role(v_reviewer_id, 'admin'::app_role) OR has_role(v_reviewer_id, 'agent'::app_role)) THEN
+    RETURN json_build_object('success', false, 'error', 'Unauthorized: Staff access required');
+  END IF;
+
+  IF p_decision NOT IN ('APPROVED', 'REJECTED') THEN
+    RETURN json_build_object('success', false, 'error', 'Decision must be APPROVED or REJECTED');
+  END IF;
+
+  IF p_user_id = v_reviewer_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot review your own KYC');
+  END IF;
+
+  v_reason := NULLIF(trim(p_reason), '');
+  IF p_decision = 'REJECTED' AND v_reason IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'A reason is required when rejecting KYC');
+  END IF;
+
+  UPDATE kyc_documents
+  SET status = p_decision::kyc_status,
+      rejection_reason = CASE WHEN p_decision = 'REJECTED' THEN v_reason END,
+      reviewed_by = v_reviewer_id,
+      reviewed_at = now()
+  WHERE user_id = p_user_id AND status = 'PENDING';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'No pending documents to review');
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    p_user_id,
+    'KYC_' || p_decision,
+    CASE
+      WHEN p_decision = 'APPROVED' THEN 'KYC approved by ' || v_reviewer_id
+      ELSE 'KYC rejected by ' || v_reviewer_id || ': ' || v_reason
+    END
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'status', p_decision,
+    'documents_reviewed', v_count
+  );
+END;
+$$;
+
+-- Returns NULL when the caller may send p_amount, otherwise the failure response
+CREATE OR REPLACE FUNCTION public.kyc_transfer_check(p_amount NUMERIC)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold NUMERIC;
+BEGIN
+  SELECT setting_value::NUMERIC INTO v_threshold
+  FROM system_settings
+  WHERE setting_key = 'kyc_required_amount';
+
+  IF v_threshold IS NULL OR p_amount IS NULL OR p_amount <= v_threshold THEN
+    RETURN NULL;
+  END IF;
+
+  IF get_kyc_status(auth.uid()) = 'approved' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'success', false,
+    'error', 'Transfers above $' || to_char(v_threshold, 'FM999999990.00') || ' require verified KYC',
+    'kyc_required', true,
+    'kyc_required_amount', v_threshold
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kyc_transfer_check(NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Transfer after the client has verified the PIN or biometrics
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := kyc_transfer_check(p_amount);
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Rate-limited transfer with server-side PIN check
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := kyc_transfer_check(p_amount);
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer_secure(p_recipient_id, p_amount, p_description, p_pin)
+  );
+END;
+$$;
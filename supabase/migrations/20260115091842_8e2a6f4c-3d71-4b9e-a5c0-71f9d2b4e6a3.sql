@@ -0,0 +1,327 @@
+-- Persistent account status with history
+-- Staff flag, freeze, close or reactivate accounts through set_account_status.
+-- Frozen and closed accounts can neither send nor receive transfers.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS account_status TEXT NOT NULL DEFAULT 'active'
+    CHECK (account_status IN ('active', 'under_review', 'frozen', 'closed')),
+  ADD COLUMN IF NOT EXISTS account_status_reason TEXT,
+  ADD COLUMN IF NOT EXISTS account_status_changed_by UUID,
+  ADD COLUMN IF NOT EXISTS account_status_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.account_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  previous_status TEXT NOT NULL,
+  new_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_status_history_user_id ON public.account_status_history(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.account_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own account status history"
+  ON public.account_status_history
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all account status history"
+  ON public.account_status_history
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role));
+
+-- Users can update their own profile row, so status columns are only writable from set_account_status
+CREATE OR REPLACE FUNCTION public.guard_account_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.account_status_write', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' AND NEW.account_status <> 'active' THEN
+      RAISE EXCEPTION 'Account status can only be changed by staff';
+    ELSIF TG_OP = 'UPDATE' AND (
+      NEW.account_status IS DISTINCT FROM OLD.account_status
+      OR NEW.account_status_reason IS DISTINCT FROM OLD.account_status_reason
+      OR NEW.account_status_changed_by IS DISTINCT FROM OLD.account_status_changed_by
+      OR NEW.account_status_changed_at IS DISTINCT FROM OLD.account_status_changed_at
+    ) THEN
+      RAISE EXCEPTION 'Account status can only be changed by staff';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_account_status
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_account_status();
+
+-- Change a user's account status.
+-- Agents may flag an account for review and clear a review; freezing, closing and
+-- reopening frozen or closed accounts is reserved for admins.
+CREATE OR REPLACE FUNCTION public.set_account_status(
+  p_user_id UUID,
+  p_status TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID;
+  v_is_admin BOOLEAN;
+  v_previous TEXT;
+  v_reason TEXT;
+BEGIN
+  v_actor_id := auth.uid();
+  v_is_admin := has_role(v_actor_id, 'admin'::app_role);
+
+  IF NOT (v_is_admin OR has_role(v_actor_id, 'agent'::app_role)) THEN
+    RETURN json_build_object('success', false, 'error', 'Unauthorized: Staff access required');
+  END IF;
+
+  IF p_status NOT IN ('active', 'under_review', 'frozen', 'closed') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid account status');
+  END IF;
+
+  IF p_user_id = v_actor_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot change your own account status');
+  END IF;
+
+  v_reason := NULLIF(trim(p_reason), '');
+  IF p_status <> 'active' AND v_reason IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  SELECT account_status INTO v_previous
+  FROM profiles
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'User not found');
+  END IF;
+
+  IF v_previous = p_status THEN
+    RETURN json_build_object('success', false, 'error', 'Account is already ' || p_status);
+  END IF;
+
+  IF NOT v_is_admin AND (p_status IN ('frozen', 'closed') OR v_previous IN ('frozen', 'closed')) THEN
+    RETURN json_build_object('success', false, 'error', 'Only admins can freeze, close or reopen accounts');
+  END IF;
+
+  PERFORM set_config('app.account_status_write', 'on', true);
+
+  UPDATE profiles
+  SET account_status = p_status,
+      account_status_reason = CASE WHEN p_status = 'active' THEN NULL ELSE v_reason END,
+      account_status_changed_by = v_actor_id,
+      account_status_changed_at = now()
+  WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.account_status_write', 'off', true);
+
+  INSERT INTO account_status_history (user_id, previous_status, new_status, reason, changed_by)
+  VALUES (p_user_id, v_previous, p_status, v_reason, v_actor_id);
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    p_user_id,
+    'ACCOUNT_' || upper(p_status),
+    'Account status changed from ' || v_previous || ' to ' || p_status
+      || COALESCE(': ' || v_reason, '')
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'previous_status', v_previous,
+    'status', p_status
+  );
+END;
+$$;
+
+-- Returns NULL when both accounts can move money, otherwise the failure response
+CREATE OR REPLACE FUNCTION public.account_transfer_check(p_sender_id UUID, p_recipient_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT account_status INTO v_status FROM profiles WHERE user_id = p_sender_id;
+  IF v_status IN ('frozen', 'closed') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Your account is ' || v_status || '. Please contact support.',
+      'account_status', v_status
+    );
+  END IF;
+
+  SELECT account_status INTO v_status FROM profiles WHERE user_id = p_recipient_id;
+  IF v_status IN ('frozen', 'closed') THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient account cannot receive funds');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_transfer_check(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Transfer after the client has verified the PIN or biometrics
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Rate-limited transfer with server-side PIN check
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer_secure(p_recipient_id, p_amount, p_description, p_pin)
+  );
+END;
+$$;
+
+-- Admin transfer with chain ID tracking
+CREATE OR REPLACE FUNCTION public.admin_transfer_with_chain(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_parent_chain_id TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'admin_transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description, p_parent_chain_id))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := account_transfer_check(auth.uid(), p_recipient_id);
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_admin_transfer(p_recipient_id, p_amount, p_description, p_parent_chain_id)
+  );
+END;
+$$;
+
+-- Reject accepting a payment request while the payer (recipient_id) or requester (sender_id)
+-- is frozen or closed.
+-- Acceptance moves the money through process_transfer; this covers status-only updates.
+CREATE OR REPLACE FUNCTION public.guard_payment_request_acceptance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSON;
+BEGIN
+  IF NEW.status IN ('approved', 'accepted') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    v_check := account_transfer_check(NEW.recipient_id, NEW.sender_id);
+    IF v_check IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_check->>'error';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_requests_guard_acceptance
+  BEFORE UPDATE ON public.payment_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_payment_request_acceptance();
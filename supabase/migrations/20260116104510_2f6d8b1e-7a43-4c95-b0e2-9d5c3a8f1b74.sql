@@ -0,0 +1,65 @@
+-- Database backup history and restore verification runs
+-- The database-backup edge function writes gzipped JSON snapshots to the private
+-- database-backups bucket and records them here; restores into a verification
+-- Postgres are recorded in database_backup_restores.
+
+CREATE TABLE IF NOT EXISTS public.database_backups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  backup_name TEXT NOT NULL,
+  backup_type TEXT NOT NULL DEFAULT 'full',
+  format_version INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed')),
+  storage_path TEXT,
+  file_size_bytes BIGINT,
+  checksum_sha256 TEXT,
+  table_row_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  created_by UUID,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_database_backups_created_at ON public.database_backups(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.database_backup_restores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  backup_id UUID NOT NULL REFERENCES public.database_backups(id) ON DELETE CASCADE,
+  target_host TEXT NOT NULL,
+  target_database TEXT NOT NULL,
+  target_schema TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'verified', 'failed')),
+  checksum_verified BOOLEAN NOT NULL DEFAULT false,
+  restored_row_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  verification JSONB,
+  error_message TEXT,
+  requested_by UUID,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_database_backup_restores_backup_id ON public.database_backup_restores(backup_id);
+
+-- Enable RLS
+ALTER TABLE public.database_backups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.database_backup_restores ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read history; rows are written by the edge function with the service role
+CREATE POLICY "Admins can view database backups"
+  ON public.database_backups
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view database backup restores"
+  ON public.database_backup_restores
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Create storage bucket for backup archives
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('database-backups', 'database-backups', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can download database backups"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'database-backups' AND has_role(auth.uid(), 'admin'::app_role));
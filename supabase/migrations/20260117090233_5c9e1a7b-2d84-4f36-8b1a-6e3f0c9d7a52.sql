@@ -0,0 +1,95 @@
+-- On-chain balance reconciliation for GYD wallets
+-- The reconcile-wallets edge function reads each profile's GYD token balance with
+-- eth_call balanceOf at a single block and compares it with the user's ledger balance.
+-- Every run is recorded; mismatches are stored as discrepancies for admins to resolve.
+
+CREATE TABLE IF NOT EXISTS public.wallet_reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  rpc_endpoint TEXT,
+  token_address TEXT,
+  block_number BIGINT,
+  wallets_checked INTEGER NOT NULL DEFAULT 0,
+  discrepancies_found INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  triggered_by UUID,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_wallet_reconciliation_runs_started_at ON public.wallet_reconciliation_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.wallet_balance_discrepancies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.wallet_reconciliation_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  wallet_address TEXT NOT NULL,
+  onchain_balance NUMERIC(78, 18) NOT NULL,
+  ledger_balance NUMERIC(15, 2) NOT NULL,
+  difference NUMERIC(78, 18) NOT NULL,
+  block_number BIGINT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution_note TEXT,
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wallet_balance_discrepancies_run ON public.wallet_balance_discrepancies(run_id);
+CREATE INDEX idx_wallet_balance_discrepancies_open ON public.wallet_balance_discrepancies(user_id) WHERE status = 'open';
+
+-- Enable RLS
+ALTER TABLE public.wallet_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_balance_discrepancies ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge function with the service role
+CREATE POLICY "Admins can view reconciliation runs"
+  ON public.wallet_reconciliation_runs
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view balance discrepancies"
+  ON public.wallet_balance_discrepancies
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Mark a discrepancy as investigated
+CREATE OR REPLACE FUNCTION public.resolve_wallet_discrepancy(
+  p_discrepancy_id UUID,
+  p_note TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN json_build_object('success', false, 'error', 'Only admins can resolve discrepancies');
+  END IF;
+
+  IF p_note IS NULL OR trim(p_note) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'A resolution note is required');
+  END IF;
+
+  UPDATE wallet_balance_discrepancies
+  SET status = 'resolved',
+      resolution_note = trim(p_note),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_discrepancy_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Discrepancy not found or already resolved');
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- GYD token contract whose balanceOf is reconciled
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES
+  ('blockchain_token_address', '', 'GYD ERC-20 token contract address'),
+  ('blockchain_token_decimals', '18', 'GYD token decimals')
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,145 @@
+-- Blockchain node configuration shared by every client
+-- One row per network (GYD, GYDS) replaces the per-browser localStorage config and the
+-- loose blockchain_* system settings. Only admins can write; every change is versioned.
+
+CREATE TABLE IF NOT EXISTS public.blockchain_networks (
+  network TEXT NOT NULL PRIMARY KEY CHECK (network IN ('GYD', 'GYDS')),
+  network_name TEXT NOT NULL,
+  rpc_endpoint TEXT NOT NULL DEFAULT '',
+  chain_id TEXT NOT NULL DEFAULT '1',
+  event_indexer TEXT NOT NULL DEFAULT '',
+  coin_name TEXT NOT NULL,
+  coin_symbol TEXT NOT NULL,
+  decimals INTEGER NOT NULL DEFAULT 18 CHECK (decimals BETWEEN 0 AND 36),
+  token_address TEXT NOT NULL DEFAULT '',
+  hot_wallet_address TEXT NOT NULL DEFAULT '',
+  min_withdrawal NUMERIC(15, 2) NOT NULL DEFAULT 10,
+  max_withdrawal NUMERIC(15, 2) NOT NULL DEFAULT 10000,
+  withdrawal_fee NUMERIC(15, 2) NOT NULL DEFAULT 1,
+  deposit_confirmations INTEGER NOT NULL DEFAULT 3 CHECK (deposit_confirmations >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.blockchain_network_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  network TEXT NOT NULL REFERENCES public.blockchain_networks(network) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (network, version)
+);
+
+-- Enable RLS
+ALTER TABLE public.blockchain_networks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blockchain_network_history ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in device needs the node config to check readiness
+CREATE POLICY "Authenticated users can view blockchain networks"
+  ON public.blockchain_networks
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can insert blockchain networks"
+  ON public.blockchain_networks
+  FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update blockchain networks"
+  ON public.blockchain_networks
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view blockchain network history"
+  ON public.blockchain_network_history
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Bump the version and stamp the editor on every change; saves that change nothing keep the row as is
+CREATE OR REPLACE FUNCTION public.stamp_blockchain_network()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF to_jsonb(NEW) - 'version' - 'updated_by' - 'updated_at'
+       = to_jsonb(OLD) - 'version' - 'updated_by' - 'updated_at' THEN
+      RETURN OLD;
+    END IF;
+    NEW.version := OLD.version + 1;
+  END IF;
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER blockchain_networks_stamp
+  BEFORE INSERT OR UPDATE ON public.blockchain_networks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_blockchain_network();
+
+-- Snapshot each version into the history table
+CREATE OR REPLACE FUNCTION public.record_blockchain_network_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO blockchain_network_history (network, version, config, changed_by)
+  VALUES (NEW.network, NEW.version, to_jsonb(NEW), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER blockchain_networks_history
+  AFTER INSERT OR UPDATE ON public.blockchain_networks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_blockchain_network_history();
+
+-- Seed both networks from the settings they replace
+INSERT INTO public.blockchain_networks (
+  network, network_name, rpc_endpoint, chain_id, event_indexer,
+  coin_name, coin_symbol, decimals, token_address
+)
+SELECT
+  'GYD',
+  'GYD Network',
+  COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'blockchain_rpc'), ''),
+  COALESCE(NULLIF((SELECT setting_value FROM system_settings WHERE setting_key = 'blockchain_chain_id'), ''), '1'),
+  COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'blockchain_event_indexer'), ''),
+  'GYD Stablecoin',
+  'GYD',
+  COALESCE(NULLIF((SELECT setting_value FROM system_settings WHERE setting_key = 'blockchain_token_decimals'), '')::INTEGER, 18),
+  COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'blockchain_token_address'), '')
+ON CONFLICT (network) DO NOTHING;
+
+INSERT INTO public.blockchain_networks (
+  network, network_name, rpc_endpoint, chain_id, event_indexer, coin_name, coin_symbol
+)
+SELECT
+  'GYDS',
+  'GYD Network',
+  COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'gyds_rpc'), ''),
+  COALESCE(NULLIF((SELECT setting_value FROM system_settings WHERE setting_key = 'gyds_chain_id'), ''), '1'),
+  COALESCE((SELECT setting_value FROM system_settings WHERE setting_key = 'gyds_event_indexer'), ''),
+  'GYD Savings Token',
+  'GYDS'
+ON CONFLICT (network) DO NOTHING;
+
+DELETE FROM public.system_settings
+WHERE setting_key IN (
+  'blockchain_rpc', 'blockchain_chain_id', 'blockchain_event_indexer',
+  'blockchain_token_address', 'blockchain_token_decimals',
+  'gyds_rpc', 'gyds_chain_id', 'gyds_event_indexer'
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.blockchain_networks;
@@ -0,0 +1,87 @@
+-- secp256k1 wallet keys
+-- Version 1 wallets derived the public key and address with SHA-256, so they cannot sign on
+-- the EVM chain. Their random 32-byte private keys are valid secp256k1 keys, so the owner
+-- re-derives the real public key and address in the browser (the password never leaves it)
+-- and stores the result with upgrade_wallet_keys.
+
+-- Existing vault rows are version 1; rows created from now on hold secp256k1 keys
+ALTER TABLE public.wallet_vault ADD COLUMN IF NOT EXISTS key_version SMALLINT NOT NULL DEFAULT 1;
+ALTER TABLE public.wallet_vault ALTER COLUMN key_version SET DEFAULT 2;
+
+-- Keeps the SHA-256 address so old references can still be traced to the user
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS legacy_wallet_address TEXT;
+
+CREATE OR REPLACE FUNCTION public.upgrade_wallet_keys(
+  p_wallet_address TEXT,
+  p_public_key TEXT,
+  p_encrypted_private_key TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_key_version SMALLINT;
+  v_old_address TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_wallet_address !~ '^0x[0-9a-fA-F]{40}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid wallet address');
+  END IF;
+
+  IF p_public_key !~ '^04[0-9a-f]{128}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Public key must be an uncompressed secp256k1 key');
+  END IF;
+
+  IF p_encrypted_private_key IS NULL OR p_encrypted_private_key = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Encrypted private key is required');
+  END IF;
+
+  SELECT key_version INTO v_key_version
+  FROM wallet_vault
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'No wallet to upgrade');
+  END IF;
+
+  IF v_key_version >= 2 THEN
+    RETURN json_build_object('success', false, 'error', 'Wallet already uses secp256k1 keys');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE lower(wallet_address) = lower(p_wallet_address) AND user_id <> v_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Wallet address already in use');
+  END IF;
+
+  SELECT wallet_address INTO v_old_address FROM profiles WHERE user_id = v_user_id;
+
+  UPDATE profiles
+  SET legacy_wallet_address = v_old_address,
+      wallet_address = p_wallet_address,
+      public_key = p_public_key
+  WHERE user_id = v_user_id;
+
+  UPDATE wallet_vault
+  SET encrypted_private_key = p_encrypted_private_key,
+      key_version = 2
+  WHERE user_id = v_user_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    'WALLET_KEYS_UPGRADED',
+    'Wallet address changed from ' || COALESCE(v_old_address, 'none') || ' to ' || p_wallet_address
+  );
+
+  RETURN json_build_object('success', true, 'wallet_address', p_wallet_address);
+END;
+$$;
@@ -0,0 +1,346 @@
+-- On-chain GYD withdrawals from the user's own wallet
+-- 1. The server checks the PIN, account status, KYC and network limits, then debits the
+--    ledger into an external clearing account before anything is signed
+-- 2. The browser signs the ERC-20 transfer with the vault key and records the tx hash
+--    before broadcasting it
+-- 3. The track-withdrawals edge function follows the receipt: confirmed after the
+--    configured confirmations, or failed with the ledger debit reversed
+
+-- Tokens that left (or later arrive from) addresses outside the bank
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_account_type_check;
+ALTER TABLE public.ledger_accounts ADD CONSTRAINT ledger_accounts_account_type_check
+  CHECK (account_type IN ('user_wallet', 'treasury', 'fee_income', 'equity', 'adjustment', 'external'));
+
+INSERT INTO public.ledger_accounts (account_code, account_type, name)
+VALUES ('ONCHAIN_EXTERNAL', 'external', 'On-chain transfers to and from external addresses')
+ON CONFLICT (account_code) DO NOTHING;
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN (
+    'opening_balance', 'transfer', 'treasury_withdrawal', 'admin_transfer', 'admin_adjustment',
+    'onchain_withdrawal', 'onchain_withdrawal_reversal'
+  ));
+
+CREATE TABLE public.onchain_withdrawals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  network TEXT NOT NULL DEFAULT 'GYD' REFERENCES public.blockchain_networks(network),
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount > 0),
+  token_address TEXT NOT NULL,
+  chain_id TEXT NOT NULL,
+  nonce BIGINT,
+  tx_hash TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'broadcast', 'confirmed', 'failed')),
+  block_number BIGINT,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  journal_entry_id UUID REFERENCES public.ledger_journal_entries(id),
+  reversal_entry_id UUID REFERENCES public.ledger_journal_entries(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  broadcast_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_onchain_withdrawals_user ON public.onchain_withdrawals(user_id, created_at DESC);
+CREATE INDEX idx_onchain_withdrawals_open ON public.onchain_withdrawals(status) WHERE status IN ('pending', 'broadcast');
+
+-- One unsigned withdrawal at a time, so the wallet nonce read by the browser is never shared
+CREATE UNIQUE INDEX idx_onchain_withdrawals_one_pending ON public.onchain_withdrawals(user_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_onchain_withdrawals_updated_at
+  BEFORE UPDATE ON public.onchain_withdrawals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.onchain_withdrawals ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through the functions below
+CREATE POLICY "Users can view their own on-chain withdrawals"
+  ON public.onchain_withdrawals
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all on-chain withdrawals"
+  ON public.onchain_withdrawals
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.onchain_withdrawals;
+
+-- Reserve the funds for a withdrawal and hand back what the browser needs to sign it
+CREATE OR REPLACE FUNCTION public.execute_onchain_withdrawal(
+  p_to_address TEXT,
+  p_amount NUMERIC
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_network RECORD;
+  v_wallet_address TEXT;
+  v_key_version SMALLINT;
+  v_balance NUMERIC;
+  v_withdrawal_id UUID;
+  v_entry_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_amount <> round(p_amount, 2) THEN
+    RETURN json_build_object('success', false, 'error', 'Amount cannot have more than 2 decimals');
+  END IF;
+
+  IF p_to_address IS NULL OR p_to_address !~ '^0x[0-9a-fA-F]{40}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid destination address');
+  END IF;
+
+  SELECT * INTO v_network FROM blockchain_networks WHERE network = 'GYD';
+
+  IF NOT FOUND OR NOT v_network.is_active THEN
+    RETURN json_build_object('success', false, 'error', 'On-chain withdrawals are not enabled');
+  END IF;
+
+  IF v_network.rpc_endpoint = '' OR v_network.token_address = '' THEN
+    RETURN json_build_object('success', false, 'error', 'GYD network is not configured');
+  END IF;
+
+  IF p_amount < v_network.min_withdrawal THEN
+    RETURN json_build_object('success', false, 'error', 'Minimum withdrawal is ' || v_network.min_withdrawal || ' GYD');
+  END IF;
+
+  IF p_amount > v_network.max_withdrawal THEN
+    RETURN json_build_object('success', false, 'error', 'Maximum withdrawal is ' || v_network.max_withdrawal || ' GYD');
+  END IF;
+
+  SELECT wallet_address, balance INTO v_wallet_address, v_balance
+  FROM profiles
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  SELECT key_version INTO v_key_version FROM wallet_vault WHERE user_id = v_user_id;
+
+  IF v_wallet_address IS NULL OR v_key_version IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No wallet found');
+  END IF;
+
+  IF v_key_version < 2 THEN
+    RETURN json_build_object('success', false, 'error', 'Upgrade your wallet before sending on-chain');
+  END IF;
+
+  IF lower(p_to_address) = lower(v_wallet_address) THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot withdraw to your own wallet');
+  END IF;
+
+  IF COALESCE(v_balance, 0) < p_amount THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient funds');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM onchain_withdrawals WHERE user_id = v_user_id AND status = 'pending') THEN
+    RETURN json_build_object('success', false, 'error', 'Another withdrawal is still being signed');
+  END IF;
+
+  INSERT INTO onchain_withdrawals (user_id, from_address, to_address, amount, token_address, chain_id)
+  VALUES (v_user_id, v_wallet_address, p_to_address, p_amount, v_network.token_address, v_network.chain_id)
+  RETURNING id INTO v_withdrawal_id;
+
+  v_entry_id := post_journal_entry(
+    'onchain_withdrawal',
+    'On-chain withdrawal to ' || p_to_address,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_user_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_system_account('ONCHAIN_EXTERNAL'), 'amount', p_amount)
+    )
+  );
+
+  UPDATE onchain_withdrawals SET journal_entry_id = v_entry_id WHERE id = v_withdrawal_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_user_id, 'ONCHAIN_WITHDRAWAL_REQUESTED', 'Withdrawal of ' || p_amount || ' GYD to ' || p_to_address);
+
+  RETURN json_build_object(
+    'success', true,
+    'withdrawal_id', v_withdrawal_id,
+    'from_address', v_wallet_address,
+    'rpc_endpoint', v_network.rpc_endpoint,
+    'chain_id', v_network.chain_id,
+    'token_address', v_network.token_address,
+    'decimals', v_network.decimals
+  );
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Withdrawal would result in negative balance');
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.execute_onchain_withdrawal(TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Wallet PIN is checked server-side before the keyed request is recorded
+CREATE OR REPLACE FUNCTION public.request_onchain_withdrawal(
+  p_to_address TEXT,
+  p_amount NUMERIC,
+  p_pin TEXT,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin_result JSON;
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_pin_result := verify_wallet_pin(p_pin);
+  IF NOT COALESCE((v_pin_result->>'success')::BOOLEAN, false) THEN
+    RETURN v_pin_result;
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'onchain_withdrawal',
+    md5(concat_ws('|', lower(p_to_address), p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), NULL),
+    kyc_transfer_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_onchain_withdrawal(p_to_address, p_amount)
+  );
+END;
+$$;
+
+-- Record the signed transaction's hash before it is broadcast
+CREATE OR REPLACE FUNCTION public.record_onchain_withdrawal_tx(
+  p_withdrawal_id UUID,
+  p_tx_hash TEXT,
+  p_nonce BIGINT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_tx_hash IS NULL OR p_tx_hash !~ '^0x[0-9a-f]{64}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid transaction hash');
+  END IF;
+
+  UPDATE onchain_withdrawals
+  SET status = 'broadcast',
+      tx_hash = p_tx_hash,
+      nonce = p_nonce,
+      broadcast_at = now()
+  WHERE id = p_withdrawal_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Withdrawal not found or already signed');
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Move a withdrawal forward from what the chain reports; failures return the funds
+CREATE OR REPLACE FUNCTION public.settle_onchain_withdrawal(
+  p_withdrawal_id UUID,
+  p_status TEXT,
+  p_block_number BIGINT DEFAULT NULL,
+  p_confirmations INTEGER DEFAULT 0,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal RECORD;
+  v_reversal_id UUID;
+BEGIN
+  IF p_status NOT IN ('broadcast', 'confirmed', 'failed') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid status');
+  END IF;
+
+  SELECT * INTO v_withdrawal FROM onchain_withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND OR v_withdrawal.status NOT IN ('pending', 'broadcast') THEN
+    RETURN json_build_object('success', false, 'error', 'Withdrawal not found or already settled');
+  END IF;
+
+  IF p_status = 'failed' THEN
+    v_reversal_id := post_journal_entry(
+      'onchain_withdrawal_reversal',
+      'Reversal of failed on-chain withdrawal to ' || v_withdrawal.to_address,
+      jsonb_build_array(
+        jsonb_build_object('account_id', ledger_user_account(v_withdrawal.user_id), 'amount', v_withdrawal.amount),
+        jsonb_build_object('account_id', ledger_system_account('ONCHAIN_EXTERNAL'), 'amount', -v_withdrawal.amount)
+        )
+    );
+
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (v_withdrawal.user_id, 'ONCHAIN_WITHDRAWAL_FAILED', 'Withdrawal of ' || v_withdrawal.amount || ' GYD failed and was refunded');
+  ELSIF p_status = 'confirmed' THEN
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (v_withdrawal.user_id, 'ONCHAIN_WITHDRAWAL_CONFIRMED', 'Withdrawal of ' || v_withdrawal.amount || ' GYD confirmed in ' || v_withdrawal.tx_hash);
+  END IF;
+
+  UPDATE onchain_withdrawals
+  SET status = p_status,
+      block_number = COALESCE(p_block_number, block_number),
+      confirmations = COALESCE(p_confirmations, confirmations),
+      error_message = p_error,
+      reversal_entry_id = v_reversal_id,
+      completed_at = CASE WHEN p_status IN ('confirmed', 'failed') THEN now() END
+  WHERE id = p_withdrawal_id;
+
+  RETURN json_build_object('success', true, 'status', p_status);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.settle_onchain_withdrawal(UUID, TEXT, BIGINT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Give up on a withdrawal that was never signed
+CREATE OR REPLACE FUNCTION public.cancel_onchain_withdrawal(
+  p_withdrawal_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM onchain_withdrawals
+    WHERE id = p_withdrawal_id AND user_id = auth.uid() AND status = 'pending'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only unsigned withdrawals can be cancelled');
+  END IF;
+
+  RETURN settle_onchain_withdrawal(p_withdrawal_id, 'failed', NULL, 0, COALESCE(p_reason, 'Cancelled before signing'));
+END;
+$$;
@@ -0,0 +1,123 @@
+-- On-chain GYD deposits
+-- The watch-deposits edge function reads ERC-20 Transfer logs of the GYD token (from the
+-- event indexer when configured, otherwise the RPC node) and records every transfer to a
+-- user's wallet address. Once it has enough confirmations it is credited to the ledger;
+-- (tx_hash, log_index) is unique and crediting only moves pending rows, so each log is
+-- credited at most once.
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN (
+    'opening_balance', 'transfer', 'treasury_withdrawal', 'admin_transfer', 'admin_adjustment',
+    'onchain_withdrawal', 'onchain_withdrawal_reversal', 'onchain_deposit'
+  ));
+
+CREATE TABLE public.onchain_deposits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  network TEXT NOT NULL DEFAULT 'GYD' REFERENCES public.blockchain_networks(network),
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  token_address TEXT NOT NULL,
+  amount_units NUMERIC(78, 0) NOT NULL,
+  amount NUMERIC(15, 2) NOT NULL,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'credited', 'orphaned', 'ignored')),
+  journal_entry_id UUID UNIQUE REFERENCES public.ledger_journal_entries(id),
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  credited_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (tx_hash, log_index)
+);
+
+CREATE INDEX idx_onchain_deposits_user ON public.onchain_deposits(user_id, detected_at DESC);
+CREATE INDEX idx_onchain_deposits_pending ON public.onchain_deposits(block_number) WHERE status = 'pending';
+
+-- Last block scanned per network
+CREATE TABLE public.deposit_scan_cursors (
+  network TEXT NOT NULL PRIMARY KEY REFERENCES public.blockchain_networks(network),
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.onchain_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deposit_scan_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge function with the service role
+CREATE POLICY "Users can view their own on-chain deposits"
+  ON public.onchain_deposits
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all on-chain deposits"
+  ON public.onchain_deposits
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view deposit scan cursors"
+  ON public.deposit_scan_cursors
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.onchain_deposits;
+
+-- Credit a confirmed deposit to the user's ledger account
+CREATE OR REPLACE FUNCTION public.credit_onchain_deposit(
+  p_deposit_id UUID,
+  p_confirmations INTEGER
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposit RECORD;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_deposit FROM onchain_deposits WHERE id = p_deposit_id FOR UPDATE;
+
+  IF NOT FOUND OR v_deposit.status <> 'pending' THEN
+    RETURN json_build_object('success', false, 'error', 'Deposit not found or already processed');
+  END IF;
+
+  -- Dust below one cent cannot be represented in the ledger
+  IF v_deposit.amount = 0 THEN
+    UPDATE onchain_deposits
+    SET status = 'ignored', confirmations = p_confirmations
+    WHERE id = p_deposit_id;
+
+    RETURN json_build_object('success', true, 'status', 'ignored');
+  END IF;
+
+  v_entry_id := post_journal_entry(
+    'onchain_deposit',
+    'On-chain deposit from ' || v_deposit.from_address,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('ONCHAIN_EXTERNAL'), 'amount', -v_deposit.amount),
+      jsonb_build_object('account_id', ledger_user_account(v_deposit.user_id), 'amount', v_deposit.amount)
+    )
+  );
+
+  UPDATE onchain_deposits
+  SET status = 'credited',
+      confirmations = p_confirmations,
+      journal_entry_id = v_entry_id,
+      credited_at = now()
+  WHERE id = p_deposit_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_deposit.user_id,
+    'ONCHAIN_DEPOSIT_RECEIVED',
+    'Received $' || v_deposit.amount || ' GYD on-chain from ' || v_deposit.from_address || ' (tx ' || v_deposit.tx_hash || ')'
+  );
+
+  RETURN json_build_object('success', true, 'status', 'credited', 'journal_entry_id', v_entry_id);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.credit_onchain_deposit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,231 @@
+-- Device push tokens and the push notification outbox
+-- Clients register their FCM/APNs token through register_device_token. Triggers on
+-- transactions, payment_requests and chat_messages queue a notification per recipient,
+-- which the dispatch-push edge function delivers to every active device of that user.
+
+CREATE TABLE public.device_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoke_reason TEXT
+);
+
+CREATE INDEX idx_device_tokens_user_active ON public.device_tokens(user_id) WHERE revoked_at IS NULL;
+
+CREATE TABLE public.push_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('transaction', 'payment_request', 'chat_message')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  devices_sent INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_notifications_pending ON public.push_notifications(created_at) WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE public.device_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are written through the functions below
+CREATE POLICY "Users can view their own device tokens"
+  ON public.device_tokens
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all device tokens"
+  ON public.device_tokens
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view push notifications"
+  ON public.push_notifications
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Register or refresh this device's token for the current user.
+-- A token moves to whoever signed in last on the device; p_previous_token is revoked when
+-- the provider rotated the token.
+CREATE OR REPLACE FUNCTION public.register_device_token(
+  p_token TEXT,
+  p_platform TEXT,
+  p_previous_token TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_token IS NULL OR length(p_token) < 16 OR length(p_token) > 4096 THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid device token');
+  END IF;
+
+  IF p_platform NOT IN ('ios', 'android', 'web') THEN
+    RETURN json_build_object('success', false, 'error', 'Unsupported platform');
+  END IF;
+
+  INSERT INTO device_tokens (user_id, token, platform)
+  VALUES (v_user_id, p_token, p_platform)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      last_seen_at = now(),
+      revoked_at = NULL,
+      revoke_reason = NULL;
+
+  IF p_previous_token IS NOT NULL AND p_previous_token <> p_token THEN
+    UPDATE device_tokens
+    SET revoked_at = now(), revoke_reason = 'refreshed'
+    WHERE token = p_previous_token AND user_id = v_user_id AND revoked_at IS NULL;
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Stop pushing to this device, e.g. on sign-out
+CREATE OR REPLACE FUNCTION public.unregister_device_token(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE device_tokens
+  SET revoked_at = now(), revoke_reason = 'signed_out'
+  WHERE token = p_token AND user_id = auth.uid() AND revoked_at IS NULL;
+
+  RETURN json_build_object('success', FOUND);
+END;
+$$;
+
+-- Queue notifications for transaction, payment request and chat events
+CREATE OR REPLACE FUNCTION public.queue_transaction_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender_name TEXT;
+BEGIN
+  IF NEW.recipient_id IS NULL OR NEW.recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE user_id = NEW.sender_id;
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    NEW.recipient_id,
+    'transaction',
+    'Money Received',
+    'You received $' || to_char(NEW.amount, 'FM999999999990.00') || ' from ' || COALESCE(v_sender_name, 'another user'),
+    jsonb_build_object('type', 'transaction', 'transaction_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_transaction_push
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_transaction_push();
+
+CREATE OR REPLACE FUNCTION public.queue_payment_request_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+  v_amount TEXT := to_char(NEW.amount, 'FM999999999990.00');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.sender_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.recipient_id,
+      'payment_request',
+      'Payment Request',
+      COALESCE(v_name, 'Someone') || ' requested $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.recipient_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.sender_id,
+      'payment_request',
+      'Payment Request ' || initcap(NEW.status),
+      COALESCE(v_name, 'The recipient') || ' ' || NEW.status || ' your request for $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_payment_request_push
+  AFTER INSERT OR UPDATE OF status ON public.payment_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_payment_request_push();
+
+CREATE OR REPLACE FUNCTION public.queue_chat_message_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation RECORD;
+  v_recipient UUID;
+BEGIN
+  SELECT user_id, agent_id INTO v_conversation FROM chat_conversations WHERE id = NEW.conversation_id;
+
+  -- Agent replies go to the customer; customer messages go to the assigned agent, if any
+  v_recipient := CASE WHEN NEW.is_agent THEN v_conversation.user_id ELSE v_conversation.agent_id END;
+
+  IF v_recipient IS NULL OR v_recipient = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    v_recipient,
+    'chat_message',
+    CASE WHEN NEW.is_agent THEN 'Support replied' ELSE 'New chat message' END,
+    left(NEW.message, 140),
+    jsonb_build_object('type', 'chat_message', 'conversation_id', NEW.conversation_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_chat_message_push
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_chat_message_push();
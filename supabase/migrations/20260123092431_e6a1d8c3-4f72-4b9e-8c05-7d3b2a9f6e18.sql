@@ -0,0 +1,145 @@
+-- Web Push subscriptions for the PWA
+-- A browser subscription is stored as a 'web' device token whose token is the push
+-- service endpoint, plus the keys needed to encrypt payloads for it.
+
+ALTER TABLE public.device_tokens
+  ADD COLUMN p256dh TEXT,
+  ADD COLUMN auth_secret TEXT;
+
+ALTER TABLE public.device_tokens ADD CONSTRAINT device_tokens_web_keys_check
+  CHECK (platform <> 'web' OR (p256dh IS NOT NULL AND auth_secret IS NOT NULL));
+
+CREATE OR REPLACE FUNCTION public.register_web_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_previous_endpoint TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_endpoint IS NULL OR p_endpoint !~ '^https://' OR length(p_endpoint) > 4096 THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid push endpoint');
+  END IF;
+
+  -- Uncompressed P-256 point (65 bytes) and 16-byte auth secret, base64url encoded
+  IF p_p256dh !~ '^[A-Za-z0-9_-]{86,88}=*$' OR p_auth !~ '^[A-Za-z0-9_-]{22,24}=*$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid subscription keys');
+  END IF;
+
+  INSERT INTO device_tokens (user_id, token, platform, p256dh, auth_secret)
+  VALUES (v_user_id, p_endpoint, 'web', p_p256dh, p_auth)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = 'web',
+      p256dh = EXCLUDED.p256dh,
+      auth_secret = EXCLUDED.auth_secret,
+      last_seen_at = now(),
+      revoked_at = NULL,
+      revoke_reason = NULL;
+
+  IF p_previous_endpoint IS NOT NULL AND p_previous_endpoint <> p_endpoint THEN
+    UPDATE device_tokens
+    SET revoked_at = now(), revoke_reason = 'refreshed'
+    WHERE token = p_previous_endpoint AND user_id = v_user_id AND revoked_at IS NULL;
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Native tokens never go through the web registration path
+CREATE OR REPLACE FUNCTION public.register_device_token(
+  p_token TEXT,
+  p_platform TEXT,
+  p_previous_token TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_token IS NULL OR length(p_token) < 16 OR length(p_token) > 4096 THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid device token');
+  END IF;
+
+  IF p_platform NOT IN ('ios', 'android') THEN
+    RETURN json_build_object('success', false, 'error', 'Unsupported platform');
+  END IF;
+
+  INSERT INTO device_tokens (user_id, token, platform)
+  VALUES (v_user_id, p_token, p_platform)
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      last_seen_at = now(),
+      revoked_at = NULL,
+      revoke_reason = NULL;
+
+  IF p_previous_token IS NOT NULL AND p_previous_token <> p_token THEN
+    UPDATE device_tokens
+    SET revoked_at = now(), revoke_reason = 'refreshed'
+    WHERE token = p_previous_token AND user_id = v_user_id AND revoked_at IS NULL;
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Support ticket replies
+ALTER TABLE public.push_notifications DROP CONSTRAINT IF EXISTS push_notifications_event_type_check;
+ALTER TABLE public.push_notifications ADD CONSTRAINT push_notifications_event_type_check
+  CHECK (event_type IN ('transaction', 'payment_request', 'chat_message', 'support_ticket'));
+
+CREATE OR REPLACE FUNCTION public.queue_ticket_response_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket RECORD;
+BEGIN
+  IF NOT NEW.is_agent THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id, subject INTO v_ticket FROM support_tickets WHERE id = NEW.ticket_id;
+
+  IF v_ticket.user_id IS NULL OR v_ticket.user_id = NEW.responder_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    v_ticket.user_id,
+    'support_ticket',
+    'Reply to "' || left(v_ticket.subject, 60) || '"',
+    left(NEW.message, 140),
+    jsonb_build_object('type', 'support_ticket', 'ticket_id', NEW.ticket_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_ticket_response_push
+  AFTER INSERT ON public.support_ticket_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_ticket_response_push();
@@ -0,0 +1,55 @@
+-- Keyed payment request creation
+-- Requests composed offline are replayed by the service worker, possibly more than once,
+-- so creation goes through the same idempotency keys as transfers.
+
+CREATE OR REPLACE FUNCTION public.create_payment_request(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_request_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'payment_request',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF p_recipient_id = v_user_id THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Cannot request money from yourself'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id) THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Recipient not found'));
+  END IF;
+
+  INSERT INTO payment_requests (sender_id, recipient_id, amount, description, status)
+  VALUES (v_user_id, p_recipient_id, round(p_amount, 2), NULLIF(trim(p_description), ''), 'pending')
+  RETURNING id INTO v_request_id;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    json_build_object('success', true, 'request_id', v_request_id)
+  );
+END;
+$$;
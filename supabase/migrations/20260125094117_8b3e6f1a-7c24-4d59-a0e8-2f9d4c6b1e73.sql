@@ -0,0 +1,215 @@
+-- TOTP two-factor authentication
+-- Factors themselves are managed by Supabase Auth (auth.mfa_factors); this adds recovery codes,
+-- the admin switch that forces enrollment, and an aal2 check for users who have enrolled.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('require_two_factor', 'false', 'Require every user to enroll an authenticator app before signing in')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- True when the session has passed the second factor, or the user has no verified factor yet
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid() AND status = 'verified'
+    );
+$$;
+
+-- A stolen password alone must not reach account data once a factor is enrolled
+CREATE POLICY "Require second factor when enrolled"
+ON public.profiles
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor when enrolled"
+ON public.transactions
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor when enrolled"
+ON public.payment_requests
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Require second factor when enrolled"
+ON public.wallet_vault
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.mfa_satisfied())
+WITH CHECK (public.mfa_satisfied());
+
+-- One-time recovery codes, stored hashed
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, code_hash)
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user ON public.mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "No direct access to recovery codes"
+  ON public.mfa_recovery_codes
+  FOR ALL
+  TO authenticated
+  USING (false);
+
+-- Replace the caller's recovery codes; the plain codes are only ever returned here
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF COALESCE(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RETURN json_build_object('success', false, 'error', 'Verify your authenticator code first');
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(gen_random_bytes(5), 'hex');
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (v_user_id, encode(digest(v_code || v_user_id::text, 'sha256'), 'hex'));
+    v_codes := array_append(v_codes, substring(v_code from 1 for 5) || '-' || substring(v_code from 6 for 5));
+  END LOOP;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_user_id, 'MFA_RECOVERY_CODES_GENERATED', 'Two-factor recovery codes generated');
+
+  RETURN json_build_object('success', true, 'codes', to_json(v_codes));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_mfa_recovery_status()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'remaining', (SELECT count(*) FROM mfa_recovery_codes WHERE user_id = v_user_id AND used_at IS NULL)
+  );
+END;
+$$;
+
+-- Called by the mfa-recovery edge function, which removes the user's factors on success
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(p_user_id UUID, p_code TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_normalized TEXT := replace(lower(trim(COALESCE(p_code, ''))), '-', '');
+  v_code_id UUID;
+  v_attempt_count INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+  v_lockout_minutes INTEGER := 15;
+  v_max_attempts INTEGER := 5;
+BEGIN
+  SELECT attempt_count, locked_until
+  INTO v_attempt_count, v_locked_until
+  FROM security_rate_limits
+  WHERE user_id = p_user_id AND action_type = 'mfa_recovery'
+  FOR UPDATE;
+
+  IF v_locked_until IS NOT NULL AND v_locked_until > now() THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Too many failed attempts. Try again later.',
+      'locked_until', v_locked_until
+    );
+  END IF;
+
+  SELECT id INTO v_code_id
+  FROM mfa_recovery_codes
+  WHERE user_id = p_user_id
+    AND used_at IS NULL
+    AND code_hash = encode(digest(v_normalized || p_user_id::text, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF v_code_id IS NULL THEN
+    INSERT INTO security_rate_limits (user_id, action_type, attempt_count, first_attempt_at, last_attempt_at)
+    VALUES (p_user_id, 'mfa_recovery', 1, now(), now())
+    ON CONFLICT (user_id, action_type) DO UPDATE SET
+      attempt_count = CASE
+        WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour' THEN 1
+        ELSE security_rate_limits.attempt_count + 1
+      END,
+      first_attempt_at = CASE
+        WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour' THEN now()
+        ELSE security_rate_limits.first_attempt_at
+      END,
+      last_attempt_at = now()
+    RETURNING attempt_count INTO v_attempt_count;
+
+    IF v_attempt_count >= v_max_attempts THEN
+      UPDATE security_rate_limits
+      SET locked_until = now() + (v_lockout_minutes || ' minutes')::interval
+      WHERE user_id = p_user_id AND action_type = 'mfa_recovery';
+    END IF;
+
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (p_user_id, 'MFA_RECOVERY_FAILED', 'Failed recovery code attempt #' || v_attempt_count);
+
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Invalid recovery code',
+      'attempts_remaining', GREATEST(v_max_attempts - v_attempt_count, 0)
+    );
+  END IF;
+
+  UPDATE mfa_recovery_codes SET used_at = now() WHERE id = v_code_id;
+
+  DELETE FROM security_rate_limits
+  WHERE user_id = p_user_id AND action_type = 'mfa_recovery';
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_user_id, 'MFA_RECOVERY_CODE_USED', 'Signed in with a recovery code; authenticator removed');
+
+  RETURN json_build_object(
+    'success', true,
+    'remaining', (SELECT count(*) FROM mfa_recovery_codes WHERE user_id = p_user_id AND used_at IS NULL)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
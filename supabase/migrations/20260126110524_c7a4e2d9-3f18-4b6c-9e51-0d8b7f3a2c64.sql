@@ -0,0 +1,122 @@
+-- Session timeout settings and server-side login lockout
+-- The Security tab values are stored in system_settings; the client enforces the idle
+-- timeout and Supabase Auth calls the hook below on every password check.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES
+  ('session_timeout_enabled', 'true', 'Lock the app after a period of inactivity'),
+  ('session_timeout_minutes', '30', 'Minutes of inactivity before the app locks'),
+  ('max_login_attempts', '5', 'Failed password attempts before sign-in is locked')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Auth hook: password_verification_attempt. Failures are counted per user in
+-- security_rate_limits, the same way verify_transaction_pin counts PIN failures.
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_valid BOOLEAN := COALESCE((event->>'valid')::BOOLEAN, false);
+  v_attempt_count INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+  v_lockout_minutes INTEGER := 15;
+  v_max_attempts INTEGER;
+BEGIN
+  SELECT COALESCE(NULLIF(setting_value, '')::INTEGER, 5) INTO v_max_attempts
+  FROM system_settings WHERE setting_key = 'max_login_attempts';
+  v_max_attempts := GREATEST(COALESCE(v_max_attempts, 5), 1);
+
+  SELECT attempt_count, locked_until
+  INTO v_attempt_count, v_locked_until
+  FROM security_rate_limits
+  WHERE user_id = v_user_id AND action_type = 'login'
+  FOR UPDATE;
+
+  -- A locked account stays locked even if the right password is supplied
+  IF v_locked_until IS NOT NULL AND v_locked_until > now() THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Too many failed sign-in attempts. Try again after ' || to_char(v_locked_until AT TIME ZONE 'UTC', 'HH24:MI') || ' UTC.',
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF v_valid THEN
+    DELETE FROM security_rate_limits
+    WHERE user_id = v_user_id AND action_type = 'login';
+
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  INSERT INTO security_rate_limits (user_id, action_type, attempt_count, first_attempt_at, last_attempt_at)
+  VALUES (v_user_id, 'login', 1, now(), now())
+  ON CONFLICT (user_id, action_type) DO UPDATE SET
+    attempt_count = CASE
+      WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour'
+        OR security_rate_limits.locked_until IS NOT NULL THEN 1
+      ELSE security_rate_limits.attempt_count + 1
+    END,
+    first_attempt_at = CASE
+      WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour'
+        OR security_rate_limits.locked_until IS NOT NULL THEN now()
+      ELSE security_rate_limits.first_attempt_at
+    END,
+    last_attempt_at = now(),
+    locked_until = NULL
+  RETURNING attempt_count INTO v_attempt_count;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_user_id, 'LOGIN_FAILED', 'Failed sign-in attempt #' || v_attempt_count);
+
+  IF v_attempt_count < v_max_attempts THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  v_locked_until := now() + (v_lockout_minutes || ' minutes')::interval;
+
+  UPDATE security_rate_limits
+  SET locked_until = v_locked_until
+  WHERE user_id = v_user_id AND action_type = 'login';
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    'LOGIN_LOCKED',
+    'Sign-in locked for ' || v_lockout_minutes || ' minutes after ' || v_attempt_count || ' failed attempts'
+  );
+
+  RETURN jsonb_build_object(
+    'decision', 'reject',
+    'message', 'Too many failed sign-in attempts. Your account is locked for ' || v_lockout_minutes || ' minutes.',
+    'should_logout_user', false
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Let admins clear a lockout early, e.g. after confirming the user's identity
+CREATE OR REPLACE FUNCTION public.unlock_user_login(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN json_build_object('success', false, 'error', 'Admin access required');
+  END IF;
+
+  DELETE FROM security_rate_limits
+  WHERE user_id = p_user_id AND action_type = 'login';
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_user_id, 'LOGIN_UNLOCKED', 'Sign-in lock cleared by an administrator');
+
+  RETURN json_build_object('success', true);
+END;
+$$;
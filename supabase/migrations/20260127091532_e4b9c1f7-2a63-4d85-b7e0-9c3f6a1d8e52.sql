@@ -0,0 +1,60 @@
+-- Firewall enforcement for edge functions
+-- Rules are evaluated by supabase/functions/_shared/requestGuard.ts; rate_limit rules
+-- need a counter shared by every function instance, kept here.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('ip_whitelist_enforced', 'false', 'Only allow requests from whitelisted IP addresses')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Fixed-window hit counters keyed by rule and client IP
+CREATE TABLE public.firewall_rate_counters (
+  bucket_key TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket_key, window_start)
+);
+
+CREATE INDEX idx_firewall_rate_counters_window ON public.firewall_rate_counters(window_start);
+
+-- Only the service role (edge functions) touches counters
+ALTER TABLE public.firewall_rate_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.firewall_register_hit(p_bucket_key TEXT, p_window_seconds INTEGER)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window_start TIMESTAMP WITH TIME ZONE;
+  v_hits INTEGER;
+BEGIN
+  IF p_window_seconds IS NULL OR p_window_seconds <= 0 THEN
+    RAISE EXCEPTION 'Window must be a positive number of seconds';
+  END IF;
+
+  v_window_start := to_timestamp(floor(extract(epoch FROM now()) / p_window_seconds) * p_window_seconds);
+
+  INSERT INTO firewall_rate_counters (bucket_key, window_start, hits)
+  VALUES (p_bucket_key, v_window_start, 1)
+  ON CONFLICT (bucket_key, window_start) DO UPDATE SET hits = firewall_rate_counters.hits + 1
+  RETURNING hits INTO v_hits;
+
+  -- Expired windows are pruned now and then rather than by a separate job
+  IF random() < 0.01 THEN
+    DELETE FROM firewall_rate_counters WHERE window_start < now() - interval '1 day';
+  END IF;
+
+  RETURN json_build_object(
+    'hits', v_hits,
+    'reset_at', v_window_start + make_interval(secs => p_window_seconds)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.firewall_register_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Private bucket holding the offline GeoIP database (GeoLite2-Country.mmdb)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('geoip', 'geoip', false)
+ON CONFLICT (id) DO NOTHING;
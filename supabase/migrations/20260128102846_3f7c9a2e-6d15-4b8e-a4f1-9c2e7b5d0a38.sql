@@ -0,0 +1,367 @@
+-- Transaction PIN policy
+-- PINs are hashed server-side with bcrypt (per-hash salt) instead of the client-side
+-- sha256(pin || user_id). Legacy hashes keep working and are upgraded on the next
+-- successful verification.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES
+  ('pin_length', '4', 'Number of digits in a transaction PIN (4-8)'),
+  ('pin_rotation_days', '0', 'Days before users must change their transaction PIN (0 = never)')
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS pin_length SMALLINT,
+ADD COLUMN IF NOT EXISTS pin_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Every PIN set so far was 4 digits; count their age from today
+UPDATE public.profiles
+SET pin_length = 4, pin_updated_at = now()
+WHERE pin_hash IS NOT NULL;
+
+-- Reject PIN hashes written directly by clients; clearing a PIN is still allowed
+CREATE OR REPLACE FUNCTION public.guard_pin_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.pin_hash IS NULL THEN
+    NEW.pin_length := NULL;
+    NEW.pin_updated_at := NULL;
+  ELSIF current_setting('app.pin_write', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' OR NEW.pin_hash IS DISTINCT FROM OLD.pin_hash THEN
+      RAISE EXCEPTION 'PINs can only be set through set_transaction_pin';
+    END IF;
+    NEW.pin_length := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_length END;
+    NEW.pin_updated_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_updated_at END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_guard_pin_hash
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_pin_hash();
+
+CREATE OR REPLACE FUNCTION public.pin_policy_length()
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_length INTEGER;
+BEGIN
+  SELECT CASE WHEN setting_value ~ '^\d+$' THEN setting_value::INTEGER END INTO v_length
+  FROM system_settings
+  WHERE setting_key = 'pin_length';
+
+  RETURN LEAST(GREATEST(COALESCE(v_length, 4), 4), 8);
+END;
+$$;
+
+-- Whether the user's PIN is past the rotation period or shorter than the policy
+CREATE OR REPLACE FUNCTION public.pin_change_required(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rotation_days INTEGER;
+  v_pin_length SMALLINT;
+  v_pin_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT pin_length, pin_updated_at INTO v_pin_length, v_pin_updated_at
+  FROM profiles
+  WHERE user_id = p_user_id AND pin_hash IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT CASE WHEN setting_value ~ '^\d+$' THEN setting_value::INTEGER END INTO v_rotation_days
+  FROM system_settings
+  WHERE setting_key = 'pin_rotation_days';
+
+  RETURN COALESCE(v_pin_length, 4) < pin_policy_length()
+    OR (COALESCE(v_rotation_days, 0) > 0
+        AND COALESCE(v_pin_updated_at, '-infinity') < now() - make_interval(days => v_rotation_days));
+END;
+$$;
+
+-- Reason a PIN is too easy to guess, or NULL
+CREATE OR REPLACE FUNCTION public.pin_weakness(p_pin TEXT, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dob DATE;
+BEGIN
+  IF p_pin ~ '^(\d)\1+$' THEN
+    RETURN 'PIN cannot be a single repeated digit';
+  END IF;
+
+  IF position(p_pin IN '01234567890123456789') > 0 OR position(p_pin IN '98765432109876543210') > 0 THEN
+    RETURN 'PIN cannot be a sequence of digits';
+  END IF;
+
+  IF p_pin ~ '^(\d\d)\1+$' THEN
+    RETURN 'PIN cannot be a repeated pattern';
+  END IF;
+
+  SELECT date_of_birth INTO v_dob FROM profiles WHERE user_id = p_user_id;
+  IF v_dob IS NOT NULL AND p_pin IN (
+    to_char(v_dob, 'DDMM'), to_char(v_dob, 'MMDD'), to_char(v_dob, 'YYYY'),
+    to_char(v_dob, 'DDMMYY'), to_char(v_dob, 'MMDDYY'), to_char(v_dob, 'YYMMDD'),
+    to_char(v_dob, 'DDMMYYYY'), to_char(v_dob, 'MMDDYYYY'), to_char(v_dob, 'YYYYMMDD')
+  ) THEN
+    RETURN 'PIN cannot be based on your date of birth';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pin_change_required(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pin_weakness(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_pin_policy()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_pin_set BOOLEAN;
+  v_current_length SMALLINT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT pin_hash IS NOT NULL, pin_length INTO v_pin_set, v_current_length
+  FROM profiles
+  WHERE user_id = v_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'pin_length', pin_policy_length(),
+    'pin_set', COALESCE(v_pin_set, false),
+    'current_pin_length', CASE WHEN v_pin_set THEN COALESCE(v_current_length, 4) END,
+    'change_required', pin_change_required(v_user_id)
+  );
+END;
+$$;
+
+-- Set or change the caller's PIN. Changing requires the current PIN, which counts
+-- towards the verify_transaction_pin lockout.
+CREATE OR REPLACE FUNCTION public.set_transaction_pin(p_new_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_length INTEGER;
+  v_weakness TEXT;
+  v_has_pin BOOLEAN;
+  v_check JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_length := pin_policy_length();
+  IF p_new_pin IS NULL OR p_new_pin !~ ('^\d{' || v_length || '}$') THEN
+    RETURN json_build_object('success', false, 'error', 'PIN must be ' || v_length || ' digits');
+  END IF;
+
+  v_weakness := pin_weakness(p_new_pin, v_user_id);
+  IF v_weakness IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', v_weakness);
+  END IF;
+
+  SELECT pin_hash IS NOT NULL INTO v_has_pin FROM profiles WHERE user_id = v_user_id;
+
+  IF v_has_pin THEN
+    IF p_current_pin IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Current PIN is required');
+    END IF;
+
+    v_check := verify_transaction_pin(p_current_pin);
+    IF NOT COALESCE((v_check->>'success')::BOOLEAN, false) THEN
+      RETURN v_check;
+    END IF;
+
+    IF p_new_pin = p_current_pin THEN
+      RETURN json_build_object('success', false, 'error', 'New PIN must be different from your current PIN');
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.pin_write', 'on', true);
+  UPDATE profiles
+  SET pin_hash = crypt(p_new_pin, gen_salt('bf', 10)),
+      pin_length = length(p_new_pin),
+      pin_updated_at = now(),
+      pin_enabled = true
+  WHERE user_id = v_user_id;
+  PERFORM set_config('app.pin_write', 'off', true);
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN v_has_pin THEN 'PIN_UPDATED' ELSE 'PIN_CREATED' END,
+    CASE WHEN v_has_pin THEN 'Transaction PIN updated' ELSE 'Transaction PIN created for secure transactions' END
+  );
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Same lockout as before; accepts any PIN length and bcrypt or legacy hashes
+CREATE OR REPLACE FUNCTION public.verify_transaction_pin(p_pin TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_stored_hash TEXT;
+  v_valid BOOLEAN;
+  v_legacy BOOLEAN;
+  v_attempt_count INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+  v_lockout_minutes INTEGER := 15;
+  v_max_attempts INTEGER := 5;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Validate user is authenticated
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Validate PIN format (4-8 digits)
+  IF p_pin IS NULL OR p_pin !~ '^\d{4,8}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid PIN format');
+  END IF;
+
+  -- Check rate limiting
+  SELECT attempt_count, locked_until
+  INTO v_attempt_count, v_locked_until
+  FROM security_rate_limits
+  WHERE user_id = v_user_id AND action_type = 'pin_verification'
+  FOR UPDATE;
+
+  -- Check if locked out
+  IF v_locked_until IS NOT NULL AND v_locked_until > now() THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Too many failed attempts. Try again later.',
+      'locked_until', v_locked_until
+    );
+  END IF;
+
+  -- Get stored PIN hash from profiles table
+  SELECT pin_hash INTO v_stored_hash
+  FROM profiles
+  WHERE user_id = v_user_id;
+
+  IF v_stored_hash IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'PIN not set');
+  END IF;
+
+  v_legacy := v_stored_hash NOT LIKE '$2%';
+  IF v_legacy THEN
+    v_valid := encode(digest(p_pin || v_user_id::text, 'sha256'), 'hex') = v_stored_hash;
+  ELSE
+    v_valid := crypt(p_pin, v_stored_hash) = v_stored_hash;
+  END IF;
+
+  -- Verify PIN
+  IF v_valid THEN
+    -- Success: clear rate limiting
+    DELETE FROM security_rate_limits
+    WHERE user_id = v_user_id AND action_type = 'pin_verification';
+
+    -- Upgrade a legacy hash now that the plaintext is known to be right
+    IF v_legacy THEN
+      PERFORM set_config('app.pin_write', 'on', true);
+      UPDATE profiles
+      SET pin_hash = crypt(p_pin, gen_salt('bf', 10)),
+          pin_length = length(p_pin)
+      WHERE user_id = v_user_id;
+      PERFORM set_config('app.pin_write', 'off', true);
+    END IF;
+
+    -- Log successful verification
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (v_user_id, 'PIN_VERIFIED', 'Transaction PIN verified successfully');
+
+    RETURN json_build_object('success', true, 'change_required', pin_change_required(v_user_id));
+  ELSE
+    -- Failed: update rate limiting
+    INSERT INTO security_rate_limits (user_id, action_type, attempt_count, first_attempt_at, last_attempt_at, locked_until)
+    VALUES (
+      v_user_id,
+      'pin_verification',
+      1,
+      now(),
+      now(),
+      CASE WHEN 1 >= v_max_attempts THEN now() + (v_lockout_minutes || ' minutes')::interval ELSE NULL END
+    )
+    ON CONFLICT (user_id, action_type) DO UPDATE SET
+      attempt_count = CASE
+        WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour' THEN 1
+        ELSE security_rate_limits.attempt_count + 1
+      END,
+      first_attempt_at = CASE
+        WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour' THEN now()
+        ELSE security_rate_limits.first_attempt_at
+      END,
+      last_attempt_at = now(),
+      locked_until = CASE
+        WHEN (CASE
+          WHEN security_rate_limits.first_attempt_at < now() - interval '1 hour' THEN 1
+          ELSE security_rate_limits.attempt_count + 1
+        END) >= v_max_attempts
+        THEN now() + (v_lockout_minutes || ' minutes')::interval
+        ELSE NULL
+      END
+    RETURNING attempt_count INTO v_attempt_count;
+
+    -- Log failed attempt
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (v_user_id, 'PIN_FAILED', 'Failed PIN verification attempt #' || v_attempt_count);
+
+    IF v_attempt_count >= v_max_attempts THEN
+      RETURN json_build_object(
+        'success', false,
+        'error', 'Too many failed attempts. Account locked for ' || v_lockout_minutes || ' minutes.',
+        'attempts_remaining', 0
+      );
+    ELSE
+      RETURN json_build_object(
+        'success', false,
+        'error', 'Invalid PIN',
+        'attempts_remaining', v_max_attempts - v_attempt_count
+      );
+    END IF;
+  END IF;
+END;
+$$;
@@ -0,0 +1,300 @@
+-- Per-tier and per-user transfer limits
+-- Global defaults live in system_settings; transfer_limits rows override them for a
+-- tier (standard, verified = approved KYC, agent) or for a single user. A NULL column
+-- inherits from the next level: user -> tier -> global.
+-- Daily and monthly usage are rolling 24 hour and 30 day sums of completed transfers.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES
+  ('daily_transfer_limit', '10000.00', 'Maximum amount a user can send in 24 hours'),
+  ('monthly_transfer_limit', '100000.00', 'Maximum amount a user can send in 30 days'),
+  ('single_transfer_limit', '5000.00', 'Maximum amount of a single transfer')
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE public.transfer_limits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tier TEXT CHECK (tier IN ('standard', 'verified', 'agent')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_limit NUMERIC(15, 2) CHECK (daily_limit >= 0),
+  monthly_limit NUMERIC(15, 2) CHECK (monthly_limit >= 0),
+  single_transaction_limit NUMERIC(15, 2) CHECK (single_transaction_limit >= 0),
+  notes TEXT,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((tier IS NULL) <> (user_id IS NULL)),
+  UNIQUE (tier),
+  UNIQUE (user_id)
+);
+
+ALTER TABLE public.transfer_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage transfer limits"
+  ON public.transfer_limits
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Agents can view transfer limits"
+  ON public.transfer_limits
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'agent'::app_role));
+
+CREATE TRIGGER update_transfer_limits_updated_at
+  BEFORE UPDATE ON public.transfer_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tiers start out inheriting every limit
+INSERT INTO public.transfer_limits (tier) VALUES ('standard'), ('verified'), ('agent');
+
+CREATE OR REPLACE FUNCTION public.transfer_limit_tier(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF has_role(p_user_id, 'agent'::app_role) THEN
+    RETURN 'agent';
+  ELSIF EXISTS (SELECT 1 FROM kyc_documents WHERE user_id = p_user_id AND status = 'APPROVED') THEN
+    RETURN 'verified';
+  END IF;
+
+  RETURN 'standard';
+END;
+$$;
+
+-- Effective limits and rolling usage for a user
+CREATE OR REPLACE FUNCTION public.transfer_limit_status(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier TEXT;
+  v_user transfer_limits%ROWTYPE;
+  v_tier_row transfer_limits%ROWTYPE;
+  v_daily_limit NUMERIC;
+  v_monthly_limit NUMERIC;
+  v_single_limit NUMERIC;
+  v_daily_used NUMERIC;
+  v_monthly_used NUMERIC;
+BEGIN
+  v_tier := transfer_limit_tier(p_user_id);
+
+  SELECT * INTO v_user FROM transfer_limits WHERE user_id = p_user_id;
+  SELECT * INTO v_tier_row FROM transfer_limits WHERE tier = v_tier;
+
+  v_daily_limit := COALESCE(
+    v_user.daily_limit,
+    v_tier_row.daily_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'daily_transfer_limit')
+  );
+  v_monthly_limit := COALESCE(
+    v_user.monthly_limit,
+    v_tier_row.monthly_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'monthly_transfer_limit')
+  );
+  v_single_limit := COALESCE(
+    v_user.single_transaction_limit,
+    v_tier_row.single_transaction_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'single_transfer_limit')
+  );
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '24 hours'), 0),
+    COALESCE(SUM(amount), 0)
+  INTO v_daily_used, v_monthly_used
+  FROM transactions
+  WHERE sender_id = p_user_id
+    AND status = 'completed'
+    AND created_at > now() - interval '30 days';
+
+  RETURN json_build_object(
+    'tier', v_tier,
+    'has_override', v_user.id IS NOT NULL,
+    'single_limit', v_single_limit,
+    'daily_limit', v_daily_limit,
+    'daily_used', v_daily_used,
+    'daily_remaining', CASE WHEN v_daily_limit IS NOT NULL THEN GREATEST(v_daily_limit - v_daily_used, 0) END,
+    'monthly_limit', v_monthly_limit,
+    'monthly_used', v_monthly_used,
+    'monthly_remaining', CASE WHEN v_monthly_limit IS NOT NULL THEN GREATEST(v_monthly_limit - v_monthly_used, 0) END
+  );
+END;
+$$;
+
+-- Returns NULL when the caller may send p_amount, otherwise the failure response.
+-- Transfers from one sender are serialized until commit so concurrent sends can't
+-- both fit under the same remaining limit.
+CREATE OR REPLACE FUNCTION public.transfer_limit_check(p_amount NUMERIC)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_status JSON;
+  v_remaining NUMERIC;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL OR p_amount IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('transfer_limits:' || v_user_id::text));
+
+  v_status := transfer_limit_status(v_user_id);
+
+  IF (v_status->>'single_limit') IS NOT NULL AND p_amount > (v_status->>'single_limit')::NUMERIC THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Amount exceeds your single transfer limit of $' || to_char((v_status->>'single_limit')::NUMERIC, 'FM999999999990.00'),
+      'limit_exceeded', 'single',
+      'limits', v_status
+    );
+  END IF;
+
+  v_remaining := (v_status->>'daily_remaining')::NUMERIC;
+  IF v_remaining IS NOT NULL AND p_amount > v_remaining THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Daily transfer limit reached. You can still send $' || to_char(v_remaining, 'FM999999999990.00') || ' today',
+      'limit_exceeded', 'daily',
+      'limits', v_status
+    );
+  END IF;
+
+  v_remaining := (v_status->>'monthly_remaining')::NUMERIC;
+  IF v_remaining IS NOT NULL AND p_amount > v_remaining THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Monthly transfer limit reached. You can still send $' || to_char(v_remaining, 'FM999999999990.00') || ' this month',
+      'limit_exceeded', 'monthly',
+      'limits', v_status
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_limit_tier(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_limit_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transfer_limit_check(NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Limits and remaining allowance for the caller, or for any user when called by staff
+CREATE OR REPLACE FUNCTION public.get_transfer_limits(p_user_id UUID DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_user_id := COALESCE(p_user_id, auth.uid());
+
+  IF v_user_id <> auth.uid()
+     AND NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role)) THEN
+    RETURN json_build_object('success', false, 'error', 'Unauthorized');
+  END IF;
+
+  RETURN (jsonb_build_object('success', true) || transfer_limit_status(v_user_id)::jsonb)::json;
+END;
+$$;
+
+-- Transfer after the client has verified the PIN or biometrics
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Rate-limited transfer with server-side PIN check
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer_secure(p_recipient_id, p_amount, p_description, p_pin)
+  );
+END;
+$$;
@@ -0,0 +1,768 @@
+-- Scheduled and recurring transfers
+-- A schedule is a one-off future transfer, or one repeating weekly, monthly or on a
+-- cron expression (evaluated in UTC). The run-scheduled-transfers edge function calls
+-- run_scheduled_transfer for each due schedule, which makes the transfer as the sender
+-- through process_transfer_secure, so fees, limits and account checks all apply.
+-- The PIN is checked when the schedule is created, not on every run.
+-- Failed runs are retried with backoff; once the retries are used up the occurrence is
+-- given up on and the schedule moves to the next one.
+
+CREATE TABLE public.scheduled_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('once', 'weekly', 'monthly', 'cron')),
+  cron_expression TEXT,
+  start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_at TIMESTAMP WITH TIME ZONE,
+  -- The occurrence being worked on; NULL once the schedule has finished
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  -- Set while the current occurrence is waiting to be retried
+  retry_at TIMESTAMP WITH TIME ZONE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled', 'failed')),
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((frequency = 'cron') = (cron_expression IS NOT NULL)),
+  CHECK (end_at IS NULL OR end_at >= start_at),
+  CHECK (user_id <> recipient_id)
+);
+
+CREATE INDEX idx_scheduled_transfers_due ON public.scheduled_transfers(next_run_at) WHERE status = 'active';
+CREATE INDEX idx_scheduled_transfers_user ON public.scheduled_transfers(user_id, created_at DESC);
+
+-- One row per attempt or skipped occurrence
+CREATE TABLE public.scheduled_transfer_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.scheduled_transfers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  occurrence_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'failed', 'skipped')),
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scheduled_transfer_runs_schedule ON public.scheduled_transfer_runs(schedule_id, created_at DESC);
+CREATE INDEX idx_scheduled_transfer_runs_user ON public.scheduled_transfer_runs(user_id, created_at DESC);
+
+ALTER TABLE public.scheduled_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_transfer_runs ENABLE ROW LEVEL SECURITY;
+
+-- Changes only happen through the functions below
+CREATE POLICY "Users can view their own scheduled transfers"
+  ON public.scheduled_transfers
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all scheduled transfers"
+  ON public.scheduled_transfers
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view their own scheduled transfer runs"
+  ON public.scheduled_transfer_runs
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all scheduled transfer runs"
+  ON public.scheduled_transfer_runs
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_scheduled_transfers_updated_at
+  BEFORE UPDATE ON public.scheduled_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Runs notify the sender
+ALTER TABLE public.push_notifications DROP CONSTRAINT IF EXISTS push_notifications_event_type_check;
+ALTER TABLE public.push_notifications ADD CONSTRAINT push_notifications_event_type_check
+  CHECK (event_type IN ('transaction', 'payment_request', 'chat_message', 'support_ticket', 'scheduled_transfer'));
+
+-- Values matched by one cron field: *, n, n-m, */s, n-m/s, n/s and comma lists of those
+CREATE OR REPLACE FUNCTION public.cron_field_values(p_field TEXT, p_min INTEGER, p_max INTEGER)
+RETURNS INTEGER[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_part TEXT;
+  v_range TEXT;
+  v_from INTEGER;
+  v_to INTEGER;
+  v_step INTEGER;
+  v_values INTEGER[] := '{}';
+BEGIN
+  FOREACH v_part IN ARRAY string_to_array(p_field, ',') LOOP
+    IF v_part !~ '^(\*|\d{1,2}(-\d{1,2})?)(/\d{1,2})?$' THEN
+      RAISE EXCEPTION 'Invalid cron field "%"', p_field USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_range := split_part(v_part, '/', 1);
+    v_step := COALESCE(NULLIF(split_part(v_part, '/', 2), '')::INTEGER, 1);
+
+    IF v_range = '*' THEN
+      v_from := p_min;
+      v_to := p_max;
+    ELSE
+      v_from := split_part(v_range, '-', 1)::INTEGER;
+      v_to := CASE
+        WHEN v_range LIKE '%-%' THEN split_part(v_range, '-', 2)::INTEGER
+        WHEN v_part LIKE '%/%' THEN p_max
+        ELSE v_from
+      END;
+    END IF;
+
+    IF v_step < 1 OR v_from < p_min OR v_to > p_max OR v_from > v_to THEN
+      RAISE EXCEPTION 'Invalid cron field "%"', p_field USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_values := v_values || ARRAY(SELECT generate_series(v_from, v_to, v_step));
+  END LOOP;
+
+  RETURN ARRAY(SELECT DISTINCT v FROM unnest(v_values) AS v ORDER BY v);
+END;
+$$;
+
+-- First time after p_after matched by a five-field cron expression in UTC, or NULL if it
+-- never matches (e.g. 30 February). Day of month and day of week follow cron: when both
+-- are restricted, either one matching is enough.
+CREATE OR REPLACE FUNCTION public.cron_next_run(p_expression TEXT, p_after TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[];
+  v_minutes INTEGER[];
+  v_hours INTEGER[];
+  v_days INTEGER[];
+  v_months INTEGER[];
+  v_weekdays INTEGER[];
+  v_after TIMESTAMP;
+  v_date DATE;
+  v_hour INTEGER;
+  v_minute INTEGER;
+  v_day_match BOOLEAN;
+  v_candidate TIMESTAMP;
+BEGIN
+  v_fields := regexp_split_to_array(btrim(p_expression), '\s+');
+  IF array_length(v_fields, 1) IS DISTINCT FROM 5 THEN
+    RAISE EXCEPTION 'Cron expression needs five fields' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_minutes := cron_field_values(v_fields[1], 0, 59);
+  v_hours := cron_field_values(v_fields[2], 0, 23);
+  v_days := cron_field_values(v_fields[3], 1, 31);
+  v_months := cron_field_values(v_fields[4], 1, 12);
+  -- 0 and 7 are both Sunday
+  v_weekdays := ARRAY(SELECT DISTINCT d % 7 FROM unnest(cron_field_values(v_fields[5], 0, 7)) AS d);
+
+  v_after := p_after AT TIME ZONE 'UTC';
+  v_date := v_after::DATE;
+
+  -- Four years covers every expression that can match, including 29 February
+  FOR i IN 0..1461 LOOP
+    IF extract(month FROM v_date)::INTEGER = ANY(v_months) THEN
+      v_day_match := CASE
+        WHEN v_fields[3] = '*' AND v_fields[5] = '*' THEN true
+        WHEN v_fields[3] = '*' THEN extract(dow FROM v_date)::INTEGER = ANY(v_weekdays)
+        WHEN v_fields[5] = '*' THEN extract(day FROM v_date)::INTEGER = ANY(v_days)
+        ELSE extract(day FROM v_date)::INTEGER = ANY(v_days) OR extract(dow FROM v_date)::INTEGER = ANY(v_weekdays)
+      END;
+
+      IF v_day_match THEN
+        FOREACH v_hour IN ARRAY v_hours LOOP
+          FOREACH v_minute IN ARRAY v_minutes LOOP
+            v_candidate := v_date + make_time(v_hour, v_minute, 0);
+            IF v_candidate > v_after THEN
+              RETURN v_candidate AT TIME ZONE 'UTC';
+            END IF;
+          END LOOP;
+        END LOOP;
+      END IF;
+    END IF;
+
+    v_date := v_date + 1;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Next occurrence of a schedule after p_after, or NULL when there are no more
+CREATE OR REPLACE FUNCTION public.scheduled_transfer_next_run(
+  p_schedule public.scheduled_transfers,
+  p_after TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_step INTERVAL;
+  v_count INTEGER := 0;
+  v_next TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_schedule.frequency = 'once' THEN
+    v_next := CASE WHEN p_schedule.start_at > p_after THEN p_schedule.start_at END;
+  ELSIF p_schedule.frequency = 'cron' THEN
+    -- start_at itself counts when it falls on the expression
+    v_next := cron_next_run(p_schedule.cron_expression, GREATEST(p_after, p_schedule.start_at - interval '1 second'));
+  ELSE
+    -- Counted from start_at rather than the previous run, so a payment on the 31st
+    -- returns to the 31st after a shorter month
+    v_step := CASE p_schedule.frequency WHEN 'weekly' THEN interval '1 week' ELSE interval '1 month' END;
+
+    IF p_after >= p_schedule.start_at THEN
+      v_count := CASE p_schedule.frequency
+        WHEN 'weekly' THEN floor(extract(epoch FROM p_after - p_schedule.start_at) / 604800)::INTEGER
+        ELSE (extract(year FROM age(p_after, p_schedule.start_at)) * 12
+              + extract(month FROM age(p_after, p_schedule.start_at)))::INTEGER
+      END;
+    END IF;
+
+    WHILE p_schedule.start_at + v_count * v_step <= p_after LOOP
+      v_count := v_count + 1;
+    END LOOP;
+
+    v_next := p_schedule.start_at + v_count * v_step;
+  END IF;
+
+  IF p_schedule.end_at IS NOT NULL AND v_next > p_schedule.end_at THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.scheduled_transfer_next_run(public.scheduled_transfers, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Create a schedule. The PIN is verified here since the runs happen unattended.
+CREATE OR REPLACE FUNCTION public.create_scheduled_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_frequency TEXT,
+  p_start_at TIMESTAMP WITH TIME ZONE,
+  p_description TEXT DEFAULT NULL,
+  p_cron_expression TEXT DEFAULT NULL,
+  p_end_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_schedule scheduled_transfers%ROWTYPE;
+  v_pin_required BOOLEAN;
+  v_stored_pin_hash TEXT;
+  v_pin_result JSON;
+  v_check JSON;
+  v_max_active INTEGER := 25;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_recipient_id IS NULL OR p_recipient_id = v_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot transfer to yourself');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_frequency IS NULL OR p_frequency NOT IN ('once', 'weekly', 'monthly', 'cron') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid frequency');
+  END IF;
+
+  IF p_frequency = 'cron' AND NULLIF(btrim(p_cron_expression), '') IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Cron expression is required');
+  END IF;
+
+  IF p_start_at IS NULL OR (p_frequency = 'once' AND p_start_at <= now()) THEN
+    RETURN json_build_object('success', false, 'error', 'Choose a date and time in the future');
+  END IF;
+
+  IF p_end_at IS NOT NULL AND p_end_at < p_start_at THEN
+    RETURN json_build_object('success', false, 'error', 'End date must be after the start date');
+  END IF;
+
+  v_check := account_transfer_check(v_user_id, p_recipient_id);
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  IF (SELECT COUNT(*) FROM scheduled_transfers WHERE user_id = v_user_id AND status IN ('active', 'paused')) >= v_max_active THEN
+    RETURN json_build_object('success', false, 'error', 'You can have at most ' || v_max_active || ' scheduled transfers');
+  END IF;
+
+  SELECT pin_enabled, pin_hash INTO v_pin_required, v_stored_pin_hash
+  FROM profiles
+  WHERE user_id = v_user_id;
+
+  IF v_pin_required AND v_stored_pin_hash IS NOT NULL THEN
+    IF p_pin IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'PIN required', 'pin_required', true);
+    END IF;
+
+    v_pin_result := verify_transaction_pin(p_pin);
+    IF NOT (v_pin_result->>'success')::boolean THEN
+      RETURN v_pin_result;
+    END IF;
+  END IF;
+
+  v_schedule.frequency := p_frequency;
+  v_schedule.cron_expression := CASE WHEN p_frequency = 'cron' THEN btrim(p_cron_expression) END;
+  v_schedule.start_at := p_start_at;
+  v_schedule.end_at := p_end_at;
+
+  BEGIN
+    v_schedule.next_run_at := scheduled_transfer_next_run(v_schedule, now());
+  EXCEPTION
+    WHEN invalid_parameter_value THEN
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  IF v_schedule.next_run_at IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'This schedule has no upcoming transfers');
+  END IF;
+
+  INSERT INTO scheduled_transfers (
+    user_id, recipient_id, amount, description, frequency, cron_expression, start_at, end_at, next_run_at
+  )
+  VALUES (
+    v_user_id, p_recipient_id, p_amount, p_description, p_frequency, v_schedule.cron_expression,
+    p_start_at, p_end_at, v_schedule.next_run_at
+  )
+  RETURNING id INTO v_schedule.id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    'SCHEDULED_TRANSFER_CREATED',
+    'Scheduled ' || p_frequency || ' transfer of $' || to_char(p_amount, 'FM999999999990.00') || ' starting ' || to_char(v_schedule.next_run_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI') || ' UTC'
+  );
+
+  RETURN json_build_object('success', true, 'schedule_id', v_schedule.id, 'next_run_at', v_schedule.next_run_at);
+END;
+$$;
+
+-- Pause, resume, skip the next occurrence of, or cancel one of the caller's schedules
+CREATE OR REPLACE FUNCTION public.manage_scheduled_transfer(p_schedule_id UUID, p_action TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule scheduled_transfers%ROWTYPE;
+  v_next TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_schedule
+  FROM scheduled_transfers
+  WHERE id = p_schedule_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Scheduled transfer not found');
+  END IF;
+
+  IF v_schedule.status NOT IN ('active', 'paused') THEN
+    RETURN json_build_object('success', false, 'error', 'This scheduled transfer has already ' || CASE v_schedule.status WHEN 'cancelled' THEN 'been cancelled' ELSE v_schedule.status END);
+  END IF;
+
+  IF p_action = 'pause' THEN
+    IF v_schedule.status = 'paused' THEN
+      RETURN json_build_object('success', false, 'error', 'Already paused');
+    END IF;
+
+    UPDATE scheduled_transfers SET status = 'paused', retry_at = NULL, attempts = 0 WHERE id = v_schedule.id;
+
+  ELSIF p_action = 'resume' THEN
+    IF v_schedule.status = 'active' THEN
+      RETURN json_build_object('success', false, 'error', 'Not paused');
+    END IF;
+
+    -- Occurrences missed while paused are not sent
+    v_next := CASE
+      WHEN v_schedule.next_run_at > now() THEN v_schedule.next_run_at
+      ELSE scheduled_transfer_next_run(v_schedule, now())
+    END;
+
+    UPDATE scheduled_transfers
+    SET status = CASE WHEN v_next IS NULL THEN 'completed' ELSE 'active' END,
+        next_run_at = v_next
+    WHERE id = v_schedule.id;
+
+  ELSIF p_action = 'skip' THEN
+    INSERT INTO scheduled_transfer_runs (schedule_id, user_id, occurrence_at, attempt, status)
+    VALUES (v_schedule.id, v_schedule.user_id, v_schedule.next_run_at, v_schedule.attempts + 1, 'skipped');
+
+    v_next := scheduled_transfer_next_run(v_schedule, GREATEST(v_schedule.next_run_at, now()));
+
+    UPDATE scheduled_transfers
+    SET status = CASE WHEN v_next IS NULL THEN 'completed' ELSE status END,
+        next_run_at = v_next,
+        retry_at = NULL,
+        attempts = 0
+    WHERE id = v_schedule.id;
+
+  ELSIF p_action = 'cancel' THEN
+    UPDATE scheduled_transfers
+    SET status = 'cancelled', next_run_at = NULL, retry_at = NULL
+    WHERE id = v_schedule.id;
+
+  ELSE
+    RETURN json_build_object('success', false, 'error', 'Invalid action');
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_schedule.user_id,
+    'SCHEDULED_TRANSFER_' || upper(p_action),
+    initcap(p_action) || ' scheduled transfer of $' || to_char(v_schedule.amount, 'FM999999999990.00')
+  );
+
+  RETURN (SELECT json_build_object('success', true, 'status', status, 'next_run_at', next_run_at)
+          FROM scheduled_transfers WHERE id = v_schedule.id);
+END;
+$$;
+
+-- Run the current occurrence of a due schedule. Called by the run-scheduled-transfers
+-- edge function with the service role; returns without doing anything if the schedule
+-- is not due or another run holds it.
+CREATE OR REPLACE FUNCTION public.run_scheduled_transfer(p_schedule_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule scheduled_transfers%ROWTYPE;
+  v_occurrence TIMESTAMP WITH TIME ZONE;
+  v_result JSON;
+  v_success BOOLEAN;
+  v_error TEXT;
+  v_attempt INTEGER;
+  v_retry_at TIMESTAMP WITH TIME ZONE;
+  v_next TIMESTAMP WITH TIME ZONE;
+  v_recipient_name TEXT;
+  v_summary TEXT;
+  -- The first try plus three retries, 30, 60 and 120 minutes apart
+  v_max_attempts INTEGER := 4;
+  v_retry_delay INTERVAL := interval '30 minutes';
+BEGIN
+  SELECT * INTO v_schedule
+  FROM scheduled_transfers
+  WHERE id = p_schedule_id
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND
+     OR v_schedule.status <> 'active'
+     OR v_schedule.next_run_at IS NULL
+     OR v_schedule.next_run_at > now()
+     OR v_schedule.retry_at > now() THEN
+    RETURN json_build_object('success', false, 'error', 'Not due', 'not_due', true);
+  END IF;
+
+  v_occurrence := v_schedule.next_run_at;
+  v_attempt := v_schedule.attempts + 1;
+
+  -- Act as the sender so auth.uid() and every check see the same caller as an in-app transfer
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', v_schedule.user_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('request.jwt.claim.sub', v_schedule.user_id::text, true);
+  PERFORM set_config('app.scheduled_transfer', 'on', true);
+
+  v_result := process_transfer_secure(
+    v_schedule.recipient_id,
+    v_schedule.amount,
+    v_schedule.description,
+    NULL,
+    md5(v_schedule.id::text || v_occurrence::text || v_attempt)::UUID
+  );
+
+  PERFORM set_config('app.scheduled_transfer', 'off', true);
+
+  v_success := COALESCE((v_result->>'success')::boolean, false);
+  v_error := CASE WHEN NOT v_success THEN COALESCE(v_result->>'error', 'Transfer failed') END;
+
+  INSERT INTO scheduled_transfer_runs (schedule_id, user_id, occurrence_at, attempt, status, transaction_id, error)
+  VALUES (
+    v_schedule.id,
+    v_schedule.user_id,
+    v_occurrence,
+    v_attempt,
+    CASE WHEN v_success THEN 'completed' ELSE 'failed' END,
+    (v_result->>'transaction_id')::UUID,
+    v_error
+  );
+
+  SELECT full_name INTO v_recipient_name FROM profiles WHERE user_id = v_schedule.recipient_id;
+  v_summary := '$' || to_char(v_schedule.amount, 'FM999999999990.00') || ' to ' || COALESCE(v_recipient_name, 'your recipient');
+
+  IF NOT v_success AND v_attempt < v_max_attempts THEN
+    v_retry_at := now() + v_retry_delay * power(2, v_attempt - 1);
+
+    UPDATE scheduled_transfers
+    SET attempts = v_attempt, retry_at = v_retry_at, last_run_at = now(), last_error = v_error
+    WHERE id = v_schedule.id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      v_schedule.user_id,
+      'scheduled_transfer',
+      'Scheduled Transfer Delayed',
+      'Your scheduled transfer of ' || v_summary || ' failed: ' || v_error || '. We''ll try again shortly.',
+      jsonb_build_object('type', 'scheduled_transfer', 'schedule_id', v_schedule.id)
+    );
+
+    RETURN json_build_object('success', false, 'error', v_error, 'retry_at', v_retry_at);
+  END IF;
+
+  -- A run that comes late (the job was down) does not make up for further missed occurrences
+  v_next := scheduled_transfer_next_run(v_schedule, GREATEST(v_occurrence, now()));
+
+  UPDATE scheduled_transfers
+  SET next_run_at = v_next,
+      retry_at = NULL,
+      attempts = 0,
+      run_count = run_count + CASE WHEN v_success THEN 1 ELSE 0 END,
+      status = CASE
+        WHEN v_next IS NOT NULL THEN 'active'
+        WHEN v_success OR frequency <> 'once' THEN 'completed'
+        ELSE 'failed'
+      END,
+      last_run_at = now(),
+      last_error = v_error
+  WHERE id = v_schedule.id;
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    v_schedule.user_id,
+    'scheduled_transfer',
+    CASE WHEN v_success THEN 'Scheduled Transfer Sent' ELSE 'Scheduled Transfer Failed' END,
+    CASE
+      WHEN v_success THEN 'Sent ' || v_summary
+      ELSE 'Your scheduled transfer of ' || v_summary || ' could not be sent: ' || v_error
+    END
+      || CASE WHEN v_next IS NOT NULL THEN '. Next transfer ' || to_char(v_next AT TIME ZONE 'UTC', 'Mon DD') || '.' ELSE '' END,
+    jsonb_strip_nulls(jsonb_build_object(
+      'type', 'scheduled_transfer',
+      'schedule_id', v_schedule.id,
+      'transaction_id', v_result->>'transaction_id'
+    ))
+  );
+
+  RETURN json_build_object(
+    'success', v_success,
+    'error', v_error,
+    'transaction_id', v_result->>'transaction_id',
+    'next_run_at', v_next
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_scheduled_transfer(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except scheduled runs skip the PIN, which was checked when the
+-- schedule was created
+CREATE OR REPLACE FUNCTION public.execute_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender_id UUID;
+  v_sender_balance NUMERIC;
+  v_recipient_balance NUMERIC;
+  v_sender_fee_percentage NUMERIC;
+  v_sender_fee_fixed NUMERIC;
+  v_receiver_fee_percentage NUMERIC;
+  v_receiver_fee_fixed NUMERIC;
+  v_sender_total_fee NUMERIC;
+  v_receiver_total_fee NUMERIC;
+  v_sender_total_amount NUMERIC;
+  v_recipient_receives NUMERIC;
+  v_transaction_id UUID;
+  v_recipient_exists BOOLEAN;
+  v_pin_required BOOLEAN;
+  v_stored_pin_hash TEXT;
+  v_transfer_count INTEGER;
+  v_max_transfers_per_hour INTEGER := 20;
+  v_pin_result JSON;
+BEGIN
+  v_sender_id := auth.uid();
+
+  -- Validate sender is authenticated
+  IF v_sender_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Validate sender and recipient are different
+  IF v_sender_id = p_recipient_id THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot transfer to yourself');
+  END IF;
+
+  -- Validate amount is positive and reasonable
+  IF p_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  IF p_amount > 1000000 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount exceeds maximum transfer limit');
+  END IF;
+
+  -- Rate limiting: check transfer frequency
+  SELECT COUNT(*) INTO v_transfer_count
+  FROM transactions
+  WHERE sender_id = v_sender_id
+    AND created_at > now() - interval '1 hour';
+
+  IF v_transfer_count >= v_max_transfers_per_hour THEN
+    RETURN json_build_object('success', false, 'error', 'Transfer rate limit exceeded. Please wait before making more transfers.');
+  END IF;
+
+  -- Check if PIN verification is required
+  SELECT pin_enabled, pin_hash INTO v_pin_required, v_stored_pin_hash
+  FROM profiles
+  WHERE user_id = v_sender_id;
+
+  IF v_pin_required AND v_stored_pin_hash IS NOT NULL
+     AND current_setting('app.scheduled_transfer', true) IS DISTINCT FROM 'on' THEN
+    IF p_pin IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'PIN required', 'pin_required', true);
+    END IF;
+
+    -- Verify PIN server-side
+    v_pin_result := verify_transaction_pin(p_pin);
+    IF NOT (v_pin_result->>'success')::boolean THEN
+      RETURN v_pin_result;
+    END IF;
+  END IF;
+
+  -- Check recipient exists and lock the row
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id FOR UPDATE) INTO v_recipient_exists;
+  IF NOT v_recipient_exists THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  -- Get fee settings with defaults if not set
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_percentage
+  FROM system_settings WHERE setting_key = 'transfer_fee_percentage';
+  v_sender_fee_percentage := COALESCE(v_sender_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_sender_fee_fixed
+  FROM system_settings WHERE setting_key = 'transfer_fee_fixed';
+  v_sender_fee_fixed := COALESCE(v_sender_fee_fixed, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_percentage
+  FROM system_settings WHERE setting_key = 'receiver_fee_percentage';
+  v_receiver_fee_percentage := COALESCE(v_receiver_fee_percentage, 0);
+
+  SELECT COALESCE(CAST(setting_value AS NUMERIC), 0) INTO v_receiver_fee_fixed
+  FROM system_settings WHERE setting_key = 'receiver_fee_fixed';
+  v_receiver_fee_fixed := COALESCE(v_receiver_fee_fixed, 0);
+
+  -- Calculate fees (rounded to cents so ledger postings match cached balances)
+  v_sender_total_fee := ROUND((p_amount * v_sender_fee_percentage / 100) + v_sender_fee_fixed, 2);
+  v_sender_total_amount := p_amount + v_sender_total_fee;
+
+  v_receiver_total_fee := ROUND((p_amount * v_receiver_fee_percentage / 100) + v_receiver_fee_fixed, 2);
+  v_recipient_receives := p_amount - v_receiver_total_fee;
+
+  -- Lock sender row and get balance to prevent race conditions
+  SELECT balance INTO v_sender_balance FROM profiles WHERE user_id = v_sender_id FOR UPDATE;
+
+  IF v_sender_balance IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Sender profile not found');
+  END IF;
+
+  -- Check sender has sufficient balance
+  IF v_sender_balance < v_sender_total_amount THEN
+    RETURN json_build_object('success', false, 'error', 'Insufficient funds');
+  END IF;
+
+  -- Get recipient balance (already locked above)
+  SELECT balance INTO v_recipient_balance FROM profiles WHERE user_id = p_recipient_id;
+
+  -- Check receiver can pay the fee (balance won't go negative)
+  IF v_recipient_balance + v_recipient_receives < 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient cannot receive - insufficient balance for fees');
+  END IF;
+
+  -- Create transaction record
+  INSERT INTO transactions (sender_id, recipient_id, amount, fee, total_amount, description)
+  VALUES (v_sender_id, p_recipient_id, p_amount, v_sender_total_fee + v_receiver_total_fee, v_sender_total_amount, p_description)
+  RETURNING id INTO v_transaction_id;
+
+  -- Post balanced ledger entry (updates cached balances)
+  PERFORM post_journal_entry(
+    'transfer',
+    p_description,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -p_amount),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', p_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_sender_id), 'amount', -v_sender_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_user_account(p_recipient_id), 'amount', -v_receiver_total_fee, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_system_account('FEE_INCOME'), 'amount', v_sender_total_fee + v_receiver_total_fee, 'line_type', 'fee')
+    ),
+    v_transaction_id
+  );
+
+  -- Log activity
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_sender_id, 'TRANSFER_SENT', 'Sent $' || p_amount || ' (sender fee: $' || v_sender_total_fee || ')');
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_recipient_id, 'TRANSFER_RECEIVED', 'Received $' || v_recipient_receives || ' (receiver fee: $' || v_receiver_total_fee || ')');
+
+  RETURN json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', p_amount,
+    'sender_fee', v_sender_total_fee,
+    'receiver_fee', v_receiver_total_fee,
+    'total_sender_paid', v_sender_total_amount,
+    'total_recipient_received', v_recipient_receives
+  );
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction would result in negative balance');
+  WHEN OTHERS THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction failed: ' || SQLERRM);
+END;
+$$;
@@ -0,0 +1,447 @@
+-- Payment request settlement
+-- Paying a request used to be a transfer followed by a separate status update from the
+-- client, which could leave one done without the other. settle_payment_request now does
+-- both in one transaction through the PIN-checked transfer path, and records which
+-- transactions paid the request.
+-- Requests can be paid in parts, expire (payment_request_expiry_days, 0 = never, or an
+-- explicit expires_at), be declined by the payer or cancelled by the requester.
+-- Status changes only happen through the functions below.
+-- Naming as before: sender_id is the requester, recipient_id the payer.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('payment_request_expiry_days', '7', 'Days before an unpaid payment request expires (0 = never)')
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.payment_requests
+  ADD COLUMN amount_paid NUMERIC(15, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN settled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.payment_requests DROP CONSTRAINT IF EXISTS payment_requests_status_check;
+
+-- Approved requests recorded no amount; treat them as paid in full
+UPDATE public.payment_requests
+SET status = 'paid', amount_paid = amount, settled_at = updated_at
+WHERE status IN ('approved', 'accepted');
+
+ALTER TABLE public.payment_requests
+  ADD CONSTRAINT payment_requests_status_check
+    CHECK (status IN ('pending', 'partially_paid', 'paid', 'rejected', 'cancelled', 'expired')),
+  ADD CONSTRAINT payment_requests_amount_paid_check
+    CHECK (amount_paid >= 0 AND amount_paid <= amount);
+
+DROP POLICY IF EXISTS "Recipients can update payment requests" ON public.payment_requests;
+
+-- Without direct updates the acceptance guard has nothing left to cover; settlement runs
+-- the account checks as part of the transfer
+DROP TRIGGER IF EXISTS payment_requests_guard_acceptance ON public.payment_requests;
+DROP FUNCTION IF EXISTS public.guard_payment_request_acceptance();
+
+-- Each transfer made towards a request
+CREATE TABLE public.payment_request_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.payment_requests(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  payer_id UUID NOT NULL,
+  amount NUMERIC(15, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_request_payments_request ON public.payment_request_payments(request_id);
+
+ALTER TABLE public.payment_request_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments of their payment requests"
+  ON public.payment_request_payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.payment_requests pr
+      WHERE pr.id = payment_request_payments.request_id
+        AND auth.uid() IN (pr.sender_id, pr.recipient_id)
+    )
+  );
+
+CREATE POLICY "Admins can view all payment request payments"
+  ON public.payment_request_payments
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- New requests start unpaid and pick up the default expiry, however they are created
+CREATE OR REPLACE FUNCTION public.prepare_payment_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER;
+BEGIN
+  NEW.status := 'pending';
+  NEW.amount_paid := 0;
+  NEW.settled_at := NULL;
+
+  IF NEW.expires_at IS NULL THEN
+    SELECT NULLIF(setting_value, '')::INTEGER INTO v_days
+    FROM system_settings
+    WHERE setting_key = 'payment_request_expiry_days';
+
+    IF v_days > 0 THEN
+      NEW.expires_at := now() + make_interval(days => v_days);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_requests_prepare
+  BEFORE INSERT ON public.payment_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_payment_request();
+
+-- Marks an open request expired when its time is up. Returns the failure response if it
+-- is no longer open, otherwise NULL.
+CREATE OR REPLACE FUNCTION public.payment_request_open_check(p_request public.payment_requests)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_request.status IN ('pending', 'partially_paid') AND p_request.expires_at <= now() THEN
+    UPDATE payment_requests SET status = 'expired' WHERE id = p_request.id;
+    RETURN json_build_object('success', false, 'error', 'This payment request has expired', 'status', 'expired');
+  END IF;
+
+  IF p_request.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'This payment request is already ' || CASE p_request.status
+        WHEN 'rejected' THEN 'declined'
+        ELSE p_request.status
+      END,
+      'status', p_request.status
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.payment_request_open_check(public.payment_requests) FROM PUBLIC, anon, authenticated;
+
+-- Keyed payment request creation, optionally with its own expiry
+DROP FUNCTION IF EXISTS public.create_payment_request(UUID, NUMERIC, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_payment_request(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_request_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'payment_request',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description, p_expires_at))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF p_recipient_id = v_user_id THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Cannot request money from yourself'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = p_recipient_id) THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Recipient not found'));
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Expiry must be in the future'));
+  END IF;
+
+  INSERT INTO payment_requests (sender_id, recipient_id, amount, description, status, expires_at)
+  VALUES (v_user_id, p_recipient_id, round(p_amount, 2), NULLIF(trim(p_description), ''), 'pending', p_expires_at)
+  RETURNING id, expires_at INTO v_request_id, v_expires_at;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    json_build_object('success', true, 'request_id', v_request_id, 'expires_at', v_expires_at)
+  );
+END;
+$$;
+
+-- Pay all of a request, or part of what is left (p_amount), as its payer
+CREATE OR REPLACE FUNCTION public.settle_payment_request(
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_request payment_requests%ROWTYPE;
+  v_check JSON;
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_result JSON;
+  v_transaction_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'payment_request_settlement',
+    md5(concat_ws('|', p_request_id, p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payment_requests
+  WHERE id = p_request_id AND recipient_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Payment request not found'));
+  END IF;
+
+  v_check := payment_request_open_check(v_request);
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  v_remaining := v_request.amount - v_request.amount_paid;
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+
+  IF v_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF v_amount > v_remaining THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', 'Only $' || to_char(v_remaining, 'FM999999999990.00') || ' is left to pay on this request',
+      'remaining', v_remaining
+    ));
+  END IF;
+
+  -- The request key already de-duplicates, so the transfer itself is not keyed
+  v_result := process_transfer_secure(
+    v_request.sender_id,
+    v_amount,
+    COALESCE(v_request.description, 'Payment request fulfilled'),
+    p_pin,
+    NULL
+  );
+
+  IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+    RETURN idempotency_complete(p_idempotency_key, v_result);
+  END IF;
+
+  v_transaction_id := (v_result->>'transaction_id')::UUID;
+
+  INSERT INTO payment_request_payments (request_id, transaction_id, payer_id, amount)
+  VALUES (v_request.id, v_transaction_id, v_user_id, v_amount);
+
+  UPDATE payment_requests
+  SET amount_paid = amount_paid + v_amount,
+      status = CASE WHEN amount_paid + v_amount >= amount THEN 'paid' ELSE 'partially_paid' END,
+      settled_at = CASE WHEN amount_paid + v_amount >= amount THEN now() END
+  WHERE id = v_request.id
+  RETURNING * INTO v_request;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_request.sender_id,
+    'PAYMENT_REQUEST_PAID',
+    'Received $' || to_char(v_amount, 'FM999999999990.00') || ' towards your payment request for $' || to_char(v_request.amount, 'FM999999999990.00')
+  );
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    (v_result::jsonb || jsonb_build_object(
+      'request_id', v_request.id,
+      'status', v_request.status,
+      'amount_paid', v_request.amount_paid,
+      'remaining', v_request.amount - v_request.amount_paid
+    ))::json
+  );
+END;
+$$;
+
+-- The payer turns down what is left of a request
+CREATE OR REPLACE FUNCTION public.decline_payment_request(p_request_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request payment_requests%ROWTYPE;
+  v_check JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payment_requests
+  WHERE id = p_request_id AND recipient_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Payment request not found');
+  END IF;
+
+  v_check := payment_request_open_check(v_request);
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  UPDATE payment_requests SET status = 'rejected' WHERE id = v_request.id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_request.sender_id,
+    'PAYMENT_REQUEST_REJECTED',
+    'Your payment request for $' || to_char(v_request.amount, 'FM999999999990.00') || ' was declined'
+  );
+
+  RETURN json_build_object('success', true, 'status', 'rejected');
+END;
+$$;
+
+-- The requester withdraws a request they no longer want paid
+CREATE OR REPLACE FUNCTION public.cancel_payment_request(p_request_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request payment_requests%ROWTYPE;
+  v_check JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payment_requests
+  WHERE id = p_request_id AND sender_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Payment request not found');
+  END IF;
+
+  v_check := payment_request_open_check(v_request);
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  UPDATE payment_requests SET status = 'cancelled' WHERE id = v_request.id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_request.sender_id,
+    'PAYMENT_REQUEST_CANCELLED',
+    'Cancelled your payment request for $' || to_char(v_request.amount, 'FM999999999990.00')
+  );
+
+  RETURN json_build_object('success', true, 'status', 'cancelled');
+END;
+$$;
+
+-- Push wording for the new statuses; cancellations go to the payer, the rest to the requester
+CREATE OR REPLACE FUNCTION public.queue_payment_request_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+  v_amount TEXT := to_char(NEW.amount, 'FM999999999990.00');
+  v_verb TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.sender_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.recipient_id,
+      'payment_request',
+      'Payment Request',
+      COALESCE(v_name, 'Someone') || ' requested $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'cancelled' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.sender_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.recipient_id,
+      'payment_request',
+      'Payment Request Cancelled',
+      COALESCE(v_name, 'The requester') || ' cancelled their request for $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id, 'status', NEW.status)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.recipient_id;
+
+    v_verb := CASE NEW.status
+      WHEN 'partially_paid' THEN 'partly paid'
+      WHEN 'rejected' THEN 'declined'
+      ELSE NEW.status
+    END;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.sender_id,
+      'payment_request',
+      'Payment Request ' || initcap(v_verb),
+      CASE
+        WHEN NEW.status = 'expired' THEN 'Your request to ' || COALESCE(v_name, 'the recipient') || ' for $' || v_amount || ' expired'
+        ELSE COALESCE(v_name, 'The recipient') || ' ' || v_verb || ' your request for $' || v_amount
+      END,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,253 @@
+-- Signed payment QR codes
+-- Receive codes were STABLECOIN:<user id>:<name> and the scanner showed whatever name
+-- the code contained. Version 1 codes carry the recipient, an optional fixed amount,
+-- currency, memo, expiry and payment request, signed with a server-held key. The
+-- scanner resolves every code through resolve_payment_qr, which checks the signature
+-- and always reads the recipient's name from profiles. Legacy codes still resolve, but
+-- only their user id is used.
+
+-- Signing keys. No policies, so only these functions can read them. To rotate, insert a
+-- new key; codes signed with a deactivated key stop verifying.
+CREATE TABLE public.payment_qr_keys (
+  id SERIAL PRIMARY KEY,
+  secret BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payment_qr_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.payment_qr_keys DEFAULT VALUES;
+
+-- The signed message. Memo goes last since it is the only free text field.
+CREATE OR REPLACE FUNCTION public.payment_qr_message(
+  p_key_id INTEGER,
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_currency TEXT,
+  p_expires_at BIGINT,
+  p_request_id UUID,
+  p_memo TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws('|',
+    'v1',
+    p_key_id,
+    p_recipient_id,
+    COALESCE(to_char(p_amount, 'FM9999999999990.00'), ''),
+    p_currency,
+    COALESCE(p_expires_at::TEXT, ''),
+    COALESCE(p_request_id::TEXT, ''),
+    COALESCE(p_memo, '')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.payment_qr_message(INTEGER, UUID, NUMERIC, TEXT, BIGINT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sign a receive code for the caller. With a payment request the amount defaults to what
+-- is left on it and the expiry to the request's own.
+CREATE OR REPLACE FUNCTION public.sign_payment_qr(
+  p_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'GYD',
+  p_memo TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_request_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_request payment_requests;
+  v_failure JSON;
+  v_amount NUMERIC := round(p_amount, 2);
+  v_memo TEXT := NULLIF(trim(p_memo), '');
+  v_expires_at TIMESTAMP WITH TIME ZONE := p_expires_at;
+  v_expires_epoch BIGINT;
+  v_key payment_qr_keys;
+  v_signature TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_currency IS NULL OR p_currency NOT IN ('GYD', 'GYDS') THEN
+    RETURN json_build_object('success', false, 'error', 'Unsupported currency');
+  END IF;
+
+  IF v_amount IS NOT NULL AND v_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be greater than 0');
+  END IF;
+
+  IF length(v_memo) > 140 THEN
+    RETURN json_build_object('success', false, 'error', 'Memo must be 140 characters or fewer');
+  END IF;
+
+  IF v_expires_at IS NOT NULL AND v_expires_at <= now() THEN
+    RETURN json_build_object('success', false, 'error', 'Expiry must be in the future');
+  END IF;
+
+  IF p_request_id IS NOT NULL THEN
+    SELECT * INTO v_request
+    FROM payment_requests
+    WHERE id = p_request_id AND sender_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Payment request not found');
+    END IF;
+
+    v_failure := payment_request_open_check(v_request);
+    IF v_failure IS NOT NULL THEN
+      RETURN v_failure;
+    END IF;
+
+    IF p_currency <> 'GYD' THEN
+      RETURN json_build_object('success', false, 'error', 'Payment requests are in GYD');
+    END IF;
+
+    v_amount := COALESCE(v_amount, v_request.amount - v_request.amount_paid);
+    IF v_amount > v_request.amount - v_request.amount_paid THEN
+      RETURN json_build_object('success', false, 'error', 'Amount is more than what is left on the request');
+    END IF;
+
+    v_memo := COALESCE(v_memo, v_request.description);
+    v_expires_at := LEAST(COALESCE(v_expires_at, v_request.expires_at), v_request.expires_at);
+  END IF;
+
+  SELECT * INTO v_key
+  FROM payment_qr_keys
+  WHERE active
+  ORDER BY id DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'QR signing is not configured');
+  END IF;
+
+  v_expires_epoch := floor(extract(epoch FROM v_expires_at))::BIGINT;
+  v_signature := encode(
+    hmac(
+      payment_qr_message(v_key.id, v_user_id, v_amount, p_currency, v_expires_epoch, p_request_id, v_memo),
+      v_key.secret,
+      'sha256'
+    ),
+    'hex'
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'version', 1,
+    'key_id', v_key.id,
+    'recipient_id', v_user_id,
+    'amount', v_amount,
+    'currency', p_currency,
+    'memo', v_memo,
+    'expires_at', v_expires_epoch,
+    'request_id', p_request_id,
+    'signature', v_signature
+  );
+END;
+$$;
+
+-- Check a scanned code and return who it pays. p_version 0 is the legacy format, which
+-- has nothing to verify beyond the recipient existing.
+CREATE OR REPLACE FUNCTION public.resolve_payment_qr(
+  p_recipient_id UUID,
+  p_version INTEGER DEFAULT 0,
+  p_key_id INTEGER DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'GYD',
+  p_memo TEXT DEFAULT NULL,
+  p_expires_at BIGINT DEFAULT NULL,
+  p_request_id UUID DEFAULT NULL,
+  p_signature TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_secret BYTEA;
+  v_request payment_requests;
+  v_failure JSON;
+  v_amount NUMERIC := p_amount;
+  v_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_version = 1 THEN
+    SELECT secret INTO v_secret
+    FROM payment_qr_keys
+    WHERE id = p_key_id AND active;
+
+    IF v_secret IS NULL OR p_signature IS NULL OR lower(p_signature) <> encode(
+      hmac(
+        payment_qr_message(p_key_id, p_recipient_id, p_amount, p_currency, p_expires_at, p_request_id, p_memo),
+        v_secret,
+        'sha256'
+      ),
+      'hex'
+    ) THEN
+      RETURN json_build_object('success', false, 'error', 'This QR code could not be verified');
+    END IF;
+
+    IF p_expires_at IS NOT NULL AND to_timestamp(p_expires_at) <= now() THEN
+      RETURN json_build_object('success', false, 'error', 'This QR code has expired');
+    END IF;
+
+    IF p_request_id IS NOT NULL THEN
+      SELECT * INTO v_request
+      FROM payment_requests
+      WHERE id = p_request_id AND sender_id = p_recipient_id;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', 'Payment request not found');
+      END IF;
+
+      IF v_request.recipient_id <> v_user_id THEN
+        RETURN json_build_object('success', false, 'error', 'This payment request is addressed to someone else');
+      END IF;
+
+      v_failure := payment_request_open_check(v_request);
+      IF v_failure IS NOT NULL THEN
+        RETURN v_failure;
+      END IF;
+
+      -- Part of it may have been paid since the code was made
+      v_amount := LEAST(v_amount, v_request.amount - v_request.amount_paid);
+    END IF;
+  ELSIF p_version <> 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Unsupported QR code version');
+  END IF;
+
+  SELECT COALESCE(NULLIF(trim(full_name), ''), 'Unnamed account') INTO v_name
+  FROM profiles
+  WHERE user_id = p_recipient_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Recipient not found');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'verified', p_version = 1,
+    'recipient_id', p_recipient_id,
+    'recipient_name', v_name,
+    'amount', CASE WHEN p_version = 1 THEN v_amount END,
+    'currency', CASE WHEN p_version = 1 THEN p_currency ELSE 'GYD' END,
+    'memo', CASE WHEN p_version = 1 THEN p_memo END,
+    'expires_at', CASE WHEN p_version = 1 THEN to_timestamp(p_expires_at) END,
+    'request_id', CASE WHEN p_version = 1 THEN p_request_id END
+  );
+END;
+$$;
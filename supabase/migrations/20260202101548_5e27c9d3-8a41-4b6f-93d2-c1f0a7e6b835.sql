@@ -0,0 +1,776 @@
+-- Merchant accounts
+-- A merchant profile turns an account into a shop: a business name, the account sales
+-- settle into, and an API key for point-of-sale systems. Each sale is a checkout
+-- invoice, which is a payment request with no payer yet. The first customer to scan
+-- its signed QR code claims and pays it in full through settle_payment_request.
+
+CREATE TABLE public.merchant_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  business_name TEXT NOT NULL CHECK (length(trim(business_name)) BETWEEN 2 AND 80),
+  settlement_user_id UUID NOT NULL REFERENCES auth.users(id),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended')),
+  api_key_hash TEXT UNIQUE,
+  api_key_prefix TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.merchant_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Merchants can view their own profile"
+  ON public.merchant_profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage merchant profiles"
+  ON public.merchant_profiles
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_merchant_profiles_updated_at
+  BEFORE UPDATE ON public.merchant_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checkout invoices are payment requests without a payer until someone pays them
+ALTER TABLE public.payment_requests
+  ADD COLUMN merchant_id UUID REFERENCES public.merchant_profiles(id),
+  ADD COLUMN order_reference TEXT,
+  ALTER COLUMN recipient_id DROP NOT NULL,
+  ADD CONSTRAINT payment_requests_payer_check
+    CHECK (recipient_id IS NOT NULL OR merchant_id IS NOT NULL);
+
+-- One live invoice per order, so a point-of-sale retry gets the same invoice back
+CREATE UNIQUE INDEX idx_payment_requests_merchant_order
+  ON public.payment_requests(merchant_id, order_reference)
+  WHERE merchant_id IS NOT NULL AND status IN ('pending', 'partially_paid', 'paid');
+
+CREATE INDEX idx_payment_requests_merchant_created
+  ON public.payment_requests(merchant_id, created_at)
+  WHERE merchant_id IS NOT NULL;
+
+CREATE POLICY "Merchants can view their invoices"
+  ON public.payment_requests
+  FOR SELECT
+  TO authenticated
+  USING (merchant_id IN (SELECT id FROM public.merchant_profiles WHERE user_id = auth.uid()));
+
+-- Invoices are only created through create_merchant_invoice
+DROP POLICY IF EXISTS "Users can create payment requests" ON public.payment_requests;
+
+CREATE POLICY "Users can create payment requests"
+  ON public.payment_requests
+  FOR INSERT
+  WITH CHECK (auth.uid() = sender_id AND recipient_id IS NOT NULL AND merchant_id IS NULL);
+
+-- Accepts a user id or an email address. Returns NULL when there is no such account.
+CREATE OR REPLACE FUNCTION public.find_account_user_id(p_account TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF trim(p_account) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT user_id INTO v_user_id FROM profiles WHERE user_id = trim(p_account)::UUID;
+  ELSE
+    SELECT user_id INTO v_user_id FROM profiles WHERE lower(email) = lower(trim(p_account));
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_account_user_id(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Register the caller as a merchant, or update their details. Sales settle into the
+-- caller's own account unless another one is given.
+CREATE OR REPLACE FUNCTION public.save_merchant_profile(
+  p_business_name TEXT,
+  p_settlement_account TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_settlement_user_id UUID;
+  v_merchant merchant_profiles;
+  v_created BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF length(trim(COALESCE(p_business_name, ''))) NOT BETWEEN 2 AND 80 THEN
+    RETURN json_build_object('success', false, 'error', 'Business name must be 2 to 80 characters');
+  END IF;
+
+  IF NULLIF(trim(p_settlement_account), '') IS NULL THEN
+    v_settlement_user_id := v_user_id;
+  ELSE
+    v_settlement_user_id := find_account_user_id(p_settlement_account);
+    IF v_settlement_user_id IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Settlement account not found');
+    END IF;
+  END IF;
+
+  v_created := NOT EXISTS (SELECT 1 FROM merchant_profiles WHERE user_id = v_user_id);
+
+  INSERT INTO merchant_profiles (user_id, business_name, settlement_user_id)
+  VALUES (v_user_id, trim(p_business_name), v_settlement_user_id)
+  ON CONFLICT (user_id) DO UPDATE
+  SET business_name = EXCLUDED.business_name,
+      settlement_user_id = EXCLUDED.settlement_user_id
+  RETURNING * INTO v_merchant;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN v_created THEN 'MERCHANT_REGISTERED' ELSE 'MERCHANT_PROFILE_UPDATED' END,
+    'Merchant profile for ' || v_merchant.business_name || CASE WHEN v_created THEN ' created' ELSE ' updated' END
+  );
+
+  RETURN json_build_object('success', true, 'merchant_id', v_merchant.id, 'status', v_merchant.status);
+END;
+$$;
+
+-- Issue a new API key for the caller's merchant profile. Only its hash is kept, so the
+-- key is returned this once; the previous key stops working.
+CREATE OR REPLACE FUNCTION public.rotate_merchant_api_key()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_key TEXT := 'vvm_' || encode(gen_random_bytes(24), 'hex');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  UPDATE merchant_profiles
+  SET api_key_hash = encode(digest(v_key, 'sha256'), 'hex'),
+      api_key_prefix = left(v_key, 12)
+  WHERE user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Register as a merchant first');
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (v_user_id, 'MERCHANT_API_KEY_ROTATED', 'Issued a new merchant API key');
+
+  RETURN json_build_object('success', true, 'api_key', v_key, 'api_key_prefix', left(v_key, 12));
+END;
+$$;
+
+-- Create a checkout invoice and its signed QR code. Used by the merchant-invoices edge
+-- function for API calls and by create_merchant_invoice for the app.
+CREATE OR REPLACE FUNCTION public.create_merchant_invoice_for(
+  p_merchant_id UUID,
+  p_amount NUMERIC,
+  p_order_reference TEXT,
+  p_memo TEXT DEFAULT NULL,
+  p_expires_in_minutes INTEGER DEFAULT 15
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merchant merchant_profiles;
+  v_reference TEXT := trim(p_order_reference);
+  v_amount NUMERIC := round(p_amount, 2);
+  v_invoice payment_requests;
+  v_key payment_qr_keys;
+  v_expires_epoch BIGINT;
+BEGIN
+  SELECT * INTO v_merchant FROM merchant_profiles WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Merchant not found');
+  END IF;
+
+  IF v_merchant.status <> 'active' THEN
+    RETURN json_build_object('success', false, 'error', 'This merchant account is suspended');
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Amount must be greater than 0');
+  END IF;
+
+  IF length(COALESCE(v_reference, '')) NOT BETWEEN 1 AND 64 THEN
+    RETURN json_build_object('success', false, 'error', 'Order reference must be 1 to 64 characters');
+  END IF;
+
+  IF length(trim(p_memo)) > 140 THEN
+    RETURN json_build_object('success', false, 'error', 'Memo must be 140 characters or fewer');
+  END IF;
+
+  IF p_expires_in_minutes IS NULL OR p_expires_in_minutes NOT BETWEEN 1 AND 1440 THEN
+    RETURN json_build_object('success', false, 'error', 'Invoices must expire within 1 to 1440 minutes');
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM payment_requests
+  WHERE merchant_id = v_merchant.id
+    AND order_reference = v_reference
+    AND status IN ('pending', 'partially_paid', 'paid')
+  FOR UPDATE;
+
+  IF FOUND AND v_invoice.status = 'paid' THEN
+    RETURN json_build_object('success', false, 'error', 'Order ' || v_reference || ' is already paid', 'invoice_id', v_invoice.id);
+  END IF;
+
+  -- An unpaid invoice whose time is up gets marked expired and no longer blocks the order
+  IF FOUND AND payment_request_open_check(v_invoice) IS NOT NULL THEN
+    v_invoice := NULL;
+  END IF;
+
+  IF v_invoice.id IS NOT NULL AND v_invoice.amount <> v_amount THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Order ' || v_reference || ' already has an open invoice for a different amount',
+      'invoice_id', v_invoice.id
+    );
+  END IF;
+
+  IF v_invoice.id IS NULL THEN
+    INSERT INTO payment_requests (sender_id, recipient_id, amount, description, status, expires_at, merchant_id, order_reference)
+    VALUES (
+      v_merchant.settlement_user_id,
+      NULL,
+      v_amount,
+      COALESCE(NULLIF(trim(p_memo), ''), v_merchant.business_name || ' order ' || v_reference),
+      'pending',
+      now() + make_interval(mins => p_expires_in_minutes),
+      v_merchant.id,
+      v_reference
+    )
+    RETURNING * INTO v_invoice;
+  END IF;
+
+  SELECT * INTO v_key
+  FROM payment_qr_keys
+  WHERE active
+  ORDER BY id DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'QR signing is not configured');
+  END IF;
+
+  v_expires_epoch := floor(extract(epoch FROM v_invoice.expires_at))::BIGINT;
+
+  RETURN json_build_object(
+    'success', true,
+    'invoice_id', v_invoice.id,
+    'order_reference', v_invoice.order_reference,
+    'business_name', v_merchant.business_name,
+    'amount', v_invoice.amount,
+    'status', v_invoice.status,
+    'expires_at', v_invoice.expires_at,
+    'qr', json_build_object(
+      'version', 1,
+      'key_id', v_key.id,
+      'recipient_id', v_invoice.sender_id,
+      'amount', v_invoice.amount,
+      'currency', 'GYD',
+      'memo', v_invoice.description,
+      'expires_at', v_expires_epoch,
+      'request_id', v_invoice.id,
+      'signature', encode(
+        hmac(
+          payment_qr_message(v_key.id, v_invoice.sender_id, v_invoice.amount, 'GYD', v_expires_epoch, v_invoice.id, v_invoice.description),
+          v_key.secret,
+          'sha256'
+        ),
+        'hex'
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_merchant_invoice_for(UUID, NUMERIC, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_merchant_invoice(
+  p_amount NUMERIC,
+  p_order_reference TEXT,
+  p_memo TEXT DEFAULT NULL,
+  p_expires_in_minutes INTEGER DEFAULT 15
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merchant_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT id INTO v_merchant_id FROM merchant_profiles WHERE user_id = auth.uid();
+
+  IF v_merchant_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Register as a merchant first');
+  END IF;
+
+  RETURN create_merchant_invoice_for(v_merchant_id, p_amount, p_order_reference, p_memo, p_expires_in_minutes);
+END;
+$$;
+
+-- Totals for one day of the caller's sales, in their time zone
+CREATE OR REPLACE FUNCTION public.merchant_daily_sales(
+  p_date DATE DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merchant_id UUID;
+  v_date DATE;
+  v_from TIMESTAMP WITH TIME ZONE;
+  v_to TIMESTAMP WITH TIME ZONE;
+  v_totals JSON;
+  v_by_hour JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT id INTO v_merchant_id FROM merchant_profiles WHERE user_id = auth.uid();
+
+  IF v_merchant_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Register as a merchant first');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown time zone');
+  END IF;
+
+  v_date := COALESCE(p_date, (now() AT TIME ZONE p_timezone)::DATE);
+  v_from := v_date::TIMESTAMP AT TIME ZONE p_timezone;
+  v_to := (v_date + 1)::TIMESTAMP AT TIME ZONE p_timezone;
+
+  -- Sales count on the day they were paid; the other counts on the day they were created.
+  -- Invoices live at most a day, so anything paid today was created since yesterday.
+  SELECT json_build_object(
+    'paid_count', count(*) FILTER (WHERE status = 'paid' AND settled_at >= v_from AND settled_at < v_to),
+    'paid_total', COALESCE(sum(amount_paid) FILTER (WHERE status = 'paid' AND settled_at >= v_from AND settled_at < v_to), 0),
+    'created_count', count(*) FILTER (WHERE created_at >= v_from AND created_at < v_to),
+    'open_count', count(*) FILTER (WHERE status IN ('pending', 'partially_paid') AND expires_at > now() AND created_at >= v_from AND created_at < v_to),
+    'expired_count', count(*) FILTER (
+      WHERE (status = 'expired' OR (status IN ('pending', 'partially_paid') AND expires_at <= now()))
+        AND created_at >= v_from AND created_at < v_to
+    ),
+    'cancelled_count', count(*) FILTER (WHERE status = 'cancelled' AND created_at >= v_from AND created_at < v_to)
+  ) INTO v_totals
+  FROM payment_requests
+  WHERE merchant_id = v_merchant_id
+    AND (created_at >= v_from - INTERVAL '1 day' AND created_at < v_to);
+
+  SELECT COALESCE(json_agg(json_build_object('hour', hour, 'count', sales, 'total', total) ORDER BY hour), '[]'::JSON)
+  INTO v_by_hour
+  FROM (
+    SELECT extract(hour FROM settled_at AT TIME ZONE p_timezone)::INTEGER AS hour,
+           count(*) AS sales,
+           sum(amount_paid) AS total
+    FROM payment_requests
+    WHERE merchant_id = v_merchant_id
+      AND status = 'paid'
+      AND settled_at >= v_from AND settled_at < v_to
+    GROUP BY 1
+  ) hours;
+
+  RETURN json_build_object(
+    'success', true,
+    'date', v_date,
+    'timezone', p_timezone,
+    'totals', v_totals,
+    'by_hour', v_by_hour
+  );
+END;
+$$;
+
+-- Same as before, except checkout invoices can be claimed by whoever pays them first,
+-- and must be paid in full
+CREATE OR REPLACE FUNCTION public.settle_payment_request(
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_request payment_requests%ROWTYPE;
+  v_check JSON;
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_result JSON;
+  v_transaction_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'payment_request_settlement',
+    md5(concat_ws('|', p_request_id, p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payment_requests
+  WHERE id = p_request_id
+    AND (recipient_id = v_user_id OR (recipient_id IS NULL AND merchant_id IS NOT NULL))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Payment request not found'));
+  END IF;
+
+  v_check := payment_request_open_check(v_request);
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  v_remaining := v_request.amount - v_request.amount_paid;
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+
+  IF v_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF v_amount > v_remaining THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', 'Only $' || to_char(v_remaining, 'FM999999999990.00') || ' is left to pay on this request',
+      'remaining', v_remaining
+    ));
+  END IF;
+
+  IF v_request.merchant_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM merchant_profiles WHERE id = v_request.merchant_id AND status = 'active') THEN
+      RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'This merchant is not accepting payments'));
+    END IF;
+
+    IF v_amount <> v_remaining THEN
+      RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Checkout invoices must be paid in full'));
+    END IF;
+  END IF;
+
+  -- The request key already de-duplicates, so the transfer itself is not keyed
+  v_result := process_transfer_secure(
+    v_request.sender_id,
+    v_amount,
+    COALESCE(v_request.description, 'Payment request fulfilled'),
+    p_pin,
+    NULL
+  );
+
+  IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+    RETURN idempotency_complete(p_idempotency_key, v_result);
+  END IF;
+
+  v_transaction_id := (v_result->>'transaction_id')::UUID;
+
+  INSERT INTO payment_request_payments (request_id, transaction_id, payer_id, amount)
+  VALUES (v_request.id, v_transaction_id, v_user_id, v_amount);
+
+  UPDATE payment_requests
+  SET recipient_id = COALESCE(recipient_id, v_user_id),
+      amount_paid = amount_paid + v_amount,
+      status = CASE WHEN amount_paid + v_amount >= amount THEN 'paid' ELSE 'partially_paid' END,
+      settled_at = CASE WHEN amount_paid + v_amount >= amount THEN now() END
+  WHERE id = v_request.id
+  RETURNING * INTO v_request;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_request.sender_id,
+    'PAYMENT_REQUEST_PAID',
+    'Received $' || to_char(v_amount, 'FM999999999990.00') || CASE
+      WHEN v_request.merchant_id IS NOT NULL THEN ' for order ' || v_request.order_reference
+      ELSE ' towards your payment request for $' || to_char(v_request.amount, 'FM999999999990.00')
+    END
+  );
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    (v_result::jsonb || jsonb_build_object(
+      'request_id', v_request.id,
+      'status', v_request.status,
+      'amount_paid', v_request.amount_paid,
+      'remaining', v_request.amount - v_request.amount_paid
+    ))::json
+  );
+END;
+$$;
+
+-- Same as before, but merchants can also cancel their own checkout invoices
+CREATE OR REPLACE FUNCTION public.cancel_payment_request(p_request_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request payment_requests%ROWTYPE;
+  v_check JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_request
+  FROM payment_requests
+  WHERE id = p_request_id
+    AND (
+      sender_id = auth.uid()
+      OR merchant_id IN (SELECT id FROM merchant_profiles WHERE user_id = auth.uid())
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Payment request not found');
+  END IF;
+
+  v_check := payment_request_open_check(v_request);
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  UPDATE payment_requests SET status = 'cancelled' WHERE id = v_request.id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    auth.uid(),
+    'PAYMENT_REQUEST_CANCELLED',
+    CASE
+      WHEN v_request.merchant_id IS NOT NULL THEN 'Cancelled the invoice for order ' || v_request.order_reference
+      ELSE 'Cancelled your payment request for $' || to_char(v_request.amount, 'FM999999999990.00')
+    END
+  );
+
+  RETURN json_build_object('success', true, 'status', 'cancelled');
+END;
+$$;
+
+-- Same as before, except checkout invoices may have no payer yet and show the business
+-- name rather than the settlement account's
+CREATE OR REPLACE FUNCTION public.resolve_payment_qr(
+  p_recipient_id UUID,
+  p_version INTEGER DEFAULT 0,
+  p_key_id INTEGER DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_currency TEXT DEFAULT 'GYD',
+  p_memo TEXT DEFAULT NULL,
+  p_expires_at BIGINT DEFAULT NULL,
+  p_request_id UUID DEFAULT NULL,
+  p_signature TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_secret BYTEA;
+  v_request payment_requests;
+  v_failure JSON;
+  v_amount NUMERIC := p_amount;
+  v_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_version = 1 THEN
+    SELECT secret INTO v_secret
+    FROM payment_qr_keys
+    WHERE id = p_key_id AND active;
+
+    IF v_secret IS NULL OR p_signature IS NULL OR lower(p_signature) <> encode(
+      hmac(
+        payment_qr_message(p_key_id, p_recipient_id, p_amount, p_currency, p_expires_at, p_request_id, p_memo),
+        v_secret,
+        'sha256'
+      ),
+      'hex'
+    ) THEN
+      RETURN json_build_object('success', false, 'error', 'This QR code could not be verified');
+    END IF;
+
+    IF p_expires_at IS NOT NULL AND to_timestamp(p_expires_at) <= now() THEN
+      RETURN json_build_object('success', false, 'error', 'This QR code has expired');
+    END IF;
+
+    IF p_request_id IS NOT NULL THEN
+      SELECT * INTO v_request
+      FROM payment_requests
+      WHERE id = p_request_id AND sender_id = p_recipient_id;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', 'Payment request not found');
+      END IF;
+
+      IF v_request.recipient_id IS DISTINCT FROM v_user_id
+        AND NOT (v_request.recipient_id IS NULL AND v_request.merchant_id IS NOT NULL) THEN
+        RETURN json_build_object('success', false, 'error', 'This payment request is addressed to someone else');
+      END IF;
+
+      v_failure := payment_request_open_check(v_request);
+      IF v_failure IS NOT NULL THEN
+        RETURN v_failure;
+      END IF;
+
+      -- Part of it may have been paid since the code was made
+      v_amount := LEAST(v_amount, v_request.amount - v_request.amount_paid);
+
+      IF v_request.merchant_id IS NOT NULL THEN
+        SELECT business_name INTO v_name
+        FROM merchant_profiles
+        WHERE id = v_request.merchant_id AND status = 'active';
+
+        IF v_name IS NULL THEN
+          RETURN json_build_object('success', false, 'error', 'This merchant is not accepting payments');
+        END IF;
+      END IF;
+    END IF;
+  ELSIF p_version <> 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Unsupported QR code version');
+  END IF;
+
+  IF v_name IS NULL THEN
+    SELECT COALESCE(NULLIF(trim(full_name), ''), 'Unnamed account') INTO v_name
+    FROM profiles
+    WHERE user_id = p_recipient_id;
+
+    IF NOT FOUND THEN
+      RETURN json_build_object('success', false, 'error', 'Recipient not found');
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'verified', p_version = 1,
+    'recipient_id', p_recipient_id,
+    'recipient_name', v_name,
+    'merchant', v_request.merchant_id IS NOT NULL,
+    'amount', CASE WHEN p_version = 1 THEN v_amount END,
+    'currency', CASE WHEN p_version = 1 THEN p_currency ELSE 'GYD' END,
+    'memo', CASE WHEN p_version = 1 THEN p_memo END,
+    'expires_at', CASE WHEN p_version = 1 THEN to_timestamp(p_expires_at) END,
+    'request_id', CASE WHEN p_version = 1 THEN p_request_id END
+  );
+END;
+$$;
+
+ALTER TABLE public.push_notifications DROP CONSTRAINT IF EXISTS push_notifications_event_type_check;
+ALTER TABLE public.push_notifications ADD CONSTRAINT push_notifications_event_type_check
+  CHECK (event_type IN ('transaction', 'payment_request', 'chat_message', 'support_ticket', 'scheduled_transfer', 'merchant_sale'));
+
+-- Same as before, except checkout invoices only notify the merchant, once paid
+CREATE OR REPLACE FUNCTION public.queue_payment_request_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+  v_amount TEXT := to_char(NEW.amount, 'FM999999999990.00');
+  v_verb TEXT;
+BEGIN
+  IF NEW.merchant_id IS NOT NULL THEN
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'paid' THEN
+      INSERT INTO push_notifications (user_id, event_type, title, body, data)
+      SELECT
+        user_id,
+        'merchant_sale',
+        'Sale Paid',
+        'Order ' || NEW.order_reference || ' was paid: $' || v_amount,
+        jsonb_build_object('type', 'merchant_sale', 'request_id', NEW.id, 'order_reference', NEW.order_reference)
+      FROM merchant_profiles
+      WHERE id = NEW.merchant_id;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.sender_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.recipient_id,
+      'payment_request',
+      'Payment Request',
+      COALESCE(v_name, 'Someone') || ' requested $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'cancelled' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.sender_id;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.recipient_id,
+      'payment_request',
+      'Payment Request Cancelled',
+      COALESCE(v_name, 'The requester') || ' cancelled their request for $' || v_amount,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id, 'status', NEW.status)
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+    SELECT full_name INTO v_name FROM profiles WHERE user_id = NEW.recipient_id;
+
+    v_verb := CASE NEW.status
+      WHEN 'partially_paid' THEN 'partly paid'
+      WHEN 'rejected' THEN 'declined'
+      ELSE NEW.status
+    END;
+
+    INSERT INTO push_notifications (user_id, event_type, title, body, data)
+    VALUES (
+      NEW.sender_id,
+      'payment_request',
+      'Payment Request ' || initcap(v_verb),
+      CASE
+        WHEN NEW.status = 'expired' THEN 'Your request to ' || COALESCE(v_name, 'the recipient') || ' for $' || v_amount || ' expired'
+        ELSE COALESCE(v_name, 'The recipient') || ' ' || v_verb || ' your request for $' || v_amount
+      END,
+      jsonb_build_object('type', 'payment_request', 'request_id', NEW.id, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,405 @@
+-- Refunds and reversals of transfers
+-- A refund is a new 'refund' transaction from the original recipient back to the
+-- original sender, linked to the original through reversal_of. The original keeps a
+-- running refunded_amount and moves to partially_refunded or refunded; the total can
+-- never exceed what was sent. Recipients refund from their own balance; admins can
+-- reverse any transfer on the recipient's behalf.
+--
+-- refund_fee_policy decides what happens to the fees of the original transfer:
+--   none    fees are kept
+--   sender  the sender's fee is returned, in proportion to the amount refunded
+--   all     the sender's and the recipient's fees are returned, in proportion
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('refund_fee_policy', 'sender', 'Fees returned on refunds: none, sender or all')
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.transactions
+  ADD COLUMN reversal_of UUID REFERENCES public.transactions(id),
+  ADD COLUMN refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD CONSTRAINT transactions_refunded_amount_check CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  ADD CONSTRAINT transactions_reversal_check CHECK ((transaction_type = 'refund') = (reversal_of IS NOT NULL));
+
+CREATE INDEX idx_transactions_reversal_of ON public.transactions(reversal_of) WHERE reversal_of IS NOT NULL;
+
+-- Refund links are only written by refund_transaction
+DROP POLICY IF EXISTS "Users can insert their own transactions" ON public.transactions;
+
+CREATE POLICY "Users can insert their own transactions"
+  ON public.transactions FOR INSERT
+  WITH CHECK (auth.uid() = sender_id AND reversal_of IS NULL);
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN (
+    'opening_balance', 'transfer', 'treasury_withdrawal', 'admin_transfer', 'admin_adjustment',
+    'onchain_withdrawal', 'onchain_withdrawal_reversal', 'onchain_deposit', 'refund'
+  ));
+
+ALTER TABLE public.fund_chain_tracking DROP CONSTRAINT IF EXISTS fund_chain_tracking_source_type_check;
+ALTER TABLE public.fund_chain_tracking ADD CONSTRAINT fund_chain_tracking_source_type_check
+  CHECK (source_type IN ('treasury_withdrawal', 'admin_transfer', 'user_transfer', 'refund'));
+
+-- Fee a party paid on a transfer, and how much of it refunds have returned so far.
+-- Transfers from before the ledger have no fee postings, so nothing is returned for them.
+CREATE OR REPLACE FUNCTION public.transaction_fee_split(p_transaction_id UUID, p_user_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'paid', COALESCE((
+      SELECT -SUM(lp.amount)
+      FROM ledger_postings lp
+      JOIN ledger_journal_entries je ON je.id = lp.journal_entry_id
+      WHERE je.transaction_id = p_transaction_id
+        AND je.entry_type = 'transfer'
+        AND lp.line_type = 'fee'
+        AND lp.account_id = ledger_user_account(p_user_id)
+    ), 0),
+    'returned', COALESCE((
+      SELECT SUM(lp.amount)
+      FROM ledger_postings lp
+      JOIN ledger_journal_entries je ON je.id = lp.journal_entry_id
+      JOIN transactions t ON t.id = je.transaction_id
+      WHERE t.reversal_of = p_transaction_id
+        AND je.entry_type = 'refund'
+        AND lp.line_type = 'fee'
+        AND lp.account_id = ledger_user_account(p_user_id)
+    ), 0)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transaction_fee_split(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Refund all of a transfer, or part of it when p_amount is given
+CREATE OR REPLACE FUNCTION public.refund_transaction(
+  p_transaction_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_original transactions%ROWTYPE;
+  v_is_admin BOOLEAN;
+  v_check JSON;
+  v_pin_required BOOLEAN;
+  v_stored_pin_hash TEXT;
+  v_pin_result JSON;
+  v_reason TEXT := NULLIF(trim(p_reason), '');
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_refunded_total NUMERIC;
+  v_policy TEXT;
+  v_sender_fee JSON;
+  v_recipient_fee JSON;
+  v_sender_fee_returned NUMERIC := 0;
+  v_recipient_fee_returned NUMERIC := 0;
+  v_balance NUMERIC;
+  v_refund_id UUID;
+  v_parent_chain_id TEXT;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF length(v_reason) > 200 THEN
+    RETURN json_build_object('success', false, 'error', 'Reason must be 200 characters or less');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transaction_refund',
+    md5(concat_ws('|', p_transaction_id, p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_is_admin := has_role(v_user_id, 'admin'::app_role);
+
+  SELECT * INTO v_original
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND (recipient_id = v_user_id OR v_is_admin)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Transaction not found'));
+  END IF;
+
+  IF v_original.transaction_type <> 'transfer' THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Only transfers can be refunded'));
+  END IF;
+
+  IF v_original.status NOT IN ('completed', 'partially_refunded') THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', CASE WHEN v_original.status = 'refunded' THEN 'This transfer has already been refunded in full' ELSE 'This transfer cannot be refunded' END
+    ));
+  END IF;
+
+  v_remaining := v_original.amount - v_original.refunded_amount;
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+
+  IF v_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF v_amount > v_remaining THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', 'Only $' || to_char(v_remaining, 'FM999999999990.00') || ' of this transfer can still be refunded',
+      'remaining', v_remaining
+    ));
+  END IF;
+
+  -- Admins reverse on the recipient's behalf, which is allowed even from a frozen account
+  IF v_original.recipient_id = v_user_id THEN
+    v_check := account_transfer_check(v_user_id, v_original.sender_id);
+    IF v_check IS NOT NULL THEN
+      RETURN idempotency_complete(p_idempotency_key, v_check);
+    END IF;
+
+    SELECT pin_enabled, pin_hash INTO v_pin_required, v_stored_pin_hash
+    FROM profiles
+    WHERE user_id = v_user_id;
+
+    IF v_pin_required AND v_stored_pin_hash IS NOT NULL THEN
+      IF p_pin IS NULL THEN
+        RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'PIN required', 'pin_required', true));
+      END IF;
+
+      v_pin_result := verify_transaction_pin(p_pin);
+      IF NOT (v_pin_result->>'success')::boolean THEN
+        RETURN idempotency_complete(p_idempotency_key, v_pin_result);
+      END IF;
+    END IF;
+  END IF;
+
+  -- Fees are returned cumulatively, so partial refunds add up to the exact fee with no
+  -- rounding left over
+  v_refunded_total := v_original.refunded_amount + v_amount;
+
+  SELECT COALESCE(setting_value, 'none') INTO v_policy
+  FROM system_settings WHERE setting_key = 'refund_fee_policy';
+
+  IF v_policy IN ('sender', 'all') THEN
+    v_sender_fee := transaction_fee_split(v_original.id, v_original.sender_id);
+    v_sender_fee_returned := GREATEST(
+      round((v_sender_fee->>'paid')::NUMERIC * v_refunded_total / v_original.amount, 2) - (v_sender_fee->>'returned')::NUMERIC,
+      0
+    );
+  END IF;
+
+  IF v_policy = 'all' THEN
+    v_recipient_fee := transaction_fee_split(v_original.id, v_original.recipient_id);
+    v_recipient_fee_returned := GREATEST(
+      round((v_recipient_fee->>'paid')::NUMERIC * v_refunded_total / v_original.amount, 2) - (v_recipient_fee->>'returned')::NUMERIC,
+      0
+    );
+  END IF;
+
+  SELECT balance INTO v_balance FROM profiles WHERE user_id = v_original.recipient_id FOR UPDATE;
+
+  IF v_balance IS NULL OR v_balance + v_recipient_fee_returned < v_amount THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Insufficient funds to refund this transfer'));
+  END IF;
+
+  INSERT INTO transactions (sender_id, recipient_id, amount, fee, total_amount, description, transaction_type, reversal_of)
+  VALUES (
+    v_original.recipient_id,
+    v_original.sender_id,
+    v_amount,
+    0,
+    v_amount,
+    COALESCE('Refund: ' || v_reason, 'Refund of transaction ' || left(v_original.id::text, 8)),
+    'refund',
+    v_original.id
+  )
+  RETURNING id INTO v_refund_id;
+
+  PERFORM post_journal_entry(
+    'refund',
+    'Refund of transaction ' || v_original.id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_original.recipient_id), 'amount', -v_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_original.sender_id), 'amount', v_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_original.sender_id), 'amount', v_sender_fee_returned, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_user_account(v_original.recipient_id), 'amount', v_recipient_fee_returned, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_system_account('FEE_INCOME'), 'amount', -(v_sender_fee_returned + v_recipient_fee_returned), 'line_type', 'fee')
+    ),
+    v_refund_id
+  );
+
+  UPDATE transactions
+  SET refunded_amount = v_refunded_total,
+      status = CASE WHEN v_refunded_total >= amount THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE id = v_original.id
+  RETURNING * INTO v_original;
+
+  -- Continue the fund chain of the original, if it had one
+  SELECT chain_id INTO v_parent_chain_id
+  FROM fund_chain_tracking
+  WHERE transaction_id = v_original.id
+  ORDER BY created_at
+  LIMIT 1;
+
+  INSERT INTO fund_chain_tracking (chain_id, parent_chain_id, transaction_id, source_type, source_user_id, destination_user_id, amount)
+  VALUES (generate_chain_id(), v_parent_chain_id, v_refund_id, 'refund', v_original.recipient_id, v_original.sender_id, v_amount);
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE user_id = v_original.sender_id;
+  SELECT full_name INTO v_recipient_name FROM profiles WHERE user_id = v_original.recipient_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_original.recipient_id,
+    'REFUND_SENT',
+    'Refunded $' || to_char(v_amount, 'FM999999999990.00') || ' to ' || COALESCE(v_sender_name, 'the sender')
+      || CASE WHEN v_recipient_fee_returned > 0 THEN ' (fee returned: $' || to_char(v_recipient_fee_returned, 'FM999999999990.00') || ')' ELSE '' END
+  );
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_original.sender_id,
+    'REFUND_RECEIVED',
+    'Received a $' || to_char(v_amount, 'FM999999999990.00') || ' refund from ' || COALESCE(v_recipient_name, 'the recipient')
+      || CASE WHEN v_sender_fee_returned > 0 THEN ' (fee returned: $' || to_char(v_sender_fee_returned, 'FM999999999990.00') || ')' ELSE '' END
+  );
+
+  IF v_user_id <> v_original.recipient_id THEN
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (
+      v_user_id,
+      'TRANSACTION_REVERSED',
+      'Reversed $' || to_char(v_amount, 'FM999999999990.00') || ' of transaction ' || v_original.id
+        || COALESCE(': ' || v_reason, '')
+    );
+  END IF;
+
+  RETURN idempotency_complete(p_idempotency_key, json_build_object(
+    'success', true,
+    'transaction_id', v_refund_id,
+    'original_transaction_id', v_original.id,
+    'amount', v_amount,
+    'sender_fee_returned', v_sender_fee_returned,
+    'recipient_fee_returned', v_recipient_fee_returned,
+    'refunded_amount', v_original.refunded_amount,
+    'remaining', v_original.amount - v_original.refunded_amount,
+    'status', v_original.status
+  ));
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Refund would result in negative balance');
+END;
+$$;
+
+-- Same as before, except refunds are announced as refunds
+CREATE OR REPLACE FUNCTION public.queue_transaction_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender_name TEXT;
+BEGIN
+  IF NEW.recipient_id IS NULL OR NEW.recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE user_id = NEW.sender_id;
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    NEW.recipient_id,
+    'transaction',
+    CASE WHEN NEW.transaction_type = 'refund' THEN 'Refund Received' ELSE 'Money Received' END,
+    CASE
+      WHEN NEW.transaction_type = 'refund' THEN
+        COALESCE(v_sender_name, 'Another user') || ' refunded you $' || to_char(NEW.amount, 'FM999999999990.00')
+      ELSE
+        'You received $' || to_char(NEW.amount, 'FM999999999990.00') || ' from ' || COALESCE(v_sender_name, 'another user')
+    END,
+    jsonb_build_object('type', 'transaction', 'transaction_id', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, except refunded transfers still count towards the sender's limits
+-- and refunds themselves don't
+CREATE OR REPLACE FUNCTION public.transfer_limit_status(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier TEXT;
+  v_user transfer_limits%ROWTYPE;
+  v_tier_row transfer_limits%ROWTYPE;
+  v_daily_limit NUMERIC;
+  v_monthly_limit NUMERIC;
+  v_single_limit NUMERIC;
+  v_daily_used NUMERIC;
+  v_monthly_used NUMERIC;
+BEGIN
+  v_tier := transfer_limit_tier(p_user_id);
+
+  SELECT * INTO v_user FROM transfer_limits WHERE user_id = p_user_id;
+  SELECT * INTO v_tier_row FROM transfer_limits WHERE tier = v_tier;
+
+  v_daily_limit := COALESCE(
+    v_user.daily_limit,
+    v_tier_row.daily_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'daily_transfer_limit')
+  );
+  v_monthly_limit := COALESCE(
+    v_user.monthly_limit,
+    v_tier_row.monthly_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'monthly_transfer_limit')
+  );
+  v_single_limit := COALESCE(
+    v_user.single_transaction_limit,
+    v_tier_row.single_transaction_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'single_transfer_limit')
+  );
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '24 hours'), 0),
+    COALESCE(SUM(amount), 0)
+  INTO v_daily_used, v_monthly_used
+  FROM transactions
+  WHERE sender_id = p_user_id
+    AND status IN ('completed', 'partially_refunded', 'refunded')
+    AND transaction_type <> 'refund'
+    AND created_at > now() - interval '30 days';
+
+  RETURN json_build_object(
+    'tier', v_tier,
+    'has_override', v_user.id IS NOT NULL,
+    'single_limit', v_single_limit,
+    'daily_limit', v_daily_limit,
+    'daily_used', v_daily_used,
+    'daily_remaining', CASE WHEN v_daily_limit IS NOT NULL THEN GREATEST(v_daily_limit - v_daily_used, 0) END,
+    'monthly_limit', v_monthly_limit,
+    'monthly_used', v_monthly_used,
+    'monthly_remaining', CASE WHEN v_monthly_limit IS NOT NULL THEN GREATEST(v_monthly_limit - v_monthly_used, 0) END
+  );
+END;
+$$;
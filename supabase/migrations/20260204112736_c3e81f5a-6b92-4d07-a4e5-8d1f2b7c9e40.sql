@@ -0,0 +1,977 @@
+-- Transaction disputes
+-- The sender of a transfer can dispute it from its receipt with a reason code, a
+-- description and evidence files (stored in the support-attachments bucket under
+-- disputes/<dispute id>/). Agents work the cases from a queue ordered by SLA: a first
+-- response is due within dispute_response_hours and a resolution within
+-- dispute_resolution_hours.
+--
+-- While a case is open an agent can hold some of the recipient's funds. Held funds move
+-- to the DISPUTE_HOLDS ledger account and go back when the case is closed, withdrawn or
+-- the hold runs out after dispute_hold_days (expire-dispute-holds releases them).
+-- Resolving a case in the sender's favour reverses the transfer through
+-- refund_transaction. Every step is written to transaction_dispute_events.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES
+  ('dispute_response_hours', '24', 'Hours agents have to pick up a new dispute'),
+  ('dispute_resolution_hours', '72', 'Hours agents have to resolve a dispute'),
+  ('dispute_hold_days', '14', 'Days a dispute hold keeps the recipient''s funds before releasing them')
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_account_type_check;
+ALTER TABLE public.ledger_accounts ADD CONSTRAINT ledger_accounts_account_type_check
+  CHECK (account_type IN ('user_wallet', 'treasury', 'fee_income', 'equity', 'adjustment', 'external', 'holding'));
+
+INSERT INTO public.ledger_accounts (account_code, account_type, name)
+VALUES ('DISPUTE_HOLDS', 'holding', 'Funds held for open disputes')
+ON CONFLICT (account_code) DO NOTHING;
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN (
+    'opening_balance', 'transfer', 'treasury_withdrawal', 'admin_transfer', 'admin_adjustment',
+    'onchain_withdrawal', 'onchain_withdrawal_reversal', 'onchain_deposit', 'refund',
+    'dispute_hold', 'dispute_hold_release'
+  ));
+
+CREATE TABLE public.transaction_disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id),
+  opened_by UUID NOT NULL REFERENCES auth.users(id),
+  respondent_id UUID NOT NULL REFERENCES auth.users(id),
+  reason_code TEXT NOT NULL CHECK (reason_code IN (
+    'wrong_recipient', 'wrong_amount', 'duplicate', 'unauthorized', 'goods_not_received', 'other'
+  )),
+  description TEXT NOT NULL CHECK (length(trim(description)) BETWEEN 10 AND 2000),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'investigating', 'refunded', 'rejected', 'withdrawn')),
+  hold_requested BOOLEAN NOT NULL DEFAULT false,
+  hold_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (hold_amount >= 0),
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  assigned_to UUID REFERENCES auth.users(id),
+  response_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolution_due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  first_response_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  refund_transaction_id UUID REFERENCES public.transactions(id),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open case per transfer
+CREATE UNIQUE INDEX idx_transaction_disputes_open
+  ON public.transaction_disputes(transaction_id)
+  WHERE status IN ('open', 'investigating');
+
+CREATE INDEX idx_transaction_disputes_queue
+  ON public.transaction_disputes(resolution_due_at)
+  WHERE status IN ('open', 'investigating');
+
+CREATE INDEX idx_transaction_disputes_hold_expiry
+  ON public.transaction_disputes(hold_expires_at)
+  WHERE hold_amount > 0;
+
+CREATE TABLE public.transaction_dispute_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dispute_id UUID NOT NULL REFERENCES public.transaction_disputes(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  content_type TEXT NOT NULL,
+  uploaded_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Audit trail of a case
+CREATE TABLE public.transaction_dispute_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dispute_id UUID NOT NULL REFERENCES public.transaction_disputes(id) ON DELETE CASCADE,
+  actor_id UUID,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'opened', 'evidence_added', 'claimed', 'note', 'hold_placed', 'hold_released',
+    'refunded', 'rejected', 'withdrawn'
+  )),
+  note TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_dispute_events_dispute ON public.transaction_dispute_events(dispute_id, created_at);
+CREATE INDEX idx_transaction_dispute_evidence_dispute ON public.transaction_dispute_evidence(dispute_id);
+
+ALTER TABLE public.transaction_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_dispute_evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_dispute_events ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen through the functions below
+CREATE POLICY "Parties can view their disputes"
+  ON public.transaction_disputes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = opened_by OR auth.uid() = respondent_id);
+
+CREATE POLICY "Staff can view all disputes"
+  ON public.transaction_disputes
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role));
+
+CREATE POLICY "Openers can view their dispute evidence"
+  ON public.transaction_dispute_evidence
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.transaction_disputes d
+    WHERE d.id = dispute_id AND d.opened_by = auth.uid()
+  ));
+
+CREATE POLICY "Staff can view all dispute evidence"
+  ON public.transaction_dispute_evidence
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role));
+
+CREATE POLICY "Parties can view their dispute history"
+  ON public.transaction_dispute_events
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.transaction_disputes d
+    WHERE d.id = dispute_id AND (d.opened_by = auth.uid() OR d.respondent_id = auth.uid())
+  ));
+
+CREATE POLICY "Staff can view all dispute history"
+  ON public.transaction_dispute_events
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role));
+
+CREATE TRIGGER update_transaction_disputes_updated_at
+  BEFORE UPDATE ON public.transaction_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transaction_disputes;
+
+ALTER TABLE public.push_notifications DROP CONSTRAINT IF EXISTS push_notifications_event_type_check;
+ALTER TABLE public.push_notifications ADD CONSTRAINT push_notifications_event_type_check
+  CHECK (event_type IN ('transaction', 'payment_request', 'chat_message', 'support_ticket', 'scheduled_transfer', 'merchant_sale', 'dispute'));
+
+CREATE OR REPLACE FUNCTION public.is_dispute_staff()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'agent'::app_role)
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_dispute_event(
+  p_dispute_id UUID,
+  p_event_type TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO transaction_dispute_events (dispute_id, actor_id, event_type, note, data)
+  VALUES (p_dispute_id, auth.uid(), p_event_type, p_note, COALESCE(p_data, '{}'::jsonb))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_dispute_event(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Tell a party about their case
+CREATE OR REPLACE FUNCTION public.queue_dispute_push(
+  p_user_id UUID,
+  p_dispute_id UUID,
+  p_title TEXT,
+  p_body TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (p_user_id, 'dispute', p_title, p_body, jsonb_build_object('type', 'dispute', 'dispute_id', p_dispute_id))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_dispute_push(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Return whatever a case holds to the recipient
+CREATE OR REPLACE FUNCTION public.release_dispute_hold_for(p_dispute_id UUID, p_note TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute FROM transaction_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND OR v_dispute.hold_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM post_journal_entry(
+    'dispute_hold_release',
+    'Release of dispute hold ' || v_dispute.id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_system_account('DISPUTE_HOLDS'), 'amount', -v_dispute.hold_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_dispute.respondent_id), 'amount', v_dispute.hold_amount)
+    ),
+    v_dispute.transaction_id
+  );
+
+  UPDATE transaction_disputes
+  SET hold_amount = 0,
+      hold_expires_at = NULL
+  WHERE id = v_dispute.id;
+
+  PERFORM log_dispute_event(v_dispute.id, 'hold_released', p_note, jsonb_build_object('amount', v_dispute.hold_amount));
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_dispute.respondent_id,
+    'DISPUTE_HOLD_RELEASED',
+    'Released $' || to_char(v_dispute.hold_amount, 'FM999999999990.00') || ' held for a disputed transfer'
+  );
+
+  RETURN v_dispute.hold_amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_dispute_hold_for(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Dispute a transfer you sent
+CREATE OR REPLACE FUNCTION public.open_transaction_dispute(
+  p_transaction_id UUID,
+  p_reason_code TEXT,
+  p_description TEXT,
+  p_amount NUMERIC DEFAULT NULL,
+  p_request_hold BOOLEAN DEFAULT false
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_transaction transactions%ROWTYPE;
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_response_hours NUMERIC;
+  v_resolution_hours NUMERIC;
+  v_dispute_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_reason_code IS NULL OR p_reason_code NOT IN (
+    'wrong_recipient', 'wrong_amount', 'duplicate', 'unauthorized', 'goods_not_received', 'other'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Choose a reason for the dispute');
+  END IF;
+
+  IF length(trim(COALESCE(p_description, ''))) NOT BETWEEN 10 AND 2000 THEN
+    RETURN json_build_object('success', false, 'error', 'Describe what went wrong in 10 to 2000 characters');
+  END IF;
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND sender_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Transaction not found');
+  END IF;
+
+  IF v_transaction.transaction_type <> 'transfer' OR v_transaction.status NOT IN ('completed', 'partially_refunded') THEN
+    RETURN json_build_object('success', false, 'error', 'This transaction cannot be disputed');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM transaction_disputes
+    WHERE transaction_id = v_transaction.id AND status IN ('open', 'investigating')
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'This transfer already has an open dispute');
+  END IF;
+
+  v_remaining := v_transaction.amount - v_transaction.refunded_amount;
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+
+  IF v_amount <= 0 OR v_amount > v_remaining THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'You can dispute up to $' || to_char(v_remaining, 'FM999999999990.00') || ' of this transfer'
+    );
+  END IF;
+
+  SELECT COALESCE(setting_value::NUMERIC, 24) INTO v_response_hours
+  FROM system_settings WHERE setting_key = 'dispute_response_hours';
+  SELECT COALESCE(setting_value::NUMERIC, 72) INTO v_resolution_hours
+  FROM system_settings WHERE setting_key = 'dispute_resolution_hours';
+
+  INSERT INTO transaction_disputes (
+    transaction_id, opened_by, respondent_id, reason_code, description, amount,
+    hold_requested, response_due_at, resolution_due_at
+  )
+  VALUES (
+    v_transaction.id,
+    v_user_id,
+    v_transaction.recipient_id,
+    p_reason_code,
+    trim(p_description),
+    v_amount,
+    COALESCE(p_request_hold, false),
+    now() + make_interval(hours => COALESCE(v_response_hours, 24)::INTEGER),
+    now() + make_interval(hours => COALESCE(v_resolution_hours, 72)::INTEGER)
+  )
+  RETURNING id INTO v_dispute_id;
+
+  PERFORM log_dispute_event(
+    v_dispute_id,
+    'opened',
+    trim(p_description),
+    jsonb_build_object('reason_code', p_reason_code, 'amount', v_amount, 'hold_requested', COALESCE(p_request_hold, false))
+  );
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    'DISPUTE_OPENED',
+    'Disputed $' || to_char(v_amount, 'FM999999999990.00') || ' of transaction ' || v_transaction.id
+  );
+
+  RETURN json_build_object('success', true, 'dispute_id', v_dispute_id, 'status', 'open');
+END;
+$$;
+
+-- Record an evidence file the opener (or an agent) uploaded to the case
+CREATE OR REPLACE FUNCTION public.add_dispute_evidence(
+  p_dispute_id UUID,
+  p_file_name TEXT,
+  p_file_path TEXT,
+  p_file_size INTEGER,
+  p_content_type TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+  v_evidence_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_dispute
+  FROM transaction_disputes
+  WHERE id = p_dispute_id AND (opened_by = auth.uid() OR is_dispute_staff());
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'investigating') THEN
+    RETURN json_build_object('success', false, 'error', 'This dispute is closed');
+  END IF;
+
+  -- Files must live in the case's own folder
+  IF p_file_path IS NULL OR p_file_path NOT LIKE 'disputes/' || v_dispute.id || '/%' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid evidence path');
+  END IF;
+
+  INSERT INTO transaction_dispute_evidence (dispute_id, file_name, file_path, file_size, content_type, uploaded_by)
+  VALUES (v_dispute.id, p_file_name, p_file_path, p_file_size, COALESCE(p_content_type, 'application/octet-stream'), auth.uid())
+  RETURNING id INTO v_evidence_id;
+
+  PERFORM log_dispute_event(v_dispute.id, 'evidence_added', p_file_name, jsonb_build_object('evidence_id', v_evidence_id));
+
+  RETURN json_build_object('success', true, 'evidence_id', v_evidence_id);
+END;
+$$;
+
+-- Agents: take a case and start working it, or add a note to one
+CREATE OR REPLACE FUNCTION public.claim_transaction_dispute(p_dispute_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+  v_note TEXT := NULLIF(trim(p_note), '');
+BEGIN
+  IF NOT is_dispute_staff() THEN
+    RETURN json_build_object('success', false, 'error', 'Only agents can work disputes');
+  END IF;
+
+  SELECT * INTO v_dispute FROM transaction_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'investigating') THEN
+    RETURN json_build_object('success', false, 'error', 'This dispute is closed');
+  END IF;
+
+  IF v_dispute.assigned_to IS DISTINCT FROM auth.uid() THEN
+    UPDATE transaction_disputes
+    SET assigned_to = auth.uid(),
+        status = 'investigating',
+        first_response_at = COALESCE(first_response_at, now())
+    WHERE id = v_dispute.id;
+
+    PERFORM log_dispute_event(v_dispute.id, 'claimed', NULL, jsonb_build_object('previous_agent', v_dispute.assigned_to));
+
+    IF v_dispute.status = 'open' THEN
+      PERFORM queue_dispute_push(
+        v_dispute.opened_by,
+        v_dispute.id,
+        'Dispute Under Review',
+        'An agent is now looking into your dispute'
+      );
+    END IF;
+  END IF;
+
+  IF v_note IS NOT NULL THEN
+    PERFORM log_dispute_event(v_dispute.id, 'note', left(v_note, 2000));
+  END IF;
+
+  RETURN json_build_object('success', true, 'status', 'investigating');
+END;
+$$;
+
+-- Agents: hold some of the recipient's funds while the case is open
+CREATE OR REPLACE FUNCTION public.place_dispute_hold(p_dispute_id UUID, p_amount NUMERIC DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+  v_balance NUMERIC;
+  v_amount NUMERIC;
+  v_hold_days NUMERIC;
+BEGIN
+  IF NOT is_dispute_staff() THEN
+    RETURN json_build_object('success', false, 'error', 'Only agents can hold funds');
+  END IF;
+
+  SELECT * INTO v_dispute FROM transaction_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'investigating') THEN
+    RETURN json_build_object('success', false, 'error', 'This dispute is closed');
+  END IF;
+
+  IF v_dispute.hold_amount > 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Funds are already held for this dispute');
+  END IF;
+
+  SELECT balance INTO v_balance FROM profiles WHERE user_id = v_dispute.respondent_id FOR UPDATE;
+
+  -- Never more than is disputed, and never more than the recipient still has
+  v_amount := LEAST(round(COALESCE(p_amount, v_dispute.amount), 2), v_dispute.amount, COALESCE(v_balance, 0));
+
+  IF v_amount <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'The recipient has no funds to hold');
+  END IF;
+
+  SELECT COALESCE(setting_value::NUMERIC, 14) INTO v_hold_days
+  FROM system_settings WHERE setting_key = 'dispute_hold_days';
+
+  PERFORM post_journal_entry(
+    'dispute_hold',
+    'Hold for dispute ' || v_dispute.id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_dispute.respondent_id), 'amount', -v_amount),
+      jsonb_build_object('account_id', ledger_system_account('DISPUTE_HOLDS'), 'amount', v_amount)
+    ),
+    v_dispute.transaction_id
+  );
+
+  UPDATE transaction_disputes
+  SET hold_amount = v_amount,
+      hold_expires_at = now() + make_interval(days => COALESCE(v_hold_days, 14)::INTEGER),
+      assigned_to = COALESCE(assigned_to, auth.uid()),
+      status = 'investigating',
+      first_response_at = COALESCE(first_response_at, now())
+  WHERE id = v_dispute.id
+  RETURNING * INTO v_dispute;
+
+  PERFORM log_dispute_event(
+    v_dispute.id,
+    'hold_placed',
+    NULL,
+    jsonb_build_object('amount', v_amount, 'expires_at', v_dispute.hold_expires_at)
+  );
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_dispute.respondent_id,
+    'DISPUTE_HOLD_PLACED',
+    'Held $' || to_char(v_amount, 'FM999999999990.00') || ' while a transfer you received is disputed'
+  );
+
+  PERFORM queue_dispute_push(
+    v_dispute.respondent_id,
+    v_dispute.id,
+    'Funds On Hold',
+    '$' || to_char(v_amount, 'FM999999999990.00') || ' of your balance is on hold while a transfer you received is reviewed'
+  );
+
+  RETURN json_build_object('success', true, 'hold_amount', v_amount, 'hold_expires_at', v_dispute.hold_expires_at);
+END;
+$$;
+
+-- Agents: give held funds back before the case is closed
+CREATE OR REPLACE FUNCTION public.release_dispute_hold(p_dispute_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_released NUMERIC;
+BEGIN
+  IF NOT is_dispute_staff() THEN
+    RETURN json_build_object('success', false, 'error', 'Only agents can release held funds');
+  END IF;
+
+  v_released := release_dispute_hold_for(p_dispute_id, NULLIF(trim(p_note), ''));
+
+  IF v_released <= 0 THEN
+    RETURN json_build_object('success', false, 'error', 'No funds are held for this dispute');
+  END IF;
+
+  RETURN json_build_object('success', true, 'released', v_released);
+END;
+$$;
+
+-- Agents: close a case. 'refund' reverses the disputed amount (or p_amount) back to the
+-- sender; 'reject' closes it without moving money. Either way held funds go back to the
+-- recipient first.
+CREATE OR REPLACE FUNCTION public.resolve_transaction_dispute(
+  p_dispute_id UUID,
+  p_outcome TEXT,
+  p_note TEXT,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+  v_note TEXT := NULLIF(trim(p_note), '');
+  v_refund JSON;
+  v_refund_id UUID;
+BEGIN
+  IF NOT is_dispute_staff() THEN
+    RETURN json_build_object('success', false, 'error', 'Only agents can resolve disputes');
+  END IF;
+
+  IF p_outcome IS NULL OR p_outcome NOT IN ('refund', 'reject') THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid outcome');
+  END IF;
+
+  IF v_note IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'A resolution note is required');
+  END IF;
+
+  SELECT * INTO v_dispute FROM transaction_disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'investigating') THEN
+    RETURN json_build_object('success', false, 'error', 'This dispute is already closed');
+  END IF;
+
+  BEGIN
+    PERFORM release_dispute_hold_for(v_dispute.id, 'Released on resolution');
+
+    IF p_outcome = 'refund' THEN
+      -- refund_transaction treats this as an admin reversal; the flag only lives for
+      -- this call
+      PERFORM set_config('app.dispute_resolution', 'on', true);
+      v_refund := refund_transaction(
+        v_dispute.transaction_id,
+        LEAST(round(COALESCE(p_amount, v_dispute.amount), 2), v_dispute.amount),
+        'Dispute resolved: ' || left(v_note, 150),
+        NULL,
+        NULL
+      );
+      PERFORM set_config('app.dispute_resolution', 'off', true);
+
+      IF NOT COALESCE((v_refund->>'success')::boolean, false) THEN
+        RAISE EXCEPTION '%', COALESCE(v_refund->>'error', 'Refund failed');
+      END IF;
+
+      v_refund_id := (v_refund->>'transaction_id')::UUID;
+    END IF;
+  EXCEPTION
+    WHEN raise_exception THEN
+      -- Undoes the hold release too, so the case is left exactly as it was
+      RETURN json_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  UPDATE transaction_disputes
+  SET status = CASE WHEN p_outcome = 'refund' THEN 'refunded' ELSE 'rejected' END,
+      resolution_note = v_note,
+      refund_transaction_id = v_refund_id,
+      assigned_to = COALESCE(assigned_to, auth.uid()),
+      first_response_at = COALESCE(first_response_at, now()),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = v_dispute.id
+  RETURNING * INTO v_dispute;
+
+  PERFORM log_dispute_event(
+    v_dispute.id,
+    CASE WHEN p_outcome = 'refund' THEN 'refunded' ELSE 'rejected' END,
+    v_note,
+    CASE WHEN v_refund_id IS NOT NULL
+      THEN jsonb_build_object('refund_transaction_id', v_refund_id, 'amount', (v_refund->>'amount')::NUMERIC)
+      ELSE '{}'::jsonb
+    END
+  );
+
+  PERFORM queue_dispute_push(
+    v_dispute.opened_by,
+    v_dispute.id,
+    CASE WHEN p_outcome = 'refund' THEN 'Dispute Resolved' ELSE 'Dispute Closed' END,
+    CASE
+      WHEN p_outcome = 'refund' THEN 'Your dispute was upheld and $' || to_char((v_refund->>'amount')::NUMERIC, 'FM999999999990.00') || ' was returned to you'
+      ELSE 'Your dispute was reviewed and closed without a refund'
+    END
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'status', v_dispute.status,
+    'refund_transaction_id', v_refund_id
+  );
+END;
+$$;
+
+-- The opener drops the case; anything held goes back to the recipient
+CREATE OR REPLACE FUNCTION public.withdraw_transaction_dispute(p_dispute_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute transaction_disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM transaction_disputes
+  WHERE id = p_dispute_id AND opened_by = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status NOT IN ('open', 'investigating') THEN
+    RETURN json_build_object('success', false, 'error', 'This dispute is already closed');
+  END IF;
+
+  PERFORM release_dispute_hold_for(v_dispute.id, 'Released when the dispute was withdrawn');
+
+  UPDATE transaction_disputes
+  SET status = 'withdrawn',
+      resolved_at = now()
+  WHERE id = v_dispute.id;
+
+  PERFORM log_dispute_event(v_dispute.id, 'withdrawn');
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (auth.uid(), 'DISPUTE_WITHDRAWN', 'Withdrew your dispute of transaction ' || v_dispute.transaction_id);
+
+  RETURN json_build_object('success', true, 'status', 'withdrawn');
+END;
+$$;
+
+-- Release holds that ran out. Called by the expire-dispute-holds edge function.
+CREATE OR REPLACE FUNCTION public.release_expired_dispute_holds()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute_id UUID;
+  v_released INTEGER := 0;
+BEGIN
+  FOR v_dispute_id IN
+    SELECT id FROM transaction_disputes
+    WHERE hold_amount > 0 AND hold_expires_at <= now()
+    ORDER BY hold_expires_at
+    LIMIT 200
+  LOOP
+    IF release_dispute_hold_for(v_dispute_id, 'Hold expired') > 0 THEN
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN json_build_object('success', true, 'released', v_released);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_dispute_holds() FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except a dispute resolution reverses the transfer like an admin would
+CREATE OR REPLACE FUNCTION public.refund_transaction(
+  p_transaction_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_replay JSON;
+  v_original transactions%ROWTYPE;
+  v_is_admin BOOLEAN;
+  v_check JSON;
+  v_pin_required BOOLEAN;
+  v_stored_pin_hash TEXT;
+  v_pin_result JSON;
+  v_reason TEXT := NULLIF(trim(p_reason), '');
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_refunded_total NUMERIC;
+  v_policy TEXT;
+  v_sender_fee JSON;
+  v_recipient_fee JSON;
+  v_sender_fee_returned NUMERIC := 0;
+  v_recipient_fee_returned NUMERIC := 0;
+  v_balance NUMERIC;
+  v_refund_id UUID;
+  v_parent_chain_id TEXT;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF length(v_reason) > 200 THEN
+    RETURN json_build_object('success', false, 'error', 'Reason must be 200 characters or less');
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transaction_refund',
+    md5(concat_ws('|', p_transaction_id, p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_is_admin := has_role(v_user_id, 'admin'::app_role)
+    OR current_setting('app.dispute_resolution', true) = 'on';
+
+  SELECT * INTO v_original
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND (recipient_id = v_user_id OR v_is_admin)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Transaction not found'));
+  END IF;
+
+  IF v_original.transaction_type <> 'transfer' THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Only transfers can be refunded'));
+  END IF;
+
+  IF v_original.status NOT IN ('completed', 'partially_refunded') THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', CASE WHEN v_original.status = 'refunded' THEN 'This transfer has already been refunded in full' ELSE 'This transfer cannot be refunded' END
+    ));
+  END IF;
+
+  v_remaining := v_original.amount - v_original.refunded_amount;
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+
+  IF v_amount <= 0 THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Amount must be greater than 0'));
+  END IF;
+
+  IF v_amount > v_remaining THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object(
+      'success', false,
+      'error', 'Only $' || to_char(v_remaining, 'FM999999999990.00') || ' of this transfer can still be refunded',
+      'remaining', v_remaining
+    ));
+  END IF;
+
+  -- Admins reverse on the recipient's behalf, which is allowed even from a frozen account
+  IF v_original.recipient_id = v_user_id THEN
+    v_check := account_transfer_check(v_user_id, v_original.sender_id);
+    IF v_check IS NOT NULL THEN
+      RETURN idempotency_complete(p_idempotency_key, v_check);
+    END IF;
+
+    SELECT pin_enabled, pin_hash INTO v_pin_required, v_stored_pin_hash
+    FROM profiles
+    WHERE user_id = v_user_id;
+
+    IF v_pin_required AND v_stored_pin_hash IS NOT NULL THEN
+      IF p_pin IS NULL THEN
+        RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'PIN required', 'pin_required', true));
+      END IF;
+
+      v_pin_result := verify_transaction_pin(p_pin);
+      IF NOT (v_pin_result->>'success')::boolean THEN
+        RETURN idempotency_complete(p_idempotency_key, v_pin_result);
+      END IF;
+    END IF;
+  END IF;
+
+  -- Fees are returned cumulatively, so partial refunds add up to the exact fee with no
+  -- rounding left over
+  v_refunded_total := v_original.refunded_amount + v_amount;
+
+  SELECT COALESCE(setting_value, 'none') INTO v_policy
+  FROM system_settings WHERE setting_key = 'refund_fee_policy';
+
+  IF v_policy IN ('sender', 'all') THEN
+    v_sender_fee := transaction_fee_split(v_original.id, v_original.sender_id);
+    v_sender_fee_returned := GREATEST(
+      round((v_sender_fee->>'paid')::NUMERIC * v_refunded_total / v_original.amount, 2) - (v_sender_fee->>'returned')::NUMERIC,
+      0
+    );
+  END IF;
+
+  IF v_policy = 'all' THEN
+    v_recipient_fee := transaction_fee_split(v_original.id, v_original.recipient_id);
+    v_recipient_fee_returned := GREATEST(
+      round((v_recipient_fee->>'paid')::NUMERIC * v_refunded_total / v_original.amount, 2) - (v_recipient_fee->>'returned')::NUMERIC,
+      0
+    );
+  END IF;
+
+  SELECT balance INTO v_balance FROM profiles WHERE user_id = v_original.recipient_id FOR UPDATE;
+
+  IF v_balance IS NULL OR v_balance + v_recipient_fee_returned < v_amount THEN
+    RETURN idempotency_complete(p_idempotency_key, json_build_object('success', false, 'error', 'Insufficient funds to refund this transfer'));
+  END IF;
+
+  INSERT INTO transactions (sender_id, recipient_id, amount, fee, total_amount, description, transaction_type, reversal_of)
+  VALUES (
+    v_original.recipient_id,
+    v_original.sender_id,
+    v_amount,
+    0,
+    v_amount,
+    COALESCE('Refund: ' || v_reason, 'Refund of transaction ' || left(v_original.id::text, 8)),
+    'refund',
+    v_original.id
+  )
+  RETURNING id INTO v_refund_id;
+
+  PERFORM post_journal_entry(
+    'refund',
+    'Refund of transaction ' || v_original.id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', ledger_user_account(v_original.recipient_id), 'amount', -v_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_original.sender_id), 'amount', v_amount),
+      jsonb_build_object('account_id', ledger_user_account(v_original.sender_id), 'amount', v_sender_fee_returned, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_user_account(v_original.recipient_id), 'amount', v_recipient_fee_returned, 'line_type', 'fee'),
+      jsonb_build_object('account_id', ledger_system_account('FEE_INCOME'), 'amount', -(v_sender_fee_returned + v_recipient_fee_returned), 'line_type', 'fee')
+    ),
+    v_refund_id
+  );
+
+  UPDATE transactions
+  SET refunded_amount = v_refunded_total,
+      status = CASE WHEN v_refunded_total >= amount THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE id = v_original.id
+  RETURNING * INTO v_original;
+
+  -- Continue the fund chain of the original, if it had one
+  SELECT chain_id INTO v_parent_chain_id
+  FROM fund_chain_tracking
+  WHERE transaction_id = v_original.id
+  ORDER BY created_at
+  LIMIT 1;
+
+  INSERT INTO fund_chain_tracking (chain_id, parent_chain_id, transaction_id, source_type, source_user_id, destination_user_id, amount)
+  VALUES (generate_chain_id(), v_parent_chain_id, v_refund_id, 'refund', v_original.recipient_id, v_original.sender_id, v_amount);
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE user_id = v_original.sender_id;
+  SELECT full_name INTO v_recipient_name FROM profiles WHERE user_id = v_original.recipient_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_original.recipient_id,
+    'REFUND_SENT',
+    'Refunded $' || to_char(v_amount, 'FM999999999990.00') || ' to ' || COALESCE(v_sender_name, 'the sender')
+      || CASE WHEN v_recipient_fee_returned > 0 THEN ' (fee returned: $' || to_char(v_recipient_fee_returned, 'FM999999999990.00') || ')' ELSE '' END
+  );
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_original.sender_id,
+    'REFUND_RECEIVED',
+    'Received a $' || to_char(v_amount, 'FM999999999990.00') || ' refund from ' || COALESCE(v_recipient_name, 'the recipient')
+      || CASE WHEN v_sender_fee_returned > 0 THEN ' (fee returned: $' || to_char(v_sender_fee_returned, 'FM999999999990.00') || ')' ELSE '' END
+  );
+
+  IF v_user_id <> v_original.recipient_id THEN
+    INSERT INTO activity_logs (user_id, action_type, description)
+    VALUES (
+      v_user_id,
+      'TRANSACTION_REVERSED',
+      'Reversed $' || to_char(v_amount, 'FM999999999990.00') || ' of transaction ' || v_original.id
+        || COALESCE(': ' || v_reason, '')
+    );
+  END IF;
+
+  RETURN idempotency_complete(p_idempotency_key, json_build_object(
+    'success', true,
+    'transaction_id', v_refund_id,
+    'original_transaction_id', v_original.id,
+    'amount', v_amount,
+    'sender_fee_returned', v_sender_fee_returned,
+    'recipient_fee_returned', v_recipient_fee_returned,
+    'refunded_amount', v_original.refunded_amount,
+    'remaining', v_original.amount - v_original.refunded_amount,
+    'status', v_original.status
+  ));
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN json_build_object('success', false, 'error', 'Refund would result in negative balance');
+END;
+$$;
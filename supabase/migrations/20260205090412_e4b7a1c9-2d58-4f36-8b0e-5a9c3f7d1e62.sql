@@ -0,0 +1,218 @@
+-- Second factor for money movement
+-- The aal2 requirement was only enforced by RLS, which the SECURITY DEFINER money
+-- functions bypass, and the admin "require two-factor" switch had no effect on the
+-- server. Now mfa_satisfied() also fails for unenrolled users while the switch is on,
+-- and every public function that moves money checks it before doing anything.
+
+-- True when the session has passed the second factor, or the user has no verified factor
+-- and two-factor is not required
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE user_id = auth.uid() AND status = 'verified'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM system_settings
+        WHERE setting_key = 'require_two_factor' AND setting_value = 'true'
+      )
+    );
+$$;
+
+-- Returns NULL when the session may move money, otherwise the failure response.
+-- Scheduled runs were checked when the schedule was created.
+CREATE OR REPLACE FUNCTION public.mfa_transfer_check()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN mfa_satisfied() OR current_setting('app.scheduled_transfer', true) = 'on' THEN NULL
+    ELSE json_build_object(
+      'success', false,
+      'error', 'Verify with your authenticator app to continue',
+      'mfa_required', true
+    )
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mfa_transfer_check() FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except the second factor is checked first
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    mfa_transfer_check(),
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Same as before, except the second factor is checked first
+CREATE OR REPLACE FUNCTION public.process_transfer_secure(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    mfa_transfer_check(),
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer_secure(p_recipient_id, p_amount, p_description, p_pin)
+  );
+END;
+$$;
+
+-- Keep the existing implementations as internal functions behind checked wrappers
+ALTER FUNCTION public.settle_payment_request(UUID, NUMERIC, TEXT, UUID) RENAME TO execute_payment_request_settlement;
+ALTER FUNCTION public.refund_transaction(UUID, NUMERIC, TEXT, TEXT, UUID) RENAME TO execute_transaction_refund;
+ALTER FUNCTION public.create_scheduled_transfer(UUID, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT)
+  RENAME TO execute_scheduled_transfer_creation;
+
+REVOKE EXECUTE ON FUNCTION public.execute_payment_request_settlement(UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_transaction_refund(UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.execute_scheduled_transfer_creation(UUID, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.settle_payment_request(
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSON := mfa_transfer_check();
+BEGIN
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  RETURN execute_payment_request_settlement(p_request_id, p_amount, p_pin, p_idempotency_key);
+END;
+$$;
+
+-- Dispute resolutions call this too, with the agent's session
+CREATE OR REPLACE FUNCTION public.refund_transaction(
+  p_transaction_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSON := mfa_transfer_check();
+BEGIN
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  RETURN execute_transaction_refund(p_transaction_id, p_amount, p_reason, p_pin, p_idempotency_key);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_scheduled_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_frequency TEXT,
+  p_start_at TIMESTAMP WITH TIME ZONE,
+  p_description TEXT DEFAULT NULL,
+  p_cron_expression TEXT DEFAULT NULL,
+  p_end_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_check JSON := mfa_transfer_check();
+BEGIN
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  RETURN execute_scheduled_transfer_creation(
+    p_recipient_id, p_amount, p_frequency, p_start_at, p_description, p_cron_expression, p_end_at, p_pin
+  );
+END;
+$$;
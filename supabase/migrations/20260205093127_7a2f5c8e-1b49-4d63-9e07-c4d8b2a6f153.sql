@@ -0,0 +1,46 @@
+-- Transfers only through the transfer gateway
+-- The firewall runs in the transfer-gateway edge function, which clients could skip by
+-- calling the transfer RPCs over the REST API. They are now internal: the gateway
+-- verifies the caller's token and calls gateway_transfer with the service role, which
+-- runs the transfer as that user, with the assurance level of their session.
+
+REVOKE EXECUTE ON FUNCTION public.process_transfer(UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_transfer_secure(UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.gateway_transfer(
+  p_user_id UUID,
+  p_aal TEXT,
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Act as the sender so auth.uid(), auth.jwt() and every check see the in-app caller
+  PERFORM set_config(
+    'request.jwt.claims',
+    json_build_object('sub', p_user_id, 'role', 'authenticated', 'aal', COALESCE(p_aal, 'aal1'))::text,
+    true
+  );
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+
+  -- A PIN is checked server-side; without one the device already verified the user
+  IF p_pin IS NOT NULL THEN
+    RETURN process_transfer_secure(p_recipient_id, p_amount, p_description, p_pin, p_idempotency_key);
+  END IF;
+
+  RETURN process_transfer(p_recipient_id, p_amount, p_description, p_idempotency_key);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gateway_transfer(UUID, TEXT, UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,66 @@
+-- PIN resets only through functions
+-- Clearing pin_hash directly let a client drop its PIN and then set a new one without
+-- the current PIN, skipping the current-PIN check and the rotation policy. Any change
+-- to pin_hash now needs app.pin_write, and staff resets go through reset_transaction_pin.
+
+-- Same as before, except clearing a PIN is also rejected outside the PIN functions
+CREATE OR REPLACE FUNCTION public.guard_pin_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.pin_write', true) IS DISTINCT FROM 'on' THEN
+    IF (TG_OP = 'INSERT' AND NEW.pin_hash IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.pin_hash IS DISTINCT FROM OLD.pin_hash) THEN
+      RAISE EXCEPTION 'PINs can only be changed through set_transaction_pin';
+    END IF;
+    NEW.pin_length := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_length END;
+    NEW.pin_updated_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_updated_at END;
+  ELSIF NEW.pin_hash IS NULL THEN
+    NEW.pin_length := NULL;
+    NEW.pin_updated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Staff: clear a user's PIN so they can set a new one. Also lifts a PIN lockout.
+CREATE OR REPLACE FUNCTION public.reset_transaction_pin(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+BEGIN
+  IF NOT (has_role(v_actor_id, 'admin'::app_role) OR has_role(v_actor_id, 'agent'::app_role)) THEN
+    RETURN json_build_object('success', false, 'error', 'Unauthorized: Staff access required');
+  END IF;
+
+  IF p_user_id = v_actor_id THEN
+    RETURN json_build_object('success', false, 'error', 'You cannot reset your own PIN');
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'User not found');
+  END IF;
+
+  PERFORM set_config('app.pin_write', 'on', true);
+  UPDATE profiles
+  SET pin_hash = NULL,
+      pin_enabled = false
+  WHERE user_id = p_user_id;
+  PERFORM set_config('app.pin_write', 'off', true);
+
+  DELETE FROM security_rate_limits
+  WHERE user_id = p_user_id AND action_type = 'pin_verification';
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (p_user_id, 'PIN_RESET', 'Transaction PIN reset by support staff ' || v_actor_id);
+
+  RETURN json_build_object('success', true);
+END;
+$$;
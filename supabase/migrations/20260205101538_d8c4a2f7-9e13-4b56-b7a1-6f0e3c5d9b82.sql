@@ -0,0 +1,18 @@
+-- Keep PIN hashes away from clients
+-- A bcrypt hash of a 4-8 digit PIN falls to an offline search, so clients can no longer
+-- read profiles.pin_hash. has_pin tells them whether a PIN is set.
+
+ALTER TABLE public.profiles
+ADD COLUMN has_pin BOOLEAN GENERATED ALWAYS AS (pin_hash IS NOT NULL) STORED;
+
+-- A column can only be held back once the table-wide grant is gone. New profile
+-- columns have to be added to this grant to be readable.
+REVOKE SELECT ON public.profiles FROM anon, authenticated;
+GRANT SELECT (
+  id, user_id, email, full_name, role, balance, created_at,
+  account_status, account_status_changed_at, account_status_changed_by, account_status_reason,
+  address_line1, address_line2, alternate_number, avatar_url, card_cvv, city, country,
+  date_of_birth, gender, id_number, id_type, legacy_wallet_address, mobile_number,
+  nationality, notify_email, occupation, pin_enabled, pin_length, pin_updated_at, has_pin,
+  public_key, referral_code, region, tin_number, wallet_address
+) ON public.profiles TO anon, authenticated;
@@ -0,0 +1,51 @@
+-- Merchant sales settle into the merchant's own account
+-- save_merchant_profile took any account as the settlement account without its owner
+-- agreeing, so a merchant could route sales into a stranger's account. The option is
+-- gone, and profiles that already point elsewhere settle into their own account again.
+
+UPDATE public.merchant_profiles
+SET settlement_user_id = user_id
+WHERE settlement_user_id <> user_id;
+
+DROP FUNCTION public.save_merchant_profile(TEXT, TEXT);
+DROP FUNCTION public.find_account_user_id(TEXT);
+
+-- Same as before, except sales always settle into the caller's own account
+CREATE OR REPLACE FUNCTION public.save_merchant_profile(p_business_name TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_merchant merchant_profiles;
+  v_created BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF length(trim(COALESCE(p_business_name, ''))) NOT BETWEEN 2 AND 80 THEN
+    RETURN json_build_object('success', false, 'error', 'Business name must be 2 to 80 characters');
+  END IF;
+
+  v_created := NOT EXISTS (SELECT 1 FROM merchant_profiles WHERE user_id = v_user_id);
+
+  INSERT INTO merchant_profiles (user_id, business_name, settlement_user_id)
+  VALUES (v_user_id, trim(p_business_name), v_user_id)
+  ON CONFLICT (user_id) DO UPDATE
+  SET business_name = EXCLUDED.business_name,
+      settlement_user_id = EXCLUDED.settlement_user_id
+  RETURNING * INTO v_merchant;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN v_created THEN 'MERCHANT_REGISTERED' ELSE 'MERCHANT_PROFILE_UPDATED' END,
+    'Merchant profile for ' || v_merchant.business_name || CASE WHEN v_created THEN ' created' ELSE ' updated' END
+  );
+
+  RETURN json_build_object('success', true, 'merchant_id', v_merchant.id, 'status', v_merchant.status);
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Dispute evidence visible only to the case
+-- Evidence lives in the support-attachments bucket under disputes/<dispute id>/, where the
+-- bucket's policies let any signed-in user read and upload. Files under disputes/ are now
+-- limited to the sender who opened the dispute and dispute staff.
+
+DROP POLICY "Users can upload their own ticket attachments" ON storage.objects;
+DROP POLICY "Users can view their own ticket attachments" ON storage.objects;
+
+CREATE POLICY "Users can upload their own ticket attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'support-attachments'
+  AND auth.uid() IS NOT NULL
+  AND (storage.foldername(name))[1] IS DISTINCT FROM 'disputes'
+);
+
+CREATE POLICY "Users can view their own ticket attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'support-attachments'
+  AND auth.uid() IS NOT NULL
+  AND (storage.foldername(name))[1] IS DISTINCT FROM 'disputes'
+);
+
+CREATE POLICY "Dispute openers and staff can upload dispute evidence"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'support-attachments'
+  AND (storage.foldername(name))[1] = 'disputes'
+  AND (
+    is_dispute_staff()
+    OR EXISTS (
+      SELECT 1 FROM public.transaction_disputes d
+      WHERE d.id::text = (storage.foldername(name))[2]
+        AND d.opened_by = auth.uid()
+        AND d.status IN ('open', 'investigating')
+    )
+  )
+);
+
+CREATE POLICY "Dispute openers and staff can view dispute evidence"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'support-attachments'
+  AND (storage.foldername(name))[1] = 'disputes'
+  AND (
+    is_dispute_staff()
+    OR EXISTS (
+      SELECT 1 FROM public.transaction_disputes d
+      WHERE d.id::text = (storage.foldername(name))[2]
+        AND d.opened_by = auth.uid()
+    )
+  )
+);
@@ -0,0 +1,66 @@
+-- KYC threshold over a rolling period
+-- kyc_transfer_check compared each transfer with kyc_required_amount on its own, so a
+-- payment split into several smaller transfers never needed KYC. Without an approved KYC
+-- a user can now send at most kyc_required_amount in total over the last
+-- kyc_required_period_days.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description)
+VALUES ('kyc_required_period_days', '30', 'Days over which transfers count towards the KYC required amount')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Same as before, except the amount is added to what the caller sent in the period.
+-- Takes the transfer limit lock so concurrent sends can't both fit under the threshold.
+CREATE OR REPLACE FUNCTION public.kyc_transfer_check(p_amount NUMERIC)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_threshold NUMERIC;
+  v_period_days INTEGER;
+  v_sent NUMERIC;
+BEGIN
+  SELECT setting_value::NUMERIC INTO v_threshold
+  FROM system_settings
+  WHERE setting_key = 'kyc_required_amount';
+
+  IF v_threshold IS NULL OR p_amount IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF get_kyc_status(v_user_id) = 'approved' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(setting_value::INTEGER), 30) INTO v_period_days
+  FROM system_settings
+  WHERE setting_key = 'kyc_required_period_days';
+
+  PERFORM pg_advisory_xact_lock(hashtext('transfer_limits:' || v_user_id::text));
+
+  -- Counted the same way as the transfer limits: refunded transfers still count, refunds don't
+  SELECT COALESCE(SUM(amount), 0) INTO v_sent
+  FROM transactions
+  WHERE sender_id = v_user_id
+    AND status IN ('completed', 'partially_refunded', 'refunded')
+    AND transaction_type <> 'refund'
+    AND created_at > now() - make_interval(days => v_period_days);
+
+  IF v_sent + p_amount <= v_threshold THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'success', false,
+    'error', 'Without verified KYC you can send up to $' || to_char(v_threshold, 'FM999999990.00')
+      || ' every ' || v_period_days || ' days. You can still send $'
+      || to_char(GREATEST(v_threshold - v_sent, 0), 'FM999999990.00'),
+    'kyc_required', true,
+    'kyc_required_amount', v_threshold,
+    'kyc_required_period_days', v_period_days,
+    'kyc_remaining', GREATEST(v_threshold - v_sent, 0)
+  );
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Record withdrawal hashes only from the transaction the server broadcasts
+-- The browser used to report its own tx hash, so a user could record a hash that never
+-- gets mined, broadcast a different transaction themselves and have the escrow refunded.
+-- The submit-withdrawal edge function now checks the signed transaction against the
+-- withdrawal, computes the hash from the exact bytes it broadcasts and records it here.
+
+DROP FUNCTION public.record_onchain_withdrawal_tx(UUID, TEXT, BIGINT);
+
+CREATE FUNCTION public.record_onchain_withdrawal_tx(
+  p_withdrawal_id UUID,
+  p_user_id UUID,
+  p_tx_hash TEXT,
+  p_nonce BIGINT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_tx_hash IS NULL OR p_tx_hash !~ '^0x[0-9a-f]{64}$' THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid transaction hash');
+  END IF;
+
+  UPDATE onchain_withdrawals
+  SET status = 'broadcast',
+      tx_hash = p_tx_hash,
+      nonce = p_nonce,
+      broadcast_at = now()
+  WHERE id = p_withdrawal_id
+    AND user_id = p_user_id
+    AND status = 'pending'
+    AND tx_hash IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Withdrawal not found or already signed');
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_onchain_withdrawal_tx(UUID, UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except a withdrawal with a recorded hash can never be cancelled: once
+-- it has been signed only track-withdrawals decides whether it failed
+CREATE OR REPLACE FUNCTION public.cancel_onchain_withdrawal(
+  p_withdrawal_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM onchain_withdrawals
+    WHERE id = p_withdrawal_id
+      AND user_id = auth.uid()
+      AND status = 'pending'
+      AND tx_hash IS NULL
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only unsigned withdrawals can be cancelled');
+  END IF;
+
+  RETURN settle_onchain_withdrawal(p_withdrawal_id, 'failed', NULL, 0, COALESCE(p_reason, 'Cancelled before signing'));
+END;
+$$;
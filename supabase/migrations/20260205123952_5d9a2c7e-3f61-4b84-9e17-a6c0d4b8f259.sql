@@ -0,0 +1,197 @@
+-- PIN and firewall for every client-initiated money movement
+-- gateway_transfer fell back to process_transfer when no PIN was sent, which never
+-- checks it, so any session token could move money from an account with a PIN. The
+-- gateway now always uses process_transfer_secure, which requires the PIN whenever
+-- pin_enabled is set. Settling payment requests, refunds and new schedules could still be
+-- called over the REST API, skipping the firewall; they now go through the gateway too.
+
+-- Act as the in-app caller so auth.uid(), auth.jwt() and every check see them, with the
+-- assurance level of their session. Only lasts until the end of the transaction.
+CREATE OR REPLACE FUNCTION public.gateway_set_caller(p_user_id UUID, p_aal TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config(
+    'request.jwt.claims',
+    json_build_object('sub', p_user_id, 'role', 'authenticated', 'aal', COALESCE(p_aal, 'aal1'))::text,
+    true
+  );
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gateway_set_caller(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, except the PIN is always left to process_transfer_secure, which
+-- requires it when the sender has one enabled
+CREATE OR REPLACE FUNCTION public.gateway_transfer(
+  p_user_id UUID,
+  p_aal TEXT,
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM gateway_set_caller(p_user_id, p_aal);
+
+  RETURN process_transfer_secure(p_recipient_id, p_amount, p_description, p_pin, p_idempotency_key);
+END;
+$$;
+
+-- Same as before, except it refuses senders with a PIN enabled, who can only send
+-- through process_transfer_secure. Scheduled runs were checked when the schedule was created.
+CREATE OR REPLACE FUNCTION public.process_transfer(
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'transfer',
+    md5(concat_ws('|', p_recipient_id, p_amount, p_description))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid() AND pin_enabled AND pin_hash IS NOT NULL
+  ) AND current_setting('app.scheduled_transfer', true) IS DISTINCT FROM 'on' THEN
+    RETURN idempotency_complete(
+      p_idempotency_key,
+      json_build_object('success', false, 'error', 'PIN required', 'pin_required', true)
+    );
+  END IF;
+
+  v_check := COALESCE(
+    mfa_transfer_check(),
+    account_transfer_check(auth.uid(), p_recipient_id),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_transfer(p_recipient_id, p_amount, p_description)
+  );
+END;
+$$;
+
+-- Clients reach these only through the gateway. Dispute resolutions still call
+-- refund_transaction internally, with the agent's session.
+REVOKE EXECUTE ON FUNCTION public.settle_payment_request(UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_transaction(UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_scheduled_transfer(UUID, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.gateway_settle_payment_request(
+  p_user_id UUID,
+  p_aal TEXT,
+  p_request_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM gateway_set_caller(p_user_id, p_aal);
+
+  RETURN settle_payment_request(p_request_id, p_amount, p_pin, p_idempotency_key);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.gateway_refund_transaction(
+  p_user_id UUID,
+  p_aal TEXT,
+  p_transaction_id UUID,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM gateway_set_caller(p_user_id, p_aal);
+
+  RETURN refund_transaction(p_transaction_id, p_amount, p_reason, p_pin, p_idempotency_key);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.gateway_create_scheduled_transfer(
+  p_user_id UUID,
+  p_aal TEXT,
+  p_recipient_id UUID,
+  p_amount NUMERIC,
+  p_frequency TEXT,
+  p_start_at TIMESTAMP WITH TIME ZONE,
+  p_description TEXT DEFAULT NULL,
+  p_cron_expression TEXT DEFAULT NULL,
+  p_end_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_pin TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM gateway_set_caller(p_user_id, p_aal);
+
+  RETURN create_scheduled_transfer(
+    p_recipient_id, p_amount, p_frequency, p_start_at, p_description, p_cron_expression, p_end_at, p_pin
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.gateway_settle_payment_request(UUID, TEXT, UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.gateway_refund_transaction(UUID, TEXT, UUID, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.gateway_create_scheduled_transfer(UUID, TEXT, UUID, NUMERIC, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT)
+  FROM PUBLIC, anon, authenticated;
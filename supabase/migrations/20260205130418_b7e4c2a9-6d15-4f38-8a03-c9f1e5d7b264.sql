@@ -0,0 +1,175 @@
+-- PIN expiry and the PIN switch enforced by the server
+-- An expired PIN, or one shorter than the policy, was only sent to the change screen by
+-- the app, so it still authorized transfers. verify_transaction_pin now rejects it after
+-- checking it, which every PIN-checked money function goes through. pin_enabled could be
+-- switched off with a plain profiles update, which turned the server PIN check off too;
+-- it is now guarded like pin_hash and changed through set_pin_enabled.
+
+-- The PIN check itself, without the expiry, for renewing an expired PIN
+ALTER FUNCTION public.verify_transaction_pin(TEXT) RENAME TO check_transaction_pin;
+REVOKE EXECUTE ON FUNCTION public.check_transaction_pin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A correct PIN that must be changed is still refused, with change_required set so the
+-- app can tell it apart from a wrong one
+CREATE OR REPLACE FUNCTION public.verify_transaction_pin(p_pin TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSON := check_transaction_pin(p_pin);
+BEGIN
+  IF COALESCE((v_result->>'success')::BOOLEAN, false)
+     AND COALESCE((v_result->>'change_required')::BOOLEAN, false) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Your PIN has expired. Change it to continue',
+      'change_required', true
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Same as before, except the current PIN is checked without the expiry, since changing
+-- it is how an expired PIN is renewed
+CREATE OR REPLACE FUNCTION public.set_transaction_pin(p_new_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_length INTEGER;
+  v_weakness TEXT;
+  v_has_pin BOOLEAN;
+  v_check JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  v_length := pin_policy_length();
+  IF p_new_pin IS NULL OR p_new_pin !~ ('^\d{' || v_length || '}$') THEN
+    RETURN json_build_object('success', false, 'error', 'PIN must be ' || v_length || ' digits');
+  END IF;
+
+  v_weakness := pin_weakness(p_new_pin, v_user_id);
+  IF v_weakness IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error', v_weakness);
+  END IF;
+
+  SELECT pin_hash IS NOT NULL INTO v_has_pin FROM profiles WHERE user_id = v_user_id;
+
+  IF v_has_pin THEN
+    IF p_current_pin IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Current PIN is required');
+    END IF;
+
+    v_check := check_transaction_pin(p_current_pin);
+    IF NOT COALESCE((v_check->>'success')::BOOLEAN, false) THEN
+      RETURN v_check;
+    END IF;
+
+    IF p_new_pin = p_current_pin THEN
+      RETURN json_build_object('success', false, 'error', 'New PIN must be different from your current PIN');
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.pin_write', 'on', true);
+  UPDATE profiles
+  SET pin_hash = crypt(p_new_pin, gen_salt('bf', 10)),
+      pin_length = length(p_new_pin),
+      pin_updated_at = now(),
+      pin_enabled = true
+  WHERE user_id = v_user_id;
+  PERFORM set_config('app.pin_write', 'off', true);
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN v_has_pin THEN 'PIN_UPDATED' ELSE 'PIN_CREATED' END,
+    CASE WHEN v_has_pin THEN 'Transaction PIN updated' ELSE 'Transaction PIN created for secure transactions' END
+  );
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+-- Same as before, except pin_enabled is guarded too
+CREATE OR REPLACE FUNCTION public.guard_pin_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.pin_write', true) IS DISTINCT FROM 'on' THEN
+    IF (TG_OP = 'INSERT' AND NEW.pin_hash IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.pin_hash IS DISTINCT FROM OLD.pin_hash) THEN
+      RAISE EXCEPTION 'PINs can only be changed through set_transaction_pin';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.pin_enabled IS DISTINCT FROM OLD.pin_enabled THEN
+      RAISE EXCEPTION 'The PIN requirement can only be changed through set_pin_enabled';
+    END IF;
+    NEW.pin_length := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_length END;
+    NEW.pin_updated_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.pin_updated_at END;
+  ELSIF NEW.pin_hash IS NULL THEN
+    NEW.pin_length := NULL;
+    NEW.pin_updated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Turning the PIN requirement off needs the current PIN; turning it on never does
+CREATE OR REPLACE FUNCTION public.set_pin_enabled(p_enabled BOOLEAN, p_current_pin TEXT DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_has_pin BOOLEAN;
+  v_check JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_enabled IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Choose whether the PIN is required');
+  END IF;
+
+  SELECT pin_hash IS NOT NULL INTO v_has_pin FROM profiles WHERE user_id = v_user_id FOR UPDATE;
+
+  IF NOT COALESCE(v_has_pin, false) THEN
+    RETURN json_build_object('success', false, 'error', 'Set a PIN first');
+  END IF;
+
+  IF NOT p_enabled THEN
+    v_check := verify_transaction_pin(p_current_pin);
+    IF NOT COALESCE((v_check->>'success')::BOOLEAN, false) THEN
+      RETURN v_check;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.pin_write', 'on', true);
+  UPDATE profiles SET pin_enabled = p_enabled WHERE user_id = v_user_id;
+  PERFORM set_config('app.pin_write', 'off', true);
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN p_enabled THEN 'PIN_ENABLED' ELSE 'PIN_DISABLED' END,
+    'Transaction PIN ' || CASE WHEN p_enabled THEN 'enabled' ELSE 'disabled' END
+  );
+
+  RETURN json_build_object('success', true, 'pin_enabled', p_enabled);
+END;
+$$;
@@ -0,0 +1,196 @@
+-- On-chain withdrawals count towards transfer limits
+-- request_onchain_withdrawal never called transfer_limit_check(), and the daily and monthly
+-- totals only summed transactions, so withdrawing to an external wallet bypassed the limits
+-- entirely. Withdrawals are now checked against the limits, and pending, broadcast and
+-- confirmed withdrawals count towards the rolling totals and the KYC threshold.
+
+-- Same as before, except on-chain withdrawals are added to the amounts used
+CREATE OR REPLACE FUNCTION public.transfer_limit_status(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tier TEXT;
+  v_user transfer_limits%ROWTYPE;
+  v_tier_row transfer_limits%ROWTYPE;
+  v_daily_limit NUMERIC;
+  v_monthly_limit NUMERIC;
+  v_single_limit NUMERIC;
+  v_daily_used NUMERIC;
+  v_monthly_used NUMERIC;
+BEGIN
+  v_tier := transfer_limit_tier(p_user_id);
+
+  SELECT * INTO v_user FROM transfer_limits WHERE user_id = p_user_id;
+  SELECT * INTO v_tier_row FROM transfer_limits WHERE tier = v_tier;
+
+  v_daily_limit := COALESCE(
+    v_user.daily_limit,
+    v_tier_row.daily_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'daily_transfer_limit')
+  );
+  v_monthly_limit := COALESCE(
+    v_user.monthly_limit,
+    v_tier_row.monthly_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'monthly_transfer_limit')
+  );
+  v_single_limit := COALESCE(
+    v_user.single_transaction_limit,
+    v_tier_row.single_transaction_limit,
+    (SELECT setting_value::NUMERIC FROM system_settings WHERE setting_key = 'single_transfer_limit')
+  );
+
+  -- On-chain withdrawals leave the bank too; failed ones were refunded and don't count
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '24 hours'), 0),
+    COALESCE(SUM(amount), 0)
+  INTO v_daily_used, v_monthly_used
+  FROM (
+    SELECT amount, created_at
+    FROM transactions
+    WHERE sender_id = p_user_id
+      AND status IN ('completed', 'partially_refunded', 'refunded')
+      AND transaction_type <> 'refund'
+      AND created_at > now() - interval '30 days'
+    UNION ALL
+    SELECT amount, created_at
+    FROM onchain_withdrawals
+    WHERE user_id = p_user_id
+      AND status IN ('pending', 'broadcast', 'confirmed')
+      AND created_at > now() - interval '30 days'
+  ) sent;
+
+  RETURN json_build_object(
+    'tier', v_tier,
+    'has_override', v_user.id IS NOT NULL,
+    'single_limit', v_single_limit,
+    'daily_limit', v_daily_limit,
+    'daily_used', v_daily_used,
+    'daily_remaining', CASE WHEN v_daily_limit IS NOT NULL THEN GREATEST(v_daily_limit - v_daily_used, 0) END,
+    'monthly_limit', v_monthly_limit,
+    'monthly_used', v_monthly_used,
+    'monthly_remaining', CASE WHEN v_monthly_limit IS NOT NULL THEN GREATEST(v_monthly_limit - v_monthly_used, 0) END
+  );
+END;
+$$;
+
+-- Same as before, except on-chain withdrawals are added to what the caller sent
+CREATE OR REPLACE FUNCTION public.kyc_transfer_check(p_amount NUMERIC)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_threshold NUMERIC;
+  v_period_days INTEGER;
+  v_sent NUMERIC;
+BEGIN
+  SELECT setting_value::NUMERIC INTO v_threshold
+  FROM system_settings
+  WHERE setting_key = 'kyc_required_amount';
+
+  IF v_threshold IS NULL OR p_amount IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF get_kyc_status(v_user_id) = 'approved' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(setting_value::INTEGER), 30) INTO v_period_days
+  FROM system_settings
+  WHERE setting_key = 'kyc_required_period_days';
+
+  PERFORM pg_advisory_xact_lock(hashtext('transfer_limits:' || v_user_id::text));
+
+  -- Counted the same way as the transfer limits: refunded transfers still count, refunds don't,
+  -- and on-chain withdrawals count unless they failed
+  SELECT COALESCE(SUM(amount), 0) INTO v_sent
+  FROM (
+    SELECT amount
+    FROM transactions
+    WHERE sender_id = v_user_id
+      AND status IN ('completed', 'partially_refunded', 'refunded')
+      AND transaction_type <> 'refund'
+      AND created_at > now() - make_interval(days => v_period_days)
+    UNION ALL
+    SELECT amount
+    FROM onchain_withdrawals
+    WHERE user_id = v_user_id
+      AND status IN ('pending', 'broadcast', 'confirmed')
+      AND created_at > now() - make_interval(days => v_period_days)
+  ) sent;
+
+  IF v_sent + p_amount <= v_threshold THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN json_build_object(
+    'success', false,
+    'error', 'Without verified KYC you can send up to $' || to_char(v_threshold, 'FM999999990.00')
+      || ' every ' || v_period_days || ' days. You can still send $'
+      || to_char(GREATEST(v_threshold - v_sent, 0), 'FM999999990.00'),
+    'kyc_required', true,
+    'kyc_required_amount', v_threshold,
+    'kyc_required_period_days', v_period_days,
+    'kyc_remaining', GREATEST(v_threshold - v_sent, 0)
+  );
+END;
+$$;
+
+-- Same as before, except the transfer limits are checked
+CREATE OR REPLACE FUNCTION public.request_onchain_withdrawal(
+  p_to_address TEXT,
+  p_amount NUMERIC,
+  p_pin TEXT,
+  p_idempotency_key UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pin_result JSON;
+  v_replay JSON;
+  v_check JSON;
+BEGIN
+  v_check := mfa_transfer_check();
+  IF v_check IS NOT NULL THEN
+    RETURN v_check;
+  END IF;
+
+  v_pin_result := verify_wallet_pin(p_pin);
+  IF NOT COALESCE((v_pin_result->>'success')::BOOLEAN, false) THEN
+    RETURN v_pin_result;
+  END IF;
+
+  v_replay := idempotency_begin(
+    p_idempotency_key,
+    'onchain_withdrawal',
+    md5(concat_ws('|', lower(p_to_address), p_amount))
+  );
+  IF v_replay IS NOT NULL THEN
+    RETURN v_replay;
+  END IF;
+
+  v_check := COALESCE(
+    account_transfer_check(auth.uid(), NULL),
+    kyc_transfer_check(p_amount),
+    transfer_limit_check(p_amount)
+  );
+  IF v_check IS NOT NULL THEN
+    RETURN idempotency_complete(p_idempotency_key, v_check);
+  END IF;
+
+  RETURN idempotency_complete(
+    p_idempotency_key,
+    execute_onchain_withdrawal(p_to_address, p_amount)
+  );
+END;
+$$;
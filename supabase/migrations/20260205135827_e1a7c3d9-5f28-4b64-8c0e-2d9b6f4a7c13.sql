@@ -0,0 +1,321 @@
+-- Merchant settlement accounts with the owner's consent
+-- Sales can settle into another account again, but naming it only invites its owner.
+-- settlement_user_id changes when they accept, and they can stop receiving sales later.
+-- Until then the merchant keeps settling into the account it used before.
+
+CREATE TABLE public.merchant_settlement_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  merchant_id UUID NOT NULL REFERENCES public.merchant_profiles(id) ON DELETE CASCADE,
+  invitee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'ended')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  responded_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open invite per merchant; naming another account replaces it
+CREATE UNIQUE INDEX idx_merchant_settlement_invites_pending
+  ON public.merchant_settlement_invites(merchant_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_merchant_settlement_invites_invitee
+  ON public.merchant_settlement_invites(invitee_id)
+  WHERE status IN ('pending', 'accepted');
+
+ALTER TABLE public.merchant_settlement_invites ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen through the functions below
+CREATE POLICY "Merchants can view their settlement invites"
+  ON public.merchant_settlement_invites
+  FOR SELECT
+  TO authenticated
+  USING (merchant_id IN (SELECT id FROM public.merchant_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Invitees can view their settlement invites"
+  ON public.merchant_settlement_invites
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = invitee_id);
+
+CREATE POLICY "Admins can view settlement invites"
+  ON public.merchant_settlement_invites
+  FOR SELECT
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+ALTER TABLE public.push_notifications DROP CONSTRAINT IF EXISTS push_notifications_event_type_check;
+ALTER TABLE public.push_notifications ADD CONSTRAINT push_notifications_event_type_check
+  CHECK (event_type IN ('transaction', 'payment_request', 'chat_message', 'support_ticket', 'scheduled_transfer', 'merchant_sale', 'dispute', 'merchant_settlement'));
+
+-- Accepts a user id or an email address. Returns NULL when there is no such account.
+CREATE OR REPLACE FUNCTION public.find_account_user_id(p_account TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF trim(p_account) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT user_id INTO v_user_id FROM profiles WHERE user_id = trim(p_account)::UUID;
+  ELSE
+    SELECT user_id INTO v_user_id FROM profiles WHERE lower(email) = lower(trim(p_account));
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_account_user_id(TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.save_merchant_profile(TEXT);
+
+-- Register the caller as a merchant, or update their details. Sales settle into the
+-- caller's own account. Naming another account invites its owner, and sales keep
+-- settling where they did until the owner accepts. Leaving it empty goes back to the
+-- caller's own account straight away.
+CREATE OR REPLACE FUNCTION public.save_merchant_profile(
+  p_business_name TEXT,
+  p_settlement_account TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_settlement_user_id UUID;
+  v_merchant merchant_profiles;
+  v_created BOOLEAN;
+  v_invite_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF length(trim(COALESCE(p_business_name, ''))) NOT BETWEEN 2 AND 80 THEN
+    RETURN json_build_object('success', false, 'error', 'Business name must be 2 to 80 characters');
+  END IF;
+
+  IF NULLIF(trim(p_settlement_account), '') IS NULL THEN
+    v_settlement_user_id := v_user_id;
+  ELSE
+    v_settlement_user_id := find_account_user_id(p_settlement_account);
+    IF v_settlement_user_id IS NULL THEN
+      RETURN json_build_object('success', false, 'error', 'Settlement account not found');
+    END IF;
+  END IF;
+
+  v_created := NOT EXISTS (SELECT 1 FROM merchant_profiles WHERE user_id = v_user_id);
+
+  INSERT INTO merchant_profiles (user_id, business_name, settlement_user_id)
+  VALUES (v_user_id, trim(p_business_name), v_user_id)
+  ON CONFLICT (user_id) DO UPDATE
+  SET business_name = EXCLUDED.business_name
+  RETURNING * INTO v_merchant;
+
+  -- Whatever was asked for, an older invite no longer stands
+  UPDATE merchant_settlement_invites
+  SET status = 'cancelled', responded_at = now()
+  WHERE merchant_id = v_merchant.id
+    AND status = 'pending'
+    AND invitee_id <> v_settlement_user_id;
+
+  IF v_settlement_user_id = v_user_id AND v_merchant.settlement_user_id <> v_user_id THEN
+    UPDATE merchant_profiles SET settlement_user_id = v_user_id WHERE id = v_merchant.id;
+
+    UPDATE merchant_settlement_invites
+    SET status = 'ended', responded_at = now()
+    WHERE merchant_id = v_merchant.id AND status = 'accepted';
+  ELSIF v_settlement_user_id <> v_merchant.settlement_user_id THEN
+    SELECT id INTO v_invite_id
+    FROM merchant_settlement_invites
+    WHERE merchant_id = v_merchant.id AND status = 'pending';
+
+    IF v_invite_id IS NULL THEN
+      INSERT INTO merchant_settlement_invites (merchant_id, invitee_id)
+      VALUES (v_merchant.id, v_settlement_user_id)
+      RETURNING id INTO v_invite_id;
+
+      INSERT INTO push_notifications (user_id, event_type, title, body, data)
+      VALUES (
+        v_settlement_user_id,
+        'merchant_settlement',
+        'Settlement Account Invite',
+        v_merchant.business_name || ' wants its sales paid into your account',
+        jsonb_build_object('type', 'merchant_settlement', 'invite_id', v_invite_id)
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_user_id,
+    CASE WHEN v_created THEN 'MERCHANT_REGISTERED' ELSE 'MERCHANT_PROFILE_UPDATED' END,
+    'Merchant profile for ' || v_merchant.business_name || CASE WHEN v_created THEN ' created' ELSE ' updated' END
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'merchant_id', v_merchant.id,
+    'status', v_merchant.status,
+    'settlement_invite_id', v_invite_id
+  );
+END;
+$$;
+
+-- The invitee accepts or declines a pending invite. Declining an accepted one stops
+-- sales settling into their account, and the merchant goes back to its own.
+CREATE OR REPLACE FUNCTION public.respond_settlement_invite(p_invite_id UUID, p_accept BOOLEAN)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invite merchant_settlement_invites%ROWTYPE;
+  v_merchant merchant_profiles%ROWTYPE;
+  v_status TEXT;
+  v_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM merchant_settlement_invites
+  WHERE id = p_invite_id AND invitee_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Invite not found');
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchant_profiles WHERE id = v_invite.merchant_id FOR UPDATE;
+
+  IF v_invite.status = 'pending' AND p_accept THEN
+    v_status := 'accepted';
+
+    UPDATE merchant_settlement_invites
+    SET status = 'ended', responded_at = now()
+    WHERE merchant_id = v_merchant.id AND status = 'accepted';
+
+    UPDATE merchant_profiles SET settlement_user_id = v_user_id WHERE id = v_merchant.id;
+  ELSIF v_invite.status = 'pending' THEN
+    v_status := 'declined';
+  ELSIF v_invite.status = 'accepted' AND NOT p_accept THEN
+    v_status := 'ended';
+
+    UPDATE merchant_profiles
+    SET settlement_user_id = user_id
+    WHERE id = v_merchant.id AND settlement_user_id = v_user_id;
+  ELSE
+    RETURN json_build_object('success', false, 'error', 'This invite is no longer open');
+  END IF;
+
+  UPDATE merchant_settlement_invites
+  SET status = v_status, responded_at = now()
+  WHERE id = v_invite.id;
+
+  SELECT full_name INTO v_name FROM profiles WHERE user_id = v_user_id;
+
+  INSERT INTO activity_logs (user_id, action_type, description)
+  VALUES (
+    v_merchant.user_id,
+    'MERCHANT_SETTLEMENT_' || upper(v_status),
+    CASE v_status
+      WHEN 'accepted' THEN 'Sales now settle into the account of ' || COALESCE(v_name, v_user_id::text)
+      WHEN 'declined' THEN COALESCE(v_name, v_user_id::text) || ' declined to receive your sales'
+      ELSE COALESCE(v_name, v_user_id::text) || ' stopped receiving your sales. They settle into your own account again'
+    END
+  );
+
+  INSERT INTO push_notifications (user_id, event_type, title, body, data)
+  VALUES (
+    v_merchant.user_id,
+    'merchant_settlement',
+    CASE v_status
+      WHEN 'accepted' THEN 'Settlement Account Accepted'
+      WHEN 'declined' THEN 'Settlement Account Declined'
+      ELSE 'Settlement Account Ended'
+    END,
+    CASE v_status
+      WHEN 'accepted' THEN COALESCE(v_name, 'The account owner') || ' accepted. Sales now settle into their account'
+      WHEN 'declined' THEN COALESCE(v_name, 'The account owner') || ' declined to receive your sales'
+      ELSE COALESCE(v_name, 'The account owner') || ' stopped receiving your sales'
+    END,
+    jsonb_build_object('type', 'merchant_settlement', 'invite_id', v_invite.id, 'status', v_status)
+  );
+
+  RETURN json_build_object('success', true, 'status', v_status);
+END;
+$$;
+
+-- Settlement arrangements the caller is part of: invites to receive other merchants'
+-- sales, and for a merchant the account its sales settle into and any open invite.
+-- Names come from here because neither side can read the other's profile.
+CREATE OR REPLACE FUNCTION public.get_settlement_invites()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_merchant merchant_profiles%ROWTYPE;
+  v_received JSON;
+  v_settlement JSON;
+  v_pending JSON;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'invite_id', i.id,
+    'business_name', m.business_name,
+    'owner_name', p.full_name,
+    'status', i.status,
+    'created_at', i.created_at
+  ) ORDER BY i.created_at DESC), '[]'::json)
+  INTO v_received
+  FROM merchant_settlement_invites i
+  JOIN merchant_profiles m ON m.id = i.merchant_id
+  LEFT JOIN profiles p ON p.user_id = m.user_id
+  WHERE i.invitee_id = v_user_id
+    AND i.status IN ('pending', 'accepted');
+
+  SELECT * INTO v_merchant FROM merchant_profiles WHERE user_id = v_user_id;
+
+  IF FOUND THEN
+    IF v_merchant.settlement_user_id <> v_user_id THEN
+      SELECT json_build_object('user_id', user_id, 'name', full_name, 'email', email)
+      INTO v_settlement
+      FROM profiles
+      WHERE user_id = v_merchant.settlement_user_id;
+    END IF;
+
+    SELECT json_build_object(
+      'invite_id', i.id,
+      'name', p.full_name,
+      'email', p.email,
+      'created_at', i.created_at
+    )
+    INTO v_pending
+    FROM merchant_settlement_invites i
+    LEFT JOIN profiles p ON p.user_id = i.invitee_id
+    WHERE i.merchant_id = v_merchant.id AND i.status = 'pending';
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'received', v_received,
+    'settlement_account', v_settlement,
+    'pending_invite', v_pending
+  );
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Helpers shared by the database tests, run first by `supabase test db`.
+-- They live in a tests schema so every other file can use them inside its own
+-- transaction, which is rolled back at the end.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+CREATE SCHEMA IF NOT EXISTS tests;
+
+-- A user with a profile and, when p_balance is set, an opening balance posted to the ledger
+CREATE OR REPLACE FUNCTION tests.create_user(p_email TEXT, p_balance NUMERIC DEFAULT 0)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO auth.users (id, email) VALUES (v_user_id, p_email);
+  INSERT INTO public.profiles (user_id, email, full_name) VALUES (v_user_id, p_email, split_part(p_email, '@', 1));
+
+  IF p_balance > 0 THEN
+    PERFORM public.post_journal_entry(
+      'opening_balance',
+      'Test opening balance',
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_user_account(v_user_id), 'amount', p_balance),
+        jsonb_build_object('account_id', public.ledger_system_account('OPENING_EQUITY'), 'amount', -p_balance)
+      )
+    );
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- Act as a signed-in user for the rest of the transaction, the way PostgREST sets the JWT
+CREATE OR REPLACE FUNCTION tests.authenticate_as(p_user_id UUID, p_aal TEXT DEFAULT 'aal1')
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config(
+    'request.jwt.claims',
+    json_build_object('sub', p_user_id, 'role', 'authenticated', 'aal', p_aal)::text,
+    true
+  );
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+END;
+$$;
+
+-- Set a transaction PIN through set_transaction_pin, which also turns the PIN requirement on
+CREATE OR REPLACE FUNCTION tests.set_pin(p_user_id UUID, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_result JSON;
+BEGIN
+  PERFORM tests.authenticate_as(p_user_id);
+  v_result := public.set_transaction_pin(p_pin);
+
+  IF NOT COALESCE((v_result->>'success')::BOOLEAN, false) THEN
+    RAISE EXCEPTION 'Could not set the PIN: %', v_result->>'error';
+  END IF;
+END;
+$$;
+
+-- Change a system setting for the rest of the transaction
+CREATE OR REPLACE FUNCTION tests.set_setting(p_key TEXT, p_value TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO public.system_settings (setting_key, setting_value)
+  VALUES (p_key, p_value)
+  ON CONFLICT (setting_key) DO UPDATE SET setting_value = EXCLUDED.setting_value
+$$;
+
+-- A user's cached balance
+CREATE OR REPLACE FUNCTION tests.balance(p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+AS $$
+  SELECT balance FROM public.profiles WHERE user_id = p_user_id
+$$;
+
+SELECT plan(1);
+
+SELECT has_function('tests', 'create_user', ARRAY['text', 'numeric'], 'test helpers are installed');
+
+SELECT * FROM finish();
+COMMIT;
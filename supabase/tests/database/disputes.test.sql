@@ -0,0 +1,121 @@
+-- Dispute holds move the recipient's funds aside, and resolutions release or refund them
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+SELECT tests.set_setting('transfer_fee_percentage', '0');
+SELECT tests.set_setting('transfer_fee_fixed', '0');
+SELECT tests.set_setting('receiver_fee_percentage', '0');
+SELECT tests.set_setting('receiver_fee_fixed', '0');
+
+CREATE TEMP VIEW held AS
+SELECT COALESCE(SUM(amount), 0) AS total FROM ledger_postings WHERE account_id = ledger_system_account('DISPUTE_HOLDS');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('dispute-sender@example.com', 1000) AS sender,
+  tests.create_user('dispute-recipient@example.com', 50) AS recipient,
+  tests.create_user('dispute-agent@example.com') AS agent,
+  tests.create_user('dispute-other@example.com') AS other,
+  (SELECT total FROM held) AS held;
+
+INSERT INTO user_roles (user_id, role) SELECT agent, 'agent' FROM t;
+
+-- The recipient spends most of the 400 before the case is looked at
+SELECT tests.authenticate_as(sender) FROM t;
+ALTER TABLE t ADD COLUMN transfer_id UUID, ADD COLUMN dispute_id UUID;
+UPDATE t SET transfer_id = (process_transfer_secure(recipient, 400)->>'transaction_id')::UUID;
+SELECT tests.authenticate_as(recipient) FROM t;
+SELECT process_transfer_secure(other, 300) FROM t;
+
+SELECT tests.authenticate_as(sender) FROM t;
+UPDATE t SET dispute_id = (open_transaction_dispute(transfer_id, 'goods_not_received', 'The order never arrived', NULL, true)->>'dispute_id')::UUID;
+
+SELECT isnt((SELECT dispute_id FROM t), NULL, 'the sender opens a dispute');
+
+SELECT is(
+  (SELECT open_transaction_dispute(transfer_id, 'duplicate', 'Opened a second time')->>'error' FROM t),
+  'This transfer already has an open dispute',
+  'a transfer has one open dispute at a time'
+);
+
+SELECT tests.authenticate_as(other) FROM t;
+
+SELECT is(
+  (SELECT place_dispute_hold(dispute_id)->>'error' FROM t),
+  'Only agents can hold funds',
+  'only staff can hold funds'
+);
+
+SELECT tests.set_setting('require_two_factor', 'true');
+SELECT tests.authenticate_as(agent) FROM t;
+
+SELECT ok(
+  (SELECT (place_dispute_hold(dispute_id)->>'mfa_required')::BOOLEAN FROM t),
+  'holding funds needs the second factor'
+);
+
+SELECT tests.authenticate_as(agent, 'aal2') FROM t;
+
+SELECT is(
+  (SELECT (place_dispute_hold(dispute_id)->>'hold_amount')::NUMERIC FROM t),
+  150::NUMERIC,
+  'the hold is capped at what the recipient still has'
+);
+
+SELECT is(tests.balance(recipient), 0::NUMERIC, 'the held funds leave the recipient balance') FROM t;
+SELECT is((SELECT total FROM held) - held, 150::NUMERIC, 'the held funds sit in the dispute holds account') FROM t;
+
+SELECT is(
+  (SELECT status FROM transaction_disputes WHERE id = dispute_id),
+  'investigating',
+  'holding funds starts the investigation'
+) FROM t;
+
+SELECT is(
+  (SELECT place_dispute_hold(dispute_id)->>'error' FROM t),
+  'Funds are already held for this dispute',
+  'a case holds funds once'
+);
+
+SELECT is(
+  (SELECT (release_dispute_hold(dispute_id, 'Not needed yet')->>'released')::NUMERIC FROM t),
+  150::NUMERIC,
+  'releasing the hold returns all of it'
+);
+
+SELECT is(tests.balance(recipient), 150::NUMERIC, 'the released funds are back with the recipient') FROM t;
+
+SELECT place_dispute_hold(dispute_id, 100) FROM t;
+
+SELECT is(
+  (SELECT resolve_transaction_dispute(dispute_id, 'refund', 'Sender never got the goods', 400)->>'error' FROM t),
+  'Insufficient funds to refund this transfer',
+  'a refund the recipient cannot cover is refused'
+);
+
+SELECT is(
+  (SELECT hold_amount FROM transaction_disputes WHERE id = dispute_id),
+  100::NUMERIC,
+  'a refused resolution leaves the hold in place'
+) FROM t;
+
+SELECT ok(
+  (SELECT (resolve_transaction_dispute(dispute_id, 'refund', 'Sender never got the goods', 120)->>'success')::BOOLEAN FROM t),
+  'the case is resolved with a partial refund'
+);
+
+SELECT ok(
+  tests.balance(sender) = 720 AND tests.balance(recipient) = 30 AND (SELECT total FROM held) = held,
+  'the hold is released and the refund reverses the transfer'
+) FROM t;
+
+SELECT is(
+  (SELECT count(*) FROM ledger_account_balances WHERE user_id IN (sender, recipient) AND ledger_balance <> cached_balance),
+  0::BIGINT,
+  'cached balances match the ledger'
+) FROM t;
+
+SELECT * FROM finish();
+ROLLBACK;
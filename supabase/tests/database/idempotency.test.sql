@@ -0,0 +1,67 @@
+-- Replaying an idempotency key returns the first result without moving money again
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+SELECT tests.set_setting('transfer_fee_percentage', '0');
+SELECT tests.set_setting('transfer_fee_fixed', '0');
+SELECT tests.set_setting('receiver_fee_percentage', '0');
+SELECT tests.set_setting('receiver_fee_fixed', '0');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('idem-sender@example.com', 500) AS sender,
+  tests.create_user('idem-recipient@example.com', 0) AS recipient,
+  gen_random_uuid() AS key,
+  gen_random_uuid() AS failed_key;
+
+SELECT tests.authenticate_as(sender) FROM t;
+
+CREATE TEMP TABLE first_call AS
+SELECT process_transfer_secure(recipient, 100, 'Invoice 42', NULL, key) AS result FROM t;
+
+CREATE TEMP TABLE replay AS
+SELECT process_transfer_secure(recipient, 100, 'Invoice 42', NULL, key) AS result FROM t;
+
+SELECT ok((SELECT (result->>'success')::BOOLEAN FROM first_call), 'the first call succeeds');
+SELECT ok((SELECT (result->>'idempotent_replay')::BOOLEAN FROM replay), 'the second call is a replay');
+
+SELECT is(
+  (SELECT result->>'transaction_id' FROM replay),
+  (SELECT result->>'transaction_id' FROM first_call),
+  'the replay returns the original transaction'
+);
+
+SELECT is(tests.balance(sender), 400.00::NUMERIC, 'the sender is debited once') FROM t;
+SELECT is(tests.balance(recipient), 100.00::NUMERIC, 'the recipient is credited once') FROM t;
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 150, 'Invoice 42', NULL, key)->>'error' FROM t),
+  'Idempotency key was already used for a different request',
+  'a key cannot be reused for a different request'
+);
+
+-- Failures release the key, so the client can retry with it
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 450, 'Too much', NULL, failed_key)->>'error' FROM t),
+  'Insufficient funds',
+  'a failed call is not stored'
+);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 50, 'Retry', NULL, failed_key)->>'success')::BOOLEAN FROM t),
+  'the key of a failed call can be used again'
+);
+
+-- Keys belong to the user who sent them
+SELECT tests.authenticate_as(recipient) FROM t;
+
+SELECT ok(
+  (result->>'success')::BOOLEAN AND result->'idempotent_replay' IS NULL,
+  'another user with the same key is not a replay'
+)
+FROM (SELECT process_transfer_secure(sender, 10, 'Invoice 42', NULL, key) AS result FROM t) other_user;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,57 @@
+-- Without approved KYC, transfers add up against kyc_required_amount over a rolling period
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+SELECT tests.set_setting('kyc_required_amount', '300');
+SELECT tests.set_setting('kyc_required_period_days', '30');
+SELECT tests.set_setting('transfer_fee_percentage', '0');
+SELECT tests.set_setting('transfer_fee_fixed', '0');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('kyc-sender@example.com', 2000) AS sender,
+  tests.create_user('kyc-recipient@example.com', 0) AS recipient;
+
+SELECT tests.authenticate_as(sender) FROM t;
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 200)->>'success')::BOOLEAN FROM t),
+  'a transfer under the threshold goes through'
+);
+
+CREATE TEMP TABLE over AS
+SELECT process_transfer_secure(recipient, 150) AS result FROM t;
+
+SELECT ok((SELECT (result->>'kyc_required')::BOOLEAN FROM over), 'a second transfer that takes the total over the threshold needs KYC');
+SELECT is((SELECT (result->>'kyc_remaining')::NUMERIC FROM over), 100.00::NUMERIC, 'the response says how much can still be sent');
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 100)->>'success')::BOOLEAN FROM t),
+  'the rest of the allowance can still be sent'
+);
+
+-- Transfers older than the period no longer count
+UPDATE transactions SET created_at = now() - interval '31 days' WHERE sender_id = (SELECT sender FROM t);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 250)->>'success')::BOOLEAN FROM t),
+  'transfers from before the period drop out of the total'
+);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 100)->>'kyc_required')::BOOLEAN FROM t),
+  'the threshold applies again within the new period'
+);
+
+INSERT INTO kyc_documents (user_id, document_type, document_url, status)
+SELECT sender, 'passport', sender || '/passport.jpg', 'APPROVED' FROM t;
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 500)->>'success')::BOOLEAN FROM t),
+  'approved KYC lifts the threshold'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
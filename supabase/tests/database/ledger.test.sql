@@ -0,0 +1,74 @@
+-- Transfers post balanced journal entries, and cached balances follow the ledger
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+SELECT tests.set_setting('transfer_fee_percentage', '1');
+SELECT tests.set_setting('transfer_fee_fixed', '0.50');
+SELECT tests.set_setting('receiver_fee_percentage', '0.5');
+SELECT tests.set_setting('receiver_fee_fixed', '0');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('ledger-sender@example.com', 1000) AS sender,
+  tests.create_user('ledger-recipient@example.com', 100) AS recipient,
+  (SELECT COALESCE(SUM(amount), 0) FROM ledger_postings WHERE account_id = ledger_system_account('FEE_INCOME')) AS fee_income;
+
+SELECT tests.authenticate_as(sender) FROM t;
+
+CREATE TEMP TABLE r AS
+SELECT process_transfer_secure(recipient, 200, 'Rent') AS result FROM t;
+
+SELECT ok((SELECT (result->>'success')::BOOLEAN FROM r), 'transfer succeeds');
+
+SELECT is(tests.balance(sender), 797.50::NUMERIC, 'sender pays the amount and a 1% + 0.50 fee') FROM t;
+SELECT is(tests.balance(recipient), 299.00::NUMERIC, 'recipient gets the amount less a 0.5% fee') FROM t;
+
+SELECT is(
+  (SELECT SUM(amount) FROM ledger_postings WHERE account_id = ledger_system_account('FEE_INCOME')) - fee_income,
+  3.50::NUMERIC,
+  'both fees are posted to fee income'
+) FROM t;
+
+SELECT is(
+  (
+    SELECT SUM(p.amount)
+    FROM ledger_postings p
+    JOIN ledger_journal_entries e ON e.id = p.journal_entry_id
+    WHERE e.transaction_id = (SELECT (result->>'transaction_id')::UUID FROM r)
+  ),
+  0::NUMERIC,
+  'the journal entry of the transfer balances'
+);
+
+SELECT is(
+  (SELECT count(*) FROM ledger_account_balances WHERE user_id IN (sender, recipient) AND ledger_balance <> cached_balance),
+  0::BIGINT,
+  'cached balances match the ledger'
+) FROM t;
+
+CREATE TEMP TABLE entries AS SELECT count(*) AS n FROM ledger_journal_entries;
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 790, 'Too much')->>'error' FROM t),
+  'Insufficient funds',
+  'a transfer the balance cannot cover with its fee is refused'
+);
+
+SELECT is((SELECT count(*) FROM ledger_journal_entries), (SELECT n FROM entries), 'a refused transfer posts nothing');
+
+SELECT throws_ok(
+  format('UPDATE profiles SET balance = 1000000 WHERE user_id = %L', (SELECT sender FROM t)),
+  'P0001',
+  'Balances can only be changed through ledger postings',
+  'balances cannot be written directly'
+);
+
+SELECT ok(
+  NOT has_function_privilege('authenticated', 'public.post_journal_entry(text, text, jsonb, uuid, uuid, text)', 'EXECUTE'),
+  'clients cannot post journal entries'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,81 @@
+-- The transaction PIN is checked by the server, expired PINs included, and only the PIN turns it off
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+SELECT tests.set_setting('transfer_fee_percentage', '0');
+SELECT tests.set_setting('transfer_fee_fixed', '0');
+SELECT tests.set_setting('pin_rotation_days', '0');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('pin-sender@example.com', 500) AS sender,
+  tests.create_user('pin-recipient@example.com') AS recipient;
+
+SELECT tests.set_pin(sender, '4829') FROM t;
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 10)->>'pin_required')::BOOLEAN FROM t),
+  'a transfer without the PIN is refused'
+);
+
+SELECT ok(
+  (SELECT NOT (process_transfer_secure(recipient, 10, NULL, '1357')->>'success')::BOOLEAN FROM t),
+  'a transfer with the wrong PIN is refused'
+);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 10, NULL, '4829')->>'success')::BOOLEAN FROM t),
+  'a transfer with the PIN goes through'
+);
+
+-- The PIN was set 100 days ago and must be changed every 90
+SELECT tests.set_setting('pin_rotation_days', '90');
+SELECT set_config('app.pin_write', 'on', true);
+UPDATE profiles SET pin_updated_at = now() - interval '100 days' WHERE user_id = (SELECT sender FROM t);
+SELECT set_config('app.pin_write', 'off', true);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 10, NULL, '4829')->>'change_required')::BOOLEAN FROM t),
+  'an expired PIN no longer authorizes transfers'
+);
+
+SELECT ok(
+  (SELECT (set_pin_enabled(false, '4829')->>'change_required')::BOOLEAN FROM t),
+  'an expired PIN cannot turn the PIN off'
+);
+
+SELECT is(tests.balance(sender), 490::NUMERIC, 'only the transfer with a valid PIN moved money') FROM t;
+
+SELECT tests.set_setting('pin_rotation_days', '0');
+
+SELECT throws_ok(
+  'UPDATE profiles SET pin_enabled = false WHERE email = ''pin-sender@example.com''',
+  'P0001',
+  'The PIN requirement can only be changed through set_pin_enabled',
+  'the PIN cannot be turned off with a profile update'
+);
+
+SELECT ok(
+  (SELECT NOT (set_pin_enabled(false)->>'success')::BOOLEAN FROM t),
+  'turning the PIN off needs the PIN'
+);
+
+SELECT ok(
+  (SELECT (set_pin_enabled(false, '4829')->>'success')::BOOLEAN FROM t),
+  'the PIN turns the PIN off'
+);
+
+SELECT ok(
+  (SELECT (process_transfer_secure(recipient, 10)->>'success')::BOOLEAN FROM t),
+  'transfers then go through without a PIN'
+);
+
+SELECT ok(
+  (SELECT (set_pin_enabled(true)->>'success')::BOOLEAN FROM t),
+  'turning the PIN back on does not need it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,105 @@
+-- Refunds reverse a transfer in parts or in full and return fees by refund_fee_policy
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+SELECT tests.set_setting('transfer_fee_percentage', '1');
+SELECT tests.set_setting('transfer_fee_fixed', '0.01');
+SELECT tests.set_setting('receiver_fee_percentage', '0.5');
+SELECT tests.set_setting('receiver_fee_fixed', '0');
+SELECT tests.set_setting('refund_fee_policy', 'sender');
+
+CREATE TEMP VIEW fee_income AS
+SELECT COALESCE(SUM(amount), 0) AS total FROM ledger_postings WHERE account_id = ledger_system_account('FEE_INCOME');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('refund-sender@example.com', 1000) AS sender,
+  tests.create_user('refund-recipient@example.com', 10) AS recipient,
+  (SELECT total FROM fee_income) AS fee_income;
+
+-- 300 with a 3.01 fee for the sender and 1.50 for the recipient
+SELECT tests.authenticate_as(sender) FROM t;
+ALTER TABLE t ADD COLUMN transfer_id UUID;
+UPDATE t SET transfer_id = (process_transfer_secure(recipient, 300)->>'transaction_id')::UUID;
+
+SELECT is(
+  (SELECT refund_transaction(transfer_id, 100)->>'error' FROM t),
+  'Transaction not found',
+  'the sender cannot refund their own transfer'
+);
+
+SELECT tests.authenticate_as(recipient) FROM t;
+
+SELECT ok((SELECT (refund_transaction(transfer_id, 100, 'Partly returned')->>'success')::BOOLEAN FROM t), 'a partial refund goes through');
+
+SELECT is(tests.balance(sender), 797.99::NUMERIC, 'the sender gets the amount and a third of their fee back') FROM t;
+
+SELECT is(
+  (SELECT status FROM transactions WHERE id = transfer_id),
+  'partially_refunded',
+  'the transfer is marked partially refunded'
+) FROM t;
+
+SELECT is(
+  (SELECT refund_transaction(transfer_id, 250)->>'error' FROM t),
+  'Only $200.00 of this transfer can still be refunded',
+  'more than what is left cannot be refunded'
+);
+
+SELECT ok((SELECT (refund_transaction(transfer_id)->>'success')::BOOLEAN FROM t), 'the rest is refunded');
+
+SELECT is(tests.balance(sender), 1000.00::NUMERIC, 'the partial refunds return the sender fee to the cent') FROM t;
+SELECT is(tests.balance(recipient), 8.50::NUMERIC, 'the recipient fee is kept under the sender policy') FROM t;
+
+SELECT is(
+  (SELECT total FROM fee_income) - fee_income,
+  1.50::NUMERIC,
+  'fee income keeps only the recipient fee'
+) FROM t;
+
+SELECT is(
+  (SELECT refund_transaction(transfer_id)->>'error' FROM t),
+  'This transfer has already been refunded in full',
+  'a refunded transfer cannot be refunded again'
+);
+
+-- Under the all policy both parties end up where they started
+SELECT tests.set_setting('refund_fee_policy', 'all');
+SELECT tests.authenticate_as(sender) FROM t;
+UPDATE t SET transfer_id = (process_transfer_secure(recipient, 300)->>'transaction_id')::UUID;
+SELECT tests.authenticate_as(recipient) FROM t;
+SELECT refund_transaction(transfer_id) FROM t;
+
+SELECT ok(
+  tests.balance(sender) = 1000.00 AND tests.balance(recipient) = 8.50,
+  'a refund under the all policy returns both fees'
+) FROM t;
+
+-- Under the none policy the fees stay with the bank
+SELECT tests.set_setting('refund_fee_policy', 'none');
+SELECT tests.authenticate_as(sender) FROM t;
+UPDATE t SET transfer_id = (process_transfer_secure(recipient, 100)->>'transaction_id')::UUID;
+SELECT tests.authenticate_as(recipient) FROM t;
+SELECT refund_transaction(transfer_id) FROM t;
+
+SELECT ok(
+  tests.balance(sender) = 998.99 AND tests.balance(recipient) = 8.00,
+  'a refund under the none policy returns no fees'
+) FROM t;
+
+SELECT is(
+  (SELECT count(*) FROM transactions WHERE reversal_of IS NOT NULL AND sender_id = recipient),
+  4::BIGINT,
+  'each refund is a transaction pointing at the transfer'
+) FROM t;
+
+SELECT is(
+  (SELECT count(*) FROM ledger_account_balances WHERE user_id IN (sender, recipient) AND ledger_balance <> cached_balance),
+  0::BIGINT,
+  'cached balances match the ledger'
+) FROM t;
+
+SELECT * FROM finish();
+ROLLBACK;
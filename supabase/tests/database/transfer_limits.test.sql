@@ -0,0 +1,97 @@
+-- Single, daily and monthly transfer limits over rolling windows, on-chain withdrawals included
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+SELECT tests.set_setting('transfer_fee_percentage', '0');
+SELECT tests.set_setting('transfer_fee_fixed', '0');
+
+CREATE TEMP TABLE t AS
+SELECT
+  tests.create_user('limits-sender@example.com', 5000) AS sender,
+  tests.create_user('limits-recipient@example.com', 0) AS recipient;
+
+-- KYC is covered elsewhere
+INSERT INTO kyc_documents (user_id, document_type, document_url, status)
+SELECT sender, 'passport', sender || '/passport.jpg', 'APPROVED' FROM t;
+
+INSERT INTO transfer_limits (user_id, single_transaction_limit, daily_limit, monthly_limit)
+SELECT sender, 250, 300, 500 FROM t;
+
+SELECT tests.authenticate_as(sender) FROM t;
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 260)->>'limit_exceeded' FROM t),
+  'single',
+  'a transfer above the single limit is refused'
+);
+
+SELECT ok((SELECT (process_transfer_secure(recipient, 200)->>'success')::BOOLEAN FROM t), 'a transfer within the limits goes through');
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 150)->>'limit_exceeded' FROM t),
+  'daily',
+  'a transfer over what is left of the daily limit is refused'
+);
+
+SELECT ok((SELECT (process_transfer_secure(recipient, 100)->>'success')::BOOLEAN FROM t), 'the rest of the daily limit can be sent');
+
+-- A day later the daily window is clear but the month still counts
+UPDATE transactions SET created_at = now() - interval '2 days' WHERE sender_id = (SELECT sender FROM t);
+
+SELECT ok((SELECT (process_transfer_secure(recipient, 150)->>'success')::BOOLEAN FROM t), 'the daily limit resets after 24 hours');
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 100)->>'limit_exceeded' FROM t),
+  'monthly',
+  'the monthly limit still counts earlier days'
+);
+
+-- After 30 days nothing counts any more
+UPDATE transactions SET created_at = now() - interval '31 days' WHERE sender_id = (SELECT sender FROM t);
+
+SELECT is(
+  (SELECT (transfer_limit_status(sender)->>'monthly_used')::NUMERIC FROM t),
+  0::NUMERIC,
+  'the monthly limit resets after 30 days'
+);
+
+-- On-chain withdrawals leave the bank too
+INSERT INTO onchain_withdrawals (user_id, from_address, to_address, amount, token_address, chain_id)
+SELECT sender, '0x00000000000000000000000000000000000000aa', '0x0000000000000000000000000000000000000001', 200,
+  '0x00000000000000000000000000000000000000bb', '1'
+FROM t;
+
+SELECT is(
+  (SELECT process_transfer_secure(recipient, 150)->>'limit_exceeded' FROM t),
+  'daily',
+  'a pending withdrawal counts towards the daily limit'
+);
+
+UPDATE onchain_withdrawals SET status = 'failed' WHERE user_id = (SELECT sender FROM t);
+
+SELECT is(
+  (SELECT (transfer_limit_status(sender)->>'daily_used')::NUMERIC FROM t),
+  0::NUMERIC,
+  'a failed withdrawal was refunded and does not count'
+);
+
+-- Withdrawals are checked against the limits themselves
+INSERT INTO wallet_vault (user_id, wallet_pin_hash, key_version)
+SELECT sender, encode(sha256(convert_to('482916' || sender::text || 'wallet_security', 'UTF8')), 'hex'), 2 FROM t;
+
+SELECT is(
+  request_onchain_withdrawal('0x0000000000000000000000000000000000000001', 260, '482916')->>'limit_exceeded',
+  'single',
+  'an on-chain withdrawal above the single limit is refused'
+);
+
+SELECT is(
+  (SELECT count(*) FROM onchain_withdrawals WHERE user_id = sender AND status = 'pending'),
+  0::BIGINT,
+  'the refused withdrawal is not created'
+) FROM t;
+
+SELECT * FROM finish();
+ROLLBACK;
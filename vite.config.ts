@@ -14,7 +14,12 @@ export default defineConfig(({ mode }) => ({
     react(), 
     mode === "development" && componentTagger(),
     VitePWA({
-      registerType: 'autoUpdate',
+      // src/sw.js is our own worker (push, offline queue); the plugin only injects the precache manifest
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.js',
+      registerType: 'prompt',
+      injectRegister: false,
       includeAssets: ['favicon.ico', 'icon-512x512.png'],
       manifest: {
         name: 'StableCoin Banking',
@@ -32,9 +37,13 @@ export default defineConfig(({ mode }) => ({
           }
         ]
       },
-      workbox: {
+      injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5 MB
+      },
+      devOptions: {
+        enabled: true,
+        type: 'classic'
       }
     })
   ].filter(Boolean),